@@ -1,56 +1,698 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import VideoLibrary from './components/VideoLibrary';
 import VideoPlayer from './components/VideoPlayer';
-import { VideoFile } from './types';
+import QueuePanel from './components/QueuePanel';
+import SettingsPanel from './components/SettingsPanel';
+import PinDialog from './components/PinDialog';
+import PrivacyPanel from './components/PrivacyPanel';
+import {
+  VideoFile, StorageRoot, WatchProgress, ThumbnailEntry, PlayQueue, Playlist, AppSettings, SettingsSnapshot, FileChange
+} from './types';
+import {
+  loadLibrary, rescanRoot, rescanRoots, pickStorageRoot, importFileList, verifyPermission, renameStorageRoot,
+  removeStorageRoot, addNetworkStream, detectStreamKind, videoIdentity, ReconcileResult
+} from './services/library';
+import { hasSource } from './services/objectUrls';
+import { loadProgress, saveProgress, getVideoProgress, setWatched } from './services/progress';
+import {
+  ActionResult, renameVideo, moveVideos, deleteVideos, moveFolder, deleteFolder, undoChange, fileActionMessage
+} from './services/fileActions';
+import { HiddenEntry, supportsVault } from './services/vault';
+import { FolderNode } from './services/folders';
+import { ensureThumbnailCache, refreshThumbnailCache, withThumbnails, queueThumbnails } from './services/thumbnails';
+import { findUnplayable, issueMessage } from './services/probe';
+import {
+  createQueue, currentId, hasNext, hasPrev, step, jumpTo, toggleShuffle, cycleRepeat, moveItem, removeItem, pruneQueue
+} from './services/queue';
+import {
+  loadPlaylists, savePlaylist, deletePlaylist, createPlaylist, parseM3U, toM3U, retargetPlaylists
+} from './services/playlists';
+import {
+  DEFAULT_SNAPSHOT, loadSettings, saveSettings, resolveSettings, exportSettings, importSettings, moveOverrides
+} from './services/settings';
+import { createI18n, I18n } from './services/i18n';
+import { I18nContext } from './hooks/useI18n';
+import { useWatchParty } from './hooks/useWatchParty';
+import { useVault } from './hooks/useVault';
+import { PartyCommand, PartyMedia, matchesMedia } from './services/watchParty';
+import { downloadFile } from './utils/download';
+
+const describeChanges = ({ t }: I18n, { added, removed, duplicates }: Omit<ReconcileResult, 'videos'>) => {
+  if (!added && !removed && !duplicates) return null;
+  const parts: string[] = [];
+  if (added) parts.push(t('app.addedVideos', { count: added }));
+  if (removed) parts.push(t('app.removedVideos', { count: removed }));
+  if (duplicates) parts.push(t('app.duplicateVideos', { count: duplicates }));
+  return parts.join(' • ');
+};
+
+const NO_VIDEOS: VideoFile[] = [];
+
+const sameExceptThumbnail = (a: VideoFile, b: VideoFile) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof VideoFile)[]);
+  return [...keys].every(key => key === 'duration' || key === 'thumbnail' || a[key] === b[key]);
+};
 
 const App: React.FC = () => {
   const [videos, setVideos] = useState<VideoFile[]>([]);
-  const [currentVideoIndex, setCurrentVideoIndex] = useState<number | null>(null);
+  const [roots, setRoots] = useState<StorageRoot[]>([]);
+  const [pendingRootIds, setPendingRootIds] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [progress, setProgress] = useState<Record<string, WatchProgress>>({});
+  const [queue, setQueue] = useState<PlayQueue | null>(null);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<SettingsSnapshot>(DEFAULT_SNAPSHOT);
+  const settingsLoadedRef = useRef(false);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  // The last rename or move, until it is undone or dismissed
+  const [undo, setUndo] = useState<{ change: FileChange; label: string } | null>(null);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  // Asks for the private folder's PIN, or a new one, before `then`
+  const [pinPrompt, setPinPrompt] = useState<{ mode: 'create' | 'unlock'; then?: () => void } | null>(null);
+  const vault = useVault(videos);
+  // Nothing is listed until the private folder has been checked
+  const visibleVideos = useMemo(() => {
+    if (!vault.checked) return NO_VIDEOS;
+    if (vault.status === 'unlocked') return videos;
+    return videos.filter(v => !vault.hiddenIds.has(v.id));
+  }, [videos, vault.checked, vault.status, vault.hiddenIds]);
+  const appLocked = vault.status === 'locked' && vault.options.lockOnStart;
+
+  const videosById = useMemo(() => new Map<string, VideoFile>(videos.map(v => [v.id, v])), [videos]);
+  // The thumbnail queue fills in the duration and thumbnail of videos as it
+  // gets to them. The playing video keeps the object it started with, since
+  // the player's effects would otherwise load it again from the start.
+  const playingRef = useRef<VideoFile>();
+  const listedVideo = queue ? videosById.get(currentId(queue) ?? '') : undefined;
+  const currentVideo = listedVideo && playingRef.current && sameExceptThumbnail(listedVideo, playingRef.current)
+    ? playingRef.current
+    : listedVideo;
+  playingRef.current = currentVideo;
+
+  const stepQueue = useCallback((direction: 1 | -1) => {
+    setQueue(prev => prev && (step(prev, direction) ?? prev));
+  }, []);
+
+  // Guests follow the host from video to video, matching files by content
+  const party = useWatchParty({
+    onRemoteMedia: (media: PartyMedia) => {
+      // Back in the library, a guest stays there until it opens a video
+      if (!currentVideo || matchesMedia(media, currentVideo)) return true;
+      const found = videos.find(v => matchesMedia(media, v));
+      if (!found) return false;
+      setQueue(prev => prev?.items.includes(found.id)
+        ? jumpTo(prev, prev.items.indexOf(found.id))
+        : createQueue([found.id]));
+      return true;
+    },
+    onCommand: (command: PartyCommand) => {
+      if (command.action === 'next') stepQueue(1);
+      if (command.action === 'prev') stepQueue(-1);
+    }
+  });
+  const following = party.status === 'connected' && party.role === 'guest';
+  const i18n = useMemo(() => createI18n(settings.defaults.language), [settings.defaults.language]);
+  // The restore effect runs once, so it reads the language through a ref
+  const i18nRef = useRef(i18n);
+  i18nRef.current = i18n;
+  const resolvedSettings = useMemo(() => resolveSettings(settings, currentVideo), [settings, currentVideo]);
+
+  const handleThumbnail = useCallback((videoId: string, entry: ThumbnailEntry) => {
+    setVideos(prev => prev.map(v => v.id === videoId
+      ? { ...v, duration: entry.duration, thumbnail: entry.thumbnail ?? undefined }
+      : v));
+  }, []);
+
+  // Reads the headers of newly found files and adds what won't play to
+  // the import notice.
+  const reportUnplayable = useCallback(async (videos: VideoFile[]) => {
+    const unplayable = await findUnplayable(videos);
+    if (!unplayable.length) return;
+    const { t } = i18nRef.current;
+    const [{ video, issue }] = unplayable;
+    const { key, params } = issueMessage(issue);
+    const message = t('app.unplayable', { count: unplayable.length, name: video.name, reason: t(key, params) });
+    setNotice(prev => prev ? `${prev} • ${message}` : message);
+  }, []);
+
+  // Hidden videos are only in the library while the private folder is
+  // unlocked, so it loads again whenever that changes
+  const libraryScope = vault.status === 'loading' ? null : vault.status === 'unlocked';
+
+  // Restore the library and silently rescan every root we still have access to.
+  useEffect(() => {
+    if (libraryScope === null) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const [stored] = await Promise.all([loadLibrary(), ensureThumbnailCache()]);
+        if (cancelled) return;
+        setVideos(withThumbnails(stored.videos));
+        setRoots(stored.roots);
+
+        const result = await rescanRoots(stored.roots, stored.videos);
+        if (cancelled) return;
+        const current = withThumbnails(result.videos);
+        setVideos(current);
+        setPendingRootIds(result.pending);
+        queueThumbnails(current, handleThumbnail);
+        setNotice(describeChanges(i18nRef.current, result));
+        reportUnplayable(current);
+      } catch (err) {
+        console.error('Failed to restore library:', err);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [libraryScope, handleThumbnail, reportUnplayable]);
+
+  useEffect(() => {
+    loadPlaylists()
+      .then(setPlaylists)
+      .catch(err => console.error('Failed to load playlists:', err));
+  }, []);
 
-  const handleAddVideos = useCallback((newVideos: VideoFile[]) => {
-    setVideos(prev => [...prev, ...newVideos]);
+  // Files can disappear from under the queue after a rescan, and hidden
+  // ones when the private folder locks
+  useEffect(() => {
+    if (!vault.checked) return;
+    setQueue(prev => prev && pruneQueue(prev, new Set(visibleVideos.map(v => v.id))));
+  }, [visibleVideos, vault.checked]);
+
+  useEffect(() => {
+    loadSettings()
+      .then(loaded => {
+        settingsLoadedRef.current = true;
+        setSettings(loaded);
+      })
+      .catch(err => console.error('Failed to load settings:', err));
+  }, []);
+
+  // Every change is written through; nothing is saved until the stored
+  // settings have loaded, so the defaults can't overwrite them.
+  useEffect(() => {
+    if (!settingsLoadedRef.current) return;
+    saveSettings(settings).catch(err => console.error('Failed to save settings:', err));
+  }, [settings]);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.defaults.language;
+  }, [settings.defaults.language]);
+
+  const handleDefaultsChange = useCallback((patch: Partial<AppSettings>) => {
+    setSettings(prev => ({ ...prev, defaults: { ...prev.defaults, ...patch } }));
   }, []);
 
-  const handlePlayVideo = useCallback((index: number) => {
-    setCurrentVideoIndex(index);
+  const handleImportSettings = useCallback(async (file: File) => {
+    try {
+      setSettings(importSettings(await file.text()));
+      setNotice(i18n.t('app.settingsImported'));
+    } catch (err) {
+      console.error('Failed to import settings:', err);
+      setNotice(i18n.t('app.settingsImportFailed'));
+    }
+  }, [i18n]);
+
+  const handleExportSettings = useCallback(() => {
+    downloadFile('v-player-settings.json', exportSettings(settings), 'application/json');
+  }, [settings]);
+
+  // Hidden videos' progress and thumbnails can only be read while the
+  // private folder is unlocked
+  useEffect(() => {
+    if (vault.status === 'loading') return;
+    loadProgress()
+      .then(setProgress)
+      .catch(err => console.error('Failed to load watch progress:', err));
+    if (vault.status !== 'unlocked') return;
+    refreshThumbnailCache()
+      .then(() => setVideos(prev => withThumbnails(prev)))
+      .catch(err => console.error('Failed to load thumbnails:', err));
+  }, [vault.status]);
+
+  const handleProgress = useCallback(async (video: VideoFile, position: number, duration: number) => {
+    try {
+      const record = await saveProgress(video, position, duration);
+      setProgress(prev => ({ ...prev, [record.identity]: record }));
+    } catch (err) {
+      console.error('Failed to save watch progress:', err);
+      setNotice(i18nRef.current.t('app.progressFailed'));
+    }
   }, []);
 
+  const applyResult = useCallback((result: ReconcileResult) => {
+    const videos = withThumbnails(result.videos);
+    setVideos(videos);
+    setNotice(describeChanges(i18n, result));
+    queueThumbnails(videos, handleThumbnail);
+    reportUnplayable(videos);
+  }, [i18n, handleThumbnail, reportUnplayable]);
+
+  // Importing a folder again rescans the root it became the first time
+  const handleImportFiles = useCallback(async (files: File[]) => {
+    try {
+      const result = await importFileList(files, roots, videos);
+      if (!result) return;
+      setRoots(prev => prev.some(r => r.id === result.root.id) ? prev : [...prev, result.root]);
+      applyResult(result);
+    } catch (err) {
+      console.error('Failed to import files:', err);
+      setNotice(i18n.t('app.importFailed'));
+    }
+  }, [i18n, roots, videos, applyResult]);
+
+  const handleRescanRoot = useCallback(async (root: StorageRoot) => {
+    try {
+      if (!root.handle || !(await verifyPermission(root.handle, true))) return;
+      setPendingRootIds(prev => prev.filter(id => id !== root.id));
+      applyResult(await rescanRoot(root, videos));
+    } catch (err) {
+      console.error(`Failed to rescan ${root.name}:`, err);
+      setNotice(i18n.t('app.rescanFailed', { name: root.name }));
+    }
+  }, [i18n, videos, applyResult]);
+
+  const handleAddStorageRoot = useCallback(async () => {
+    const root = await pickStorageRoot(roots);
+    if (!root) return;
+    if (roots.some(r => r.id === root.id)) {
+      handleRescanRoot(root);
+      return;
+    }
+    setRoots(prev => [...prev, root]);
+    try {
+      applyResult(await rescanRoot(root, videos));
+    } catch (err) {
+      console.error(`Failed to scan ${root.name}:`, err);
+      setNotice(i18n.t('app.rescanFailed', { name: root.name }));
+    }
+  }, [i18n, roots, videos, applyResult, handleRescanRoot]);
+
+  const handleRenameRoot = useCallback(async (root: StorageRoot, name: string) => {
+    try {
+      const renamed = await renameStorageRoot(root, name);
+      setRoots(prev => prev.map(r => r.id === renamed.id ? renamed : r));
+    } catch (err) {
+      console.error(`Failed to rename ${root.name}:`, err);
+      setNotice(i18n.t('app.renameRootFailed', { name: root.name }));
+    }
+  }, [i18n]);
+
+  // Folders and roots can hold hidden files, which the library doesn't
+  // load while the private folder is locked; changing them then would lose
+  // track of those. Unlocking loads them, and the change is made again
+  // from there rather than with the list from before.
+  const withHiddenLoaded = useCallback((action: () => void) => {
+    if (vault.status === 'locked') setPinPrompt({ mode: 'unlock', then: () => setNotice(i18n.t('app.unlockedTryAgain')) });
+    else action();
+  }, [vault.status, i18n]);
+
+  // The other roots are rescanned so copies that were left out as
+  // duplicates of the removed root's files show up again.
+  const handleRemoveRoot = useCallback((root: StorageRoot) => {
+    withHiddenLoaded(async () => {
+      const remaining = roots.filter(r => r.id !== root.id);
+      setRoots(remaining);
+      try {
+        const result = await rescanRoots(remaining, await removeStorageRoot(root, videos));
+        setPendingRootIds(result.pending);
+        applyResult(result);
+      } catch (err) {
+        console.error(`Failed to remove ${root.name}:`, err);
+        setNotice(i18n.t('app.rootsFailed'));
+      }
+    });
+  }, [i18n, roots, videos, applyResult, withHiddenLoaded]);
+
+  // Permission requests need a user gesture, so re-linking roots that lost
+  // access after a reload happens from a button in the library.
+  const handleReconnectRoots = useCallback(async () => {
+    try {
+      const result = await rescanRoots(roots.filter(r => pendingRootIds.includes(r.id)), videos, true);
+      setPendingRootIds(result.pending);
+      applyResult(result);
+    } catch (err) {
+      console.error('Failed to reconnect storage folders:', err);
+      setNotice(i18n.t('app.rootsFailed'));
+    }
+  }, [i18n, videos, roots, pendingRootIds, applyResult]);
+
+  // Adds the stream to the library, or finds it there, and plays it
+  const handleOpenStream = useCallback(async (url: string, name: string) => {
+    try {
+      const kind = await detectStreamKind(url);
+      const result = await addNetworkStream(url, name, kind, roots, videos);
+      setRoots(prev => prev.some(r => r.id === result.root.id) ? prev : [...prev, result.root]);
+      setVideos(result.videos);
+      setQueue(createQueue([result.video.id]));
+    } catch (err) {
+      console.error('Failed to open the stream:', err);
+      setNotice(i18n.t('app.streamFailed'));
+    }
+  }, [i18n, roots, videos]);
+
+  // Starts a new queue over `list`, e.g. the open folder or a playlist
+  const handlePlayVideos = useCallback((list: VideoFile[], start?: VideoFile, shuffle = false) => {
+    const first = start ?? list[0];
+    if (!first) return;
+    if (!hasSource(first) && first.rootId && pendingRootIds.includes(first.rootId)) {
+      handleReconnectRoots();
+      return;
+    }
+    setQueue(createQueue(list.map(v => v.id), start?.id, shuffle));
+  }, [pendingRootIds, handleReconnectRoots]);
+
   const handleBackToLibrary = useCallback(() => {
-    setCurrentVideoIndex(null);
+    setQueue(null);
+    setShowQueue(false);
+    setShowSettings(false);
   }, []);
 
+  // A guest asks the host to move on instead, and follows it there
   const handleNextVideo = useCallback(() => {
-    if (currentVideoIndex !== null && currentVideoIndex < videos.length - 1) {
-      setCurrentVideoIndex(currentVideoIndex + 1);
-    }
-  }, [currentVideoIndex, videos.length]);
+    if (following) party.send({ type: 'command', command: { action: 'next' } });
+    else stepQueue(1);
+  }, [following, party.send, stepQueue]);
 
   const handlePrevVideo = useCallback(() => {
-    if (currentVideoIndex !== null && currentVideoIndex > 0) {
-      setCurrentVideoIndex(currentVideoIndex - 1);
+    if (following) party.send({ type: 'command', command: { action: 'prev' } });
+    else stepQueue(-1);
+  }, [following, party.send, stepQueue]);
+
+  const handleSavePlaylist = useCallback(async (playlist: Playlist) => {
+    try {
+      const saved = await savePlaylist(playlist);
+      setPlaylists(prev => prev.some(p => p.id === saved.id)
+        ? prev.map(p => p.id === saved.id ? saved : p)
+        : [...prev, saved]);
+    } catch (err) {
+      console.error('Failed to save playlist:', err);
+      setNotice(i18n.t('app.playlistSaveFailed', { name: playlist.name }));
+    }
+  }, [i18n]);
+
+  const handleSaveQueueAsPlaylist = useCallback((name: string) => {
+    if (!queue) return;
+    const paths = queue.items.map(id => videosById.get(id)?.relativePath).filter((p): p is string => !!p);
+    handleSavePlaylist(createPlaylist(name, paths));
+  }, [queue, videosById, handleSavePlaylist]);
+
+  const handleDeletePlaylist = useCallback(async (id: string) => {
+    try {
+      await deletePlaylist(id);
+      setPlaylists(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      console.error('Failed to delete playlist:', err);
+      setNotice(i18n.t('app.playlistDeleteFailed'));
+    }
+  }, [i18n]);
+
+  // Missing entries are reported before saving, so a failed save replaces
+  // that notice with its own
+  const handleImportPlaylist = useCallback(async (file: File) => {
+    let parsed: ReturnType<typeof parseM3U>;
+    try {
+      parsed = parseM3U(await file.text(), file.name, videos);
+    } catch (err) {
+      console.error('Failed to read playlist:', err);
+      setNotice(i18n.t('app.playlistImportFailed', { name: file.name }));
+      return;
+    }
+    const { playlist, missing } = parsed;
+    if (missing) setNotice(i18n.t('app.playlistMissing', { name: playlist.name, count: missing }));
+    await handleSavePlaylist(playlist);
+  }, [videos, i18n, handleSavePlaylist]);
+
+  const handleExportPlaylist = useCallback((playlist: Playlist) => {
+    downloadFile(`${playlist.name}.m3u8`, toM3U(playlist, videos), 'application/vnd.apple.mpegurl');
+  }, [videos]);
+
+  // Takes in what a file action did. Renames and moves carry watch
+  // progress, settings overrides and playlist entries along with the files.
+  const applyAction = useCallback(async (result: ActionResult, label: string | null) => {
+    const { t } = i18n;
+    const { change, failures } = result;
+    setVideos(result.videos);
+    setUndo(change && label ? { change, label } : null);
+    if (failures.length) {
+      const reason = t(fileActionMessage(failures[0]));
+      setNotice(failures.length > 1 ? t('action.failedMany', { count: failures.length, reason }) : reason);
     }
-  }, [currentVideoIndex]);
+    if (!change) return;
+    vault.followChange(change).catch(err => console.error('Failed to update the private folder:', err));
+    setSettings(prev => moveOverrides(prev, change));
+    await Promise.all(retargetPlaylists(playlists, change).map(handleSavePlaylist));
+    try {
+      setProgress(await loadProgress());
+    } catch (err) {
+      console.error('Failed to load watch progress:', err);
+      setNotice(t('app.progressLoadFailed'));
+    }
+  }, [i18n, playlists, handleSavePlaylist, vault.followChange]);
+
+  // What the actions can't put down to a file, like the database refusing
+  // a write, ends up here
+  const handleActionError = useCallback((err: unknown) => {
+    console.error('File action failed:', err);
+    setNotice(i18n.t('fileAction.failed'));
+  }, [i18n]);
+
+  // Runs `action` once the private folder is open, asking for the PIN, or
+  // for a new one when there is none yet
+  const withVault = useCallback((action: () => void) => {
+    if (vault.status === 'unlocked') action();
+    else if (vault.status !== 'loading') setPinPrompt({ mode: vault.status === 'none' ? 'create' : 'unlock', then: action });
+  }, [vault.status]);
+
+  const handleRenameVideo = useCallback(async (video: VideoFile, name: string) => {
+    try {
+      await applyAction(await renameVideo(video, name, roots, videos), i18n.t('action.renamed', { name }));
+    } catch (err) {
+      handleActionError(err);
+    }
+  }, [roots, videos, i18n, applyAction, handleActionError]);
+
+  const handleMoveVideos = useCallback(async (list: VideoFile[], folder: FolderNode) => {
+    try {
+      const folders = folder.key.split('/').slice(1);
+      const result = await moveVideos(list, folder.root.id, folders, roots, videos);
+      await applyAction(result, i18n.t('action.moved', { count: result.change?.after.length ?? 0, folder: folder.name }));
+    } catch (err) {
+      handleActionError(err);
+    }
+  }, [roots, videos, i18n, applyAction, handleActionError]);
+
+  const handleDeleteVideos = useCallback(async (list: VideoFile[]) => {
+    try {
+      const result = await deleteVideos(list, roots, videos);
+      const deleted = list.length - result.failures.length;
+      if (deleted && !result.failures.length) setNotice(i18n.t('action.deleted', { count: deleted }));
+      await applyAction(result, null);
+    } catch (err) {
+      handleActionError(err);
+    }
+  }, [roots, videos, i18n, applyAction, handleActionError]);
+
+  const handleRenameFolder = useCallback((folder: FolderNode, name: string) => {
+    withHiddenLoaded(async () => {
+      try {
+        const from = folder.key.split('/').slice(1);
+        const result = await moveFolder(folder.root.id, from, [...from.slice(0, -1), name], roots, videos);
+        await applyAction(result, i18n.t('action.renamed', { name }));
+      } catch (err) {
+        handleActionError(err);
+      }
+    });
+  }, [roots, videos, i18n, applyAction, handleActionError, withHiddenLoaded]);
+
+  const handleDeleteFolder = useCallback((folder: FolderNode) => {
+    withHiddenLoaded(async () => {
+      try {
+        await applyAction(await deleteFolder(folder.root.id, folder.key.split('/').slice(1), roots, videos), null);
+      } catch (err) {
+        handleActionError(err);
+      }
+    });
+  }, [roots, videos, applyAction, handleActionError, withHiddenLoaded]);
+
+  const handleUndo = useCallback(() => {
+    if (!undo) return;
+    withHiddenLoaded(async () => {
+      setUndo(null);
+      try {
+        await applyAction(await undoChange(undo.change, roots, videos), null);
+      } catch (err) {
+        handleActionError(err);
+      }
+    });
+  }, [undo, roots, videos, applyAction, handleActionError, withHiddenLoaded]);
+
+  const handleMarkWatched = useCallback(async (list: VideoFile[], watched: boolean) => {
+    try {
+      const records = await Promise.all(list.map(video => setWatched(video, watched)));
+      setProgress(prev => {
+        const next = { ...prev };
+        list.forEach((video, i) => {
+          const record = records[i];
+          if (record) next[record.identity] = record;
+          else delete next[videoIdentity(video)];
+        });
+        return next;
+      });
+    } catch (err) {
+      console.error('Failed to mark videos watched:', err);
+      setNotice(i18n.t('app.progressFailed'));
+    }
+  }, [i18n]);
+
+  const handleSetHidden = useCallback((entries: HiddenEntry[], hidden: boolean) => {
+    if (!entries.length) return;
+    withVault(async () => {
+      try {
+        await (hidden ? vault.hide(entries) : vault.unhide(entries));
+        setNotice(i18n.t(hidden ? 'privacy.hiddenNotice' : 'privacy.shownNotice', { count: entries.length }));
+      } catch (err) {
+        console.error('Failed to update the private folder:', err);
+        setNotice(i18n.t('privacy.failed'));
+      }
+    });
+  }, [withVault, vault.hide, vault.unhide, i18n]);
+
+  const handlePinSubmit = useCallback(async (pin: string) => {
+    if (!pinPrompt) return false;
+    if (pinPrompt.mode === 'create') await vault.create(pin);
+    else if (!(await vault.unlock(pin))) return false;
+    setPinPrompt(null);
+    pinPrompt.then?.();
+    return true;
+  }, [pinPrompt, vault.create, vault.unlock]);
+
+  const handleRemoveVault = useCallback(async () => {
+    setShowPrivacy(false);
+    await vault.remove();
+    setNotice(i18n.t('privacy.turnedOff'));
+  }, [vault.remove, i18n]);
+
+  if (appLocked) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <PinDialog mode="unlock" onSubmit={vault.unlock} />
+      </I18nContext.Provider>
+    );
+  }
 
   return (
-    <div className="h-screen w-screen bg-black overflow-hidden flex flex-col">
-      {currentVideoIndex === null ? (
-        <VideoLibrary 
-          videos={videos} 
-          onAddVideos={handleAddVideos} 
-          onPlayVideo={handlePlayVideo} 
-        />
-      ) : (
-        <VideoPlayer 
-          video={videos[currentVideoIndex]} 
-          onBack={handleBackToLibrary}
-          onNext={handleNextVideo}
-          onPrev={handlePrevVideo}
-          hasNext={currentVideoIndex < videos.length - 1}
-          hasPrev={currentVideoIndex > 0}
-        />
-      )}
-    </div>
+    <I18nContext.Provider value={i18n}>
+      <div className="relative h-screen w-screen bg-black overflow-hidden flex flex-col">
+        {!queue || !currentVideo ? (
+          <VideoLibrary
+            videos={visibleVideos}
+            roots={roots}
+            progress={progress}
+            playlists={playlists}
+            pendingRoots={roots.filter(r => pendingRootIds.includes(r.id))}
+            notice={notice}
+            onDismissNotice={() => setNotice(null)}
+            onImportFiles={handleImportFiles}
+            onAddStorageRoot={handleAddStorageRoot}
+            onOpenStream={handleOpenStream}
+            onReconnectRoots={handleReconnectRoots}
+            onRescanRoot={handleRescanRoot}
+            onRenameRoot={handleRenameRoot}
+            onRemoveRoot={handleRemoveRoot}
+            onPlayVideos={handlePlayVideos}
+            onSavePlaylist={handleSavePlaylist}
+            onDeletePlaylist={handleDeletePlaylist}
+            onImportPlaylist={handleImportPlaylist}
+            onExportPlaylist={handleExportPlaylist}
+            onShowSettings={() => setShowSettings(open => !open)}
+            trackHistory={settings.defaults.trackHistory}
+            onTrackHistoryChange={(trackHistory: boolean) => handleDefaultsChange({ trackHistory })}
+            onRenameVideo={handleRenameVideo}
+            onMoveVideos={handleMoveVideos}
+            onDeleteVideos={handleDeleteVideos}
+            onRenameFolder={handleRenameFolder}
+            onDeleteFolder={handleDeleteFolder}
+            onMarkWatched={handleMarkWatched}
+            undoLabel={undo?.label ?? null}
+            onUndo={handleUndo}
+            onDismissUndo={() => setUndo(null)}
+            hiddenIds={vault.hiddenIds}
+            directIds={vault.directIds}
+            hiddenFolders={vault.hiddenFolders}
+            privacyUnlocked={vault.status === 'unlocked'}
+            onSetHidden={handleSetHidden}
+            onOpenPrivacy={supportsVault() ? () => withVault(() => setShowPrivacy(true)) : undefined}
+          />
+        ) : (
+          <>
+            <VideoPlayer
+              video={currentVideo}
+              progress={getVideoProgress(progress, currentVideo)}
+              onProgress={handleProgress}
+              onBack={handleBackToLibrary}
+              onNext={handleNextVideo}
+              onPrev={handlePrevVideo}
+              hasNext={following || hasNext(queue)}
+              hasPrev={following || hasPrev(queue)}
+              repeatOne={queue.repeat === 'one'}
+              defaults={resolvedSettings}
+              onDefaultsChange={handleDefaultsChange}
+              nextTitle={hasNext(queue) ? videosById.get(currentId(step(queue, 1)!) ?? '')?.name : undefined}
+              onShowQueue={() => { setShowQueue(open => !open); setShowSettings(false); }}
+              onShowSettings={() => { setShowSettings(open => !open); setShowQueue(false); }}
+              party={party}
+            />
+            {showQueue && (
+              <QueuePanel
+                queue={queue}
+                videosById={videosById}
+                autoplayNext={resolvedSettings.autoplayNext}
+                onToggleAutoplay={() => handleDefaultsChange({ autoplayNext: !resolvedSettings.autoplayNext })}
+                onJump={(position) => setQueue(jumpTo(queue, position))}
+                onMove={(from, to) => setQueue(moveItem(queue, from, to))}
+                onRemove={(position) => setQueue(removeItem(queue, position))}
+                onToggleShuffle={() => setQueue(toggleShuffle(queue))}
+                onCycleRepeat={() => setQueue(cycleRepeat(queue))}
+                onSaveAsPlaylist={handleSaveQueueAsPlaylist}
+                onClose={() => setShowQueue(false)}
+              />
+            )}
+          </>
+        )}
+        {showSettings && (
+          <SettingsPanel
+            snapshot={settings}
+            video={currentVideo}
+            onChange={setSettings}
+            onImport={handleImportSettings}
+            onExport={handleExportSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+        {showPrivacy && vault.status === 'unlocked' && (
+          <PrivacyPanel
+            entries={vault.entries}
+            options={vault.options}
+            onUnhide={(entry: HiddenEntry) => handleSetHidden([entry], false)}
+            onOptionsChange={(options) => vault.setOptions(options)
+              .catch(err => console.error('Failed to save the private folder options:', err))}
+            onChangePin={vault.changePin}
+            onLock={() => { setShowPrivacy(false); vault.lock(); }}
+            onRemove={handleRemoveVault}
+            onClose={() => setShowPrivacy(false)}
+          />
+        )}
+        {pinPrompt && (
+          <PinDialog
+            mode={pinPrompt.mode}
+            onSubmit={handlePinSubmit}
+            onClose={() => setPinPrompt(null)}
+          />
+        )}
+      </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,111 @@
+import React from 'react';
+import { X, RotateCcw, RotateCw, FlipHorizontal2, Sun, Contrast, Droplet, Palette, SunMoon, ZoomIn } from 'lucide-react';
+import { VideoAdjustments, VideoView } from '../types';
+import { ADJUSTMENT_RANGES, DEFAULT_VIEW, MAX_ZOOM, rotateBy } from '../services/adjustments';
+import { useI18n } from '../hooks/useI18n';
+import { MIN_BRIGHTNESS, MAX_BRIGHTNESS } from './GestureLayer';
+
+interface AdjustmentsPanelProps {
+  brightness: number;
+  adjustments: VideoAdjustments;
+  view: VideoView;
+  onBrightnessChange: (brightness: number) => void;
+  onAdjustmentsChange: (change: Partial<VideoAdjustments>) => void;
+  onViewChange: (view: VideoView) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({
+  brightness, adjustments, view, onBrightnessChange, onAdjustmentsChange, onViewChange, onReset, onClose
+}) => {
+  const { t, formatNumber } = useI18n();
+
+  const slider = (
+    icon: React.ReactNode,
+    label: string,
+    value: number,
+    range: { min: number; max: number; step: number },
+    onChange: (value: number) => void,
+    shown: string
+  ) => (
+    <div className="flex items-center gap-3">
+      <span className="text-gray-400">{icon}</span>
+      <span className="text-sm w-20">{label}</span>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="flex-1"
+      />
+      <span className="text-xs font-mono w-12 text-right">{shown}</span>
+    </div>
+  );
+
+  const toggleButton = (active: boolean) =>
+    `flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm ${active ? 'bg-blue-600/20 text-blue-400' : 'bg-white/5 hover:bg-white/10'}`;
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('adjust.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      <section className="space-y-3">
+        {slider(<Sun size={16} />, t('settings.brightness'), brightness, { min: MIN_BRIGHTNESS, max: MAX_BRIGHTNESS, step: 1 },
+          (value) => onBrightnessChange(Math.round(value)), `${formatNumber(brightness)}%`)}
+        {slider(<Contrast size={16} />, t('adjust.contrast'), adjustments.contrast, ADJUSTMENT_RANGES.contrast,
+          (contrast) => onAdjustmentsChange({ contrast }), `${formatNumber(adjustments.contrast)}%`)}
+        {slider(<Droplet size={16} />, t('adjust.saturation'), adjustments.saturation, ADJUSTMENT_RANGES.saturation,
+          (saturation) => onAdjustmentsChange({ saturation }), `${formatNumber(adjustments.saturation)}%`)}
+        {slider(<SunMoon size={16} />, t('adjust.gamma'), adjustments.gamma, ADJUSTMENT_RANGES.gamma,
+          (gamma) => onAdjustmentsChange({ gamma }), formatNumber(adjustments.gamma))}
+        {slider(<Palette size={16} />, t('adjust.hue'), adjustments.hue, ADJUSTMENT_RANGES.hue,
+          (hue) => onAdjustmentsChange({ hue }), `${formatNumber(adjustments.hue)}°`)}
+      </section>
+
+      <section className="space-y-2">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('adjust.orientation')}</p>
+        <div className="flex gap-2">
+          <button onClick={() => onAdjustmentsChange({ rotation: rotateBy(adjustments.rotation, -1) })} className={toggleButton(false)}>
+            <RotateCcw size={16} />
+          </button>
+          <span className="w-14 flex items-center justify-center text-sm font-mono">{formatNumber(adjustments.rotation)}°</span>
+          <button onClick={() => onAdjustmentsChange({ rotation: rotateBy(adjustments.rotation, 1) })} className={toggleButton(false)}>
+            <RotateCw size={16} />
+          </button>
+        </div>
+        <button onClick={() => onAdjustmentsChange({ mirrored: !adjustments.mirrored })} className={`w-full ${toggleButton(adjustments.mirrored)}`}>
+          <FlipHorizontal2 size={16} /> {t('adjust.mirror')}
+        </button>
+      </section>
+
+      <section className="space-y-2">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('adjust.zoom')}</p>
+        {slider(<ZoomIn size={16} />, t('adjust.zoom'), view.zoom, { min: 1, max: MAX_ZOOM, step: 0.05 },
+          (zoom) => onViewChange({ ...view, zoom }), `${formatNumber(Math.round(view.zoom * 100))}%`)}
+        <p className="text-xs text-gray-500">{t('adjust.zoomHint')}</p>
+        {view.zoom !== 1 && (
+          <button onClick={() => onViewChange(DEFAULT_VIEW)} className="w-full py-2 text-xs bg-white/5 hover:bg-white/10 rounded-lg">
+            {t('adjust.resetZoom')}
+          </button>
+        )}
+      </section>
+
+      <button onClick={onReset} className="w-full py-2 text-sm bg-white/5 hover:bg-white/10 rounded-lg">
+        {t('adjust.reset')}
+      </button>
+    </div>
+  );
+};
+
+export default AdjustmentsPanel;
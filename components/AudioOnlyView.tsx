@@ -0,0 +1,112 @@
+import React from 'react';
+import { ArrowLeft, Play, Pause, SkipBack, SkipForward, Music, AudioLines, MonitorPlay, Bookmark as BookmarkIcon, Repeat } from 'lucide-react';
+import { Bookmark, Chapter, LoopRange, VideoFile } from '../types';
+import { ROOT_FOLDER_NAME } from '../services/library';
+import { useI18n } from '../hooks/useI18n';
+import SeekBar from './SeekBar';
+
+interface AudioOnlyViewProps {
+  video: VideoFile;
+  isPlaying: boolean;
+  progress: number;
+  currentTime: number;
+  duration: number;
+  hasPrev: boolean;
+  hasNext: boolean;
+  hasPicture: boolean;
+  loop: LoopRange | null;
+  chapters: Chapter[];
+  bookmarks: Bookmark[];
+  onSeek: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onTogglePlay: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onBack: () => void;
+  onShowAudioPanel: () => void;
+  onShowBookmarks: () => void;
+  onCycleLoop: () => void;
+  onShowVideo: () => void;
+}
+
+// Stands in for the video controls in audio-only mode. Nothing here needs
+// the picture, so playback carries on with the screen off.
+const AudioOnlyView: React.FC<AudioOnlyViewProps> = ({
+  video, isPlaying, progress, currentTime, duration, hasPrev, hasNext, hasPicture, loop, chapters, bookmarks,
+  onSeek, onTogglePlay, onPrev, onNext, onBack, onShowAudioPanel, onShowBookmarks, onCycleLoop, onShowVideo
+}) => {
+  const { t, formatDuration } = useI18n();
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-gradient-to-b from-[#111] to-black p-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <ArrowLeft size={24} />
+        </button>
+        <div className="flex items-center gap-2">
+          {hasPicture && (
+            <button onClick={onShowVideo} className="flex items-center gap-2 px-3 py-1.5 text-xs bg-white/10 hover:bg-white/20 rounded-full">
+              <MonitorPlay size={14} /> {t('audio.showVideo')}
+            </button>
+          )}
+          <button onClick={onShowBookmarks} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <BookmarkIcon size={20} />
+          </button>
+          <button onClick={onShowAudioPanel} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <AudioLines size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-6 min-h-0">
+        <div className="w-56 h-56 max-w-full rounded-3xl overflow-hidden bg-blue-600/10 flex items-center justify-center shadow-2xl">
+          {video.thumbnail
+            ? <img src={video.thumbnail} alt="" className="w-full h-full object-cover" />
+            : <Music size={72} className="text-blue-500" />}
+        </div>
+        <div className="text-center max-w-md px-4">
+          <h2 className="text-lg font-semibold truncate">{video.name}</h2>
+          <p className="text-sm text-gray-500 truncate">{video.folderName === ROOT_FOLDER_NAME ? t('library.internalStorage') : video.folderName}</p>
+        </div>
+      </div>
+
+      <div className="space-y-6 pb-6 max-w-xl w-full mx-auto">
+        <div className="flex items-center gap-4 text-xs font-mono">
+          <span className="w-12 text-right">{formatDuration(currentTime)}</span>
+          <SeekBar
+            progress={progress}
+            duration={duration}
+            trickplay={null}
+            loop={loop}
+            chapters={chapters}
+            bookmarks={bookmarks}
+            onChange={onSeek}
+          />
+          <span className="w-12">{formatDuration(duration)}</span>
+        </div>
+        <div className="relative flex items-center justify-center gap-10">
+          <button onClick={onPrev} disabled={!hasPrev} className={`p-3 rounded-full ${hasPrev ? 'hover:bg-white/10' : 'opacity-30'}`}>
+            <SkipBack size={28} fill="white" />
+          </button>
+          <button
+            onClick={onTogglePlay}
+            className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center shadow-xl shadow-blue-500/20 active:scale-95 transition-all"
+          >
+            {isPlaying ? <Pause size={32} fill="white" /> : <Play size={32} className="ml-1" fill="white" />}
+          </button>
+          <button onClick={onNext} disabled={!hasNext} className={`p-3 rounded-full ${hasNext ? 'hover:bg-white/10' : 'opacity-30'}`}>
+            <SkipForward size={28} fill="white" />
+          </button>
+          <button
+            onClick={onCycleLoop}
+            className={`absolute right-0 flex items-center gap-1 px-3 py-2 rounded-full text-xs font-mono ${loop ? 'bg-yellow-500/30 text-yellow-300' : 'hover:bg-white/10'}`}
+          >
+            <Repeat size={16} />
+            {loop ? (loop.b === null ? 'A' : 'A-B') : null}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioOnlyView;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { X, Check, Moon, Headphones, MonitorPlay } from 'lucide-react';
+import { AudioSettings, EqPreset } from '../types';
+import { EQ_BANDS, EQ_PRESETS, EQ_RANGE_DB, MAX_VOLUME } from '../services/audio';
+import { AudioTrackInfo } from '../hooks/useAudioTracks';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales';
+
+const PRESET_LABELS: Record<EqPreset, MessageKey> = {
+  flat: 'audio.preset.flat',
+  bass: 'audio.preset.bass',
+  treble: 'audio.preset.treble',
+  vocal: 'audio.preset.vocal',
+  rock: 'audio.preset.rock',
+  pop: 'audio.preset.pop',
+  classical: 'audio.preset.classical',
+  custom: 'audio.preset.custom'
+};
+
+interface AudioPanelProps {
+  tracks: AudioTrackInfo[];
+  onSelectTrack: (id: string) => void;
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+  audio: AudioSettings;
+  onAudioChange: (audio: AudioSettings) => void;
+  audioOnly: boolean;
+  // False for files without a picture, which can't leave audio-only mode
+  hasPicture: boolean;
+  onToggleAudioOnly: () => void;
+  onClose: () => void;
+}
+
+const AudioPanel: React.FC<AudioPanelProps> = ({
+  tracks, onSelectTrack, volume, onVolumeChange, audio, onAudioChange, audioOnly, hasPicture, onToggleAudioOnly, onClose
+}) => {
+  const { t, formatNumber } = useI18n();
+
+  const bandLabel = (frequency: number) =>
+    frequency >= 1000 ? `${formatNumber(frequency / 1000)}k` : formatNumber(frequency);
+
+  const setBand = (index: number, gain: number) => onAudioChange({
+    ...audio,
+    eqPreset: 'custom',
+    eqGains: audio.eqGains.map((g, i) => i === index ? gain : g)
+  });
+
+  const toggle = (label: MessageKey, Icon: typeof Moon, on: boolean, onChange: () => void, hint?: MessageKey) => (
+    <button
+      onClick={onChange}
+      className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${on ? 'bg-blue-600/20 text-blue-400' : 'hover:bg-white/5'}`}
+    >
+      <Icon size={16} />
+      <span className="flex-1">
+        {t(label)}
+        {hint && <span className="block text-[11px] text-gray-500">{t(hint)}</span>}
+      </span>
+      {on && <Check size={16} />}
+    </button>
+  );
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('audio.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      {tracks.length > 1 && (
+        <section className="space-y-1">
+          <p className="text-xs text-gray-500 uppercase tracking-wider">{t('audio.tracks')}</p>
+          {tracks.map((track, index) => (
+            <button
+              key={track.id}
+              onClick={() => onSelectTrack(track.id)}
+              className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${track.enabled ? 'bg-blue-600/20 text-blue-400' : 'hover:bg-white/5'}`}
+            >
+              <span className="w-4">{track.enabled && <Check size={16} />}</span>
+              <span className="truncate">
+                {track.label || t('audio.trackFallback', { index: index + 1 })}
+                {track.language && <span className="ml-2 text-xs text-gray-500">{track.language}</span>}
+              </span>
+            </button>
+          ))}
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('audio.boost')}</p>
+        <div className="flex items-center gap-3">
+          <input
+            type="range"
+            min="0"
+            max={MAX_VOLUME}
+            step="0.05"
+            value={volume}
+            onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+            className="flex-1"
+          />
+          <span className={`text-xs font-mono w-10 text-right ${volume > 1 ? 'text-yellow-400' : ''}`}>
+            {formatNumber(Math.round(volume * 100))}%
+          </span>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('audio.equalizer')}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.keys(EQ_PRESETS) as EqPreset[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => onAudioChange({ ...audio, eqPreset: preset, eqGains: EQ_PRESETS[preset as Exclude<EqPreset, 'custom'>] })}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors ${audio.eqPreset === preset ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'border-gray-700 text-gray-400 hover:bg-white/5'}`}
+            >
+              {t(PRESET_LABELS[preset])}
+            </button>
+          ))}
+          {audio.eqPreset === 'custom' && (
+            <span className="px-3 py-1 rounded-full text-xs border bg-blue-600/20 border-blue-500 text-blue-300">
+              {t(PRESET_LABELS.custom)}
+            </span>
+          )}
+        </div>
+        <div className="flex justify-between gap-1">
+          {EQ_BANDS.map((frequency, i) => (
+            <div key={frequency} className="flex flex-col items-center gap-1">
+              <input
+                type="range"
+                min={-EQ_RANGE_DB}
+                max={EQ_RANGE_DB}
+                step="1"
+                value={audio.eqGains[i]}
+                onChange={(e) => setBand(i, parseInt(e.target.value))}
+                className="h-28 w-4"
+                style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+              />
+              <span className="text-[9px] text-gray-500">{bandLabel(frequency)}</span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-1">
+        {toggle('audio.nightMode', Moon, audio.nightMode, () => onAudioChange({ ...audio, nightMode: !audio.nightMode }), 'audio.nightModeHint')}
+        {toggle('audio.mono', Headphones, audio.mono, () => onAudioChange({ ...audio, mono: !audio.mono }))}
+        {hasPicture && toggle('audio.audioOnly', MonitorPlay, audioOnly, onToggleAudioOnly)}
+      </section>
+    </div>
+  );
+};
+
+export default AudioPanel;
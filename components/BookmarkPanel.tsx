@@ -0,0 +1,179 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, Pencil, Upload, Download, BookmarkPlus } from 'lucide-react';
+import { Bookmark, Chapter } from '../types';
+import { exportBookmarks, importBookmarks, toWebVTTChapters } from '../services/bookmarks';
+import { downloadFile } from '../utils/download';
+import { stripExtension } from '../utils/format';
+import { useI18n } from '../hooks/useI18n';
+
+interface BookmarkPanelProps {
+  videoName: string;
+  bookmarks: Bookmark[];
+  chapters: Chapter[];
+  currentTime: number;
+  duration: number;
+  onAdd: (label: string) => void;
+  onRename: (id: string, label: string) => void;
+  onRemove: (id: string) => void;
+  onImport: (bookmarks: Bookmark[]) => void;
+  onJump: (time: number) => void;
+  onClose: () => void;
+}
+
+const BookmarkPanel: React.FC<BookmarkPanelProps> = ({
+  videoName, bookmarks, chapters, currentTime, duration, onAdd, onRename, onRemove, onImport, onJump, onClose
+}) => {
+  const { t, formatDuration } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [label, setLabel] = useState('');
+  const [editing, setEditing] = useState<{ id: string; label: string } | null>(null);
+  const [importFailed, setImportFailed] = useState(false);
+
+  const add = () => {
+    onAdd(label.trim());
+    setLabel('');
+  };
+
+  const commitRename = () => {
+    if (editing) onRename(editing.id, editing.label.trim());
+    setEditing(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onImport(importBookmarks(await file.text()));
+      setImportFailed(false);
+    } catch (err) {
+      console.error('Failed to import bookmarks:', err);
+      setImportFailed(true);
+    }
+  };
+
+  const rowButton = 'p-1.5 text-gray-500 hover:text-white hover:bg-white/10 rounded-full';
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('bookmarks.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      <section className="space-y-2">
+        <div className="flex items-center gap-2">
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+            placeholder={t('bookmarks.labelPlaceholder', { time: formatDuration(currentTime) })}
+            className="flex-1 min-w-0 bg-white/5 border border-gray-800 rounded-lg px-3 py-2 text-sm outline-none focus:border-blue-500"
+          />
+          <button onClick={add} className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg">
+            <Plus size={18} />
+          </button>
+        </div>
+
+        {bookmarks.length === 0 ? (
+          <p className="flex items-center gap-2 px-3 py-2 text-sm text-gray-500">
+            <BookmarkPlus size={16} /> {t('bookmarks.empty')}
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {bookmarks.map(bookmark => (
+              <li key={bookmark.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-white/5">
+                {editing?.id === bookmark.id ? (
+                  <input
+                    autoFocus
+                    value={editing.label}
+                    onChange={(e) => setEditing({ id: bookmark.id, label: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    className="flex-1 min-w-0 bg-white/5 border border-blue-500 rounded px-2 py-1 text-sm outline-none"
+                  />
+                ) : (
+                  <button onClick={() => onJump(bookmark.time)} className="flex-1 min-w-0 flex items-center gap-3 text-left text-sm">
+                    <span className="font-mono text-xs text-blue-400">{formatDuration(bookmark.time)}</span>
+                    <span className="truncate">{bookmark.label || t('bookmarks.untitled')}</span>
+                  </button>
+                )}
+                <button onClick={() => setEditing({ id: bookmark.id, label: bookmark.label })} className={rowButton}>
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => onRemove(bookmark.id)} className={rowButton}>
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('bookmarks.transfer')}</p>
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center justify-center gap-1.5 py-2 bg-white/5 hover:bg-white/10 rounded-lg"
+          >
+            <Upload size={14} /> {t('bookmarks.import')}
+          </button>
+          <button
+            onClick={() => downloadFile(`${stripExtension(videoName)}.bookmarks.json`, exportBookmarks(bookmarks), 'application/json')}
+            disabled={!bookmarks.length}
+            className="flex items-center justify-center gap-1.5 py-2 bg-white/5 hover:bg-white/10 rounded-lg disabled:opacity-40"
+          >
+            <Download size={14} /> JSON
+          </button>
+          <button
+            onClick={() => downloadFile(
+              `${stripExtension(videoName)}.chapters.vtt`,
+              toWebVTTChapters(bookmarks, duration, formatDuration),
+              'text/vtt'
+            )}
+            disabled={!bookmarks.length}
+            className="flex items-center justify-center gap-1.5 py-2 bg-white/5 hover:bg-white/10 rounded-lg disabled:opacity-40"
+          >
+            <Download size={14} /> WebVTT
+          </button>
+        </div>
+        {importFailed && <p className="text-xs text-red-400">{t('bookmarks.importFailed')}</p>}
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          accept=".json,.vtt"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </section>
+
+      {chapters.length > 0 && (
+        <section className="space-y-1">
+          <p className="text-xs text-gray-500 uppercase tracking-wider">{t('bookmarks.chapters')}</p>
+          {chapters.map((chapter, i) => (
+            <button
+              key={`${i}-${chapter.start}`}
+              onClick={() => onJump(chapter.start)}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm hover:bg-white/5"
+            >
+              <span className="font-mono text-xs text-blue-400">{formatDuration(chapter.start)}</span>
+              <span className="truncate">{chapter.title || t('bookmarks.chapterNumber', { number: i + 1 })}</span>
+            </button>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkPanel;
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Scissors, Repeat } from 'lucide-react';
+import { LoopRange, VideoFile } from '../types';
+import { ClipRecording, clipFileName, clipMimeType, recordClip } from '../services/capture';
+import { getRegisteredFile } from '../services/objectUrls';
+import { downloadFile } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+
+// Length offered when there is no A-B loop to start from
+const DEFAULT_CLIP_SECONDS = 30;
+
+type ClipStatus = 'idle' | 'recording' | 'failed';
+
+interface ClipPanelProps {
+  video: VideoFile;
+  currentTime: number;
+  duration: number;
+  loop: LoopRange | null;
+  brightness: number;
+  onClose: () => void;
+}
+
+const ClipPanel: React.FC<ClipPanelProps> = ({ video, currentTime, duration, loop, brightness, onClose }) => {
+  const { t, formatDuration } = useI18n();
+  const [range, setRange] = useState(() => loop?.b != null
+    ? { start: loop.a, end: loop.b }
+    : { start: currentTime, end: Math.min(duration, currentTime + DEFAULT_CLIP_SECONDS) });
+  const [status, setStatus] = useState<ClipStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const recordingRef = useRef<ClipRecording | null>(null);
+  const supported = clipMimeType() !== null;
+  const valid = range.end > range.start;
+
+  // Closing the panel or switching videos stops the recording
+  useEffect(() => () => recordingRef.current?.cancel(), [video]);
+
+  const start = () => {
+    const file = getRegisteredFile(video.id);
+    if (!file || !valid) return;
+    const recording = recordClip(file, range.start, range.end, brightness, setProgress);
+    recordingRef.current = recording;
+    setStatus('recording');
+    setProgress(0);
+    recording.done
+      .then(blob => {
+        downloadFile(clipFileName(video.name, range.start, range.end), blob, blob.type);
+        setStatus('idle');
+      })
+      .catch(err => {
+        if (recordingRef.current !== recording) return;
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          setStatus('idle');
+          return;
+        }
+        console.error('Clip recording failed:', err);
+        setStatus('failed');
+      })
+      .finally(() => {
+        if (recordingRef.current === recording) recordingRef.current = null;
+      });
+  };
+
+  const timeRow = (label: string, value: number, onSet: () => void) => (
+    <div className="flex items-center gap-3">
+      <span className="text-sm w-16">{label}</span>
+      <span className="flex-1 font-mono text-sm text-blue-400">{formatDuration(value)}</span>
+      <button
+        onClick={onSet}
+        disabled={status === 'recording'}
+        className="px-3 py-1.5 text-xs bg-white/5 hover:bg-white/10 rounded-lg disabled:opacity-40"
+      >
+        {t('clip.useCurrent')}
+      </button>
+    </div>
+  );
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('clip.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      {!supported ? (
+        <p className="text-sm text-gray-400">{t('clip.unsupported')}</p>
+      ) : (
+        <>
+          <section className="space-y-3">
+            {timeRow(t('clip.start'), range.start, () => setRange(r => ({ ...r, start: currentTime })))}
+            {timeRow(t('clip.end'), range.end, () => setRange(r => ({ ...r, end: currentTime })))}
+            {loop?.b != null && (
+              <button
+                onClick={() => setRange({ start: loop.a, end: loop.b! })}
+                disabled={status === 'recording'}
+                className="w-full flex items-center justify-center gap-2 py-2 text-xs bg-white/5 hover:bg-white/10 rounded-lg disabled:opacity-40"
+              >
+                <Repeat size={14} /> {t('clip.useLoop')}
+              </button>
+            )}
+            <p className="text-xs text-gray-500">
+              {valid ? t('clip.length', { time: formatDuration(range.end - range.start) }) : t('clip.invalid')}
+            </p>
+          </section>
+
+          <section className="space-y-2">
+            {status === 'recording' ? (
+              <div className="flex items-center gap-3">
+                <div className="flex-1 space-y-1 text-xs">
+                  <p>{t('clip.recording', { percent: Math.floor(progress * 100) })}</p>
+                  <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-red-500" style={{ width: `${progress * 100}%` }} />
+                  </div>
+                </div>
+                <button onClick={() => recordingRef.current?.cancel()} className="p-2 hover:bg-white/10 rounded-full">
+                  <X size={16} />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={start}
+                disabled={!valid}
+                className="w-full flex items-center justify-center gap-2 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm disabled:opacity-40"
+              >
+                <Scissors size={16} /> {t('clip.save')}
+              </button>
+            )}
+            {status === 'failed' && <p className="text-xs text-red-400">{t('clip.failed')}</p>}
+            <p className="text-xs text-gray-500">{t('clip.hint')}</p>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClipPanel;
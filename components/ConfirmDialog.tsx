@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, onConfirm, onClose }) => {
+  const { t } = useI18n();
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        role="alertdialog"
+        className="w-full max-w-sm bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+      >
+        <h3 className="flex items-center gap-2 font-semibold">
+          <AlertTriangle size={18} className="text-red-400" /> {title}
+        </h3>
+        <p className="text-sm text-gray-400 break-words">{message}</p>
+        <div className="flex justify-end gap-2">
+          <button autoFocus onClick={onClose} className="px-4 py-2 rounded-full text-sm text-gray-400 hover:bg-white/5">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-full text-sm font-medium"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
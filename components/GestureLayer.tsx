@@ -0,0 +1,279 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Sun, Volume2, Rewind, FastForward, ZoomIn } from 'lucide-react';
+import { GestureSettings, VideoView } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { MAX_VOLUME } from '../services/audio';
+import { clampView, zoomAt } from '../services/adjustments';
+
+export const MIN_BRIGHTNESS = 20;
+export const MAX_BRIGHTNESS = 150;
+
+// Share of the width on each side where a double tap skips
+const EDGE_ZONE = 0.35;
+const HUD_HIDE_MS = 600;
+// Zoom per pixel of wheel travel
+const WHEEL_ZOOM_RATE = 0.002;
+
+// Once zoomed in, a one-finger drag pans instead
+type GestureMode = 'brightness' | 'volume' | 'seek' | 'pan';
+
+interface DragState {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  mode: GestureMode | null;
+  startValue: number;
+  startView: VideoView;
+}
+
+interface PinchState {
+  startDistance: number;
+  // Midpoint relative to the layer centre, as a fraction of its size
+  startMidX: number;
+  startMidY: number;
+  startView: VideoView;
+}
+
+type Hud =
+  | { kind: 'brightness' | 'volume'; value: number }
+  | { kind: 'seek'; delta: number; target: number }
+  | { kind: 'skip'; delta: number }
+  | { kind: 'zoom'; value: number };
+
+interface GestureLayerProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  settings: GestureSettings;
+  skipSeconds: number;
+  disabled: boolean;
+  volume: number;
+  brightness: number;
+  view: VideoView;
+  onVolumeChange: (volume: number) => void;
+  onBrightnessChange: (brightness: number) => void;
+  onSeek: (time: number) => void;
+  onViewChange: (view: VideoView) => void;
+  onTap: () => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const GestureLayer: React.FC<GestureLayerProps> = ({
+  videoRef, settings, skipSeconds, disabled, volume, brightness, view, onVolumeChange, onBrightnessChange, onSeek, onViewChange, onTap
+}) => {
+  const { formatDuration, formatNumber } = useI18n();
+  const formatDelta = (delta: number) => `${delta < 0 ? '-' : '+'}${formatDuration(Math.abs(delta))}`;
+  const dragRef = useRef<DragState | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<PinchState | null>(null);
+  const lastTapRef = useRef<{ time: number; side: 'left' | 'right' | null }>({ time: 0, side: null });
+  const tapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hudTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [hud, setHud] = useState<Hud | null>(null);
+
+  const active = settings.enabled && !disabled;
+
+  useEffect(() => () => {
+    if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+    if (hudTimerRef.current) clearTimeout(hudTimerRef.current);
+  }, []);
+
+  const hideHudSoon = () => {
+    if (hudTimerRef.current) clearTimeout(hudTimerRef.current);
+    hudTimerRef.current = setTimeout(() => setHud(null), HUD_HIDE_MS);
+  };
+
+  const seekTarget = (delta: number) => {
+    const el = videoRef.current;
+    if (!el || !el.duration) return 0;
+    return clamp(el.currentTime + delta, 0, el.duration);
+  };
+
+  const showZoom = (zoom: number) => {
+    setHud({ kind: 'zoom', value: Math.round(zoom * 100) });
+    hideHudSoon();
+  };
+
+  // Position relative to the layer centre, as a fraction of its size
+  const relativePoint = (rect: DOMRect, x: number, y: number) => ({
+    x: (x - rect.left) / rect.width - 0.5,
+    y: (y - rect.top) / rect.height - 0.5
+  });
+
+  const startPinch = (rect: DOMRect) => {
+    const [a, b] = [...pointersRef.current.values()];
+    const mid = relativePoint(rect, (a.x + b.x) / 2, (a.y + b.y) / 2);
+    pinchRef.current = {
+      startDistance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      startMidX: mid.x,
+      startMidY: mid.y,
+      startView: view
+    };
+    // The first finger's drag turns into the pinch
+    dragRef.current = null;
+    if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+    tapTimerRef.current = null;
+  };
+
+  const movePinch = (rect: DOMRect) => {
+    const pinch = pinchRef.current;
+    const [a, b] = [...pointersRef.current.values()];
+    if (!pinch || !a || !b) return;
+    const mid = relativePoint(rect, (a.x + b.x) / 2, (a.y + b.y) / 2);
+    const zoomed = zoomAt(pinch.startView, Math.hypot(a.x - b.x, a.y - b.y) / pinch.startDistance, pinch.startMidX, pinch.startMidY);
+    const next = clampView({ ...zoomed, x: zoomed.x + mid.x - pinch.startMidX, y: zoomed.y + mid.y - pinch.startMidY });
+    onViewChange(next);
+    showZoom(next.zoom);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!active) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointersRef.current.size === 2) {
+      startPinch(e.currentTarget.getBoundingClientRect());
+      return;
+    }
+    if (pinchRef.current) return;
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, mode: null, startValue: 0, startView: view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointersRef.current.has(e.pointerId)) pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pinchRef.current) {
+      movePinch(e.currentTarget.getBoundingClientRect());
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+
+    if (!drag.mode) {
+      if (Math.hypot(dx, dy) < settings.swipeThresholdPx) return;
+      if (drag.startView.zoom > 1) {
+        drag.mode = 'pan';
+      } else if (Math.abs(dx) > Math.abs(dy)) {
+        drag.mode = 'seek';
+      } else if (drag.startX - rect.left < rect.width / 2) {
+        drag.mode = 'brightness';
+        drag.startValue = brightness;
+      } else {
+        drag.mode = 'volume';
+        drag.startValue = volume;
+      }
+    }
+
+    if (hudTimerRef.current) clearTimeout(hudTimerRef.current);
+    if (drag.mode === 'pan') {
+      onViewChange(clampView({ ...drag.startView, x: drag.startView.x + dx / rect.width, y: drag.startView.y + dy / rect.height }));
+    } else if (drag.mode === 'seek') {
+      const delta = (dx / rect.width) * settings.seekSecondsPerWidth;
+      setHud({ kind: 'seek', delta, target: seekTarget(delta) });
+    } else if (drag.mode === 'brightness') {
+      const value = clamp(drag.startValue - (dy / rect.height) * (MAX_BRIGHTNESS - MIN_BRIGHTNESS), MIN_BRIGHTNESS, MAX_BRIGHTNESS);
+      onBrightnessChange(Math.round(value));
+      setHud({ kind: 'brightness', value: Math.round(value) });
+    } else {
+      const value = clamp(drag.startValue - dy / rect.height, 0, MAX_VOLUME);
+      onVolumeChange(value);
+      setHud({ kind: 'volume', value: Math.round(value * 100) });
+    }
+  };
+
+  const handleTap = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / rect.width;
+    const side = ratio < EDGE_ZONE ? 'left' : ratio > 1 - EDGE_ZONE ? 'right' : null;
+    const now = Date.now();
+    const last = lastTapRef.current;
+
+    if (side && last.side === side && now - last.time < settings.doubleTapMs) {
+      if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+      tapTimerRef.current = null;
+      const delta = side === 'left' ? -skipSeconds : skipSeconds;
+      onSeek(seekTarget(delta));
+      setHud({ kind: 'skip', delta });
+      hideHudSoon();
+      // Keep the chain going so repeated taps keep skipping
+      lastTapRef.current = { time: now, side };
+      return;
+    }
+
+    lastTapRef.current = { time: now, side };
+    if (!side) {
+      onTap();
+      return;
+    }
+    // Edge taps wait briefly in case a second tap turns them into a skip
+    tapTimerRef.current = setTimeout(() => {
+      tapTimerRef.current = null;
+      onTap();
+    }, settings.doubleTapMs);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pinchRef.current) {
+      // Lifting one finger ends the pinch; the other one doesn't start a drag
+      if (pointersRef.current.size < 2) pinchRef.current = null;
+      return;
+    }
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!active) {
+      onTap();
+      return;
+    }
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    if (!drag.mode) {
+      handleTap(e);
+      return;
+    }
+    if (drag.mode === 'seek') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      onSeek(seekTarget(((e.clientX - drag.startX) / rect.width) * settings.seekSecondsPerWidth));
+    }
+    hideHudSoon();
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchRef.current = null;
+    dragRef.current = null;
+    setHud(null);
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    if (!active || !e.deltaY) return;
+    const origin = relativePoint(e.currentTarget.getBoundingClientRect(), e.clientX, e.clientY);
+    const next = zoomAt(view, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), origin.x, origin.y);
+    onViewChange(next);
+    showZoom(next.zoom);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-[5] touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onWheel={handleWheel}
+    >
+      {hud && (
+        <div className="absolute top-1/4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/70 px-4 py-2 rounded-full text-sm font-mono pointer-events-none">
+          {hud.kind === 'brightness' && <><Sun size={18} /> {formatNumber(hud.value)}%</>}
+          {hud.kind === 'volume' && <><Volume2 size={18} /> {formatNumber(hud.value)}%</>}
+          {hud.kind === 'zoom' && <><ZoomIn size={18} /> {formatNumber(hud.value)}%</>}
+          {hud.kind === 'seek' && <>{formatDelta(hud.delta)} / {formatDuration(hud.target)}</>}
+          {hud.kind === 'skip' && (
+            <>{hud.delta < 0 ? <Rewind size={18} /> : <FastForward size={18} />} {formatDelta(hud.delta)}</>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GestureLayer;
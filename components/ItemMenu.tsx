@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import { Info } from 'lucide-react';
+
+export interface MenuItem {
+  icon: typeof Info;
+  label: string;
+  onSelect: () => void;
+  danger?: boolean;
+}
+
+interface ItemMenuProps {
+  // The button that opened it; the menu opens below it, or above when it
+  // would run off the bottom of the window
+  anchor: DOMRect;
+  items: MenuItem[];
+  onClose: () => void;
+}
+
+const MENU_WIDTH = 224;
+const ITEM_HEIGHT = 40;
+
+const ItemMenu: React.FC<ItemMenuProps> = ({ anchor, items, onClose }) => {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const height = items.length * ITEM_HEIGHT + 8;
+  const top = anchor.bottom + height > window.innerHeight ? Math.max(8, anchor.top - height) : anchor.bottom;
+  const left = Math.max(8, Math.min(anchor.right - MENU_WIDTH, window.innerWidth - MENU_WIDTH - 8));
+
+  return (
+    <div
+      className="fixed inset-0 z-50"
+      onClick={(e) => { e.stopPropagation(); onClose(); }}
+      onContextMenu={(e) => { e.preventDefault(); onClose(); }}
+    >
+      <div
+        role="menu"
+        className="absolute py-1 bg-[#1a1a1a] border border-gray-800 rounded-xl shadow-xl shadow-black/50"
+        style={{ top, left, width: MENU_WIDTH }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {items.map(({ icon: Icon, label, onSelect, danger }) => (
+          <button
+            key={label}
+            role="menuitem"
+            onClick={() => { onClose(); onSelect(); }}
+            className={`w-full h-10 flex items-center gap-3 px-3 text-sm hover:bg-white/5 ${danger ? 'text-red-400' : 'text-gray-300'}`}
+          >
+            <Icon size={16} /> {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ItemMenu;
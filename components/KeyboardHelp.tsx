@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { X, Keyboard, RotateCcw } from 'lucide-react';
+import { KeyAction, Keymap } from '../types';
+import { DEFAULT_KEYMAP, eventToCombo, rebind } from '../services/keymap';
+import { useI18n } from '../hooks/useI18n';
+
+interface KeyboardHelpProps {
+  keymap: Keymap;
+  onKeymapChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const KeyboardHelp: React.FC<KeyboardHelpProps> = ({ keymap, onKeymapChange, onClose }) => {
+  const { t } = useI18n();
+  const [listeningFor, setListeningFor] = useState<KeyAction | null>(null);
+
+  // While remapping, capture the next key before the player sees it
+  useEffect(() => {
+    if (!listeningFor) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === 'Escape') {
+        setListeningFor(null);
+        return;
+      }
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      onKeymapChange(rebind(keymap, listeningFor, combo));
+      setListeningFor(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listeningFor, keymap, onKeymapChange]);
+
+  return (
+    <div
+      className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4"
+      onClick={(e) => { e.stopPropagation(); onClose(); }}
+    >
+      <div
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-[#111] border border-gray-800 rounded-2xl p-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-semibold">
+            <Keyboard size={18} /> {t('shortcuts.title')}
+          </h3>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onKeymapChange(DEFAULT_KEYMAP)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-400 hover:bg-white/10 rounded-full"
+            >
+              <RotateCcw size={14} /> {t('common.reset')}
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+        <div className="divide-y divide-gray-800/60">
+          {(Object.keys(DEFAULT_KEYMAP) as KeyAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-gray-300">{t(`action.${action}`)}</span>
+              <button
+                onClick={() => setListeningFor(action)}
+                className={`flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/10 ${listeningFor === action ? 'ring-1 ring-blue-500' : ''}`}
+              >
+                {listeningFor === action ? (
+                  <span className="text-xs text-blue-400">{t('shortcuts.pressKey')}</span>
+                ) : keymap[action].length === 0 ? (
+                  <span className="text-xs text-gray-600">—</span>
+                ) : (
+                  keymap[action].map(combo => (
+                    <kbd key={combo} className="px-2 py-0.5 text-xs font-mono bg-white/10 border border-white/10 rounded">
+                      {combo}
+                    </kbd>
+                  ))
+                )}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardHelp;
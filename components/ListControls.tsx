@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, SlidersHorizontal } from 'lucide-react';
+import { ListPreferences, SizeFilter, SortKey, WatchFilter } from '../types';
+import { MessageKey } from '../locales';
+import { SIZE_RANGES } from '../services/search';
+import { useI18n } from '../hooks/useI18n';
+
+const SORT_LABELS: Record<SortKey, MessageKey> = {
+  name: 'list.sort.name',
+  date: 'list.sort.date',
+  size: 'list.sort.size',
+  duration: 'list.sort.duration'
+};
+
+const WATCH_LABELS: Record<WatchFilter, MessageKey> = {
+  all: 'list.all',
+  unwatched: 'watch.unwatched',
+  'in-progress': 'watch.inProgress',
+  watched: 'watch.watched'
+};
+
+const SIZE_FILTERS: SizeFilter[] = ['all', 'small', 'medium', 'large'];
+
+interface ListControlsProps {
+  prefs: ListPreferences;
+  containers: string[];
+  resultCount: number;
+  onChange: (prefs: ListPreferences) => void;
+}
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs border transition-colors ${active ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'border-gray-700 text-gray-400 hover:bg-white/5'}`;
+
+const ListControls: React.FC<ListControlsProps> = ({ prefs, containers, resultCount, onChange }) => {
+  const { t, formatSize } = useI18n();
+  const [showFilters, setShowFilters] = useState(false);
+  const filtersActive = prefs.containers.length > 0 || prefs.watch !== 'all' || prefs.size !== 'all';
+
+  const sizeLabel = (size: SizeFilter) => {
+    if (size === 'all') return t('list.all');
+    const [min, max] = SIZE_RANGES[size];
+    if (min === 0) return `< ${formatSize(max)}`;
+    if (max === Infinity) return `> ${formatSize(min)}`;
+    return `${formatSize(min)} – ${formatSize(max)}`;
+  };
+
+  const toggleContainer = (container: string) => onChange({
+    ...prefs,
+    containers: prefs.containers.includes(container)
+      ? prefs.containers.filter(c => c !== container)
+      : [...prefs.containers, container]
+  });
+
+  return (
+    <div className="px-2 pb-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={prefs.sortKey}
+          onChange={(e) => onChange({ ...prefs, sortKey: e.target.value as SortKey })}
+          className="bg-[#161616] border border-gray-800 rounded-lg px-2 py-1 text-xs text-gray-300 outline-none"
+        >
+          {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+            <option key={key} value={key}>{t(SORT_LABELS[key])}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange({ ...prefs, sortDescending: !prefs.sortDescending })}
+          className="p-1.5 rounded-lg hover:bg-white/10 text-gray-400"
+        >
+          {prefs.sortDescending ? <ArrowDownWideNarrow size={16} /> : <ArrowUpNarrowWide size={16} />}
+        </button>
+        <button
+          onClick={() => setShowFilters(open => !open)}
+          className={`p-1.5 rounded-lg hover:bg-white/10 ${filtersActive ? 'text-blue-400' : 'text-gray-400'}`}
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+        <span className="ml-auto text-[11px] text-gray-500">{t('common.videoCount', { count: resultCount })}</span>
+      </div>
+
+      {showFilters && (
+        <div className="p-3 rounded-xl bg-[#161616] border border-gray-800 space-y-3">
+          {containers.length > 1 && (
+            <div className="flex flex-wrap gap-1.5">
+              {containers.map(container => (
+                <button key={container} onClick={() => toggleContainer(container)} className={chip(prefs.containers.includes(container))}>
+                  {container.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-1.5">
+            {(Object.keys(WATCH_LABELS) as WatchFilter[]).map(watch => (
+              <button key={watch} onClick={() => onChange({ ...prefs, watch })} className={chip(prefs.watch === watch)}>
+                {t(WATCH_LABELS[watch])}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {SIZE_FILTERS.map(size => (
+              <button key={size} onClick={() => onChange({ ...prefs, size })} className={chip(prefs.size === size)}>
+                {sizeLabel(size)}
+              </button>
+            ))}
+          </div>
+          {filtersActive && (
+            <button
+              onClick={() => onChange({ ...prefs, containers: [], watch: 'all', size: 'all' })}
+              className="text-xs text-gray-500 hover:text-gray-300"
+            >
+              {t('list.clearFilters')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListControls;
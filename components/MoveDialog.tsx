@@ -0,0 +1,64 @@
+import React from 'react';
+import { X, Folder, FolderInput, HardDrive } from 'lucide-react';
+import { FolderNode } from '../services/folders';
+import { useI18n } from '../hooks/useI18n';
+
+interface MoveDialogProps {
+  // Storage roots to offer, each with its folders
+  tree: FolderNode[];
+  count: number;
+  // The folder everything already sits in, if it is the same for all
+  currentKey?: string;
+  onMove: (folder: FolderNode) => void;
+  onClose: () => void;
+}
+
+const MoveDialog: React.FC<MoveDialogProps> = ({ tree, count, currentKey, onMove, onClose }) => {
+  const { t } = useI18n();
+
+  const renderNode = (node: FolderNode, depth: number): React.ReactNode => {
+    const Icon = depth === 0 ? HardDrive : Folder;
+    return (
+      <React.Fragment key={node.key}>
+        <button
+          onClick={() => onMove(node)}
+          disabled={node.key === currentKey}
+          className="w-full flex items-center gap-2 py-2 pr-3 rounded-lg text-sm text-left text-gray-300 hover:bg-white/5 disabled:opacity-40 disabled:hover:bg-transparent"
+          style={{ paddingLeft: 12 + depth * 16 }}
+        >
+          <Icon size={16} className="flex-shrink-0 text-blue-500" />
+          <span className="truncate">{node.name}</span>
+        </button>
+        {node.folders.map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md max-h-[80vh] flex flex-col bg-[#111] border border-gray-800 rounded-2xl p-5 gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 font-semibold">
+            <FolderInput size={18} /> {t('action.moveTitle', { count })}
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {tree.length === 0
+            ? <p className="text-sm text-gray-500">{t('action.noDestinations')}</p>
+            : tree.map(node => renderNode(node, 0))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MoveDialog;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { X, Globe, Play } from 'lucide-react';
+import { isStreamUrl } from '../services/library';
+import { useI18n } from '../hooks/useI18n';
+
+interface NetworkStreamDialogProps {
+  onOpen: (url: string, name: string) => void;
+  onClose: () => void;
+}
+
+const NetworkStreamDialog: React.FC<NetworkStreamDialogProps> = ({ onOpen, onClose }) => {
+  const { t } = useI18n();
+  const [url, setUrl] = useState('');
+  const [name, setName] = useState('');
+  const [invalid, setInvalid] = useState(false);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isStreamUrl(url.trim())) {
+      setInvalid(true);
+      return;
+    }
+    onOpen(url.trim(), name.trim());
+  };
+
+  const field = 'w-full bg-white/5 border rounded-lg px-3 py-2 text-sm outline-none focus:border-blue-500';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={submit}
+        className="w-full max-w-md bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 font-semibold">
+            <Globe size={18} /> {t('stream.openTitle')}
+          </h3>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-xs text-gray-500 uppercase tracking-wider">{t('stream.url')}</span>
+          <input
+            autoFocus
+            type="url"
+            value={url}
+            onChange={(e) => { setUrl(e.target.value); setInvalid(false); }}
+            placeholder="https://example.com/video.m3u8"
+            className={`${field} ${invalid ? 'border-red-500' : 'border-gray-800'}`}
+          />
+          {invalid && <span className="block text-xs text-red-400">{t('stream.invalidUrl')}</span>}
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-xs text-gray-500 uppercase tracking-wider">{t('stream.name')}</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('stream.namePlaceholder')}
+            className={`${field} border-gray-800`}
+          />
+        </label>
+
+        <p className="text-xs text-gray-500">{t('stream.hint')}</p>
+
+        <button
+          type="submit"
+          className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-full text-sm font-medium transition-all"
+        >
+          <Play size={16} fill="white" /> {t('stream.play')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default NetworkStreamDialog;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { X, Users, LogOut, Radio } from 'lucide-react';
+import { WatchParty } from '../hooks/useWatchParty';
+import { isRelayUrl } from '../services/watchParty';
+import { useI18n } from '../hooks/useI18n';
+
+interface PartyPanelProps {
+  party: WatchParty;
+  onClose: () => void;
+}
+
+const PartyPanel: React.FC<PartyPanelProps> = ({ party, onClose }) => {
+  const { t } = useI18n();
+  const [relayUrl, setRelayUrl] = useState(party.relayUrl);
+  const [code, setCode] = useState('');
+  const relay = relayUrl.trim();
+  const relayValid = isRelayUrl(relay);
+
+  const field = 'w-full bg-white/5 border border-gray-800 rounded-lg px-3 py-2 text-sm outline-none focus:border-blue-500';
+  const button = 'flex items-center justify-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all disabled:opacity-40';
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('party.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      {party.status === 'connected' ? (
+        <section className="space-y-3">
+          <p className="text-xs text-gray-500 uppercase tracking-wider">
+            {party.role === 'host' ? t('party.hosting') : t('party.following')}
+          </p>
+          <p className="text-3xl font-mono font-bold tracking-[0.3em] text-center select-all">{party.code}</p>
+          <p className="flex items-center justify-center gap-2 text-sm text-gray-400">
+            <Users size={16} /> {t('party.peers', { count: party.peers })}
+          </p>
+          {party.role === 'host' && <p className="text-xs text-gray-500">{t('party.shareHint')}</p>}
+          {party.missing && (
+            <p className="text-sm text-amber-400">{t('party.missing', { name: party.missing })}</p>
+          )}
+          <button onClick={party.leave} className={`${button} w-full bg-white/10 hover:bg-white/20`}>
+            <LogOut size={16} /> {t('party.leave')}
+          </button>
+        </section>
+      ) : (
+        <>
+          <section className="space-y-2">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">{t('party.relay')}</p>
+            <input value={relayUrl} onChange={(e) => setRelayUrl(e.target.value)} className={field} />
+            {relay && !relayValid
+              ? <p className="text-xs text-red-400">{t('party.invalidRelay')}</p>
+              : <p className="text-xs text-gray-500">{t('party.relayHint')}</p>}
+          </section>
+
+          <section className="space-y-2">
+            <button
+              onClick={() => party.host(relay)}
+              disabled={party.status === 'connecting' || !relayValid}
+              className={`${button} w-full bg-blue-600 hover:bg-blue-500 text-white`}
+            >
+              <Radio size={16} /> {t('party.host')}
+            </button>
+          </section>
+
+          <section className="space-y-2">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">{t('party.joinTitle')}</p>
+            <div className="flex gap-2">
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                onKeyDown={(e) => { if (e.key === 'Enter' && code.trim() && relayValid) party.join(relay, code); }}
+                placeholder={t('party.codePlaceholder')}
+                maxLength={6}
+                className={`${field} font-mono tracking-widest`}
+              />
+              <button
+                onClick={() => party.join(relay, code)}
+                disabled={party.status === 'connecting' || !code.trim() || !relayValid}
+                className={`${button} bg-white/10 hover:bg-white/20`}
+              >
+                {t('party.join')}
+              </button>
+            </div>
+          </section>
+
+          {party.status === 'connecting' && <p className="text-sm text-gray-400">{t('party.connecting')}</p>}
+          {party.error && <p className="text-sm text-red-400">{t(`party.error.${party.error}`)}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PartyPanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { X, Lock, KeyRound } from 'lucide-react';
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH, isValidPin } from '../services/vault';
+import { useI18n } from '../hooks/useI18n';
+
+interface PinDialogProps {
+  mode: 'create' | 'unlock' | 'change';
+  // Resolves false for a wrong PIN; `current` is only passed when changing it
+  onSubmit: (pin: string, current?: string) => Promise<boolean>;
+  // Without it the dialog covers the whole app, for locking at start
+  onClose?: () => void;
+}
+
+const PinField: React.FC<{
+  label: string;
+  value: string;
+  autoFocus?: boolean;
+  onChange: (value: string) => void;
+}> = ({ label, value, autoFocus, onChange }) => (
+  <label className="block space-y-1">
+    <span className="text-xs text-gray-500">{label}</span>
+    <input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      autoFocus={autoFocus}
+      maxLength={MAX_PIN_LENGTH}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+      className="w-full bg-white/5 border border-gray-800 rounded-lg px-3 py-2 text-lg tracking-[0.5em] text-center outline-none focus:border-blue-500"
+    />
+  </label>
+);
+
+const PinDialog: React.FC<PinDialogProps> = ({ mode, onSubmit, onClose }) => {
+  const { t } = useI18n();
+  const [current, setCurrent] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Deriving the key takes a moment on purpose
+  const [busy, setBusy] = useState(false);
+  const choosing = mode !== 'unlock';
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (busy) return;
+    if (choosing && !isValidPin(pin)) {
+      setError(t('privacy.pinInvalid', { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH }));
+      return;
+    }
+    if (choosing && pin !== confirm) {
+      setError(t('privacy.pinMismatch'));
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const ok = await onSubmit(pin, mode === 'change' ? current : undefined);
+      if (ok) return;
+      setError(t('privacy.wrongPin'));
+      if (mode === 'unlock') setPin('');
+      else setCurrent('');
+    } catch (err) {
+      console.error('The private folder could not be opened:', err);
+      setError(t('privacy.failed'));
+    }
+    setBusy(false);
+  };
+
+  const title = mode === 'create' ? t('privacy.createTitle')
+    : mode === 'change' ? t('privacy.changePin')
+    : onClose ? t('privacy.unlockTitle') : t('privacy.appLocked');
+
+  return (
+    <div
+      className={`fixed inset-0 z-50 flex items-center justify-center p-4 ${onClose ? 'bg-black/80' : 'bg-black'}`}
+      onClick={onClose}
+    >
+      <form
+        onSubmit={submit}
+        className="w-full max-w-xs bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => { if (e.key === 'Escape') onClose?.(); }}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 font-semibold">
+            {mode === 'change' ? <KeyRound size={18} /> : <Lock size={18} />} {title}
+          </h3>
+          {onClose && (
+            <button type="button" onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+              <X size={18} />
+            </button>
+          )}
+        </div>
+        {mode === 'create' && <p className="text-sm text-gray-400">{t('privacy.createHint')}</p>}
+        {mode === 'unlock' && <p className="text-xs text-gray-500">{t('privacy.forgotHint')}</p>}
+
+        {mode === 'change' && (
+          <PinField label={t('privacy.currentPin')} value={current} autoFocus onChange={setCurrent} />
+        )}
+        <PinField
+          label={choosing ? t('privacy.newPin') : t('privacy.pin')}
+          value={pin}
+          autoFocus={mode !== 'change'}
+          onChange={setPin}
+        />
+        {choosing && <PinField label={t('privacy.confirmPin')} value={confirm} onChange={setConfirm} />}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex items-center justify-end gap-2">
+          {onClose && (
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-full text-sm text-gray-400 hover:bg-white/5">
+              {t('common.cancel')}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={busy || !pin}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-full text-sm font-medium disabled:opacity-40"
+          >
+            {mode === 'unlock' ? t('privacy.unlock') : t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PinDialog;
@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { ListVideo, Upload, Download, Trash2, Play, Shuffle, ChevronUp, ChevronDown, X, ArrowLeft } from 'lucide-react';
+import { Playlist, VideoFile } from '../types';
+import { resolvePlaylist } from '../services/playlists';
+import { useI18n } from '../hooks/useI18n';
+
+interface PlaylistViewProps {
+  playlists: Playlist[];
+  videos: VideoFile[];
+  onPlay: (list: VideoFile[], start?: VideoFile, shuffle?: boolean) => void;
+  onSave: (playlist: Playlist) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: (playlist: Playlist) => void;
+}
+
+const PlaylistView: React.FC<PlaylistViewProps> = ({ playlists, videos, onPlay, onSave, onDelete, onImport, onExport }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = playlists.find(p => p.id === openId);
+
+  const moveItem = (playlist: Playlist, from: number, to: number) => {
+    if (to < 0 || to >= playlist.items.length) return;
+    const items = [...playlist.items];
+    const [moved] = items.splice(from, 1);
+    items.splice(to, 0, moved);
+    onSave({ ...playlist, items });
+  };
+
+  const removeItem = (playlist: Playlist, index: number) =>
+    onSave({ ...playlist, items: playlist.items.filter((_, i) => i !== index) });
+
+  if (open) {
+    const byPath = new Map<string, VideoFile>(videos.map(v => [v.relativePath, v]));
+    const resolved = resolvePlaylist(open, videos);
+    return (
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-2 px-2 py-2">
+          <button onClick={() => setOpenId(null)} className="p-2 hover:bg-white/10 rounded-full">
+            <ArrowLeft size={18} />
+          </button>
+          <h2 className="flex-1 font-semibold truncate">{open.name}</h2>
+          <button
+            onClick={() => onPlay(resolved, undefined, true)}
+            disabled={resolved.length === 0}
+            className="p-2 hover:bg-white/10 rounded-full text-gray-400 disabled:opacity-30"
+          >
+            <Shuffle size={18} />
+          </button>
+          <button
+            onClick={() => onPlay(resolved)}
+            disabled={resolved.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 rounded-full text-sm disabled:opacity-30"
+          >
+            <Play size={14} fill="white" /> {t('common.play')}
+          </button>
+        </div>
+        {open.items.map((path, index) => {
+          const video = byPath.get(path);
+          return (
+            <div key={`${path}-${index}`} className="flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-[#1a1a1a] group">
+              <span className="w-6 text-xs text-gray-500 text-right">{index + 1}</span>
+              <button
+                onClick={() => video && onPlay(resolved, video)}
+                className={`flex-1 min-w-0 text-left text-sm truncate ${video ? 'text-gray-200' : 'text-gray-600 line-through'}`}
+              >
+                {video?.name ?? path}
+              </button>
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity text-gray-400">
+                <button onClick={() => moveItem(open, index, index - 1)} className="p-1 hover:text-blue-400">
+                  <ChevronUp size={16} />
+                </button>
+                <button onClick={() => moveItem(open, index, index + 1)} className="p-1 hover:text-blue-400">
+                  <ChevronDown size={16} />
+                </button>
+                <button onClick={() => removeItem(open, index)} className="p-1 hover:text-red-400">
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-end px-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 hover:bg-white/10 rounded-full"
+        >
+          <Upload size={16} /> {t('playlist.importM3u')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".m3u,.m3u8,audio/x-mpegurl,application/vnd.apple.mpegurl"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {playlists.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-gray-500 gap-3">
+          <ListVideo size={48} className="text-gray-700" />
+          <p className="text-sm text-center max-w-xs">{t('playlist.empty')}</p>
+        </div>
+      ) : (
+        playlists.map(playlist => (
+          <div
+            key={playlist.id}
+            onClick={() => setOpenId(playlist.id)}
+            className="flex items-center gap-4 p-4 rounded-2xl bg-[#161616] hover:bg-[#202020] border border-gray-800/50 transition-all cursor-pointer"
+          >
+            <div className="w-12 h-12 bg-blue-600/10 rounded-xl flex items-center justify-center text-blue-500">
+              <ListVideo size={24} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h3 className="font-semibold text-gray-200 truncate">{playlist.name}</h3>
+              <p className="text-xs text-gray-500 font-medium">{t('common.videoCount', { count: playlist.items.length })}</p>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); onExport(playlist); }}
+              className="p-2 text-gray-500 hover:text-gray-300"
+            >
+              <Download size={18} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(playlist.id); }}
+              className="p-2 text-gray-500 hover:text-red-400"
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default PlaylistView;
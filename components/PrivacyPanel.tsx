@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { X, Eye, Folder, Video, Lock, KeyRound, ShieldOff } from 'lucide-react';
+import { AUTO_LOCK_CHOICES, HiddenEntry, VaultOptions } from '../services/vault';
+import { useI18n } from '../hooks/useI18n';
+import PinDialog from './PinDialog';
+import ConfirmDialog from './ConfirmDialog';
+
+interface PrivacyPanelProps {
+  // Only shown while unlocked
+  entries: HiddenEntry[];
+  options: VaultOptions;
+  onUnhide: (entry: HiddenEntry) => void;
+  onOptionsChange: (options: VaultOptions) => void;
+  onChangePin: (current: string, next: string) => Promise<boolean>;
+  onLock: () => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({
+  entries, options, onUnhide, onOptionsChange, onChangePin, onLock, onRemove, onClose
+}) => {
+  const { t } = useI18n();
+  const [changingPin, setChangingPin] = useState(false);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+  const select = 'flex-1 bg-white/5 border border-gray-700 rounded-lg px-2 py-1 text-sm outline-none';
+  const action = 'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm hover:bg-white/5';
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6 text-gray-100"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('privacy.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      <section className="space-y-2">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('privacy.hiddenItems')}</p>
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('privacy.nothingHidden')}</p>
+        ) : (
+          entries.map(entry => (
+            <div key={`${entry.kind}:${entry.key}`} className="flex items-center gap-2 text-sm">
+              {entry.kind === 'folder'
+                ? <Folder size={16} className="text-blue-500 flex-shrink-0" />
+                : <Video size={16} className="text-gray-500 flex-shrink-0" />}
+              <span className="flex-1 truncate" title={entry.name}>{entry.name}</span>
+              <button
+                onClick={() => onUnhide(entry)}
+                title={t('privacy.unhide')}
+                className="p-1.5 text-gray-500 hover:text-white hover:bg-white/10 rounded-full"
+              >
+                <Eye size={16} />
+              </button>
+            </div>
+          ))
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('privacy.lock')}</p>
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-24 text-gray-400">{t('privacy.autoLock')}</span>
+          <select
+            value={options.autoLockMinutes}
+            onChange={(e) => onOptionsChange({ ...options, autoLockMinutes: parseInt(e.target.value, 10) })}
+            className={select}
+          >
+            {AUTO_LOCK_CHOICES.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes ? t('privacy.afterMinutes', { count: minutes }) : t('privacy.never')}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between text-sm cursor-pointer">
+          <span>{t('privacy.lockOnStart')}</span>
+          <input
+            type="checkbox"
+            checked={options.lockOnStart}
+            onChange={(e) => onOptionsChange({ ...options, lockOnStart: e.target.checked })}
+            className="accent-blue-500"
+          />
+        </label>
+        <p className="text-xs text-gray-500">{t('privacy.lockOnStartHint')}</p>
+      </section>
+
+      <section className="space-y-1">
+        <button onClick={onLock} className={action}>
+          <Lock size={16} /> {t('privacy.lockNow')}
+        </button>
+        <button onClick={() => setChangingPin(true)} className={action}>
+          <KeyRound size={16} /> {t('privacy.changePin')}
+        </button>
+        <button onClick={() => setConfirmRemove(true)} className={`${action} text-red-400`}>
+          <ShieldOff size={16} /> {t('privacy.turnOff')}
+        </button>
+      </section>
+
+      {changingPin && (
+        <PinDialog
+          mode="change"
+          onSubmit={async (pin: string, current?: string) => {
+            const ok = await onChangePin(current ?? '', pin);
+            if (ok) setChangingPin(false);
+            return ok;
+          }}
+          onClose={() => setChangingPin(false)}
+        />
+      )}
+      {confirmRemove && (
+        <ConfirmDialog
+          title={t('privacy.turnOffTitle')}
+          message={t('privacy.turnOffConfirm')}
+          confirmLabel={t('privacy.turnOff')}
+          onConfirm={() => { setConfirmRemove(false); onRemove(); }}
+          onClose={() => setConfirmRemove(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PrivacyPanel;
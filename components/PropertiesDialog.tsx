@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { X, Info } from 'lucide-react';
+import { MediaProbe, VideoFile, WatchProgress } from '../types';
+import { FolderNode, videosUnder } from '../services/folders';
+import { getMediaProbe } from '../services/probe';
+import { useI18n } from '../hooks/useI18n';
+
+interface PropertiesDialogProps {
+  // Exactly one of these
+  video?: VideoFile;
+  folder?: FolderNode;
+  progress?: WatchProgress;
+  onClose: () => void;
+}
+
+const toMbps = (bitsPerSecond: number) => Math.round(bitsPerSecond / 100_000) / 10;
+
+const PropertiesDialog: React.FC<PropertiesDialogProps> = ({ video, folder, progress, onClose }) => {
+  const { t, formatDate, formatDuration, formatNumber, formatSize } = useI18n();
+  const [probe, setProbe] = useState<MediaProbe | null>(null);
+
+  useEffect(() => {
+    if (!video || video.url) return;
+    let cancelled = false;
+    getMediaProbe(video)
+      .then(result => { if (!cancelled) setProbe(result); })
+      .catch(err => console.warn('Could not read the file headers:', err));
+    return () => { cancelled = true; };
+  }, [video]);
+
+  const rows: [string, string][] = [];
+  if (video) {
+    const picture = probe?.tracks.find(track => track.kind === 'video');
+    const sound = probe?.tracks.find(track => track.kind === 'audio');
+    rows.push([t('properties.location'), video.url || video.relativePath]);
+    if (video.bytes > 0) rows.push([t('properties.size'), `${formatSize(video.bytes)} (${t('properties.bytes', { count: video.bytes })})`]);
+    rows.push([t('properties.type'), video.stream ?? video.type]);
+    if (video.duration) rows.push([t('properties.duration'), formatDuration(video.duration)]);
+    if (picture) {
+      rows.push([t('properties.videoCodec'), picture.codec]);
+      if (picture.width && picture.height) rows.push([t('properties.resolution'), `${picture.width}×${picture.height}`]);
+    }
+    if (sound) rows.push([t('properties.audioCodec'), sound.codec]);
+    if (video.duration && video.bytes > 0) {
+      rows.push([t('properties.bitrate'), t('stream.mbps', { rate: toMbps(video.bytes * 8 / video.duration) })]);
+    }
+    rows.push([t(video.url ? 'properties.added' : 'properties.modified'), formatDate(video.lastModified)]);
+    if (progress) rows.push([t('properties.lastWatched'), formatDate(progress.updatedAt)]);
+  } else if (folder) {
+    const videos = videosUnder(folder);
+    const duration = videos.reduce((sum, v) => sum + (v.duration ?? 0), 0);
+    rows.push([t('properties.location'), [folder.root.name, ...folder.key.split('/').slice(1)].join('/')]);
+    rows.push([t('properties.contents'), t('common.videoCount', { count: videos.length })]);
+    rows.push([t('properties.size'), formatSize(videos.reduce((sum, v) => sum + v.bytes, 0))]);
+    if (duration) rows.push([t('properties.duration'), formatDuration(duration)]);
+    rows.push([t('properties.subfolders'), formatNumber(folder.folders.length)]);
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="flex items-center gap-2 font-semibold min-w-0">
+            <Info size={18} className="flex-shrink-0" />
+            <span className="truncate">{video?.name ?? folder?.name}</span>
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-300 break-all">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default PropertiesDialog;
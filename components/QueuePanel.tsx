@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { X, Shuffle, Repeat, Repeat1, ChevronUp, ChevronDown, Trash2, Save, Play } from 'lucide-react';
+import { PlayQueue, VideoFile } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface QueuePanelProps {
+  queue: PlayQueue;
+  videosById: Map<string, VideoFile>;
+  autoplayNext: boolean;
+  onToggleAutoplay: () => void;
+  onJump: (position: number) => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (position: number) => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+  onSaveAsPlaylist: (name: string) => void;
+  onClose: () => void;
+}
+
+const QueuePanel: React.FC<QueuePanelProps> = ({
+  queue, videosById, autoplayNext, onToggleAutoplay, onJump, onMove, onRemove,
+  onToggleShuffle, onCycleRepeat, onSaveAsPlaylist, onClose
+}) => {
+  const { t } = useI18n();
+  const [playlistName, setPlaylistName] = useState<string | null>(null);
+
+  const iconButton = 'p-2 rounded-full hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 z-50 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 flex flex-col text-gray-100">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <h3 className="font-semibold">{t('queue.title')}</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onToggleShuffle}
+            className={`${iconButton} ${queue.unshuffled ? 'text-blue-400' : 'text-gray-400'}`}
+          >
+            <Shuffle size={18} />
+          </button>
+          <button
+            onClick={onCycleRepeat}
+            className={`${iconButton} ${queue.repeat !== 'off' ? 'text-blue-400' : 'text-gray-400'}`}
+          >
+            {queue.repeat === 'one' ? <Repeat1 size={18} /> : <Repeat size={18} />}
+          </button>
+          <button onClick={() => setPlaylistName('')} className={`${iconButton} text-gray-400`}>
+            <Save size={18} />
+          </button>
+          <button onClick={onClose} className={iconButton}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {playlistName !== null && (
+        <form
+          className="flex items-center gap-2 p-3 border-b border-gray-800"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (playlistName.trim()) onSaveAsPlaylist(playlistName.trim());
+            setPlaylistName(null);
+          }}
+        >
+          <input
+            autoFocus
+            value={playlistName}
+            onChange={(e) => setPlaylistName(e.target.value)}
+            placeholder={t('queue.playlistName')}
+            className="flex-1 bg-white/5 border border-gray-700 rounded-lg px-3 py-1.5 text-sm outline-none focus:border-blue-500"
+          />
+          <button type="submit" className="px-3 py-1.5 text-sm bg-blue-600 rounded-lg">{t('common.save')}</button>
+        </form>
+      )}
+
+      <label className="flex items-center justify-between px-4 py-3 text-sm border-b border-gray-800 cursor-pointer">
+        <span className="text-gray-300">{t('queue.autoplayNext')}</span>
+        <input type="checkbox" checked={autoplayNext} onChange={onToggleAutoplay} className="accent-blue-500" />
+      </label>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {queue.items.map((id, index) => {
+          const video = videosById.get(id);
+          const isCurrent = index === queue.position;
+          return (
+            <div
+              key={`${id}-${index}`}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg group ${isCurrent ? 'bg-blue-600/20' : 'hover:bg-white/5'}`}
+            >
+              <button onClick={() => onJump(index)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                <span className="w-5 text-xs text-gray-500 text-right">
+                  {isCurrent ? <Play size={12} className="inline text-blue-400" fill="currentColor" /> : index + 1}
+                </span>
+                <span className={`text-sm truncate ${isCurrent ? 'text-blue-400' : 'text-gray-300'}`}>
+                  {video?.name ?? id}
+                </span>
+              </button>
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => onMove(index, index - 1)} className="p-1 hover:text-blue-400">
+                  <ChevronUp size={14} />
+                </button>
+                <button onClick={() => onMove(index, index + 1)} className="p-1 hover:text-blue-400">
+                  <ChevronDown size={14} />
+                </button>
+                <button onClick={() => onRemove(index)} className="p-1 hover:text-red-400">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { X, Pencil } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+interface RenameDialogProps {
+  name: string;
+  // Files start with only the part before the extension selected
+  keepExtension?: boolean;
+  onRename: (name: string) => void;
+  onClose: () => void;
+}
+
+const RenameDialog: React.FC<RenameDialogProps> = ({ name: initialName, keepExtension = false, onRename, onClose }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(initialName);
+  const trimmed = name.trim();
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || trimmed === initialName) onClose();
+    else onRename(trimmed);
+  };
+
+  const selectName = (e: React.FocusEvent<HTMLInputElement>) => {
+    const dot = keepExtension ? initialName.lastIndexOf('.') : -1;
+    e.target.setSelectionRange(0, dot > 0 ? dot : initialName.length);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={submit}
+        className="w-full max-w-md bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 font-semibold">
+            <Pencil size={18} /> {t('action.rename')}
+          </h3>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <input
+          autoFocus
+          value={name}
+          onFocus={selectName}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+          className="w-full bg-white/5 border border-gray-800 rounded-lg px-3 py-2 text-sm outline-none focus:border-blue-500"
+        />
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-full text-sm text-gray-400 hover:bg-white/5">
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!trimmed}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-full text-sm font-medium disabled:opacity-40"
+          >
+            {t('action.rename')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RenameDialog;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Bookmark, Chapter, LoopRange } from '../types';
+import { LoadedTrickplay } from '../hooks/useTrickplay';
+import { tileFor } from '../services/trickplay';
+import { chapterAt } from '../services/chapters';
+import { useI18n } from '../hooks/useI18n';
+
+interface SeekBarProps {
+  progress: number;
+  duration: number;
+  trickplay: LoadedTrickplay | null;
+  loop: LoopRange | null;
+  chapters: Chapter[];
+  bookmarks: Bookmark[];
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+const SeekBar: React.FC<SeekBarProps> = ({ progress, duration, trickplay, loop, chapters, bookmarks, onChange }) => {
+  const { formatDuration } = useI18n();
+  const [hover, setHover] = useState<{ ratio: number } | null>(null);
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHover({ ratio: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) });
+  };
+
+  const hoverTime = hover ? hover.ratio * duration : 0;
+  const tile = hover && trickplay ? tileFor(trickplay.sprite, hoverTime) : null;
+  const hoverChapter = hover ? chapterAt(chapters, hoverTime) : null;
+  const percent = (time: number) => `${Math.min(100, Math.max(0, time / duration * 100))}%`;
+
+  return (
+    <div
+      className="flex-1 relative group h-1.5 flex items-center"
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => setHover(null)}
+    >
+      {hover && duration > 0 && (
+        <div
+          className="absolute bottom-4 -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none"
+          style={{ left: `${hover.ratio * 100}%` }}
+        >
+          {trickplay && tile && (
+            <div
+              className="rounded-md border border-white/20 shadow-lg bg-black"
+              style={{
+                width: trickplay.sprite.tileWidth,
+                height: trickplay.sprite.tileHeight,
+                backgroundImage: `url(${trickplay.url})`,
+                backgroundPosition: `-${tile.x}px -${tile.y}px`
+              }}
+            />
+          )}
+          {hoverChapter?.title && (
+            <span className="max-w-[12rem] truncate px-1.5 py-0.5 rounded bg-black/80 text-[11px]">{hoverChapter.title}</span>
+          )}
+          <span className="px-1.5 py-0.5 rounded bg-black/80 text-[11px]">{formatDuration(hoverTime)}</span>
+        </div>
+      )}
+      {duration > 0 && (
+        <div className="absolute inset-0 pointer-events-none">
+          {loop && (
+            <div
+              className={`absolute -top-0.5 -bottom-0.5 bg-yellow-400/40 border-x-2 border-yellow-400 ${loop.b === null ? 'w-0' : ''}`}
+              style={{
+                left: percent(loop.a),
+                ...(loop.b !== null && { width: `calc(${percent(loop.b)} - ${percent(loop.a)})` })
+              }}
+            />
+          )}
+          {chapters.filter(chapter => chapter.start > 0).map((chapter, i) => (
+            <div
+              key={`${i}-${chapter.start}`}
+              className="absolute top-0 bottom-0 w-0.5 -translate-x-1/2 bg-black/70"
+              style={{ left: percent(chapter.start) }}
+            />
+          ))}
+          {bookmarks.map(bookmark => (
+            <div
+              key={bookmark.id}
+              className="absolute top-1/2 w-2 h-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-amber-400 ring-1 ring-black/50"
+              style={{ left: percent(bookmark.time) }}
+            />
+          ))}
+        </div>
+      )}
+      <input
+        type="range"
+        min="0"
+        max="100"
+        step="0.1"
+        value={progress}
+        onChange={onChange}
+        className="w-full h-full bg-white/20 rounded-lg cursor-pointer appearance-none outline-none"
+        style={{
+          background: `linear-gradient(to right, #3b82f6 ${progress}%, rgba(255,255,255,0.2) ${progress}%)`
+        }}
+      />
+    </div>
+  );
+};
+
+export default SeekBar;
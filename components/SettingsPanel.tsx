@@ -0,0 +1,294 @@
+import React, { useRef, useState } from 'react';
+import { X, RotateCcw, Upload, Download, Plus } from 'lucide-react';
+import { AppSettings, AspectMode, Language, OverridableSetting, OverrideScope, SettingsOverride, SettingsSnapshot, VideoFile } from '../types';
+import {
+  DEFAULT_SETTINGS, LANGUAGES, PLAYBACK_SPEEDS, SKIP_INTERVALS, overrideKey, resolveSettings, withOverride
+} from '../services/settings';
+import { LANGUAGE_NAMES, MessageKey } from '../locales';
+import { useI18n } from '../hooks/useI18n';
+import { MIN_BRIGHTNESS, MAX_BRIGHTNESS } from './GestureLayer';
+import { MAX_VOLUME } from '../services/audio';
+import { aspectLabel, aspectModes, normalizeRatio } from '../services/aspect';
+
+type Scope = 'all' | OverrideScope;
+
+const SCOPE_LABELS: Record<Scope, MessageKey> = {
+  all: 'settings.scope.all',
+  folder: 'settings.scope.folder',
+  video: 'settings.scope.video'
+};
+
+interface SettingsPanelProps {
+  snapshot: SettingsSnapshot;
+  // The playing video, which makes folder and video overrides available
+  video?: VideoFile;
+  onChange: (snapshot: SettingsSnapshot) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ snapshot, video, onChange, onImport, onExport, onClose }) => {
+  const { t, formatNumber } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scope, setScope] = useState<Scope>('all');
+  const [newRatio, setNewRatio] = useState('');
+  const [ratioInvalid, setRatioInvalid] = useState(false);
+
+  const key = video && scope !== 'all' ? overrideKey(scope, video) : null;
+  const override: SettingsOverride = key ? snapshot.overrides[key] ?? {} : {};
+  // Folder scope shows what the folder resolves to without this video's own override
+  const shown: AppSettings = !video || scope === 'all'
+    ? snapshot.defaults
+    : scope === 'folder'
+      ? { ...snapshot.defaults, ...snapshot.overrides[overrideKey('folder', video)] }
+      : resolveSettings(snapshot, video);
+
+  const setValue = <K extends OverridableSetting>(name: K, value: AppSettings[K]) => {
+    if (key) onChange(withOverride(snapshot, key, { ...override, [name]: value }));
+    else onChange({ ...snapshot, defaults: { ...snapshot.defaults, [name]: value } });
+  };
+
+  const clearValue = (name: OverridableSetting) => {
+    if (!key) return;
+    const { [name]: _, ...rest } = override;
+    onChange(withOverride(snapshot, key, rest));
+  };
+
+  const setCustomRatios = (customAspectRatios: AppSettings['customAspectRatios']) =>
+    onChange({ ...snapshot, defaults: { ...snapshot.defaults, customAspectRatios } });
+
+  const addRatio = () => {
+    const ratio = normalizeRatio(newRatio);
+    setRatioInvalid(!ratio);
+    if (!ratio) return;
+    if (!snapshot.defaults.customAspectRatios.includes(ratio)) setCustomRatios([...snapshot.defaults.customAspectRatios, ratio]);
+    setNewRatio('');
+  };
+
+  const row = (name: OverridableSetting, label: MessageKey, control: React.ReactNode) => (
+    <div className="flex items-center gap-3">
+      <span className={`text-sm w-24 ${name in override ? 'text-blue-400' : ''}`}>{t(label)}</span>
+      <div className="flex-1 flex items-center gap-2">{control}</div>
+      {key && name in override && (
+        <button onClick={() => clearValue(name)} className="p-1 text-gray-500 hover:text-gray-300">
+          <RotateCcw size={14} />
+        </button>
+      )}
+    </div>
+  );
+
+  const select = 'flex-1 bg-white/5 border border-gray-700 rounded-lg px-2 py-1 text-sm outline-none';
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-50 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6 text-gray-100"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('settings.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      {video && (
+        <div className="flex bg-white/5 rounded-lg p-1">
+          {(Object.keys(SCOPE_LABELS) as Scope[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              className={`flex-1 py-1.5 text-xs rounded-md ${scope === s ? 'bg-blue-600 text-white' : 'text-gray-400'}`}
+            >
+              {t(SCOPE_LABELS[s])}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <section className="space-y-3">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('settings.playback')}</p>
+        {row('playbackSpeed', 'settings.speed', (
+          <select
+            value={shown.playbackSpeed}
+            onChange={(e) => setValue('playbackSpeed', parseFloat(e.target.value))}
+            className={select}
+          >
+            {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{formatNumber(speed)}x</option>)}
+          </select>
+        ))}
+        {row('aspectRatio', 'settings.aspectRatio', (
+          <select
+            value={shown.aspectRatio}
+            onChange={(e) => setValue('aspectRatio', e.target.value as AspectMode)}
+            className={select}
+          >
+            {aspectModes(snapshot.defaults.customAspectRatios).map(mode => (
+              <option key={mode} value={mode}>{aspectLabel(mode, t)}</option>
+            ))}
+          </select>
+        ))}
+        {scope === 'all' && (
+          <div className="flex items-start gap-3">
+            <span className="text-sm w-24 pt-1">{t('aspect.custom')}</span>
+            <div className="flex-1 space-y-2">
+              {snapshot.defaults.customAspectRatios.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {snapshot.defaults.customAspectRatios.map(ratio => (
+                    <span key={ratio} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-white/10 rounded-full text-xs font-mono">
+                      {ratio}
+                      <button
+                        onClick={() => setCustomRatios(snapshot.defaults.customAspectRatios.filter(r => r !== ratio))}
+                        className="p-0.5 text-gray-400 hover:text-white"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <input
+                  value={newRatio}
+                  onChange={(e) => { setNewRatio(e.target.value); setRatioInvalid(false); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') addRatio(); }}
+                  placeholder={t('aspect.customPlaceholder')}
+                  className={`${select} min-w-0 font-mono`}
+                />
+                <button onClick={addRatio} className="p-1.5 bg-white/10 hover:bg-white/20 rounded-lg">
+                  <Plus size={14} />
+                </button>
+              </div>
+              {ratioInvalid && <p className="text-xs text-red-400">{t('aspect.invalid')}</p>}
+            </div>
+          </div>
+        )}
+        {row('volume', 'settings.volume', (
+          <>
+            <input
+              type="range"
+              min="0"
+              max={MAX_VOLUME}
+              step="0.05"
+              value={shown.volume}
+              onChange={(e) => setValue('volume', parseFloat(e.target.value))}
+              className="flex-1"
+            />
+            <span className="text-xs font-mono w-8 text-right">{formatNumber(Math.round(shown.volume * 100))}</span>
+          </>
+        ))}
+        {row('brightness', 'settings.brightness', (
+          <>
+            <input
+              type="range"
+              min={MIN_BRIGHTNESS}
+              max={MAX_BRIGHTNESS}
+              value={shown.brightness}
+              onChange={(e) => setValue('brightness', parseInt(e.target.value))}
+              className="flex-1"
+            />
+            <span className="text-xs font-mono w-8 text-right">{formatNumber(shown.brightness)}</span>
+          </>
+        ))}
+        {row('skipSeconds', 'settings.doubleTap', (
+          <select
+            value={shown.skipSeconds}
+            onChange={(e) => setValue('skipSeconds', parseInt(e.target.value))}
+            className={select}
+          >
+            {SKIP_INTERVALS.map(seconds => <option key={seconds} value={seconds}>{t('common.seconds', { count: seconds })}</option>)}
+          </select>
+        ))}
+        {row('autoplayNext', 'settings.autoplayNext', (
+          <input
+            type="checkbox"
+            checked={shown.autoplayNext}
+            onChange={(e) => setValue('autoplayNext', e.target.checked)}
+            className="accent-blue-500"
+          />
+        ))}
+        {key && Object.keys(override).length > 0 && (
+          <button
+            onClick={() => onChange(withOverride(snapshot, key, {}))}
+            className="text-xs text-gray-500 hover:text-gray-300"
+          >
+            {t(scope === 'folder' ? 'settings.clearFolder' : 'settings.clearVideo')}
+          </button>
+        )}
+      </section>
+
+      {scope === 'all' && (
+        <>
+          <section className="space-y-3">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">{t('settings.general')}</p>
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-24">{t('settings.language')}</span>
+              <select
+                value={snapshot.defaults.language}
+                onChange={(e) => onChange({ ...snapshot, defaults: { ...snapshot.defaults, language: e.target.value as Language } })}
+                className={select}
+              >
+                {LANGUAGES.map(language => <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>)}
+              </select>
+            </div>
+            <label className="flex items-center justify-between text-sm cursor-pointer">
+              <span>{t('settings.gestures')}</span>
+              <input
+                type="checkbox"
+                checked={snapshot.defaults.gestures.enabled}
+                onChange={(e) => onChange({
+                  ...snapshot,
+                  defaults: { ...snapshot.defaults, gestures: { ...snapshot.defaults.gestures, enabled: e.target.checked } }
+                })}
+                className="accent-blue-500"
+              />
+            </label>
+            <label className="flex items-center justify-between text-sm cursor-pointer">
+              <span>{t('settings.trackHistory')}</span>
+              <input
+                type="checkbox"
+                checked={snapshot.defaults.trackHistory}
+                onChange={(e) => onChange({ ...snapshot, defaults: { ...snapshot.defaults, trackHistory: e.target.checked } })}
+                className="accent-blue-500"
+              />
+            </label>
+          </section>
+
+          <section className="space-y-1">
+            <button
+              onClick={onExport}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-gray-300 hover:bg-white/5"
+            >
+              <Download size={16} /> {t('settings.export')}
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-gray-300 hover:bg-white/5"
+            >
+              <Upload size={16} /> {t('settings.import')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => onChange({ ...snapshot, defaults: DEFAULT_SETTINGS })}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-gray-400 hover:bg-white/5"
+            >
+              <RotateCcw size={16} /> {t('settings.restoreDefaults')}
+            </button>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Clock, Play, CheckCircle2, Download, Trash2, EyeOff, FolderOpen } from 'lucide-react';
+import { HistoryEvent, VideoFile, WatchProgress } from '../types';
+import { ACTIVITY_DAYS, clearHistory, historyToCsv, historyToJson, loadHistory, summarizeHistory } from '../services/history';
+import { canResume, getVideoProgress } from '../services/progress';
+import { NETWORK_ROOT_NAME, ROOT_FOLDER_NAME } from '../services/library';
+import { downloadFile } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+import VideoRow from './VideoRow';
+
+interface StatsViewProps {
+  videos: VideoFile[];
+  progress: Record<string, WatchProgress>;
+  trackHistory: boolean;
+  onTrackHistoryChange: (enabled: boolean) => void;
+  onPlay: (list: VideoFile[], start?: VideoFile) => void;
+}
+
+const TOP_FOLDERS = 5;
+const UNFINISHED_SHOWN = 5;
+
+const StatsView: React.FC<StatsViewProps> = ({ videos, progress, trackHistory, onTrackHistoryChange, onPlay }) => {
+  const { t, language, formatNumber } = useI18n();
+  const [events, setEvents] = useState<HistoryEvent[]>([]);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => {
+    loadHistory()
+      .then(setEvents)
+      .catch(err => console.error('Failed to load watch history:', err));
+  }, []);
+
+  const summary = useMemo(() => summarizeHistory(events), [events]);
+  const busiestDay = Math.max(...summary.days.map(d => d.seconds));
+  const weekday = useMemo(() => new Intl.DateTimeFormat(language, { weekday: 'narrow' }), [language]);
+
+  // Most recently watched first
+  const unfinished = useMemo(() => videos
+    .filter(v => canResume(getVideoProgress(progress, v)))
+    .sort((a, b) => getVideoProgress(progress, b).updatedAt - getVideoProgress(progress, a).updatedAt)
+    .slice(0, UNFINISHED_SHOWN),
+  [videos, progress]);
+
+  const watchTime = (seconds: number) => {
+    const minutes = Math.round(seconds / 60);
+    return minutes >= 60
+      ? t('stats.hoursMinutes', { hours: Math.floor(minutes / 60), minutes: minutes % 60 })
+      : t('stats.minutes', { count: minutes });
+  };
+
+  const folderName = (folder: string) =>
+    folder === ROOT_FOLDER_NAME ? t('library.internalStorage')
+      : folder === NETWORK_ROOT_NAME ? t('library.network')
+        : folder;
+
+  const handleClear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    await clearHistory();
+    setEvents([]);
+  };
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') downloadFile(`watch-history-${stamp}.csv`, historyToCsv(events), 'text/csv');
+    else downloadFile(`watch-history-${stamp}.json`, historyToJson(events), 'application/json');
+  };
+
+  const tile = (icon: React.ReactNode, label: string, value: string) => (
+    <div className="flex-1 min-w-[8rem] p-4 rounded-2xl bg-[#161616] border border-gray-800/50">
+      <p className="flex items-center gap-2 text-xs text-gray-500">{icon} {label}</p>
+      <p className="mt-1 text-xl font-semibold text-gray-200">{value}</p>
+    </div>
+  );
+
+  const heading = 'px-2 text-xs text-gray-500 uppercase tracking-wider';
+
+  return (
+    <div className="flex flex-col gap-6 p-2">
+      {!trackHistory && (
+        <div className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-gray-800 text-sm text-gray-400">
+          <EyeOff size={18} className="flex-shrink-0" />
+          <p className="flex-1">{t('stats.trackingOff')}</p>
+          <button
+            onClick={() => onTrackHistoryChange(true)}
+            className="px-3 py-1 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 rounded-full text-xs font-medium"
+          >
+            {t('stats.turnOn')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {tile(<Clock size={14} />, t('stats.totalTime'), watchTime(summary.totalSeconds))}
+        {tile(<Play size={14} />, t('stats.sessions'), formatNumber(summary.sessions))}
+        {tile(<CheckCircle2 size={14} />, t('stats.completions'), formatNumber(summary.completions))}
+      </div>
+
+      <section className="space-y-3">
+        <p className={heading}>{t('stats.activity', { count: ACTIVITY_DAYS })}</p>
+        <div className="flex items-end gap-1 h-32 px-2">
+          {summary.days.map(day => (
+            <div key={day.start} className="flex-1 h-full flex flex-col items-center justify-end gap-1" title={watchTime(day.seconds)}>
+              <div
+                className="w-full bg-blue-600 rounded-t"
+                style={{ height: `${busiestDay ? (day.seconds / busiestDay) * 100 : 0}%`, minHeight: day.seconds ? 2 : 0 }}
+              />
+              <span className="text-[10px] text-gray-600">{weekday.format(day.start)}</span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <p className={heading}>{t('stats.topFolders')}</p>
+        {summary.folders.length === 0 ? (
+          <p className="px-2 text-sm text-gray-600">{t('stats.empty')}</p>
+        ) : (
+          summary.folders.slice(0, TOP_FOLDERS).map(folder => (
+            <div key={folder.folder} className="flex items-center gap-3 px-2">
+              <FolderOpen size={16} className="text-gray-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between text-sm">
+                  <span className="truncate text-gray-300">{folderName(folder.folder)}</span>
+                  <span className="text-gray-500 flex-shrink-0 ml-2">{watchTime(folder.seconds)}</span>
+                </div>
+                <div className="mt-1 h-1 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500" style={{ width: `${(folder.seconds / summary.folders[0].seconds) * 100}%` }} />
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <p className={heading}>{t('stats.unfinished')}</p>
+        {unfinished.length === 0 ? (
+          <p className="px-2 text-sm text-gray-600">{t('stats.nothingUnfinished')}</p>
+        ) : (
+          <div className="flex flex-col gap-1">
+            {unfinished.map(video => (
+              <VideoRow
+                key={video.id}
+                video={video}
+                progress={getVideoProgress(progress, video)}
+                showWatchState
+                onPlay={() => onPlay(unfinished, video)}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-1">
+        <p className={heading}>{t('stats.privacy')}</p>
+        <label className="flex items-center justify-between gap-3 px-3 py-2 text-sm cursor-pointer">
+          <span>
+            {t('stats.keepHistory')}
+            <span className="block text-xs text-gray-500">{t('stats.keepHistoryHint')}</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={trackHistory}
+            onChange={(e) => onTrackHistoryChange(e.target.checked)}
+            className="accent-blue-500"
+          />
+        </label>
+        <button
+          onClick={() => exportAs('csv')}
+          disabled={!events.length}
+          className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-gray-300 hover:bg-white/5 disabled:opacity-40"
+        >
+          <Download size={16} /> {t('stats.exportCsv')}
+        </button>
+        <button
+          onClick={() => exportAs('json')}
+          disabled={!events.length}
+          className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-gray-300 hover:bg-white/5 disabled:opacity-40"
+        >
+          <Download size={16} /> {t('stats.exportJson')}
+        </button>
+        <button
+          onClick={handleClear}
+          onBlur={() => setConfirmClear(false)}
+          disabled={!events.length}
+          className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm hover:bg-white/5 disabled:opacity-40 ${confirmClear ? 'text-red-400' : 'text-gray-400'}`}
+        >
+          <Trash2 size={16} /> {t(confirmClear ? 'stats.confirmClear' : 'stats.clear')}
+        </button>
+      </section>
+    </div>
+  );
+};
+
+export default StatsView;
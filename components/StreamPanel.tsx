@@ -0,0 +1,93 @@
+import React from 'react';
+import { X, Check } from 'lucide-react';
+import { StreamQuality, StreamStats, BUFFER_AHEAD_SECONDS } from '../services/adaptive';
+import { useI18n } from '../hooks/useI18n';
+
+interface StreamPanelProps {
+  stats: StreamStats;
+  onSelectQuality: (index: number | null) => void;
+  onClose: () => void;
+}
+
+// Below this share of the buffer target the bar turns amber, then red
+const BUFFER_WARNING = 0.5;
+const BUFFER_CRITICAL = 0.2;
+
+const toMbps = (bitsPerSecond: number) => Math.round(bitsPerSecond / 100_000) / 10;
+
+const StreamPanel: React.FC<StreamPanelProps> = ({ stats, onSelectQuality, onClose }) => {
+  const { t } = useI18n();
+  const health = Math.min(1, stats.bufferAhead / BUFFER_AHEAD_SECONDS);
+  const healthColor = health < BUFFER_CRITICAL ? 'bg-red-500' : health < BUFFER_WARNING ? 'bg-amber-400' : 'bg-green-500';
+
+  const qualityLabel = (quality: StreamQuality) => quality.height
+    ? t('stream.height', { height: String(quality.height) })
+    : t('stream.mbps', { rate: toMbps(quality.bandwidth) });
+
+  const option = (label: string, active: boolean, onClick: () => void, detail?: string) => (
+    <button
+      onClick={onClick}
+      className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${active ? 'bg-blue-600/20 text-blue-400' : 'hover:bg-white/5'}`}
+    >
+      <span className="w-4">{active && <Check size={16} />}</span>
+      <span className="flex-1">{label}</span>
+      {detail && <span className="text-xs text-gray-500">{detail}</span>}
+    </button>
+  );
+
+  // Highest first, as quality menus usually list them
+  const order = stats.qualities.map((_, index) => index).reverse();
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('stream.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      <section className="space-y-1">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('stream.quality')}</p>
+        {option(
+          t('stream.auto'),
+          stats.forced === null,
+          () => onSelectQuality(null),
+          stats.forced === null ? qualityLabel(stats.qualities[stats.current]) : undefined
+        )}
+        {order.map(index => (
+          <React.Fragment key={index}>
+            {option(
+              qualityLabel(stats.qualities[index]),
+              stats.forced === index,
+              () => onSelectQuality(index),
+              t('stream.mbps', { rate: toMbps(stats.qualities[index].bandwidth) })
+            )}
+          </React.Fragment>
+        ))}
+      </section>
+
+      <section className="space-y-2">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('stream.connection')}</p>
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-400">{t('stream.bandwidth')}</span>
+          <span className="font-mono">
+            {stats.bandwidth ? t('stream.mbps', { rate: toMbps(stats.bandwidth) }) : '—'}
+          </span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-400">{t('stream.buffer')}</span>
+          <span className="font-mono">{t('stream.seconds', { count: Math.round(stats.bufferAhead) })}</span>
+        </div>
+        <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+          <div className={`h-full transition-all ${healthColor}`} style={{ width: `${health * 100}%` }} />
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default StreamPanel;
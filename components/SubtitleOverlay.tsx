@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { SubtitleCue, SubtitleStyle } from '../types';
+import { activeCues } from '../services/subtitles';
+
+interface SubtitleOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  cues: SubtitleCue[];
+  offsetMs: number;
+  style: SubtitleStyle;
+  raised: boolean;
+}
+
+// Renders cues ourselves instead of through native text tracks so styling
+// and sync offset behave the same in every browser.
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ videoRef, cues, offsetMs, style, raised }) => {
+  const [lines, setLines] = useState<string[]>([]);
+
+  useEffect(() => {
+    let frame = 0;
+    let lastKey = '';
+    const tick = () => {
+      const el = videoRef.current;
+      if (el) {
+        const current = activeCues(cues, el.currentTime - offsetMs / 1000).map(c => c.text);
+        const key = current.join('\u0000');
+        if (key !== lastKey) {
+          lastKey = key;
+          setLines(current);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef, cues, offsetMs]);
+
+  if (lines.length === 0) return null;
+
+  return (
+    <div
+      className={`absolute left-0 right-0 z-10 flex flex-col items-center gap-1 px-6 pointer-events-none transition-all duration-300 ${raised ? 'bottom-36' : 'bottom-10'}`}
+    >
+      {lines.map((text, i) => (
+        <p
+          key={i}
+          className="text-center whitespace-pre-line leading-snug px-2 py-0.5 rounded"
+          style={{
+            fontSize: style.fontSize,
+            color: style.color,
+            backgroundColor: `rgba(0, 0, 0, ${style.backgroundOpacity})`,
+            textShadow: style.backgroundOpacity < 0.3 ? '0 0 4px #000, 0 0 2px #000' : undefined
+          }}
+        >
+          {text}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default SubtitleOverlay;
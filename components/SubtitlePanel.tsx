@@ -0,0 +1,132 @@
+import React, { useRef } from 'react';
+import { X, Check, Plus, Minus, FileText } from 'lucide-react';
+import { SubtitleStyle, SubtitleTrack } from '../types';
+import { SUBTITLE_EXTENSIONS } from '../services/subtitles';
+import { useI18n } from '../hooks/useI18n';
+
+const COLORS = ['#ffffff', '#facc15', '#22d3ee', '#4ade80'];
+const BACKGROUNDS = [0, 0.5, 0.9];
+const OFFSET_STEP_MS = 100;
+
+interface SubtitlePanelProps {
+  tracks: SubtitleTrack[];
+  activeTrackId: string | null;
+  offsetMs: number;
+  style: SubtitleStyle;
+  onSelectTrack: (id: string | null) => void;
+  onLoadFile: (file: File) => void;
+  onOffsetChange: (offsetMs: number) => void;
+  onStyleChange: (style: SubtitleStyle) => void;
+  onClose: () => void;
+}
+
+const SubtitlePanel: React.FC<SubtitlePanelProps> = ({
+  tracks, activeTrackId, offsetMs, style, onSelectTrack, onLoadFile, onOffsetChange, onStyleChange, onClose
+}) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const trackButton = (id: string | null, label: string) => (
+    <button
+      key={id ?? 'off'}
+      onClick={() => onSelectTrack(id)}
+      className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${activeTrackId === id ? 'bg-blue-600/20 text-blue-400' : 'hover:bg-white/5'}`}
+    >
+      <span className="w-4">{activeTrackId === id && <Check size={16} />}</span>
+      <span className="truncate">{label}</span>
+    </button>
+  );
+
+  return (
+    <div
+      className="absolute top-0 right-0 bottom-0 z-40 w-80 max-w-full bg-[#111]/95 border-l border-gray-800 p-4 overflow-y-auto space-y-6"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('subtitles.title')}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X size={18} />
+        </button>
+      </div>
+
+      <section className="space-y-1">
+        {trackButton(null, t('common.off'))}
+        {tracks.map(track => trackButton(track.id, track.label))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-gray-400 hover:bg-white/5"
+        >
+          <FileText size={16} /> {t('subtitles.loadFile')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          accept={SUBTITLE_EXTENSIONS.map(ext => `.${ext}`).join(',')}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLoadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </section>
+
+      <section className="space-y-2">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('subtitles.sync')}</p>
+        <div className="flex items-center justify-between bg-white/5 rounded-lg p-1">
+          <button onClick={() => onOffsetChange(offsetMs - OFFSET_STEP_MS)} className="p-2 hover:bg-white/10 rounded-lg">
+            <Minus size={16} />
+          </button>
+          <button onClick={() => onOffsetChange(0)} className="text-sm font-mono">
+            {offsetMs > 0 ? '+' : ''}{offsetMs} ms
+          </button>
+          <button onClick={() => onOffsetChange(offsetMs + OFFSET_STEP_MS)} className="p-2 hover:bg-white/10 rounded-lg">
+            <Plus size={16} />
+          </button>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <p className="text-xs text-gray-500 uppercase tracking-wider">{t('subtitles.style')}</p>
+        <div className="flex items-center gap-3">
+          <span className="text-sm w-16">{t('subtitles.size')}</span>
+          <input
+            type="range"
+            min="14"
+            max="48"
+            value={style.fontSize}
+            onChange={(e) => onStyleChange({ ...style, fontSize: parseInt(e.target.value) })}
+            className="flex-1"
+          />
+          <span className="text-xs font-mono w-8 text-right">{style.fontSize}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm w-16">{t('subtitles.color')}</span>
+          {COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => onStyleChange({ ...style, color })}
+              className={`w-7 h-7 rounded-full border-2 ${style.color === color ? 'border-blue-500' : 'border-transparent'}`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm w-16">{t('subtitles.background')}</span>
+          {BACKGROUNDS.map(opacity => (
+            <button
+              key={opacity}
+              onClick={() => onStyleChange({ ...style, backgroundOpacity: opacity })}
+              className={`w-9 h-7 rounded-md border-2 text-[10px] ${style.backgroundOpacity === opacity ? 'border-blue-500' : 'border-gray-700'}`}
+              style={{ backgroundColor: `rgba(0, 0, 0, ${opacity})` }}
+            >
+              Aa
+            </button>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default SubtitlePanel;
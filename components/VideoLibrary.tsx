@@ -1,67 +1,477 @@
 
-import React, { useRef, useState, useMemo } from 'react';
-import { Play, Plus, Video, Folder, ArrowLeft, MoreVertical, Search, HardDrive } from 'lucide-react';
-import { VideoFile } from '../types';
+import React, { useRef, useState, useMemo, useEffect } from 'react';
+import {
+  Play, Plus, Video, Folder, ArrowLeft, MoreVertical, Search, HardDrive, RefreshCw, X, History, ListVideo, Shuffle,
+  Settings, ChevronRight, Pencil, Trash2, Globe, ChartColumn, Info, FolderInput, Share2, CheckCircle2, Circle, SquareCheck,
+  Undo2, Eye, EyeOff, Lock, LockOpen
+} from 'lucide-react';
+import { VideoFile, StorageRoot, WatchProgress, Playlist, ListPreferences } from '../types';
+import { NETWORK_ROOT_ID, NETWORK_ROOT_NAME, ROOT_FOLDER_NAME, supportsDirectoryPicker } from '../services/library';
+import { FolderNode, buildFolderTree, folderTrail, videosUnder } from '../services/folders';
+import { getVideoProgress } from '../services/progress';
+import { canEdit, canMove, canShare, locationOf, shareVideo } from '../services/fileActions';
+import { HiddenEntry, folderEntry, videoEntry } from '../services/vault';
+import {
+  DEFAULT_LIST_PREFERENCES, SearchMatch, applyListPreferences, containerOf, loadListPreferences,
+  saveListPreferences, searchVideo
+} from '../services/search';
+import { useListNavigation } from '../hooks/useListNavigation';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales';
+import VideoRow from './VideoRow';
+import PlaylistView from './PlaylistView';
+import ListControls from './ListControls';
+import NetworkStreamDialog from './NetworkStreamDialog';
+import StatsView from './StatsView';
+import ItemMenu, { MenuItem } from './ItemMenu';
+import RenameDialog from './RenameDialog';
+import ConfirmDialog from './ConfirmDialog';
+import MoveDialog from './MoveDialog';
+import PropertiesDialog from './PropertiesDialog';
+
+type LibraryTab = 'folders' | 'videos' | 'recent' | 'playlists' | 'stats';
+
+const NO_VIDEOS: VideoFile[] = [];
+
+// Views whose sort and filter choices are remembered
+type ListView = 'folder' | 'videos';
+
+type ItemDialog =
+  | { kind: 'rename'; video: VideoFile }
+  | { kind: 'renameFolder'; folder: FolderNode }
+  | { kind: 'delete'; videos: VideoFile[] }
+  | { kind: 'deleteFolder'; folder: FolderNode }
+  | { kind: 'move'; videos: VideoFile[] }
+  | { kind: 'properties'; video?: VideoFile; folder?: FolderNode };
+
+// Key of the folder a video sits in, as used by the folder tree
+const folderKeyOf = (video: VideoFile) => {
+  const { rootId, folders } = locationOf(video);
+  return [rootId, ...folders].join('/');
+};
+
+// Up to four thumbnails from the folder, or the plain folder icon until
+// the thumbnail worker has produced some.
+const FolderCollage: React.FC<{ videos: VideoFile[] }> = ({ videos }) => {
+  const thumbnails = videos.filter(v => v.thumbnail).slice(0, 4).map(v => v.thumbnail!);
+  if (thumbnails.length === 0) {
+    return (
+      <div className="w-14 h-14 bg-blue-600/10 rounded-xl flex items-center justify-center text-blue-500 group-hover:scale-110 transition-transform">
+        <Folder size={28} fill="currentColor" className="opacity-80" />
+      </div>
+    );
+  }
+  return (
+    <div className={`w-14 h-14 rounded-xl overflow-hidden grid gap-px bg-gray-800 flex-shrink-0 group-hover:scale-110 transition-transform ${thumbnails.length > 1 ? 'grid-cols-2' : ''}`}>
+      {thumbnails.map((src, i) => (
+        <img
+          key={i}
+          src={src}
+          alt=""
+          loading="lazy"
+          className={`w-full h-full object-cover ${thumbnails.length === 3 && i === 0 ? 'row-span-2' : ''}`}
+        />
+      ))}
+    </div>
+  );
+};
 
 interface VideoLibraryProps {
   videos: VideoFile[];
-  onAddVideos: (videos: VideoFile[]) => void;
-  onPlayVideo: (index: number) => void;
+  roots: StorageRoot[];
+  progress: Record<string, WatchProgress>;
+  pendingRoots: StorageRoot[];
+  notice: string | null;
+  onDismissNotice: () => void;
+  onImportFiles: (files: File[]) => void;
+  onAddStorageRoot: () => void;
+  onOpenStream: (url: string, name: string) => void;
+  onReconnectRoots: () => void;
+  onRescanRoot: (root: StorageRoot) => void;
+  onRenameRoot: (root: StorageRoot, name: string) => void;
+  onRemoveRoot: (root: StorageRoot) => void;
+  playlists: Playlist[];
+  onPlayVideos: (list: VideoFile[], start?: VideoFile, shuffle?: boolean) => void;
+  onSavePlaylist: (playlist: Playlist) => void;
+  onDeletePlaylist: (id: string) => void;
+  onImportPlaylist: (file: File) => void;
+  onExportPlaylist: (playlist: Playlist) => void;
+  onShowSettings: () => void;
+  trackHistory: boolean;
+  onTrackHistoryChange: (enabled: boolean) => void;
+  onRenameVideo: (video: VideoFile, name: string) => void;
+  onMoveVideos: (videos: VideoFile[], folder: FolderNode) => void;
+  onDeleteVideos: (videos: VideoFile[]) => void;
+  onRenameFolder: (folder: FolderNode, name: string) => void;
+  onDeleteFolder: (folder: FolderNode) => void;
+  onMarkWatched: (videos: VideoFile[], watched: boolean) => void;
+  // What the last rename or move did, while it can still be undone
+  undoLabel: string | null;
+  onUndo: () => void;
+  onDismissUndo: () => void;
+  // What the private folder hides. Hidden videos are only passed in while
+  // it is unlocked, so these mark them rather than filter them out.
+  hiddenIds: Set<string>;
+  // Hidden themselves rather than by a hidden folder
+  directIds: Set<string>;
+  hiddenFolders: Set<string>;
+  privacyUnlocked: boolean;
+  onSetHidden: (entries: HiddenEntry[], hidden: boolean) => void;
+  // Missing where the browser has no WebCrypto
+  onOpenPrivacy?: () => void;
 }
 
-const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, onAddVideos, onPlayVideo }) => {
+const VideoLibrary: React.FC<VideoLibraryProps> = ({
+  videos, roots, progress, pendingRoots, notice, onDismissNotice, onImportFiles, onAddStorageRoot, onOpenStream,
+  onReconnectRoots, onRescanRoot, onRenameRoot, onRemoveRoot, playlists, onPlayVideos, onSavePlaylist, onDeletePlaylist, onImportPlaylist,
+  onExportPlaylist, onShowSettings, trackHistory, onTrackHistoryChange, onRenameVideo, onMoveVideos, onDeleteVideos,
+  onRenameFolder, onDeleteFolder, onMarkWatched, undoLabel, onUndo, onDismissUndo, hiddenIds, directIds, hiddenFolders,
+  privacyUnlocked, onSetHidden, onOpenPrivacy
+}) => {
+  const { t } = useI18n();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [selectedFolderName, setSelectedFolderName] = useState<string | null>(null);
-
-  // Group videos by folder name
-  const folders = useMemo(() => {
-    const group: Record<string, VideoFile[]> = {};
-    videos.forEach(video => {
-      if (!group[video.folderName]) {
-        group[video.folderName] = [];
-      }
-      group[video.folderName].push(video);
-    });
-    return group;
-  }, [videos]);
+  const [folderKey, setFolderKey] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<LibraryTab>('folders');
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [listPrefs, setListPrefs] = useState<Partial<Record<ListView, ListPreferences>>>({});
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [streamDialogOpen, setStreamDialogOpen] = useState(false);
+  const [menu, setMenu] = useState<{ anchor: DOMRect; items: MenuItem[] } | null>(null);
+  const [dialog, setDialog] = useState<ItemDialog | null>(null);
+  // Ids of the picked videos; null when not picking
+  const [selection, setSelection] = useState<Set<string> | null>(null);
+
+  const tree = useMemo(() => buildFolderTree(videos, roots), [videos, roots]);
+  // From the storage root down to the open folder, for the breadcrumbs
+  const trail = useMemo(() => folderTrail(tree, folderKey), [tree, folderKey]);
+  const folder: FolderNode | null = trail[trail.length - 1] ?? null;
+
+  // The open folder can vanish with a rescan or when its root is removed
+  useEffect(() => {
+    if (folderKey !== null && !folder) setFolderKey(null);
+  }, [folderKey, folder]);
+
+  const openParent = () => setFolderKey(trail.length > 1 ? trail[trail.length - 2].key : null);
 
   const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      // Fix: Cast filesArray to any[] to avoid 'unknown' type error when accessing properties like 'type'
-      const filesArray = Array.from(e.target.files) as any[];
-      const videoFiles = filesArray.filter(file => file.type.startsWith('video/'));
-      
-      const newVideos: VideoFile[] = videoFiles.map((file: any) => {
-        // Extract folder name from relative path (webkitRelativePath)
-        const pathParts = file.webkitRelativePath.split('/');
-        const folderName = pathParts.length > 1 ? pathParts[pathParts.length - 2] : 'Internal Storage';
-        
-        return {
-          id: Math.random().toString(36).substr(2, 9),
-          name: file.name,
-          size: (file.size / (1024 * 1024)).toFixed(2) + ' MB',
-          url: URL.createObjectURL(file),
-          type: file.type,
-          lastModified: file.lastModified,
-          folderName: folderName,
-          relativePath: file.webkitRelativePath
-        };
+      onImportFiles(Array.from(e.target.files) as File[]);
+      // Allow picking the same folder again to re-link it after a reload
+      e.target.value = '';
+    }
+  };
+
+  const handleSelectStorage = () => {
+    if (supportsDirectoryPicker()) onAddStorageRoot();
+    else fileInputRef.current?.click();
+  };
+
+  // Roots without a handle are rescanned by picking their folder again
+  const handleRescan = (root: StorageRoot) => {
+    if (root.handle) onRescanRoot(root);
+    else fileInputRef.current?.click();
+  };
+
+  const commitRename = () => {
+    const root = renaming && roots.find(r => r.id === renaming.id);
+    if (root && renaming.name.trim() && renaming.name.trim() !== root.name) onRenameRoot(root, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const isSearching = searchOpen && query.trim() !== '';
+  // Searching in a folder also looks through its subfolders
+  const folderVideos = folder ? (isSearching ? videosUnder(folder) : folder.videos) : NO_VIDEOS;
+  const listView: ListView | null = folder ? 'folder' : activeTab === 'videos' ? 'videos' : null;
+  const prefs = (listView && listPrefs[listView]) || DEFAULT_LIST_PREFERENCES;
+
+  useEffect(() => {
+    if (!listView || listPrefs[listView]) return;
+    loadListPreferences(listView)
+      .then(loaded => setListPrefs(prev => ({ ...prev, [listView]: loaded })))
+      .catch(err => console.error('Failed to load list preferences:', err));
+  }, [listView, listPrefs]);
+
+  const handlePrefsChange = (next: ListPreferences) => {
+    if (!listView) return;
+    setListPrefs(prev => ({ ...prev, [listView]: next }));
+    saveListPreferences(listView, next).catch(err => console.error('Failed to save list preferences:', err));
+  };
+
+  const containers = useMemo(
+    () => Array.from(new Set(videos.map(containerOf))).filter(Boolean).sort(),
+    [videos]
+  );
+
+  // Flat list for the open folder, the all-videos tab or search results.
+  // Searching ranks by match quality instead of the chosen sort.
+  const { shownVideos, matches } = useMemo(() => {
+    const matches = new Map<string, SearchMatch>();
+    if (!listView && !isSearching) return { shownVideos: [] as VideoFile[], matches };
+    let list = applyListPreferences(folder ? folderVideos : videos, prefs, progress);
+    if (isSearching) {
+      list.forEach(video => {
+        const match = searchVideo(video, query);
+        if (match) matches.set(video.id, match);
       });
-      
-      onAddVideos(newVideos);
+      list = list
+        .filter(v => matches.has(v.id))
+        .sort((a, b) => matches.get(b.id)!.score - matches.get(a.id)!.score);
+    }
+    return { shownVideos: list, matches };
+  }, [listView, isSearching, folder, folderVideos, videos, prefs, progress, query]);
+
+  // Most recently watched first
+  const recentVideos = useMemo(() => videos
+    .filter(v => getVideoProgress(progress, v))
+    .sort((a, b) => getVideoProgress(progress, b).updatedAt - getVideoProgress(progress, a).updatedAt),
+  [videos, progress]);
+
+  // Playing from a list queues the rest of that list after it
+  const playFrom = (list: VideoFile[], video: VideoFile) => onPlayVideos(list, video);
+
+  // Play all goes through the subfolders too, each one in turn rather
+  // than mixed together by the chosen sort
+  const playOrder = (node: FolderNode): VideoFile[] =>
+    [...applyListPreferences(node.videos, prefs, progress), ...node.folders.flatMap(playOrder)];
+
+  // The default names are shown translated until renamed
+  const folderLabel = ({ key, name }: FolderNode) => {
+    if (key === NETWORK_ROOT_ID && name === NETWORK_ROOT_NAME) return t('library.network');
+    return name === ROOT_FOLDER_NAME ? t('library.internalStorage') : name;
+  };
+
+  const tabButton = (tab: LibraryTab, label: MessageKey, Icon: typeof Folder) => (
+    <button
+      onClick={() => setActiveTab(tab)}
+      className={`flex flex-col items-center gap-1 ${activeTab === tab ? 'text-blue-500' : 'text-gray-600'}`}
+    >
+      <Icon size={20} fill={activeTab === tab && tab !== 'playlists' && tab !== 'stats' ? 'currentColor' : 'none'} />
+      <span className="text-[10px] font-bold">{t(label)}</span>
+    </button>
+  );
+
+  const view = listView || isSearching ? 'list' : activeTab;
+  // Folder cards come first in keyboard order, then the video rows
+  const gridFolders = view === 'folders' ? tree : view === 'list' && folder && !isSearching ? folder.folders : [];
+  const navVideos = view === 'list' ? shownVideos : view === 'recent' ? recentVideos : [];
+  const listKey = `${view}:${activeTab}:${folderKey}:${query}`;
+
+  // Picking starts over in another view
+  useEffect(() => setSelection(null), [listKey]);
+
+  const { focusedIndex, containerRef } = useListNavigation({
+    count: gridFolders.length + navVideos.length,
+    getColumns: () => {
+      const grid = (focusedIndex ?? 0) < gridFolders.length ? containerRef.current?.querySelector('[data-grid]') : null;
+      return grid ? getComputedStyle(grid).gridTemplateColumns.split(' ').length : 1;
+    },
+    onActivate: (index) => {
+      if (index < gridFolders.length) setFolderKey(gridFolders[index].key);
+      else playFrom(navVideos, navVideos[index - gridFolders.length]);
+    },
+    onBack: folder ? openParent : undefined,
+    resetKey: listKey
+  });
+
+  const toggleSelected = (video: VideoFile) => setSelection(prev => {
+    const next = new Set(prev);
+    if (next.has(video.id)) next.delete(video.id);
+    else next.add(video.id);
+    return next;
+  });
+
+  const selectedVideos = selection ? navVideos.filter(v => selection.has(v.id)) : NO_VIDEOS;
+
+  const openMenu = (anchor: DOMRect, items: (MenuItem | false)[]) =>
+    setMenu({ anchor, items: items.filter((item): item is MenuItem => !!item) });
+
+  const openVideoMenu = (video: VideoFile, anchor: DOMRect) => {
+    const watched = !!getVideoProgress(progress, video)?.completed;
+    openMenu(anchor, [
+      { icon: Info, label: t('action.properties'), onSelect: () => setDialog({ kind: 'properties', video }) },
+      canEdit(video, roots) && { icon: Pencil, label: t('action.rename'), onSelect: () => setDialog({ kind: 'rename', video }) },
+      canMove(video, roots) && { icon: FolderInput, label: t('action.move'), onSelect: () => setDialog({ kind: 'move', videos: [video] }) },
+      canShare(video) && { icon: Share2, label: t('action.share'), onSelect: () => shareVideo(video) },
+      // Videos hidden along with their folder are unhidden with it
+      !!onOpenPrivacy && (directIds.has(video.id)
+        ? { icon: Eye, label: t('privacy.unhide'), onSelect: () => onSetHidden([videoEntry(video)], false) }
+        : !hiddenIds.has(video.id) && { icon: EyeOff, label: t('privacy.hide'), onSelect: () => onSetHidden([videoEntry(video)], true) }),
+      watched
+        ? { icon: Circle, label: t('action.markUnwatched'), onSelect: () => onMarkWatched([video], false) }
+        : { icon: CheckCircle2, label: t('action.markWatched'), onSelect: () => onMarkWatched([video], true) },
+      { icon: SquareCheck, label: t('action.select'), onSelect: () => setSelection(new Set([video.id])) },
+      canEdit(video, roots) && { icon: Trash2, label: t('action.delete'), danger: true, onSelect: () => setDialog({ kind: 'delete', videos: [video] }) }
+    ]);
+  };
+
+  const openFolderMenu = (folder: FolderNode, anchor: DOMRect) => {
+    const writable = !!folder.root.handle;
+    const contents = videosUnder(folder);
+    openMenu(anchor, [
+      { icon: Info, label: t('action.properties'), onSelect: () => setDialog({ kind: 'properties', folder }) },
+      writable && { icon: Pencil, label: t('action.rename'), onSelect: () => setDialog({ kind: 'renameFolder', folder }) },
+      { icon: CheckCircle2, label: t('action.markAllWatched'), onSelect: () => onMarkWatched(contents, true) },
+      { icon: Circle, label: t('action.markAllUnwatched'), onSelect: () => onMarkWatched(contents, false) },
+      !!onOpenPrivacy && (hiddenFolders.has(folder.key)
+        ? { icon: Eye, label: t('privacy.unhide'), onSelect: () => onSetHidden([folderEntry(folder)], false) }
+        : { icon: EyeOff, label: t('privacy.hide'), onSelect: () => onSetHidden([folderEntry(folder)], true) }),
+      writable && { icon: Trash2, label: t('action.delete'), danger: true, onSelect: () => setDialog({ kind: 'deleteFolder', folder }) }
+    ]);
+  };
+
+  // Bulk actions on the picked videos; picking ends once they're done
+  const forSelection = (action: (videos: VideoFile[]) => void) => () => {
+    action(selectedVideos);
+    setSelection(null);
+  };
+
+  const renderDialog = (open: ItemDialog) => {
+    const close = () => setDialog(null);
+    switch (open.kind) {
+      case 'rename':
+        return (
+          <RenameDialog
+            name={open.video.name}
+            keepExtension={!open.video.url}
+            onRename={(name: string) => { close(); onRenameVideo(open.video, name); }}
+            onClose={close}
+          />
+        );
+      case 'renameFolder':
+        return (
+          <RenameDialog
+            name={open.folder.name}
+            onRename={(name: string) => { close(); onRenameFolder(open.folder, name); }}
+            onClose={close}
+          />
+        );
+      case 'delete':
+        return (
+          <ConfirmDialog
+            title={t('action.deleteTitle', { count: open.videos.length })}
+            message={open.videos.length === 1
+              ? t(open.videos[0].url ? 'action.deleteStreamConfirm' : 'action.deleteConfirm', { name: open.videos[0].name })
+              : t('action.deleteManyConfirm', { count: open.videos.length })}
+            confirmLabel={t('action.delete')}
+            onConfirm={() => { close(); setSelection(null); onDeleteVideos(open.videos); }}
+            onClose={close}
+          />
+        );
+      case 'deleteFolder':
+        return (
+          <ConfirmDialog
+            title={t('action.deleteFolderTitle')}
+            message={t('action.deleteFolderConfirm', { name: open.folder.name, count: open.folder.count })}
+            confirmLabel={t('action.delete')}
+            onConfirm={() => { close(); onDeleteFolder(open.folder); }}
+            onClose={close}
+          />
+        );
+      case 'move': {
+        const keys = new Set(open.videos.map(folderKeyOf));
+        return (
+          <MoveDialog
+            tree={tree.filter(node => node.root.handle)}
+            count={open.videos.length}
+            currentKey={keys.size === 1 ? [...keys][0] : undefined}
+            onMove={(target: FolderNode) => { close(); setSelection(null); onMoveVideos(open.videos, target); }}
+            onClose={close}
+          />
+        );
+      }
+      case 'properties':
+        return (
+          <PropertiesDialog
+            video={open.video}
+            folder={open.folder}
+            progress={open.video && getVideoProgress(progress, open.video)}
+            onClose={close}
+          />
+        );
     }
   };
 
-  const filteredVideos = selectedFolderName ? folders[selectedFolderName] : [];
+  // Props that give a row its menu and let it be picked
+  const rowActions = (video: VideoFile) => ({
+    hidden: hiddenIds.has(video.id),
+    selected: selection ? selection.has(video.id) : undefined,
+    onToggleSelect: () => toggleSelected(video),
+    onMenu: (anchor: DOMRect) => openVideoMenu(video, anchor)
+  });
+
+  const pendingIds = new Set(pendingRoots.map(r => r.id));
+  const cardButton = 'p-1.5 text-gray-500 hover:text-white hover:bg-white/10 rounded-full';
+
+  const folderCard = (node: FolderNode, index: number) => {
+    const isRoot = node.key === node.root.id;
+    return (
+      <div
+        key={node.key}
+        data-focused={focusedIndex === index}
+        onClick={() => setFolderKey(node.key)}
+        className={`flex items-center gap-4 p-4 rounded-2xl bg-[#161616] hover:bg-[#202020] border transition-all cursor-pointer group ${focusedIndex === index ? 'border-blue-500' : 'border-gray-800/50'}`}
+      >
+        <FolderCollage videos={videosUnder(node)} />
+        <div className="flex-1 min-w-0">
+          {renaming?.id === node.key ? (
+            <input
+              autoFocus
+              value={renaming.name}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => setRenaming({ id: node.key, name: e.target.value })}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+              className="w-full bg-white/5 border border-blue-500 rounded px-2 py-1 text-sm outline-none"
+            />
+          ) : (
+            <h3 className="font-semibold text-gray-200 truncate">
+              {hiddenFolders.has(node.key) && <EyeOff size={14} className="inline mr-1.5 -mt-0.5 text-gray-500" />}
+              {folderLabel(node)}
+            </h3>
+          )}
+          <p className="text-xs text-gray-500 font-medium">
+            {isRoot && pendingIds.has(node.root.id) ? t('library.rootNeedsAccess') : t('common.videoCount', { count: node.count })}
+          </p>
+        </div>
+        {isRoot ? (
+          <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+            {node.root.id !== NETWORK_ROOT_ID && (
+              <button onClick={() => handleRescan(node.root)} title={t('library.rescanRoot')} className={cardButton}>
+                <RefreshCw size={16} />
+              </button>
+            )}
+            <button onClick={() => setRenaming({ id: node.key, name: node.root.name })} title={t('library.renameRoot')} className={cardButton}>
+              <Pencil size={16} />
+            </button>
+            <button onClick={() => onRemoveRoot(node.root)} title={t('library.removeRoot')} className={cardButton}>
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={(e) => { e.stopPropagation(); openFolderMenu(node, e.currentTarget.getBoundingClientRect()); }}
+            title={t('action.more')}
+            className={cardButton}
+          >
+            <MoreVertical size={18} />
+          </button>
+        )}
+      </div>
+    );
+  };
 
   return (
     <div className="flex flex-col h-full bg-[#0a0a0a] text-gray-100">
       {/* Dynamic Header */}
       <header className="px-6 py-4 flex items-center justify-between border-b border-gray-800 bg-[#111] sticky top-0 z-20">
         <div className="flex items-center gap-3">
-          {selectedFolderName ? (
+          {folder ? (
             <button 
-              onClick={() => setSelectedFolderName(null)}
+              onClick={openParent}
               className="p-2 -ml-2 hover:bg-white/10 rounded-full transition-colors"
             >
               <ArrowLeft size={24} />
@@ -71,30 +481,173 @@ const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, onAddVideos, onPlay
               <Play className="text-white fill-current" size={20} />
             </div>
           )}
-          <div>
-            <h1 className="text-xl font-bold tracking-tight">
-              {selectedFolderName || 'V-Player Pro'}
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold tracking-tight truncate">
+              {folder ? folderLabel(folder) : 'V-Player Pro'}
             </h1>
-            {!selectedFolderName && <p className="text-[10px] text-blue-500 font-semibold uppercase tracking-wider">Local Library</p>}
+            {folder ? (
+              <nav className="flex items-center gap-1 text-xs text-gray-500 overflow-x-auto whitespace-nowrap">
+                <button onClick={() => setFolderKey(null)} className="hover:text-blue-400">{t('library.tab.folders')}</button>
+                {trail.slice(0, -1).map(node => (
+                  <React.Fragment key={node.key}>
+                    <ChevronRight size={12} className="flex-shrink-0" />
+                    <button onClick={() => setFolderKey(node.key)} className="hover:text-blue-400">{folderLabel(node)}</button>
+                  </React.Fragment>
+                ))}
+              </nav>
+            ) : (
+              <p className="text-[10px] text-blue-500 font-semibold uppercase tracking-wider">{t('library.subtitle')}</p>
+            )}
           </div>
         </div>
         
         <div className="flex items-center gap-2">
-          {!selectedFolderName && (
+          {folder && (
+            <>
+              <button
+                onClick={() => onPlayVideos(playOrder(folder), undefined, true)}
+                className="p-2 hover:bg-white/10 rounded-full text-gray-400"
+              >
+                <Shuffle size={20} />
+              </button>
+              <button
+                onClick={() => onPlayVideos(playOrder(folder))}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-full transition-all active:scale-95 font-medium text-sm"
+              >
+                <Play size={16} fill="white" />
+                <span className="hidden sm:inline">{t('library.playAll')}</span>
+              </button>
+            </>
+          )}
+          {!folder && (
             <button 
-              onClick={() => fileInputRef.current?.click()}
+              onClick={handleSelectStorage}
               className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-full transition-all active:scale-95 font-medium text-sm shadow-lg shadow-blue-600/20"
             >
               <HardDrive size={18} />
-              <span className="hidden sm:inline">স্টোরেজ সিলেক্ট করুন</span>
+              <span className="hidden sm:inline">{t('library.selectStorage')}</span>
             </button>
           )}
-          <button className="p-2 hover:bg-white/10 rounded-full">
+          {!folder && (
+            <button
+              onClick={() => setStreamDialogOpen(true)}
+              title={t('library.openStream')}
+              className="p-2 hover:bg-white/10 rounded-full"
+            >
+              <Globe size={20} className="text-gray-400" />
+            </button>
+          )}
+          <button
+            onClick={() => { setSearchOpen(open => !open); setQuery(''); }}
+            className={`p-2 hover:bg-white/10 rounded-full ${searchOpen ? 'bg-white/10' : ''}`}
+          >
             <Search size={20} className="text-gray-400" />
           </button>
+          {!folder && onOpenPrivacy && (
+            <button onClick={onOpenPrivacy} title={t('privacy.title')} className="p-2 hover:bg-white/10 rounded-full">
+              {privacyUnlocked
+                ? <LockOpen size={20} className="text-blue-400" />
+                : <Lock size={20} className="text-gray-400" />}
+            </button>
+          )}
+          {!folder && (
+            <button onClick={onShowSettings} className="p-2 hover:bg-white/10 rounded-full">
+              <Settings size={20} className="text-gray-400" />
+            </button>
+          )}
         </div>
       </header>
 
+      {searchOpen && (
+        <div className="px-4 py-2 bg-[#111] border-b border-gray-800 flex items-center gap-2">
+          <Search size={16} className="text-gray-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') { setSearchOpen(false); setQuery(''); } }}
+            placeholder={folder
+              ? t('library.searchInFolder', { folder: folderLabel(folder) })
+              : t('library.searchPlaceholder')}
+            className="flex-1 bg-transparent outline-none text-sm"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="p-1 hover:bg-white/10 rounded-full">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      )}
+
+      {selection && (
+        <div className="px-4 py-2 bg-[#111] border-b border-gray-800 flex items-center gap-1">
+          <button onClick={() => setSelection(null)} className="p-2 hover:bg-white/10 rounded-full">
+            <X size={18} />
+          </button>
+          <span className="flex-1 text-sm font-medium">{t('action.selected', { count: selectedVideos.length })}</span>
+          <button
+            onClick={() => setSelection(new Set(navVideos.map(v => v.id)))}
+            title={t('action.selectAll')}
+            className="p-2 hover:bg-white/10 rounded-full text-gray-400"
+          >
+            <SquareCheck size={18} />
+          </button>
+          {selectedVideos.length > 0 && (
+            <>
+              <button
+                onClick={forSelection(list => onMarkWatched(list, true))}
+                title={t('action.markWatched')}
+                className="p-2 hover:bg-white/10 rounded-full text-gray-400"
+              >
+                <CheckCircle2 size={18} />
+              </button>
+              <button
+                onClick={forSelection(list => onMarkWatched(list, false))}
+                title={t('action.markUnwatched')}
+                className="p-2 hover:bg-white/10 rounded-full text-gray-400"
+              >
+                <Circle size={18} />
+              </button>
+              {onOpenPrivacy && (selectedVideos.every(v => directIds.has(v.id)) ? (
+                <button
+                  onClick={forSelection(list => onSetHidden(list.map(videoEntry), false))}
+                  title={t('privacy.unhide')}
+                  className="p-2 hover:bg-white/10 rounded-full text-gray-400"
+                >
+                  <Eye size={18} />
+                </button>
+              ) : (
+                <button
+                  onClick={forSelection(list => onSetHidden(list.filter(v => !hiddenIds.has(v.id)).map(videoEntry), true))}
+                  title={t('privacy.hide')}
+                  className="p-2 hover:bg-white/10 rounded-full text-gray-400"
+                >
+                  <EyeOff size={18} />
+                </button>
+              ))}
+              {selectedVideos.every(v => canMove(v, roots)) && (
+                <button
+                  onClick={() => setDialog({ kind: 'move', videos: selectedVideos })}
+                  title={t('action.move')}
+                  className="p-2 hover:bg-white/10 rounded-full text-gray-400"
+                >
+                  <FolderInput size={18} />
+                </button>
+              )}
+              {selectedVideos.every(v => canEdit(v, roots)) && (
+                <button
+                  onClick={() => setDialog({ kind: 'delete', videos: selectedVideos })}
+                  title={t('action.delete')}
+                  className="p-2 hover:bg-white/10 rounded-full text-red-400"
+                >
+                  <Trash2 size={18} />
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Main Content Area */}
       <main className="flex-1 overflow-y-auto custom-scrollbar">
         {/* Hidden Directory Input */}
@@ -108,7 +661,46 @@ const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, onAddVideos, onPlay
           onChange={handleFolderSelect}
         />
 
-        {videos.length === 0 ? (
+        {!folder && pendingRoots.length > 0 && (
+          <div className="m-2 flex items-center gap-3 p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20 text-sm text-yellow-200">
+            <HardDrive size={18} className="flex-shrink-0" />
+            <p className="flex-1 min-w-0 truncate">
+              {t('library.reconnectPrompt', { roots: pendingRoots.map(r => r.name).join(', ') })}
+            </p>
+            <button
+              onClick={onReconnectRoots}
+              className="flex items-center gap-1 px-3 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 rounded-full text-xs font-medium"
+            >
+              <RefreshCw size={14} /> {t('library.reconnect')}
+            </button>
+          </div>
+        )}
+
+        {undoLabel && (
+          <div className="m-2 flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-gray-800 text-sm text-gray-300">
+            <p className="flex-1 min-w-0 truncate">{undoLabel}</p>
+            <button
+              onClick={onUndo}
+              className="flex items-center gap-1 px-3 py-1 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 rounded-full text-xs font-medium"
+            >
+              <Undo2 size={14} /> {t('action.undo')}
+            </button>
+            <button onClick={onDismissUndo} className="p-1 hover:bg-white/10 rounded-full">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="m-2 flex items-center gap-3 p-3 rounded-xl bg-blue-600/10 border border-blue-600/20 text-sm text-blue-200">
+            <p className="flex-1 min-w-0 truncate">{notice}</p>
+            <button onClick={onDismissNotice} className="p-1 hover:bg-white/10 rounded-full">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {videos.length === 0 && roots.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center text-gray-500 space-y-6 px-10">
             <div className="relative">
               <div className="w-32 h-32 bg-blue-600/10 rounded-full flex items-center justify-center animate-pulse">
@@ -119,68 +711,97 @@ const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, onAddVideos, onPlay
               </div>
             </div>
             <div className="text-center space-y-2">
-              <p className="text-xl font-semibold text-gray-300">কোনো ভিডিও নেই</p>
+              <p className="text-xl font-semibold text-gray-300">{t('library.emptyTitle')}</p>
               <p className="text-sm leading-relaxed max-w-xs">
-                ফোনের ভিডিও ফোল্ডারটি সিলেক্ট করতে উপরের বাটনে ক্লিক করুন। MX Player এর মতো সব ভিডিও ফোল্ডার অনুযায়ী দেখা যাবে।
+                {t('library.emptyHint')}
               </p>
             </div>
           </div>
         ) : (
-          <div className="p-2">
-            {!selectedFolderName ? (
-              /* FOLDERS VIEW */
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
-                {Object.keys(folders).map(folderName => (
-                  <div 
-                    key={folderName}
-                    onClick={() => setSelectedFolderName(folderName)}
-                    className="flex items-center gap-4 p-4 rounded-2xl bg-[#161616] hover:bg-[#202020] border border-gray-800/50 transition-all cursor-pointer group"
-                  >
-                    <div className="w-14 h-14 bg-blue-600/10 rounded-xl flex items-center justify-center text-blue-500 group-hover:scale-110 transition-transform">
-                      <Folder size={28} fill="currentColor" className="opacity-80" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <h3 className="font-semibold text-gray-200 truncate">{folderName}</h3>
-                      <p className="text-xs text-gray-500 font-medium">{folders[folderName].length} টি ভিডিও</p>
-                    </div>
-                    <MoreVertical size={18} className="text-gray-600" />
+          <div className="p-2" ref={containerRef}>
+            {view === 'list' ? (
+              /* FLAT LIST: FOLDER CONTENTS, ALL VIDEOS OR SEARCH RESULTS */
+              <>
+                {gridFolders.length > 0 && (
+                  <div data-grid className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mb-2">
+                    {gridFolders.map(folderCard)}
                   </div>
-                ))}
-              </div>
-            ) : (
-              /* VIDEOS WITHIN FOLDER VIEW */
-              <div className="flex flex-col gap-1">
-                {filteredVideos.map((video) => (
-                  <div 
-                    key={video.id}
-                    onClick={() => {
-                      const globalIndex = videos.findIndex(v => v.id === video.id);
-                      onPlayVideo(globalIndex);
-                    }}
-                    className="flex items-center gap-4 p-3 rounded-xl hover:bg-[#1a1a1a] transition-all cursor-pointer group"
-                  >
-                    <div className="relative w-28 h-16 bg-gray-900 rounded-lg overflow-hidden flex-shrink-0 border border-gray-800">
-                      <div className="absolute inset-0 flex items-center justify-center">
-                        <Video size={24} className="text-gray-700 group-hover:text-blue-500 transition-colors" />
-                      </div>
-                      <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                        <Play size={20} fill="white" className="text-white" />
-                      </div>
-                      <div className="absolute bottom-1 right-1 bg-black/80 px-1.5 py-0.5 rounded text-[10px] font-bold text-gray-300">
-                        {video.size}
-                      </div>
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <h3 className="text-sm font-medium text-gray-200 truncate leading-snug">{video.name}</h3>
-                      <p className="text-[11px] text-gray-500 mt-1 uppercase tracking-tighter">
-                        {new Date(video.lastModified).toLocaleDateString()} • {video.type.split('/')[1]}
-                      </p>
-                    </div>
-                    <button className="p-2 text-gray-600 hover:text-gray-400">
-                      <MoreVertical size={18} />
-                    </button>
+                )}
+                {listView && (
+                  <ListControls
+                    prefs={prefs}
+                    containers={containers}
+                    resultCount={shownVideos.length}
+                    onChange={handlePrefsChange}
+                  />
+                )}
+                {shownVideos.length === 0 && gridFolders.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-20 text-gray-500 gap-3">
+                    <Search size={48} className="text-gray-700" />
+                    <p className="text-sm">{t('library.noResults')}</p>
                   </div>
-                ))}
+                ) : (
+                  <div className="flex flex-col gap-1">
+                    {shownVideos.map((video, index) => (
+                      <VideoRow
+                        key={video.id}
+                        video={video}
+                        progress={getVideoProgress(progress, video)}
+                        focused={focusedIndex === gridFolders.length + index}
+                        match={matches.get(video.id)}
+                        {...rowActions(video)}
+                        onPlay={() => playFrom(shownVideos, video)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : activeTab === 'playlists' ? (
+              /* PLAYLISTS VIEW */
+              <PlaylistView
+                playlists={playlists}
+                videos={videos}
+                onPlay={onPlayVideos}
+                onSave={onSavePlaylist}
+                onDelete={onDeletePlaylist}
+                onImport={onImportPlaylist}
+                onExport={onExportPlaylist}
+              />
+            ) : activeTab === 'stats' ? (
+              /* STATS VIEW */
+              <StatsView
+                videos={videos}
+                progress={progress}
+                trackHistory={trackHistory}
+                onTrackHistoryChange={onTrackHistoryChange}
+                onPlay={onPlayVideos}
+              />
+            ) : activeTab === 'recent' ? (
+              /* RECENT VIEW */
+              recentVideos.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-20 text-gray-500 gap-3">
+                  <History size={48} className="text-gray-700" />
+                  <p className="text-sm">{t('library.noHistory')}</p>
+                </div>
+              ) : (
+                <div className="flex flex-col gap-1">
+                  {recentVideos.map((video, index) => (
+                    <VideoRow
+                      key={video.id}
+                      video={video}
+                      focused={focusedIndex === index}
+                      progress={getVideoProgress(progress, video)}
+                      showWatchState
+                      {...rowActions(video)}
+                      onPlay={() => playFrom(recentVideos, video)}
+                    />
+                  ))}
+                </div>
+              )
+            ) : (
+              /* FOLDERS VIEW */
+              <div data-grid className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {tree.map(folderCard)}
               </div>
             )}
           </div>
@@ -188,22 +809,25 @@ const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, onAddVideos, onPlay
       </main>
 
       {/* Tab Bar Simulation */}
-      {!selectedFolderName && videos.length > 0 && (
+      {!folder && (videos.length > 0 || roots.length > 0) && (
         <nav className="flex items-center justify-around py-3 px-6 bg-[#111] border-t border-gray-800">
-          <div className="flex flex-col items-center gap-1 text-blue-500">
-            <Folder size={20} fill="currentColor" />
-            <span className="text-[10px] font-bold">ফোল্ডার</span>
-          </div>
-          <div className="flex flex-col items-center gap-1 text-gray-600">
-            <Video size={20} />
-            <span className="text-[10px] font-bold">ভিডিও</span>
-          </div>
-          <div className="flex flex-col items-center gap-1 text-gray-600">
-            <Play size={20} />
-            <span className="text-[10px] font-bold">রিসেন্ট</span>
-          </div>
+          {tabButton('folders', 'library.tab.folders', Folder)}
+          {tabButton('videos', 'library.tab.videos', Video)}
+          {tabButton('recent', 'library.tab.recent', Play)}
+          {tabButton('playlists', 'library.tab.playlists', ListVideo)}
+          {tabButton('stats', 'library.tab.stats', ChartColumn)}
         </nav>
       )}
+
+      {menu && <ItemMenu anchor={menu.anchor} items={menu.items} onClose={() => setMenu(null)} />}
+      {dialog && renderDialog(dialog)}
+
+      {streamDialogOpen && (
+        <NetworkStreamDialog
+          onOpen={(url: string, name: string) => { setStreamDialogOpen(false); onOpenStream(url, name); }}
+          onClose={() => setStreamDialogOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,21 +1,92 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { 
   ArrowLeft, Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, 
-  Settings, Maximize, Lock, Unlock, Sun, MoreVertical, Layers, Zap, AlertCircle
+  Settings, Maximize, Lock, Unlock, Sun, MoreVertical, Layers, Zap, AlertCircle, AlertTriangle, RotateCcw, X, Captions, ListVideo, AudioLines,
+  Minimize, PictureInPicture2, Wand2, Bookmark as BookmarkIcon, Repeat, Camera, Scissors, Plus, Minus, StepBack, StepForward,
+  SlidersHorizontal, Gauge, Users
 } from 'lucide-react';
-import { VideoFile, AspectRatio, PlayerSettings } from '../types';
+import {
+  VideoFile, PlayerSettings, WatchProgress, SubtitleTrack, SubtitleStyle, KeyAction, Keymap, AppSettings, AudioSettings, PlaybackIssue, LoopRange, VideoView
+} from '../types';
+import { acquireObjectUrl, releaseObjectUrl } from '../services/objectUrls';
+import { canResume } from '../services/progress';
+import { getSubtitleFiles, loadSubtitleTrack } from '../services/subtitles';
+import { LOCKED_ACTIONS, eventToCombo, findAction, isTypingTarget } from '../services/keymap';
+import { PLAYBACK_SPEEDS, stepPlaybackSpeed } from '../services/settings';
+import { MAX_VOLUME } from '../services/audio';
+import { isAudioFile } from '../services/library';
+import { describeProbe, diagnose, issueMessage } from '../services/probe';
+import { captureFrame, screenshotFileName } from '../services/capture';
+import {
+  DEFAULT_VIEW, GAMMA_FILTER_ID, adjustmentFilter, clampView, isQuarterTurn, rotateBy, videoTransform
+} from '../services/adjustments';
+import { aspectLabel, layoutVideo, nextAspectMode } from '../services/aspect';
+import { streamFailureMessage } from '../services/manifest';
+import { downloadFile } from '../utils/download';
+import { useTrickplay } from '../hooks/useTrickplay';
+import { useI18n } from '../hooks/useI18n';
+import { useAudioGraph } from '../hooks/useAudioGraph';
+import { useAudioTracks } from '../hooks/useAudioTracks';
+import { useFullscreen } from '../hooks/useFullscreen';
+import { usePictureInPicture } from '../hooks/usePictureInPicture';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useMediaProbe } from '../hooks/useMediaProbe';
+import { useRemux } from '../hooks/useRemux';
+import { useChapters } from '../hooks/useChapters';
+import { useBookmarks } from '../hooks/useBookmarks';
+import { useFrameStep } from '../hooks/useFrameStep';
+import { useVideoAdjustments } from '../hooks/useVideoAdjustments';
+import { useElementSize } from '../hooks/useElementSize';
+import { useAdaptiveStream } from '../hooks/useAdaptiveStream';
+import { usePartySync } from '../hooks/usePartySync';
+import { useWatchHistory } from '../hooks/useWatchHistory';
+import { WatchParty } from '../hooks/useWatchParty';
+import { MessageKey } from '../locales';
+import SubtitleOverlay from './SubtitleOverlay';
+import SubtitlePanel from './SubtitlePanel';
+import KeyboardHelp from './KeyboardHelp';
+import SeekBar from './SeekBar';
+import AudioPanel from './AudioPanel';
+import AudioOnlyView from './AudioOnlyView';
+import BookmarkPanel from './BookmarkPanel';
+import ClipPanel from './ClipPanel';
+import AdjustmentsPanel from './AdjustmentsPanel';
+import StreamPanel from './StreamPanel';
+import PartyPanel from './PartyPanel';
+import GestureLayer, { MIN_BRIGHTNESS, MAX_BRIGHTNESS } from './GestureLayer';
+
+// How often the playback position is written while a video plays.
+const PROGRESS_SAVE_INTERVAL_MS = 5000;
+const RESUME_OFFER_MS = 8000;
+const AUTOPLAY_COUNTDOWN_SECONDS = 5;
+const VOLUME_STEP = 0.05;
+const ASPECT_NOTICE_MS = 1200;
 
 interface VideoPlayerProps {
   video: VideoFile;
+  progress?: WatchProgress;
+  onProgress: (video: VideoFile, position: number, duration: number) => void;
   onBack: () => void;
   onNext: () => void;
   onPrev: () => void;
   hasNext: boolean;
   hasPrev: boolean;
+  repeatOne: boolean;
+  // Global defaults with this video's folder and file overrides applied
+  defaults: AppSettings;
+  onDefaultsChange: (patch: Partial<AppSettings>) => void;
+  nextTitle?: string;
+  onShowQueue: () => void;
+  onShowSettings: () => void;
+  party: WatchParty;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, onBack, onNext, onPrev, hasNext, hasPrev }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  video, progress: savedProgress, onProgress, onBack, onNext, onPrev, hasNext, hasPrev,
+  repeatOne, defaults, onDefaultsChange, nextTitle, onShowQueue, onShowSettings, party
+}) => {
+  const { t, formatDuration, formatNumber } = useI18n();
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -23,17 +94,71 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, onBack, onNext, onPrev
   const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
-  const [volume, setVolume] = useState(1);
-  const [brightness, setBrightness] = useState(100);
+  const [volume, setVolume] = useState(defaults.volume);
+  const [brightness, setBrightness] = useState(defaults.brightness);
   const [showControls, setShowControls] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // A message key, so the error follows language changes
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [resumeOffer, setResumeOffer] = useState<number | null>(null);
+  const [nextCountdown, setNextCountdown] = useState<number | null>(null);
+  const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrack[]>([]);
+  const [activeSubtitleId, setActiveSubtitleId] = useState<string | null>(null);
+  const [subtitleOffset, setSubtitleOffset] = useState(0);
+  const [showSubtitlePanel, setShowSubtitlePanel] = useState(false);
+  const lastSubtitleIdRef = useRef<string | null>(null);
   const [settings, setSettings] = useState<PlayerSettings>({
-    playbackSpeed: 1,
-    aspectRatio: AspectRatio.FIT,
+    playbackSpeed: defaults.playbackSpeed,
+    aspectRatio: defaults.aspectRatio,
     isLocked: false
   });
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showAudioPanel, setShowAudioPanel] = useState(false);
+  const [audioOnly, setAudioOnly] = useState(isAudioFile(video));
+  const [hasPicture, setHasPicture] = useState(!isAudioFile(video));
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+  const [showBookmarkPanel, setShowBookmarkPanel] = useState(false);
+  const [showClipPanel, setShowClipPanel] = useState(false);
+  const [showAdjustmentsPanel, setShowAdjustmentsPanel] = useState(false);
+  const [showStreamPanel, setShowStreamPanel] = useState(false);
+  const [showPartyPanel, setShowPartyPanel] = useState(false);
+  const [view, setView] = useState<VideoView>(DEFAULT_VIEW);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  // Name of the aspect mode just switched to, shown briefly over the picture
+  const [aspectNotice, setAspectNotice] = useState<string | null>(null);
+  const trickplay = useTrickplay(video);
+  const resumeAudio = useAudioGraph(videoRef, volume, defaults.audio);
+  const { tracks: audioTracks, selectTrack: selectAudioTrack } = useAudioTracks(videoRef, video);
+  const probe = useMediaProbe(video);
+  const issues = useMemo(() => probe ? diagnose(probe) : [], [probe]);
+  const fatalIssue = issues.find(issue => issue.fatal);
+  const warning = issues.find(issue => !issue.fatal);
+  const remux = useRemux(videoRef, video, probe);
+  const stream = useAdaptiveStream(videoRef, video);
+  useWatchHistory(videoRef, video, defaults.trackHistory);
+  const [warningDismissed, setWarningDismissed] = useState(false);
+  const issueText = (issue: PlaybackIssue) => {
+    const { key, params } = issueMessage(issue);
+    return t(key, params);
+  };
+  const { isFullscreen, toggle: toggleFullscreen } = useFullscreen(containerRef, videoRef);
+  const pip = usePictureInPicture(videoRef);
+  const chapters = useChapters(video);
+  const bookmarks = useBookmarks(video);
+  const stepFrame = useFrameStep(videoRef);
+  const { adjustments, update: updateAdjustments, reset: resetAdjustments } = useVideoAdjustments(video);
+  const containerSize = useElementSize(containerRef);
 
   const controlsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastProgressSaveRef = useRef(0);
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+
+  const saveProgress = useCallback(() => {
+    const el = videoRef.current;
+    if (!el || !el.duration || !el.currentTime) return;
+    lastProgressSaveRef.current = Date.now();
+    onProgressRef.current(video, el.currentTime, el.duration);
+  }, [video]);
 
   const resetControlsTimer = useCallback(() => {
     setShowControls(true);
@@ -64,11 +189,68 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, onBack, onNext, onPrev
     if (videoRef.current) {
       const current = videoRef.current.currentTime;
       const total = videoRef.current.duration;
+      if (loop?.b != null && current >= loop.b) {
+        videoRef.current.currentTime = loop.a;
+        return;
+      }
       setCurrentTime(current);
       setProgress((current / total) * 100);
+      if (Date.now() - lastProgressSaveRef.current > PROGRESS_SAVE_INTERVAL_MS) saveProgress();
     }
   };
 
+  const handleResume = () => {
+    if (videoRef.current && resumeOffer !== null) videoRef.current.currentTime = resumeOffer;
+    setResumeOffer(null);
+  };
+
+  const handleEnded = () => {
+    // B at (or past) the very end never gets a timeupdate to catch it
+    if (loop?.b != null && videoRef.current) {
+      videoRef.current.currentTime = loop.a;
+      videoRef.current.play().catch(() => {});
+      return;
+    }
+    setIsPlaying(false);
+    const total = videoRef.current?.duration;
+    if (total) onProgressRef.current(video, total, total);
+    if (repeatOne && videoRef.current) {
+      videoRef.current.currentTime = 0;
+      videoRef.current.play().then(() => setIsPlaying(true)).catch(() => {});
+    } else if (hasNext && defaults.autoplayNext && !partySync.following) {
+      // The countdown card can't be seen from the PiP window, so go straight on
+      if (pip.isActive) onNext();
+      else setNextCountdown(AUTOPLAY_COUNTDOWN_SECONDS);
+    }
+  };
+
+  const seekTo = (time: number) => {
+    if (videoRef.current && videoRef.current.duration) {
+      videoRef.current.currentTime = time;
+      setProgress((time / videoRef.current.duration) * 100);
+    }
+  };
+
+  // The OS controls work even with the screen locked; only touch is locked
+  useMediaSession(videoRef, video, defaults.skipSeconds, {
+    onPlay: () => { videoRef.current?.play().catch(err => console.warn('Playback error:', err)); },
+    onPause: () => videoRef.current?.pause(),
+    onSeek: seekTo,
+    onNext: hasNext ? onNext : undefined,
+    onPrev: hasPrev ? onPrev : undefined
+  });
+
+  // Above 1 the element stays at full volume and the audio graph boosts it
+  const applyVolume = (v: number) => {
+    setVolume(v);
+    if (videoRef.current) videoRef.current.volume = Math.min(1, v);
+  };
+
+  const handleTap = () => {
+    resetControlsTimer();
+    togglePlay();
+  };
+
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (settings.isLocked) return;
     const newProgress = parseFloat(e.target.value);
@@ -79,40 +261,98 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, onBack, onNext, onPrev
     }
   };
 
-  const formatTime = (time: number) => {
-    if (isNaN(time)) return "00:00";
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+  const changeAspectRatio = () => {
+    const aspectRatio = nextAspectMode(settings.aspectRatio, defaults.customAspectRatios);
+    setSettings(prev => ({ ...prev, aspectRatio }));
+    setAspectNotice(aspectLabel(aspectRatio, t));
   };
 
-  const changeAspectRatio = () => {
-    const order = [AspectRatio.FIT, AspectRatio.STRETCH, AspectRatio.CROP, AspectRatio.SIXTEEN_NINE, AspectRatio.FOUR_THREE];
-    const currentIndex = order.indexOf(settings.aspectRatio);
-    const nextIndex = (currentIndex + 1) % order.length;
-    setSettings(prev => ({ ...prev, aspectRatio: order[nextIndex] }));
+  const applySpeed = (newSpeed: number) => {
+    setSettings(prev => ({ ...prev, playbackSpeed: newSpeed }));
+    if (videoRef.current) {
+      // load() resets playbackRate to the default rate, so set both
+      videoRef.current.defaultPlaybackRate = newSpeed;
+      videoRef.current.playbackRate = newSpeed;
+    }
+  };
+
+  const partySync = usePartySync(videoRef, video, party, settings.playbackSpeed, applySpeed);
+
+  const setSpeed = (newSpeed: number) => {
+    applySpeed(newSpeed);
+    partySync.speedChanged(newSpeed);
   };
 
+  // Cycles the presets; from an in-between speed it goes to the next one up
   const changeSpeed = () => {
-    const speeds = [0.5, 1, 1.25, 1.5, 2];
-    const currentIndex = speeds.indexOf(settings.playbackSpeed);
-    const nextIndex = (currentIndex + 1) % speeds.length;
-    const newSpeed = speeds[nextIndex];
-    setSettings(prev => ({ ...prev, playbackSpeed: newSpeed }));
-    if (videoRef.current) videoRef.current.playbackRate = newSpeed;
+    setSpeed(PLAYBACK_SPEEDS.find(s => s > settings.playbackSpeed) ?? PLAYBACK_SPEEDS[0]);
+  };
+
+  const stepSpeed = (direction: 1 | -1) => setSpeed(stepPlaybackSpeed(settings.playbackSpeed, direction));
+
+  const seekBy = (delta: number) => {
+    const el = videoRef.current;
+    if (el && el.duration) seekTo(Math.min(el.duration, Math.max(0, el.currentTime + delta)));
+  };
+
+  const changeView = (next: VideoView) => setView(clampView(next));
+
+  const resetPicture = () => {
+    resetAdjustments();
+    setBrightness(defaults.brightness);
+    setView(DEFAULT_VIEW);
+  };
+
+  const takeScreenshot = () => {
+    const el = videoRef.current;
+    if (!el || !hasPicture) return;
+    const time = el.currentTime;
+    captureFrame(el, brightness)
+      .then(blob => downloadFile(screenshotFileName(video.name, time), blob, 'image/png'))
+      .catch(err => console.error('Screenshot failed:', err));
   };
 
+  // Each press moves on: set A, set B, then clear the loop
+  const cycleLoop = () => {
+    const time = videoRef.current?.currentTime ?? 0;
+    if (!loop) setLoop({ a: time, b: null });
+    else if (loop.b === null) setLoop(time > loop.a ? { a: loop.a, b: time } : { a: time, b: null });
+    else setLoop(null);
+  };
+
+  const addBookmark = () => bookmarks.add(videoRef.current?.currentTime ?? 0);
+
   const toggleLock = () => {
     setSettings(prev => ({ ...prev, isLocked: !prev.isLocked }));
     setShowControls(true);
   };
 
+  // Keep the latest timer reset around without making the load effect
+  // depend on it, otherwise every play/pause would reload the source.
+  const resetControlsTimerRef = useRef(resetControlsTimer);
+  resetControlsTimerRef.current = resetControlsTimer;
+
   // Video Load Effect
   useEffect(() => {
     setError(null);
+    setNextCountdown(null);
+    setWarningDismissed(false);
+    setAudioOnly(isAudioFile(video));
+    setHasPicture(!isAudioFile(video));
+    setLoop(null);
+    setView(DEFAULT_VIEW);
+    setVideoSize({ width: 0, height: 0 });
+    setResumeOffer(canResume(savedProgress) ? savedProgress!.position : null);
+    lastProgressSaveRef.current = Date.now();
+    const src = video.stream ? stream.open() : acquireObjectUrl(video);
+    if (!src) {
+      setError('player.fileMissing');
+      setIsPlaying(false);
+      return;
+    }
     if (videoRef.current) {
       videoRef.current.pause();
-      videoRef.current.src = video.url;
+      videoRef.current.src = src;
       videoRef.current.load(); // CRITICAL: Refresh the media source
       
       const playPromise = videoRef.current.play();
@@ -120,7 +360,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, onBack, onNext, onPrev
         playPromise
           .then(() => {
             setIsPlaying(true);
-            resetControlsTimer();
+            resetControlsTimerRef.current();
           })
           .catch(err => {
             console.warn("Autoplay blocked or load failed:", err);
@@ -128,200 +368,694 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, onBack, onNext, onPrev
           });
       }
     }
-  }, [video, resetControlsTimer]);
+    return () => {
+      saveProgress();
+      videoRef.current?.removeAttribute('src');
+      releaseObjectUrl(video.id);
+    };
+  }, [video, saveProgress, stream.open]);
 
-  const handleVideoError = () => {
-    setError("এই ভিডিওটি প্লে করা যাচ্ছে না। ফরম্যাটটি ব্রাউজার সাপোর্ট করে না।");
-    setIsPlaying(false);
+  // Start every video from its resolved settings, and follow changes made
+  // in the settings panel while it plays.
+  useEffect(() => {
+    setSettings(prev => ({ ...prev, playbackSpeed: defaults.playbackSpeed, aspectRatio: defaults.aspectRatio }));
+    setVolume(defaults.volume);
+    setBrightness(defaults.brightness);
+    const el = videoRef.current;
+    if (el) {
+      el.defaultPlaybackRate = defaults.playbackSpeed;
+      el.playbackRate = defaults.playbackSpeed;
+      el.volume = Math.min(1, defaults.volume);
+    }
+  }, [video, defaults.playbackSpeed, defaults.aspectRatio, defaults.volume, defaults.brightness]);
+
+  useEffect(() => {
+    if (resumeOffer === null) return;
+    const timer = setTimeout(() => setResumeOffer(null), RESUME_OFFER_MS);
+    return () => clearTimeout(timer);
+  }, [resumeOffer]);
+
+  // Subtitles that were matched to this video on import
+  useEffect(() => {
+    let cancelled = false;
+    setSubtitleTracks([]);
+    setActiveSubtitleId(null);
+    setSubtitleOffset(0);
+    Promise.all(getSubtitleFiles(video.id).map(loadSubtitleTrack))
+      .then(tracks => {
+        if (cancelled) return;
+        setSubtitleTracks(tracks);
+        setActiveSubtitleId(tracks[0]?.id ?? null);
+      })
+      .catch(err => console.error("Failed to load subtitles:", err));
+    return () => { cancelled = true; };
+  }, [video]);
+
+  const handleLoadSubtitle = async (file: File) => {
+    try {
+      const track = await loadSubtitleTrack(file);
+      setSubtitleTracks(prev => [...prev.filter(t => t.id !== track.id), track]);
+      setActiveSubtitleId(track.id);
+    } catch (err) {
+      console.error("Failed to load subtitle file:", err);
+    }
+  };
+
+  const controlsInteractive = showControls && !error ? 'pointer-events-auto' : '';
+
+  const activeSubtitle = subtitleTracks.find(t => t.id === activeSubtitleId);
+
+  const toggleSubtitles = () => {
+    if (activeSubtitleId) {
+      lastSubtitleIdRef.current = activeSubtitleId;
+      setActiveSubtitleId(null);
+    } else {
+      const restore = subtitleTracks.find(t => t.id === lastSubtitleIdRef.current) ?? subtitleTracks[0];
+      setActiveSubtitleId(restore?.id ?? null);
+    }
+  };
+
+  const handleKeymapChange = useCallback((keymap: Keymap) => {
+    onDefaultsChange({ keymap });
+  }, [onDefaultsChange]);
+
+  const keyActions: Record<KeyAction, () => void> = {
+    togglePlay,
+    seekBack5: () => seekBy(-5),
+    seekForward5: () => seekBy(5),
+    seekBack30: () => seekBy(-30),
+    seekForward30: () => seekBy(30),
+    volumeUp: () => applyVolume(Math.min(MAX_VOLUME, volume + VOLUME_STEP)),
+    volumeDown: () => applyVolume(Math.max(0, volume - VOLUME_STEP)),
+    toggleMute: () => applyVolume(volume === 0 ? 1 : 0),
+    speedDown: () => stepSpeed(-1),
+    speedUp: () => stepSpeed(1),
+    cycleAspectRatio: changeAspectRatio,
+    toggleLock,
+    toggleFullscreen,
+    next: () => hasNext && onNext(),
+    prev: () => hasPrev && onPrev(),
+    frameForward: () => stepFrame(1),
+    frameBack: () => stepFrame(-1),
+    screenshot: takeScreenshot,
+    rotate: () => updateAdjustments({ rotation: rotateBy(adjustments.rotation, 1) }),
+    toggleSubtitles,
+    abLoop: cycleLoop,
+    addBookmark,
+    showShortcuts: () => setShowShortcuts(open => !open)
+  };
+
+  // The listener is registered once and always calls the latest handlers
+  const handleKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleKeyDownRef.current = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target)) return;
+    if (e.key === 'Escape' && showShortcuts) {
+      setShowShortcuts(false);
+      return;
+    }
+    const combo = eventToCombo(e);
+    const action = combo && findAction(defaults.keymap, combo);
+    if (!action) return;
+    if (settings.isLocked && !LOCKED_ACTIONS.includes(action)) return;
+    e.preventDefault();
+    keyActions[action]();
+    if (action !== 'showShortcuts') resetControlsTimer();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (nextCountdown === null) return;
+    if (nextCountdown <= 0) {
+      setNextCountdown(null);
+      onNext();
+      return;
+    }
+    const timer = setTimeout(() => setNextCountdown(n => n === null ? null : n - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [nextCountdown, onNext]);
+
+  // Dropping the picture track lets the browser skip decoding video
+  useEffect(() => {
+    const list = videoRef.current?.videoTracks;
+    if (!list) return;
+    for (let i = 0; i < list.length; i++) list[i].selected = !audioOnly && i === 0;
+  }, [audioOnly, video]);
+
+  // Also fires when the picture size changes mid-stream
+  const handleVideoResize = () => {
+    const el = videoRef.current;
+    if (el) setVideoSize({ width: el.videoWidth, height: el.videoHeight });
+  };
+
+  const handleLoadedMetadata = () => {
+    const el = videoRef.current;
+    if (!el) return;
+    setDuration(el.duration || 0);
+    handleVideoResize();
+    if (!el.videoWidth) {
+      setHasPicture(false);
+      setAudioOnly(true);
+    }
   };
 
-  const videoObjectFit = () => {
-    switch(settings.aspectRatio) {
-      case AspectRatio.STRETCH: return 'fill';
-      case AspectRatio.CROP: return 'cover';
-      case AspectRatio.SIXTEEN_NINE: return '16 / 9';
-      case AspectRatio.FOUR_THREE: return '4 / 3';
-      default: return 'contain';
+  useEffect(() => {
+    if (remux.status === 'failed') setError('remux.failed');
+  }, [remux.status]);
+
+  useEffect(() => {
+    if (stream.failure) {
+      setError(streamFailureMessage(stream.failure));
+      setIsPlaying(false);
     }
+  }, [stream.failure]);
+
+  const startRemux = () => {
+    setError(null);
+    setWarningDismissed(true);
+    remux.start();
   };
 
+  const handleVideoError = () => {
+    setError('player.unsupported');
+    setIsPlaying(false);
+  };
+
+  useEffect(() => {
+    if (aspectNotice === null) return;
+    const timer = setTimeout(() => setAspectNotice(null), ASPECT_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [aspectNotice]);
+
+  const videoBox = layoutVideo(
+    settings.aspectRatio,
+    videoSize,
+    containerSize,
+    isQuarterTurn(adjustments.rotation),
+    window.devicePixelRatio || 1
+  );
+
   return (
     <div 
       ref={containerRef}
       className="relative w-full h-full bg-black flex items-center justify-center overflow-hidden"
       onClick={resetControlsTimer}
-      style={{ filter: `brightness(${brightness}%)` }}
     >
+      {adjustments.gamma !== 1 && (
+        <svg className="absolute w-0 h-0" aria-hidden="true">
+          <filter id={GAMMA_FILTER_ID} colorInterpolationFilters="sRGB">
+            <feComponentTransfer>
+              <feFuncR type="gamma" exponent={1 / adjustments.gamma} />
+              <feFuncG type="gamma" exponent={1 / adjustments.gamma} />
+              <feFuncB type="gamma" exponent={1 / adjustments.gamma} />
+            </feComponentTransfer>
+          </filter>
+        </svg>
+      )}
       <video
         ref={videoRef}
         playsInline
-        className="w-full h-full transition-all duration-300"
+        className={`shrink-0 max-w-none ${audioOnly ? 'invisible' : ''}`}
         style={{ 
-          objectFit: videoObjectFit() as any,
-          aspectRatio: (settings.aspectRatio === AspectRatio.SIXTEEN_NINE ? '16/9' : settings.aspectRatio === AspectRatio.FOUR_THREE ? '4/3' : 'auto') 
+          width: videoBox.width,
+          height: videoBox.height,
+          objectFit: videoBox.objectFit,
+          filter: adjustmentFilter(brightness, adjustments),
+          transform: videoTransform(adjustments, view, containerSize.width, containerSize.height)
         }}
         onTimeUpdate={handleProgress}
-        onLoadedMetadata={() => setDuration(videoRef.current?.duration || 0)}
-        onEnded={() => setIsPlaying(false)}
+        onLoadedMetadata={handleLoadedMetadata}
+        onResize={handleVideoResize}
+        onPlay={() => { setIsPlaying(true); resumeAudio(); }}
+        onPause={() => { setIsPlaying(false); saveProgress(); }}
+        onEnded={handleEnded}
         onError={handleVideoError}
-        onClick={(e) => { e.stopPropagation(); togglePlay(); }}
       />
 
+      {!error && audioOnly && (
+        <AudioOnlyView
+          video={video}
+          isPlaying={isPlaying}
+          progress={progress}
+          currentTime={currentTime}
+          duration={duration}
+          hasPrev={hasPrev}
+          hasNext={hasNext}
+          hasPicture={hasPicture}
+          onSeek={handleSeek}
+          onTogglePlay={togglePlay}
+          onPrev={onPrev}
+          onNext={onNext}
+          onBack={onBack}
+          loop={loop}
+          chapters={chapters}
+          bookmarks={bookmarks.bookmarks}
+          onShowAudioPanel={() => setShowAudioPanel(true)}
+          onShowBookmarks={() => setShowBookmarkPanel(true)}
+          onCycleLoop={cycleLoop}
+          onShowVideo={() => setAudioOnly(false)}
+        />
+      )}
+
+      {!error && !audioOnly && (
+        <GestureLayer
+          videoRef={videoRef}
+          settings={defaults.gestures}
+          skipSeconds={defaults.skipSeconds}
+          disabled={settings.isLocked}
+          volume={volume}
+          brightness={brightness}
+          view={view}
+          onVolumeChange={applyVolume}
+          onBrightnessChange={setBrightness}
+          onSeek={seekTo}
+          onViewChange={changeView}
+          onTap={handleTap}
+        />
+      )}
+
       {/* Error Overlay */}
       {error && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 p-6 text-center z-50">
           <AlertCircle size={64} className="text-red-500 mb-4" />
-          <p className="text-lg font-medium text-gray-200">{error}</p>
+          <p className="text-lg font-medium text-gray-200">
+            {error === 'player.unsupported' && fatalIssue ? issueText(fatalIssue) : t(error)}
+          </p>
+          {probe && error === 'player.unsupported' && (
+            <p className="mt-2 text-xs font-mono text-gray-500">{describeProbe(probe)}</p>
+          )}
+          {remux.plan && error === 'player.unsupported' && (
+            <>
+              <button
+                onClick={startRemux}
+                className="mt-6 flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 rounded-full text-sm transition-all"
+              >
+                <Wand2 size={16} /> {t('remux.start')}
+              </button>
+              <p className="mt-2 text-xs text-gray-500">{t('remux.hint')}</p>
+            </>
+          )}
           <button 
             onClick={onBack}
             className="mt-6 px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-sm transition-all"
           >
-            ফিরে যান
+            {t('common.back')}
+          </button>
+        </div>
+      )}
+
+      {activeSubtitle && !audioOnly && (
+        <SubtitleOverlay
+          videoRef={videoRef}
+          cues={activeSubtitle.cues}
+          offsetMs={subtitleOffset}
+          style={defaults.subtitleStyle}
+          raised={showControls && !settings.isLocked}
+        />
+      )}
+
+      {showSubtitlePanel && !settings.isLocked && (
+        <SubtitlePanel
+          tracks={subtitleTracks}
+          activeTrackId={activeSubtitleId}
+          offsetMs={subtitleOffset}
+          style={defaults.subtitleStyle}
+          onSelectTrack={setActiveSubtitleId}
+          onLoadFile={handleLoadSubtitle}
+          onOffsetChange={setSubtitleOffset}
+          onStyleChange={(subtitleStyle: SubtitleStyle) => onDefaultsChange({ subtitleStyle })}
+          onClose={() => setShowSubtitlePanel(false)}
+        />
+      )}
+
+      {showAudioPanel && !settings.isLocked && (
+        <AudioPanel
+          tracks={audioTracks}
+          onSelectTrack={selectAudioTrack}
+          volume={volume}
+          onVolumeChange={applyVolume}
+          audio={defaults.audio}
+          onAudioChange={(audio: AudioSettings) => onDefaultsChange({ audio })}
+          audioOnly={audioOnly}
+          hasPicture={hasPicture}
+          onToggleAudioOnly={() => setAudioOnly(on => !on)}
+          onClose={() => setShowAudioPanel(false)}
+        />
+      )}
+
+      {showBookmarkPanel && !settings.isLocked && (
+        <BookmarkPanel
+          videoName={video.name}
+          bookmarks={bookmarks.bookmarks}
+          chapters={chapters}
+          currentTime={currentTime}
+          duration={duration}
+          onAdd={(label: string) => bookmarks.add(videoRef.current?.currentTime ?? 0, label)}
+          onRename={bookmarks.rename}
+          onRemove={bookmarks.remove}
+          onImport={bookmarks.importMany}
+          onJump={seekTo}
+          onClose={() => setShowBookmarkPanel(false)}
+        />
+      )}
+
+      {showClipPanel && !settings.isLocked && (
+        <ClipPanel
+          video={video}
+          currentTime={currentTime}
+          duration={duration}
+          loop={loop}
+          brightness={brightness}
+          onClose={() => setShowClipPanel(false)}
+        />
+      )}
+
+      {showStreamPanel && stream.stats && !settings.isLocked && (
+        <StreamPanel
+          stats={stream.stats}
+          onSelectQuality={stream.setQuality}
+          onClose={() => setShowStreamPanel(false)}
+        />
+      )}
+
+      {showPartyPanel && !settings.isLocked && (
+        <PartyPanel party={party} onClose={() => setShowPartyPanel(false)} />
+      )}
+
+      {showAdjustmentsPanel && !settings.isLocked && (
+        <AdjustmentsPanel
+          brightness={brightness}
+          adjustments={adjustments}
+          view={view}
+          onBrightnessChange={setBrightness}
+          onAdjustmentsChange={updateAdjustments}
+          onViewChange={changeView}
+          onReset={resetPicture}
+          onClose={() => setShowAdjustmentsPanel(false)}
+        />
+      )}
+
+      {showShortcuts && (
+        <KeyboardHelp
+          keymap={defaults.keymap}
+          onKeymapChange={handleKeymapChange}
+          onClose={() => setShowShortcuts(false)}
+        />
+      )}
+
+      {/* Autoplay Next Countdown */}
+      {nextCountdown !== null && (
+        <div className="absolute bottom-32 right-4 z-30 w-72 bg-black/85 border border-white/10 rounded-2xl p-4 space-y-3">
+          <p className="text-xs text-gray-400">{t('player.nextIn', { count: nextCountdown })}</p>
+          {nextTitle && <p className="text-sm font-medium truncate">{nextTitle}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={(e) => { e.stopPropagation(); setNextCountdown(null); }}
+              className="flex-1 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-full"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setNextCountdown(null); onNext(); }}
+              className="flex-1 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 rounded-full"
+            >
+              {t('player.playNow')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {warning && !warningDismissed && !error && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 bg-black/80 border border-yellow-500/30 rounded-full pl-4 pr-1 py-1 text-sm text-yellow-300">
+          <AlertTriangle size={16} />
+          {issueText(warning)}
+          {remux.plan && (
+            <button onClick={(e) => { e.stopPropagation(); startRemux(); }} className="px-3 py-0.5 text-xs bg-yellow-500/20 hover:bg-yellow-500/30 rounded-full">
+              {t('remux.fixAudio')}
+            </button>
+          )}
+          <button onClick={(e) => { e.stopPropagation(); setWarningDismissed(true); }} className="p-1.5 hover:bg-white/10 rounded-full">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {remux.status === 'running' && remux.progress < 1 && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-30 w-64 flex items-center gap-3 bg-black/80 border border-white/10 rounded-full pl-4 pr-1 py-1 text-xs">
+          <div className="flex-1 space-y-1">
+            <p>{t('remux.progress', { percent: Math.floor(remux.progress * 100) })}</p>
+            <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500" style={{ width: `${remux.progress * 100}%` }} />
+            </div>
+          </div>
+          <button onClick={(e) => { e.stopPropagation(); remux.cancel(); }} className="p-1.5 hover:bg-white/10 rounded-full">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {aspectNotice && !audioOnly && (
+        <div className="absolute top-1/3 left-1/2 -translate-x-1/2 z-30 px-4 py-2 bg-black/70 rounded-full text-sm font-mono pointer-events-none">
+          {aspectNotice}
+        </div>
+      )}
+
+      {/* Resume Offer */}
+      {resumeOffer !== null && !error && (
+        <div className="absolute bottom-32 left-4 z-30 flex items-center gap-2 bg-black/80 border border-white/10 rounded-full pl-4 pr-1 py-1 text-sm">
+          <button onClick={(e) => { e.stopPropagation(); handleResume(); }} className="flex items-center gap-2 py-1 hover:text-blue-400">
+            <RotateCcw size={16} />
+            {t('player.resumeFrom', { time: formatDuration(resumeOffer) })}
+          </button>
+          <button onClick={(e) => { e.stopPropagation(); setResumeOffer(null); }} className="p-1.5 hover:bg-white/10 rounded-full">
+            <X size={14} />
           </button>
         </div>
       )}
 
       {/* Custom Controls Overlay */}
-      <div className={`absolute inset-0 z-20 transition-opacity duration-300 flex flex-col justify-between p-4 bg-gradient-to-t from-black/80 via-transparent to-black/60 ${showControls && !error ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+      {/* The overlay itself lets pointers through to the gesture layer; only the controls catch them */}
+      {!audioOnly && (
+        <div className={`absolute inset-0 z-20 transition-opacity duration-300 flex flex-col justify-between p-4 bg-gradient-to-t from-black/80 via-transparent to-black/60 pointer-events-none ${showControls && !error ? 'opacity-100' : 'opacity-0'}`}>
         
-        {/* Top Bar */}
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            {!settings.isLocked && (
-              <button onClick={onBack} className="p-2 hover:bg-white/10 rounded-full transition-colors">
-                <ArrowLeft size={24} />
-              </button>
-            )}
-            <h2 className="text-white font-medium text-lg truncate max-w-[200px] md:max-w-md">
-              {video.name}
-            </h2>
+          {/* Top Bar */}
+          <div className={`flex items-center justify-between ${controlsInteractive}`}>
+            <div className="flex items-center gap-4">
+              {!settings.isLocked && (
+                <button onClick={onBack} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+                  <ArrowLeft size={24} />
+                </button>
+              )}
+              <h2 className="text-white font-medium text-lg truncate max-w-[200px] md:max-w-md">
+                {video.name}
+              </h2>
+            </div>
+            <div className="flex items-center gap-2">
+              {!settings.isLocked && (
+                <>
+                  <div className="flex items-center text-xs bg-white/10 rounded-full">
+                    <button onClick={() => stepSpeed(-1)} className="p-1.5 pl-2 hover:bg-white/10 rounded-full">
+                      <Minus size={12} />
+                    </button>
+                    <button onClick={changeSpeed} className="flex items-center gap-1 px-1.5 py-1.5 hover:text-yellow-300">
+                      <Zap size={14} className="text-yellow-400" />
+                      {formatNumber(settings.playbackSpeed)}x
+                    </button>
+                    <button onClick={() => stepSpeed(1)} className="p-1.5 pr-2 hover:bg-white/10 rounded-full">
+                      <Plus size={12} />
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setShowSubtitlePanel(open => !open)}
+                    className={`p-2 hover:bg-white/10 rounded-full transition-colors ${activeSubtitle ? 'text-blue-400' : ''}`}
+                  >
+                    <Captions size={20} />
+                  </button>
+                  <button
+                    onClick={() => setShowAudioPanel(open => !open)}
+                    className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                  >
+                    <AudioLines size={20} />
+                  </button>
+                  <button
+                    onClick={() => setShowBookmarkPanel(open => !open)}
+                    className={`p-2 hover:bg-white/10 rounded-full transition-colors ${bookmarks.bookmarks.length ? 'text-amber-400' : ''}`}
+                  >
+                    <BookmarkIcon size={20} />
+                  </button>
+                  {hasPicture && (
+                    <button onClick={takeScreenshot} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+                      <Camera size={20} />
+                    </button>
+                  )}
+                  {/* Clips are recorded from the local file */}
+                  {!video.url && (
+                    <button
+                      onClick={() => setShowClipPanel(open => !open)}
+                      className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                    >
+                      <Scissors size={20} />
+                    </button>
+                  )}
+                  {stream.stats && (
+                    <button
+                      onClick={() => setShowStreamPanel(open => !open)}
+                      className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                    >
+                      <Gauge size={20} />
+                    </button>
+                  )}
+                  <button onClick={onShowQueue} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+                    <ListVideo size={20} />
+                  </button>
+                  <button
+                    onClick={() => setShowPartyPanel(open => !open)}
+                    className={`p-2 hover:bg-white/10 rounded-full transition-colors ${party.status === 'connected' ? 'text-green-400' : ''}`}
+                  >
+                    <Users size={20} />
+                  </button>
+                  <button
+                    onClick={() => setShowAdjustmentsPanel(open => !open)}
+                    className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                  >
+                    <SlidersHorizontal size={20} />
+                  </button>
+                  <button onClick={changeAspectRatio} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+                    <Layers size={20} />
+                  </button>
+                  <button onClick={onShowSettings} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+                    <MoreVertical size={20} />
+                  </button>
+                </>
+              )}
+            </div>
           </div>
-          <div className="flex items-center gap-2">
-            {!settings.isLocked && (
+
+          {/* Center Controls */}
+          <div className="flex-1 flex items-center justify-center gap-12">
+            {!settings.isLocked ? (
               <>
-                <button onClick={changeSpeed} className="flex items-center gap-1 text-xs bg-white/10 px-3 py-1.5 rounded-full hover:bg-white/20">
-                  <Zap size={14} className="text-yellow-400" />
-                  {settings.playbackSpeed}x
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onPrev(); }}
+                  disabled={!hasPrev}
+                  className={`p-4 rounded-full transition-all ${controlsInteractive} ${!hasPrev ? 'opacity-30' : 'hover:bg-white/10 active:scale-90'}`}
+                >
+                  <SkipBack size={36} fill="white" />
                 </button>
-                <button onClick={changeAspectRatio} className="p-2 hover:bg-white/10 rounded-full transition-colors">
-                  <Layers size={20} />
+                <button 
+                  onClick={(e) => { e.stopPropagation(); togglePlay(); }}
+                  className={`w-20 h-20 ${controlsInteractive} bg-blue-600 rounded-full flex items-center justify-center shadow-xl shadow-blue-500/20 active:scale-95 transition-all`}
+                >
+                  {isPlaying ? <Pause size={40} fill="white" /> : <Play size={40} className="ml-2" fill="white" />}
                 </button>
-                <button className="p-2 hover:bg-white/10 rounded-full transition-colors">
-                  <MoreVertical size={20} />
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onNext(); }}
+                  disabled={!hasNext}
+                  className={`p-4 rounded-full transition-all ${controlsInteractive} ${!hasNext ? 'opacity-30' : 'hover:bg-white/10 active:scale-90'}`}
+                >
+                  <SkipForward size={36} fill="white" />
                 </button>
               </>
+            ) : (
+              <div className="h-20" /> /* Spacer */
             )}
           </div>
-        </div>
 
-        {/* Center Controls */}
-        <div className="flex-1 flex items-center justify-center gap-12">
-          {!settings.isLocked ? (
-            <>
-              <button 
-                onClick={(e) => { e.stopPropagation(); onPrev(); }}
-                disabled={!hasPrev}
-                className={`p-4 rounded-full transition-all ${!hasPrev ? 'opacity-30' : 'hover:bg-white/10 active:scale-90'}`}
-              >
-                <SkipBack size={36} fill="white" />
-              </button>
-              <button 
-                onClick={(e) => { e.stopPropagation(); togglePlay(); }}
-                className="w-20 h-20 bg-blue-600 rounded-full flex items-center justify-center shadow-xl shadow-blue-500/20 active:scale-95 transition-all"
-              >
-                {isPlaying ? <Pause size={40} fill="white" /> : <Play size={40} className="ml-2" fill="white" />}
-              </button>
-              <button 
-                onClick={(e) => { e.stopPropagation(); onNext(); }}
-                disabled={!hasNext}
-                className={`p-4 rounded-full transition-all ${!hasNext ? 'opacity-30' : 'hover:bg-white/10 active:scale-90'}`}
-              >
-                <SkipForward size={36} fill="white" />
-              </button>
-            </>
-          ) : (
-            <div className="h-20" /> /* Spacer */
-          )}
-        </div>
-
-        {/* Bottom Bar */}
-        <div className="space-y-4">
-          {!settings.isLocked && (
-            <div className="flex items-center gap-4 text-xs font-mono">
-              <span className="w-12 text-right">{formatTime(currentTime)}</span>
-              <div className="flex-1 relative group h-1.5 flex items-center">
-                <input 
-                  type="range"
-                  min="0"
-                  max="100"
-                  step="0.1"
-                  value={progress}
+          {/* Bottom Bar */}
+          <div className={`space-y-4 ${controlsInteractive}`}>
+            {!settings.isLocked && (
+              <div className="flex items-center gap-4 text-xs font-mono">
+                <span className="w-12 text-right">{formatDuration(currentTime)}</span>
+                <SeekBar
+                  progress={progress}
+                  duration={duration}
+                  trickplay={trickplay}
+                  loop={loop}
+                  chapters={chapters}
+                  bookmarks={bookmarks.bookmarks}
                   onChange={handleSeek}
-                  className="w-full h-full bg-white/20 rounded-lg cursor-pointer appearance-none outline-none"
-                  style={{
-                    background: `linear-gradient(to right, #3b82f6 ${progress}%, rgba(255,255,255,0.2) ${progress}%)`
-                  }}
                 />
+                <span className="w-12">{formatDuration(duration)}</span>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                <button onClick={toggleLock} className="p-3 bg-white/10 rounded-full hover:bg-white/20 transition-all">
+                  {settings.isLocked ? <Lock size={20} /> : <Unlock size={20} />}
+                </button>
+                {!settings.isLocked && (
+                  <div className="flex items-center gap-2 bg-white/10 p-1.5 px-3 rounded-full">
+                    <button onClick={() => applyVolume(volume === 0 ? 1 : 0)}>
+                      {volume === 0 ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                    </button>
+                    <input 
+                      type="range"
+                      min="0"
+                      max={MAX_VOLUME}
+                      step="0.01"
+                      value={volume}
+                      onChange={(e) => applyVolume(parseFloat(e.target.value))}
+                      className="w-16 h-1 bg-white/30 rounded-full accent-white"
+                    />
+                  </div>
+                )}
               </div>
-              <span className="w-12">{formatTime(duration)}</span>
-            </div>
-          )}
 
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <button onClick={toggleLock} className="p-3 bg-white/10 rounded-full hover:bg-white/20 transition-all">
-                {settings.isLocked ? <Lock size={20} /> : <Unlock size={20} />}
-              </button>
               {!settings.isLocked && (
-                <div className="flex items-center gap-2 bg-white/10 p-1.5 px-3 rounded-full">
-                  <button onClick={() => {
-                    const newVol = volume === 0 ? 1 : 0;
-                    setVolume(newVol);
-                    if (videoRef.current) videoRef.current.volume = newVol;
-                  }}>
-                    {volume === 0 ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                <div className="flex items-center gap-3">
+                   <div className="flex items-center gap-2 bg-white/10 p-1.5 px-3 rounded-full">
+                    <Sun size={18} />
+                    <input 
+                      type="range"
+                      min={MIN_BRIGHTNESS}
+                      max={MAX_BRIGHTNESS}
+                      value={brightness}
+                      onChange={(e) => setBrightness(parseInt(e.target.value))}
+                      className="w-16 h-1 bg-white/30 rounded-full accent-white"
+                    />
+                  </div>
+                  {!isPlaying && hasPicture && (
+                    <div className="flex items-center bg-white/10 rounded-full">
+                      <button onClick={() => stepFrame(-1)} className="p-3 hover:bg-white/10 rounded-full">
+                        <StepBack size={18} />
+                      </button>
+                      <button onClick={() => stepFrame(1)} className="p-3 hover:bg-white/10 rounded-full">
+                        <StepForward size={18} />
+                      </button>
+                    </div>
+                  )}
+                  <button
+                    onClick={cycleLoop}
+                    className={`flex items-center gap-1 px-3 py-2.5 rounded-full text-xs font-mono ${loop ? 'bg-yellow-500/30 text-yellow-300 hover:bg-yellow-500/40' : 'bg-white/10 hover:bg-white/20'}`}
+                  >
+                    <Repeat size={16} />
+                    {loop ? (loop.b === null ? 'A' : 'A-B') : null}
+                  </button>
+                  {pip.isSupported && hasPicture && (
+                    <button
+                      onClick={pip.toggle}
+                      className={`p-3 rounded-full ${pip.isActive ? 'bg-blue-600 hover:bg-blue-500' : 'bg-white/10 hover:bg-white/20'}`}
+                    >
+                      <PictureInPicture2 size={20} />
+                    </button>
+                  )}
+                  <button 
+                    onClick={toggleFullscreen}
+                    className="p-3 bg-white/10 rounded-full hover:bg-white/20"
+                  >
+                    {isFullscreen ? <Minimize size={20} /> : <Maximize size={20} />}
                   </button>
-                  <input 
-                    type="range"
-                    min="0"
-                    max="1"
-                    step="0.01"
-                    value={volume}
-                    onChange={(e) => {
-                      const v = parseFloat(e.target.value);
-                      setVolume(v);
-                      if (videoRef.current) videoRef.current.volume = v;
-                    }}
-                    className="w-16 h-1 bg-white/30 rounded-full accent-white"
-                  />
                 </div>
               )}
             </div>
-
-            {!settings.isLocked && (
-              <div className="flex items-center gap-3">
-                 <div className="flex items-center gap-2 bg-white/10 p-1.5 px-3 rounded-full">
-                  <Sun size={18} />
-                  <input 
-                    type="range"
-                    min="20"
-                    max="150"
-                    value={brightness}
-                    onChange={(e) => setBrightness(parseInt(e.target.value))}
-                    className="w-16 h-1 bg-white/30 rounded-full accent-white"
-                  />
-                </div>
-                <button 
-                  onClick={() => containerRef.current?.requestFullscreen()}
-                  className="p-3 bg-white/10 rounded-full hover:bg-white/20"
-                >
-                  <Maximize size={20} />
-                </button>
-              </div>
-            )}
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Play, Video, MoreVertical, CheckCircle2, Square, SquareCheck, EyeOff } from 'lucide-react';
+import { VideoFile, WatchProgress } from '../types';
+import { hasSource } from '../services/objectUrls';
+import { progressRatio } from '../services/progress';
+import { SearchMatch } from '../services/search';
+import { useI18n } from '../hooks/useI18n';
+import { useLongPress } from '../hooks/useLongPress';
+
+interface VideoRowProps {
+  video: VideoFile;
+  progress?: WatchProgress;
+  showWatchState?: boolean;
+  focused?: boolean;
+  match?: SearchMatch | null;
+  // In the private folder, which is unlocked for it to be listed
+  hidden?: boolean;
+  // Set while picking several videos; clicks then toggle instead of play
+  selected?: boolean;
+  onToggleSelect?: () => void;
+  onMenu?: (anchor: DOMRect) => void;
+  onPlay: () => void;
+}
+
+const Highlighted: React.FC<{ text: string; indices?: number[] }> = ({ text, indices }) => {
+  if (!indices || indices.length === 0) return <>{text}</>;
+  const marked = new Set(indices);
+  return (
+    <>
+      {text.split('').map((ch, i) => marked.has(i)
+        ? <mark key={i} className="bg-transparent text-blue-400 font-semibold">{ch}</mark>
+        : ch)}
+    </>
+  );
+};
+
+const VideoRow: React.FC<VideoRowProps> = ({
+  video, progress, showWatchState = false, focused = false, match, hidden = false, selected, onToggleSelect, onMenu, onPlay
+}) => {
+  const { t, formatDate, formatDuration, formatSize } = useI18n();
+  const ratio = progressRatio(progress);
+  const selecting = selected !== undefined;
+  const longPress = useLongPress(selecting ? undefined : onToggleSelect);
+
+  return (
+    <div
+      {...longPress}
+      onClick={selecting ? onToggleSelect : onPlay}
+      data-focused={focused}
+      className={`flex items-center gap-4 p-3 rounded-xl hover:bg-[#1a1a1a] transition-all cursor-pointer select-none group ${focused ? 'ring-2 ring-blue-500 bg-[#1a1a1a]' : ''} ${selected ? 'bg-blue-600/10' : ''} ${hasSource(video) ? '' : 'opacity-50'}`}
+    >
+      {onToggleSelect && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleSelect(); }}
+          title={t('action.select')}
+          className={`-mr-2 text-gray-500 hover:text-white ${selecting ? '' : 'hidden sm:block sm:opacity-0 group-hover:opacity-100'}`}
+        >
+          {selected ? <SquareCheck size={18} className="text-blue-500" /> : <Square size={18} />}
+        </button>
+      )}
+      <div className="relative w-28 h-16 bg-gray-900 rounded-lg overflow-hidden flex-shrink-0 border border-gray-800">
+        {video.thumbnail ? (
+          <img src={video.thumbnail} alt="" loading="lazy" className="absolute inset-0 w-full h-full object-cover" />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Video size={24} className="text-gray-700 group-hover:text-blue-500 transition-colors" />
+          </div>
+        )}
+        <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+          <Play size={20} fill="white" className="text-white" />
+        </div>
+        {/* Network streams have no size to fall back on */}
+        {(video.duration || video.bytes > 0) && (
+          <div className="absolute bottom-1 right-1 bg-black/80 px-1.5 py-0.5 rounded text-[10px] font-bold text-gray-300">
+            {video.duration ? formatDuration(video.duration) : formatSize(video.bytes)}
+          </div>
+        )}
+        {ratio > 0 && (
+          <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20">
+            <div className="h-full bg-blue-500" style={{ width: `${ratio * 100}%` }} />
+          </div>
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <h3 className="text-sm font-medium text-gray-200 truncate leading-snug">
+          {hidden && <EyeOff size={12} className="inline mr-1 -mt-0.5 text-gray-500" />}
+          <Highlighted text={video.name} indices={match?.field === 'name' ? match.indices : undefined} />
+        </h3>
+        {match && match.field !== 'name' && (
+          <p className="text-[11px] text-gray-500 truncate">
+            <Highlighted text={video[match.field]} indices={match.indices} />
+          </p>
+        )}
+        <p className="text-[11px] text-gray-500 mt-1 uppercase tracking-tighter">
+          {formatDate(video.lastModified)} • {video.stream ?? video.type.split('/')[1]}
+          {video.duration && video.bytes > 0 ? ` • ${formatSize(video.bytes)}` : ''}
+        </p>
+        {showWatchState && (
+          progress?.completed ? (
+            <p className="flex items-center gap-1 text-[11px] text-green-500 mt-1 font-medium">
+              <CheckCircle2 size={12} /> {t('watch.watched')}
+            </p>
+          ) : (
+            <p className="text-[11px] text-blue-400 mt-1 font-medium">{t('watch.percent', { percent: Math.round(ratio * 100) })}</p>
+          )
+        )}
+      </div>
+      {onMenu && !selecting && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onMenu(e.currentTarget.getBoundingClientRect()); }}
+          title={t('action.more')}
+          className="p-2 text-gray-600 hover:text-gray-400"
+        >
+          <MoreVertical size={18} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VideoRow;
@@ -0,0 +1,24 @@
+// File System Access API pieces that TypeScript's DOM lib does not ship yet.
+
+type FileSystemPermissionMode = 'read' | 'readwrite';
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: FileSystemPermissionMode;
+}
+
+interface FileSystemHandle {
+  queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+  requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+  // Chromium only; elsewhere files are copied and the original removed
+  move?(destination: FileSystemDirectoryHandle, name: string): Promise<void>;
+}
+
+interface DirectoryPickerOptions {
+  id?: string;
+  mode?: FileSystemPermissionMode;
+  startIn?: FileSystemHandle | 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos';
+}
+
+interface Window {
+  showDirectoryPicker?: (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>;
+}
@@ -0,0 +1,67 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { VideoFile } from '../types';
+import { AdaptiveSession, StreamStats, startAdaptiveStream } from '../services/adaptive';
+import { StreamError, StreamFailure } from '../services/manifest';
+
+const STATS_INTERVAL_MS = 1000;
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+// Plays `video` through the adaptive engine when it is an HLS or DASH
+// stream. HLS the engine can't handle, such as live or MPEG-TS playlists,
+// is handed to the browser where it plays HLS itself.
+export const useAdaptiveStream = (mediaRef: RefObject<HTMLMediaElement>, video: VideoFile) => {
+  const [stats, setStats] = useState<StreamStats | null>(null);
+  const [failure, setFailure] = useState<StreamFailure | null>(null);
+  const sessionRef = useRef<AdaptiveSession | null>(null);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    setStats(null);
+    setFailure(null);
+    return stop;
+  }, [video, stop]);
+
+  useEffect(() => {
+    if (!video.stream) return;
+    const timer = setInterval(() => setStats(sessionRef.current?.stats() ?? null), STATS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [video]);
+
+  const playNatively = useCallback(() => {
+    const el = mediaRef.current;
+    if (!el) return;
+    el.src = video.url;
+    el.play().catch(err => console.warn('Autoplay blocked:', err));
+  }, [mediaRef, video]);
+
+  // The URL to give the media element
+  const open = useCallback(() => {
+    const el = mediaRef.current;
+    stop();
+    if (!video.stream || !el || typeof MediaSource === 'undefined') return video.url;
+    const session = startAdaptiveStream(video.url, video.stream, el);
+    sessionRef.current = session;
+    session.done.catch(err => {
+      if (sessionRef.current !== session) return;
+      console.error('Stream failed:', err);
+      sessionRef.current = null;
+      setStats(null);
+      const reason = err instanceof StreamError ? err.failure : 'network';
+      if (video.stream === 'hls' && reason !== 'network' && el.canPlayType(HLS_MIME_TYPE)) playNatively();
+      else setFailure(reason);
+    });
+    return session.url;
+  }, [mediaRef, video, stop, playNatively]);
+
+  const setQuality = useCallback((index: number | null) => {
+    sessionRef.current?.setQuality(index);
+    setStats(sessionRef.current?.stats() ?? null);
+  }, []);
+
+  return { open, stats, failure, setQuality };
+};
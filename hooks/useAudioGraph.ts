@@ -0,0 +1,42 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import { AudioSettings } from '../types';
+import { AudioGraph, createAudioGraph, needsAudioGraph } from '../services/audio';
+
+// Routes the element through the Web Audio graph once boost, EQ, night
+// mode or mono is first used, and keeps it in sync with `volume` and
+// `audio` from then on. Returns a callback that resumes a suspended
+// context, to be called when playback starts.
+export const useAudioGraph = (
+  mediaRef: RefObject<HTMLMediaElement>,
+  volume: number,
+  audio: AudioSettings
+) => {
+  const graphRef = useRef<AudioGraph | null>(null);
+  const needed = needsAudioGraph(volume, audio);
+
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!el) return;
+    if (!graphRef.current) {
+      if (!needed) return;
+      try {
+        graphRef.current = createAudioGraph(el);
+      } catch (err) {
+        console.error('Failed to create audio graph:', err);
+        return;
+      }
+    }
+    const graph = graphRef.current;
+    graph.setBoost(Math.max(1, volume));
+    graph.setEqGains(audio.eqGains);
+    graph.setNightMode(audio.nightMode);
+    graph.setMono(audio.mono);
+    graph.resume().catch(err => console.warn('Audio context blocked:', err));
+  }, [mediaRef, needed, volume, audio]);
+
+  useEffect(() => () => graphRef.current?.close(), []);
+
+  return useCallback(() => {
+    graphRef.current?.resume().catch(err => console.warn('Audio context blocked:', err));
+  }, []);
+};
@@ -0,0 +1,39 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { VideoFile } from '../types';
+
+export interface AudioTrackInfo {
+  id: string;
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+// Lists the audio tracks of the loaded file where the browser exposes
+// them. Empty when it doesn't, or before the metadata has loaded.
+export const useAudioTracks = (mediaRef: RefObject<HTMLMediaElement>, video: VideoFile) => {
+  const [tracks, setTracks] = useState<AudioTrackInfo[]>([]);
+
+  useEffect(() => {
+    const list = mediaRef.current?.audioTracks;
+    setTracks([]);
+    if (!list) return;
+    const update = () => setTracks(Array.from<AudioTrack, AudioTrackInfo>(list, track => ({
+      id: track.id,
+      label: track.label,
+      language: track.language,
+      enabled: track.enabled
+    })));
+    const events = ['addtrack', 'removetrack', 'change'];
+    events.forEach(name => list.addEventListener(name, update));
+    update();
+    return () => events.forEach(name => list.removeEventListener(name, update));
+  }, [mediaRef, video]);
+
+  const selectTrack = useCallback((id: string) => {
+    const list = mediaRef.current?.audioTracks;
+    if (!list) return;
+    Array.from<AudioTrack>(list).forEach(track => { track.enabled = track.id === id; });
+  }, [mediaRef]);
+
+  return { tracks, selectTrack };
+};
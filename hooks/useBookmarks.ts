@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Bookmark, VideoFile } from '../types';
+import { createBookmark, loadBookmarks, mergeBookmarks, saveBookmarks } from '../services/bookmarks';
+
+// The bookmarks of `video`, written back to storage on every change.
+export const useBookmarks = (video: VideoFile) => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  // Edits made before the stored list has loaded would otherwise overwrite it
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadedRef.current = false;
+    setBookmarks([]);
+    loadBookmarks(video)
+      .then(result => {
+        if (cancelled) return;
+        loadedRef.current = true;
+        setBookmarks(result);
+      })
+      .catch(err => console.warn('Loading bookmarks failed:', err));
+    return () => { cancelled = true; };
+  }, [video]);
+
+  const update = useCallback((change: (current: Bookmark[]) => Bookmark[]) => {
+    if (!loadedRef.current) return;
+    setBookmarks(current => {
+      const next = change(current);
+      saveBookmarks(video, next).catch(err => console.error('Saving bookmarks failed:', err));
+      return next;
+    });
+  }, [video]);
+
+  const add = useCallback((time: number, label?: string) =>
+    update(current => mergeBookmarks(current, [createBookmark(time, label)])), [update]);
+
+  const remove = useCallback((id: string) =>
+    update(current => current.filter(b => b.id !== id)), [update]);
+
+  const rename = useCallback((id: string, label: string) =>
+    update(current => current.map(b => b.id === id ? { ...b, label } : b)), [update]);
+
+  const importMany = useCallback((incoming: Bookmark[]) =>
+    update(current => mergeBookmarks(current, incoming)), [update]);
+
+  return { bookmarks, add, remove, rename, importMany };
+};
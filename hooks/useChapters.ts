@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { Chapter, VideoFile } from '../types';
+import { readChapters } from '../services/chapters';
+import { getRegisteredFile } from '../services/objectUrls';
+
+// Chapters stored in the file of `video`; empty until read, or when there
+// are none.
+export const useChapters = (video: VideoFile) => {
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChapters([]);
+    const file = getRegisteredFile(video.id);
+    if (!file) return;
+    readChapters(file)
+      .then(result => { if (!cancelled) setChapters(result); })
+      .catch(err => console.warn('Reading chapters failed:', err));
+    return () => { cancelled = true; };
+  }, [video]);
+
+  return chapters;
+};
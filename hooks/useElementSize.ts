@@ -0,0 +1,19 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Content size of the element behind `ref`, kept up to date as it resizes.
+export const useElementSize = (ref: RefObject<HTMLElement>) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize(prev => prev.width === width && prev.height === height ? prev : { width, height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+};
@@ -0,0 +1,59 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+
+// Used until two frames have been presented to measure the real rate, and
+// where requestVideoFrameCallback is missing
+const DEFAULT_FRAME_DURATION = 1 / 30;
+
+// Steps `mediaRef` one frame at a time. requestVideoFrameCallback reports
+// the media time of each presented frame, which gives both the frame rate
+// and where the frame on screen starts, so steps land on frame boundaries
+// rather than drifting by a guessed 1/30 s.
+export const useFrameStep = (mediaRef: RefObject<HTMLVideoElement>) => {
+  const frameDurationRef = useRef(DEFAULT_FRAME_DURATION);
+  // Media time of the frame on screen, null until one has been presented
+  const frameTimeRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!el || !('requestVideoFrameCallback' in el)) return;
+    let last: { mediaTime: number; presentedFrames: number } | null = null;
+    let handle = 0;
+    const onFrame: VideoFrameRequestCallback = (_, metadata) => {
+      frameTimeRef.current = metadata.mediaTime;
+      // Consecutive frames only; seeks and dropped frames would skew it
+      if (last && metadata.presentedFrames - last.presentedFrames === 1) {
+        const delta = metadata.mediaTime - last.mediaTime;
+        if (delta > 0 && delta < 1) frameDurationRef.current = delta;
+      }
+      last = { mediaTime: metadata.mediaTime, presentedFrames: metadata.presentedFrames };
+      handle = el.requestVideoFrameCallback(onFrame);
+    };
+    const reset = () => {
+      frameTimeRef.current = null;
+      frameDurationRef.current = DEFAULT_FRAME_DURATION;
+      last = null;
+    };
+    handle = el.requestVideoFrameCallback(onFrame);
+    el.addEventListener('emptied', reset);
+    return () => {
+      el.cancelVideoFrameCallback(handle);
+      el.removeEventListener('emptied', reset);
+    };
+  }, [mediaRef]);
+
+  // Pauses first; stepping only makes sense on a still picture
+  const step = useCallback((direction: 1 | -1) => {
+    const el = mediaRef.current;
+    if (!el || !el.duration) return;
+    el.pause();
+    const frame = frameDurationRef.current;
+    const from = frameTimeRef.current ?? el.currentTime;
+    const target = Math.min(el.duration, Math.max(0, from + direction * frame));
+    // Aim for the middle of the frame so rounding can't land on its neighbour
+    el.currentTime = target + frame / 2;
+    // Quick repeated steps move on before the next frame is reported
+    frameTimeRef.current = target;
+  }, [mediaRef]);
+
+  return step;
+};
@@ -0,0 +1,56 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+// Orientation lock is a phone/tablet thing; desktop browsers reject it.
+const canLockOrientation = () =>
+  typeof screen.orientation?.lock === 'function' && window.matchMedia('(pointer: coarse)').matches;
+
+const unlockOrientation = () => {
+  if (canLockOrientation()) screen.orientation.unlock();
+};
+
+// Turns the phone to match the video, so a landscape film fills the screen
+// without the user rotating it.
+const lockOrientation = async (media: HTMLVideoElement | null) => {
+  if (!canLockOrientation() || !media?.videoWidth) return;
+  try {
+    await screen.orientation.lock(media.videoWidth >= media.videoHeight ? 'landscape' : 'portrait');
+  } catch (err) {
+    console.warn('Orientation lock refused:', err);
+  }
+};
+
+// Tracks whether `containerRef` is the fullscreen element, including exits
+// the app didn't start (Esc, the back gesture), and releases the
+// orientation lock whenever fullscreen ends.
+export const useFullscreen = (containerRef: RefObject<HTMLElement>, mediaRef: RefObject<HTMLVideoElement>) => {
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    const update = () => {
+      const active = !!document.fullscreenElement && document.fullscreenElement === containerRef.current;
+      setIsFullscreen(active);
+      if (!active) unlockOrientation();
+    };
+    update();
+    document.addEventListener('fullscreenchange', update);
+    return () => {
+      document.removeEventListener('fullscreenchange', update);
+      unlockOrientation();
+    };
+  }, [containerRef]);
+
+  const toggle = useCallback(async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else if (containerRef.current) {
+        await containerRef.current.requestFullscreen({ navigationUI: 'hide' });
+        await lockOrientation(mediaRef.current);
+      }
+    } catch (err) {
+      console.warn('Fullscreen request failed:', err);
+    }
+  }, [containerRef, mediaRef]);
+
+  return { isFullscreen, toggle };
+};
@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { createI18n, I18n } from '../services/i18n';
+import { SOURCE_LANGUAGE } from '../locales';
+
+// App provides this from the language setting, so switching language
+// re-renders every consumer with the new catalog.
+export const I18nContext = createContext<I18n>(createI18n(SOURCE_LANGUAGE));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+import { isTypingTarget } from '../services/keymap';
+
+interface ListNavigationOptions {
+  count: number;
+  // Items per row, for grids; up/down move by a whole row
+  getColumns?: () => number;
+  onActivate: (index: number) => void;
+  onBack?: () => void;
+  // Focus starts over whenever this changes (e.g. a different view)
+  resetKey: string;
+}
+
+// Arrow-key and Enter navigation over a list or grid of items. Items mark
+// themselves with `data-focused` so the focused one can be scrolled into view.
+export const useListNavigation = ({ count, getColumns, onActivate, onBack, resetKey }: ListNavigationOptions) => {
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => setFocusedIndex(null), [resetKey]);
+
+  useEffect(() => {
+    if (focusedIndex === null) return;
+    containerRef.current?.querySelector('[data-focused="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [focusedIndex]);
+
+  const latest = useRef({ count, getColumns, onActivate, onBack, focusedIndex });
+  latest.current = { count, getColumns, onActivate, onBack, focusedIndex };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.ctrlKey || e.altKey || e.metaKey) return;
+      const { count, getColumns, onActivate, onBack, focusedIndex } = latest.current;
+      const columns = getColumns?.() ?? 1;
+      const move = (delta: number) => {
+        e.preventDefault();
+        if (count === 0) return;
+        const from = focusedIndex ?? (delta > 0 ? -1 : count);
+        setFocusedIndex(Math.min(count - 1, Math.max(0, from + delta)));
+      };
+
+      switch (e.key) {
+        case 'ArrowDown': move(columns); break;
+        case 'ArrowUp': move(-columns); break;
+        case 'ArrowRight': move(1); break;
+        case 'ArrowLeft': move(-1); break;
+        case 'Home': move(-count); break;
+        case 'End': move(count); break;
+        case 'Enter':
+          if (focusedIndex !== null && focusedIndex < count) {
+            e.preventDefault();
+            onActivate(focusedIndex);
+          }
+          break;
+        case 'Escape':
+        case 'Backspace':
+          if (onBack) {
+            e.preventDefault();
+            onBack();
+          }
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return { focusedIndex, containerRef };
+};
@@ -0,0 +1,49 @@
+import React, { useRef } from 'react';
+
+const LONG_PRESS_MS = 500;
+// Moving further than this turns the press into a scroll
+const MOVE_TOLERANCE_PX = 10;
+
+// Pointer handlers that call `onLongPress` once a press has been held,
+// and swallow the click that ends it.
+export const useLongPress = (onLongPress?: () => void) => {
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const originRef = useRef<{ x: number; y: number } | null>(null);
+  const firedRef = useRef(false);
+
+  const cancel = () => {
+    clearTimeout(timerRef.current);
+    originRef.current = null;
+  };
+
+  if (!onLongPress) return {};
+
+  return {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (e.button !== 0) return;
+      firedRef.current = false;
+      originRef.current = { x: e.clientX, y: e.clientY };
+      timerRef.current = setTimeout(() => {
+        firedRef.current = true;
+        originRef.current = null;
+        onLongPress();
+      }, LONG_PRESS_MS);
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => {
+      const origin = originRef.current;
+      if (origin && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) > MOVE_TOLERANCE_PX) cancel();
+    },
+    onPointerUp: cancel,
+    onPointerLeave: cancel,
+    onPointerCancel: cancel,
+    onClickCapture: (e: React.MouseEvent<HTMLElement>) => {
+      if (!firedRef.current) return;
+      firedRef.current = false;
+      e.stopPropagation();
+    },
+    // Touch browsers open their own menu on a long press
+    onContextMenu: (e: React.MouseEvent<HTMLElement>) => {
+      if (firedRef.current) e.preventDefault();
+    }
+  };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { MediaProbe, VideoFile } from '../types';
+import { getMediaProbe } from '../services/probe';
+
+// What the container headers of `video` say it holds, or null until known.
+export const useMediaProbe = (video: VideoFile) => {
+  const [probe, setProbe] = useState<MediaProbe | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProbe(null);
+    getMediaProbe(video)
+      .then(result => { if (!cancelled) setProbe(result); })
+      .catch(err => console.warn('Media probe failed:', err));
+    return () => { cancelled = true; };
+  }, [video]);
+
+  return probe;
+};
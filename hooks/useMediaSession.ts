@@ -0,0 +1,98 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { VideoFile } from '../types';
+import { ROOT_FOLDER_NAME } from '../services/library';
+import { useI18n } from './useI18n';
+
+export interface MediaSessionHandlers {
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  // Left out when there is nothing to go to, which hides the OS button
+  onNext?: () => void;
+  onPrev?: () => void;
+}
+
+const setActionHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Browsers throw for actions they don't know about
+  }
+};
+
+// Publishes the playing video to the OS media controls (lock screen,
+// notification shade, headset buttons) and routes their actions back, so
+// playback can be driven while the app is in the background.
+export const useMediaSession = (
+  mediaRef: RefObject<HTMLMediaElement>,
+  video: VideoFile,
+  skipSeconds: number,
+  handlers: MediaSessionHandlers
+) => {
+  const { t } = useI18n();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const skipRef = useRef(skipSeconds);
+  skipRef.current = skipSeconds;
+  const album = video.folderName === ROOT_FOLDER_NAME ? t('library.internalStorage') : video.folderName;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: video.name,
+      album,
+      artwork: video.thumbnail ? [{ src: video.thumbnail, type: 'image/jpeg' }] : []
+    });
+  }, [video.name, video.thumbnail, album]);
+
+  useEffect(() => () => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = null;
+    navigator.mediaSession.playbackState = 'none';
+  }, []);
+
+  const hasNext = !!handlers.onNext;
+  const hasPrev = !!handlers.onPrev;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const seekBy = (delta: number) => {
+      const el = mediaRef.current;
+      if (el) handlersRef.current.onSeek(Math.max(0, el.currentTime + delta));
+    };
+    const actions: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', () => handlersRef.current.onPlay()],
+      ['pause', () => handlersRef.current.onPause()],
+      ['seekbackward', (details) => seekBy(-(details.seekOffset ?? skipRef.current))],
+      ['seekforward', (details) => seekBy(details.seekOffset ?? skipRef.current)],
+      ['seekto', (details) => { if (details.seekTime !== undefined) handlersRef.current.onSeek(details.seekTime); }],
+      ['nexttrack', hasNext ? () => handlersRef.current.onNext?.() : null],
+      ['previoustrack', hasPrev ? () => handlersRef.current.onPrev?.() : null]
+    ];
+    actions.forEach(([action, handler]) => setActionHandler(action, handler));
+    return () => actions.forEach(([action]) => setActionHandler(action, null));
+  }, [mediaRef, hasNext, hasPrev]);
+
+  // Keeps the OS scrubber in step with the element
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!el || !('mediaSession' in navigator)) return;
+    const session = navigator.mediaSession;
+    const update = () => {
+      session.playbackState = el.paused ? 'paused' : 'playing';
+      if (!Number.isFinite(el.duration)) return;
+      try {
+        session.setPositionState({
+          duration: el.duration,
+          playbackRate: el.playbackRate,
+          position: Math.min(el.currentTime, el.duration)
+        });
+      } catch {
+        // Rejected between sources, while the duration is still unknown
+      }
+    };
+    const events = ['play', 'pause', 'durationchange', 'ratechange', 'seeked'];
+    events.forEach(name => el.addEventListener(name, update));
+    return () => events.forEach(name => el.removeEventListener(name, update));
+  }, [mediaRef]);
+};
@@ -0,0 +1,147 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import { VideoFile } from '../types';
+import { PartyCommand, PartyMessage, PartyState, correctDrift, expectedPosition, matchesMedia, partyMedia } from '../services/watchParty';
+import { WatchParty } from './useWatchParty';
+
+// How often the host sends its state when nothing has changed
+const HEARTBEAT_MS = 2000;
+// How long a guest's own change waits for the host to take it up before
+// the guest goes back to following
+const CONFIRM_MS = 1500;
+
+// Mirrors playback of `video` within a watch party. The host sends its
+// state on every change and a heartbeat in between; guests follow it,
+// and send what they do themselves to the host as commands.
+export const usePartySync = (
+  mediaRef: RefObject<HTMLMediaElement>,
+  video: VideoFile,
+  party: WatchParty,
+  speed: number,
+  // Sets the player's speed without it counting as the user's change
+  applySpeed: (rate: number) => void
+) => {
+  const role = party.status === 'connected' ? party.role : null;
+  const { send, subscribe } = party;
+  const latestRef = useRef<{ state: PartyState; receivedAt: number } | null>(null);
+  const confirmUntilRef = useRef(0);
+  // Until the guest has caught up with the host once, what the element
+  // does comes from loading the video rather than from the user
+  const syncedRef = useRef(false);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  const applySpeedRef = useRef(applySpeed);
+  applySpeedRef.current = applySpeed;
+
+  const publish = useCallback(() => {
+    const el = mediaRef.current;
+    if (!el || !el.duration) return;
+    send({
+      type: 'state',
+      state: { media: partyMedia(video, el.duration), playing: !el.paused, position: el.currentTime, rate: el.playbackRate }
+    });
+  }, [mediaRef, video, send]);
+
+  const follow = useCallback(() => {
+    const el = mediaRef.current;
+    const latest = latestRef.current;
+    if (!el || !latest || !el.duration || el.seeking || performance.now() < confirmUntilRef.current) return;
+    const { state } = latest;
+    if (!matchesMedia(state.media, { ...video, duration: el.duration })) return;
+
+    if (state.rate !== speedRef.current) applySpeedRef.current(state.rate);
+    if (state.playing === el.paused) {
+      if (state.playing) el.play().catch(err => console.warn('Autoplay blocked:', err));
+      else el.pause();
+    }
+    const target = expectedPosition(state, (performance.now() - latest.receivedAt) / 1000);
+    // Paused, there is no catching up by speed
+    const correction = state.playing ? correctDrift(target - el.currentTime, state.rate) : { seek: target !== el.currentTime, rate: state.rate };
+    if (correction.seek) el.currentTime = target;
+    el.playbackRate = correction.rate;
+    syncedRef.current = true;
+  }, [mediaRef, video]);
+
+  useEffect(() => {
+    syncedRef.current = false;
+  }, [video]);
+
+  useEffect(() => {
+    latestRef.current = null;
+  }, [role]);
+
+  // Host: send every change, and keep guests that joined late in step
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (role !== 'host' || !el) return;
+    const events = ['play', 'pause', 'seeked', 'ratechange', 'loadedmetadata'];
+    events.forEach(name => el.addEventListener(name, publish));
+    const timer = setInterval(publish, HEARTBEAT_MS);
+    const unsubscribe = subscribe((message: PartyMessage) => {
+      if (message.type !== 'command') return;
+      const { command } = message;
+      if (command.action === 'play') el.play().catch(err => console.warn('Playback error:', err));
+      else if (command.action === 'pause') el.pause();
+      else if (command.action === 'seek') el.currentTime = command.position;
+      else if (command.action === 'rate') applySpeedRef.current(command.rate);
+    });
+    publish();
+    return () => {
+      events.forEach(name => el.removeEventListener(name, publish));
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [mediaRef, role, publish, subscribe, party.peers]);
+
+  // Guest: follow the host, and pass on what the user does here
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (role !== 'guest' || !el) return;
+    const request = (command: PartyCommand) => {
+      confirmUntilRef.current = performance.now() + CONFIRM_MS;
+      send({ type: 'command', command });
+    };
+    // Only what differs from the host is the user's doing; following it
+    // brings the element in line and sends nothing
+    const onPlayOrPause = () => {
+      const state = latestRef.current?.state;
+      if (!syncedRef.current || !state || state.playing !== el.paused) return;
+      request({ action: el.paused ? 'pause' : 'play' });
+    };
+    const onSeeked = () => {
+      const latest = latestRef.current;
+      if (!syncedRef.current || !latest) return;
+      const target = expectedPosition(latest.state, (performance.now() - latest.receivedAt) / 1000);
+      if (correctDrift(target - el.currentTime, latest.state.rate).seek) request({ action: 'seek', position: el.currentTime });
+    };
+    const unsubscribe = subscribe((message: PartyMessage) => {
+      if (message.type !== 'state') return;
+      latestRef.current = { state: message.state, receivedAt: performance.now() };
+      follow();
+    });
+    el.addEventListener('play', onPlayOrPause);
+    el.addEventListener('pause', onPlayOrPause);
+    el.addEventListener('seeked', onSeeked);
+    el.addEventListener('timeupdate', follow);
+    el.addEventListener('loadedmetadata', follow);
+    return () => {
+      el.removeEventListener('play', onPlayOrPause);
+      el.removeEventListener('pause', onPlayOrPause);
+      el.removeEventListener('seeked', onSeeked);
+      el.removeEventListener('timeupdate', follow);
+      el.removeEventListener('loadedmetadata', follow);
+      unsubscribe();
+      // Drop whatever speed the drift correction left behind
+      el.playbackRate = speedRef.current;
+    };
+  }, [mediaRef, role, send, subscribe, follow]);
+
+  // The player calls this when the user changes the speed
+  const speedChanged = useCallback((rate: number) => {
+    if (role !== 'guest') return;
+    confirmUntilRef.current = performance.now() + CONFIRM_MS;
+    send({ type: 'command', command: { action: 'rate', rate } });
+  }, [role, send]);
+
+  // Guests leave moving on to the next video to the host
+  return { following: role === 'guest', speedChanged };
+};
@@ -0,0 +1,33 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+// Follows the element in and out of Picture-in-Picture, whether the app
+// or the browser's own controls moved it.
+export const usePictureInPicture = (videoRef: RefObject<HTMLVideoElement>) => {
+  const [isActive, setIsActive] = useState(false);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    const enter = () => setIsActive(true);
+    const leave = () => setIsActive(false);
+    el.addEventListener('enterpictureinpicture', enter);
+    el.addEventListener('leavepictureinpicture', leave);
+    return () => {
+      el.removeEventListener('enterpictureinpicture', enter);
+      el.removeEventListener('leavepictureinpicture', leave);
+    };
+  }, [videoRef]);
+
+  const toggle = useCallback(async () => {
+    const el = videoRef.current;
+    if (!el) return;
+    try {
+      if (document.pictureInPictureElement) await document.exitPictureInPicture();
+      else await el.requestPictureInPicture();
+    } catch (err) {
+      console.warn('Picture-in-Picture request failed:', err);
+    }
+  }, [videoRef]);
+
+  return { isSupported: !!document.pictureInPictureEnabled, isActive, toggle };
+};
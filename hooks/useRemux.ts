@@ -0,0 +1,58 @@
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MediaProbe, VideoFile } from '../types';
+import { RemuxSession, planRemux, startRemux } from '../services/remux';
+import { acquireObjectUrl, getRegisteredFile } from '../services/objectUrls';
+
+export type RemuxStatus = 'idle' | 'running' | 'failed';
+
+// Offers the WebAssembly fallback for `video` when its probe says it can
+// help, and swaps the element over to the converted stream once started.
+export const useRemux = (mediaRef: RefObject<HTMLMediaElement>, video: VideoFile, probe: MediaProbe | null) => {
+  const plan = useMemo(() => probe ? planRemux(probe) : null, [probe]);
+  const [status, setStatus] = useState<RemuxStatus>('idle');
+  // Fraction of the file converted so far
+  const [progress, setProgress] = useState(0);
+  const sessionRef = useRef<RemuxSession | null>(null);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    setStatus('idle');
+    setProgress(0);
+    return stop;
+  }, [video, stop]);
+
+  const start = useCallback(() => {
+    const el = mediaRef.current;
+    const file = getRegisteredFile(video.id);
+    if (!el || !file || !plan) return;
+    const resumeAt = el.currentTime;
+    const session = startRemux(file, plan, el, setProgress);
+    sessionRef.current = session;
+    setStatus('running');
+    setProgress(0);
+    el.src = session.url;
+    if (resumeAt) el.currentTime = resumeAt;
+    el.play().catch(err => console.warn('Autoplay blocked:', err));
+    session.done.catch(err => {
+      if (sessionRef.current !== session) return;
+      console.error('Conversion failed:', err);
+      sessionRef.current = null;
+      setStatus('failed');
+    });
+  }, [mediaRef, video, plan]);
+
+  // Goes back to playing the file as it is
+  const cancel = useCallback(() => {
+    stop();
+    setStatus('idle');
+    const el = mediaRef.current;
+    const src = acquireObjectUrl(video);
+    if (el && src) el.src = src;
+  }, [mediaRef, video, stop]);
+
+  return { plan, status, progress, start, cancel };
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { TrickplaySprite, VideoFile } from '../types';
+import { generateTrickplay, loadTrickplay } from '../services/trickplay';
+
+export interface LoadedTrickplay {
+  sprite: TrickplaySprite;
+  url: string;
+}
+
+// Loads the cached sprite for `video`, or builds one in the background.
+// Returns null until a sprite is available.
+export const useTrickplay = (video: VideoFile) => {
+  const [trickplay, setTrickplay] = useState<LoadedTrickplay | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let url: string | null = null;
+    setTrickplay(null);
+
+    (async () => {
+      try {
+        const sprite = (await loadTrickplay(video)) ?? (await generateTrickplay(video, controller.signal));
+        if (!sprite || controller.signal.aborted) return;
+        url = URL.createObjectURL(sprite.image);
+        setTrickplay({ sprite, url });
+      } catch (err) {
+        console.warn('Seek preview unavailable:', err);
+      }
+    })();
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [video]);
+
+  return trickplay;
+};
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FileChange, VideoFile } from '../types';
+import {
+  DEFAULT_VAULT_OPTIONS, HiddenEntry, HiddenMatch, VaultOptions, adoptHidden, changePin as changeVaultPin, createVault, findHidden,
+  followChange as followVaultChange, hiddenEntries, hideEntries, loadVault, lockVault, removeVault,
+  setVaultOptions, unhideEntries, unlockVault
+} from '../services/vault';
+
+export type VaultStatus = 'loading' | 'none' | 'locked' | 'unlocked';
+
+const IDLE_CHECK_MS = 15_000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'] as const;
+
+// Playback without touching anything shouldn't count as idle
+const isPlaying = () =>
+  Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio')).some(el => !el.paused);
+
+// The private folder's state for the UI: whether a PIN is set and the
+// vault unlocked, and which of `videos` and which folders it hides. Locks
+// again after the chosen minutes without input.
+export const useVault = (videos: VideoFile[]) => {
+  const [status, setStatus] = useState<VaultStatus>('loading');
+  const [options, setOptions] = useState<VaultOptions>(DEFAULT_VAULT_OPTIONS);
+  const [entries, setEntries] = useState<HiddenEntry[]>([]);
+  const [hidden, setHidden] = useState<HiddenMatch>({ videoIds: new Set(), directIds: new Set(), folderKeys: new Set() });
+  // Until the first check, nothing is known to be safe to show
+  const [checked, setChecked] = useState(false);
+  // Bumped whenever the hidden list changes, to work the hidden ids out again
+  const [revision, setRevision] = useState(0);
+  const lastActivityRef = useRef(Date.now());
+
+  useEffect(() => {
+    loadVault()
+      .then(stored => {
+        if (stored) setOptions(stored);
+        setStatus(stored ? 'locked' : 'none');
+      })
+      .catch(err => {
+        console.error('Loading the private folder failed:', err);
+        setStatus('none');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    let cancelled = false;
+    // Videos found in a hidden folder since it was hidden have their
+    // records moved in too
+    (status === 'unlocked' ? adoptHidden(videos) : Promise.resolve())
+      .then(() => findHidden(videos))
+      .then(result => {
+        if (cancelled) return;
+        setHidden(result);
+        setChecked(true);
+      })
+      .catch(err => console.warn('Could not check the private folder:', err));
+    return () => { cancelled = true; };
+  }, [videos, status, revision]);
+
+  const refresh = useCallback(() => {
+    setEntries([...hiddenEntries()]);
+    setRevision(r => r + 1);
+  }, []);
+
+  const lock = useCallback(() => {
+    lockVault();
+    setEntries([]);
+    setStatus('locked');
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'unlocked' || !options.autoLockMinutes) return;
+    const limit = options.autoLockMinutes * 60_000;
+    lastActivityRef.current = Date.now();
+    const onActivity = () => { lastActivityRef.current = Date.now(); };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, onActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (isPlaying()) onActivity();
+      else if (Date.now() - lastActivityRef.current >= limit) lock();
+    }, IDLE_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, onActivity));
+      clearInterval(timer);
+    };
+  }, [status, options.autoLockMinutes, lock]);
+
+  const create = useCallback(async (pin: string) => {
+    await createVault(pin);
+    setOptions(DEFAULT_VAULT_OPTIONS);
+    setStatus('unlocked');
+    refresh();
+  }, [refresh]);
+
+  // False for a wrong PIN
+  const unlock = useCallback(async (pin: string) => {
+    if (!(await unlockVault(pin))) return false;
+    setStatus('unlocked');
+    refresh();
+    return true;
+  }, [refresh]);
+
+  const hide = useCallback(async (toHide: HiddenEntry[]) => {
+    await hideEntries(toHide, videos);
+    refresh();
+  }, [videos, refresh]);
+
+  const unhide = useCallback(async (toShow: HiddenEntry[]) => {
+    await unhideEntries(toShow, videos);
+    refresh();
+  }, [videos, refresh]);
+
+  const changePin = useCallback((current: string, next: string) => changeVaultPin(current, next), []);
+
+  const updateOptions = useCallback(async (next: VaultOptions) => {
+    setOptions(next);
+    await setVaultOptions(next);
+  }, []);
+
+  const followChange = useCallback(async (change: FileChange) => {
+    await followVaultChange(change);
+    refresh();
+  }, [refresh]);
+
+  // Turns the private folder off and shows everything again
+  const remove = useCallback(async () => {
+    await removeVault();
+    setOptions(DEFAULT_VAULT_OPTIONS);
+    setEntries([]);
+    setStatus('none');
+    setRevision(r => r + 1);
+  }, []);
+
+  return {
+    status, options, entries,
+    checked,
+    hiddenIds: hidden.videoIds,
+    directIds: hidden.directIds,
+    hiddenFolders: hidden.folderKeys,
+    create, unlock, lock, hide, unhide, changePin,
+    setOptions: updateOptions, followChange, remove
+  };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VideoAdjustments, VideoFile } from '../types';
+import { DEFAULT_ADJUSTMENTS, loadAdjustments, saveAdjustments } from '../services/adjustments';
+
+// Sliders change the value many times a second; storage only needs the last
+const SAVE_DELAY_MS = 400;
+
+// The picture adjustments of `video`, written back to storage shortly after
+// each change.
+export const useVideoAdjustments = (video: VideoFile) => {
+  const [adjustments, setAdjustments] = useState<VideoAdjustments>(DEFAULT_ADJUSTMENTS);
+  // Changes made before the stored values have loaded would overwrite them
+  const loadedRef = useRef(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRef = useRef<(() => void) | null>(null);
+
+  const flush = useCallback(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    pendingRef.current?.();
+    pendingRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadedRef.current = false;
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+    loadAdjustments(video)
+      .then(result => {
+        if (cancelled) return;
+        loadedRef.current = true;
+        setAdjustments(result);
+      })
+      .catch(err => console.warn('Loading adjustments failed:', err));
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [video, flush]);
+
+  const update = useCallback((change: Partial<VideoAdjustments>) => {
+    if (!loadedRef.current) return;
+    setAdjustments(current => {
+      const next = { ...current, ...change };
+      pendingRef.current = () => saveAdjustments(video, next).catch(err => console.error('Saving adjustments failed:', err));
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = setTimeout(flush, SAVE_DELAY_MS);
+      return next;
+    });
+  }, [video, flush]);
+
+  const reset = useCallback(() => update(DEFAULT_ADJUSTMENTS), [update]);
+
+  return { adjustments, update, reset };
+};
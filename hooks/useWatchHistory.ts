@@ -0,0 +1,88 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { HistoryEvent, VideoFile } from '../types';
+import { recordHistory } from '../services/history';
+import { videoIdentity } from '../services/library';
+import { isCompleted } from '../services/progress';
+
+// Dragging along the seek bar seeks many times; it is logged as one seek
+// once it has settled this long
+const SEEK_SETTLE_MS = 800;
+
+// Logs when playback of `video` starts and stops, where it seeks to and
+// when it is finished, while `enabled`. Logging restarts only for another
+// file, not when the library hands over a new object for the same one.
+export const useWatchHistory = (mediaRef: RefObject<HTMLMediaElement>, video: VideoFile, enabled: boolean) => {
+  const videoRef = useRef(video);
+  videoRef.current = video;
+  const identity = videoIdentity(video);
+
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!el || !enabled) return;
+    let playingSince: number | null = null;
+    let completed = false;
+    // Where playback was before a seek began
+    let lastPosition = el.currentTime;
+    let seekFrom: number | null = null;
+    let seekTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const log = (event: Pick<HistoryEvent, 'kind' | 'from' | 'watched'>) => {
+      recordHistory(videoRef.current, { ...event, position: el.currentTime })
+        .catch(err => console.warn('Could not record watch history:', err));
+    };
+
+    const start = () => {
+      if (playingSince !== null) return;
+      playingSince = performance.now();
+      log({ kind: 'start' });
+    };
+    const stop = () => {
+      if (playingSince === null) return;
+      const watched = (performance.now() - playingSince) / 1000;
+      playingSince = null;
+      log({ kind: 'stop', watched });
+    };
+    const flushSeek = () => {
+      clearTimeout(seekTimer);
+      if (seekFrom === null) return;
+      log({ kind: 'seek', from: seekFrom });
+      seekFrom = null;
+    };
+
+    const onTimeUpdate = () => {
+      if (el.seeking) return;
+      lastPosition = el.currentTime;
+      if (!completed && isCompleted(el.currentTime, el.duration)) {
+        completed = true;
+        log({ kind: 'complete' });
+      }
+    };
+    const onSeeking = () => {
+      if (seekFrom === null) seekFrom = lastPosition;
+    };
+    const onSeeked = () => {
+      lastPosition = el.currentTime;
+      clearTimeout(seekTimer);
+      seekTimer = setTimeout(flushSeek, SEEK_SETTLE_MS);
+    };
+
+    el.addEventListener('play', start);
+    el.addEventListener('pause', stop);
+    el.addEventListener('ended', stop);
+    el.addEventListener('timeupdate', onTimeUpdate);
+    el.addEventListener('seeking', onSeeking);
+    el.addEventListener('seeked', onSeeked);
+    // Turning tracking on while something plays
+    if (!el.paused) start();
+    return () => {
+      el.removeEventListener('play', start);
+      el.removeEventListener('pause', stop);
+      el.removeEventListener('ended', stop);
+      el.removeEventListener('timeupdate', onTimeUpdate);
+      el.removeEventListener('seeking', onSeeking);
+      el.removeEventListener('seeked', onSeeked);
+      flushSeek();
+      stop();
+    };
+  }, [mediaRef, identity, enabled]);
+};
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ClientMessage, PartyCommand, PartyConnection, PartyMedia, PartyMessage, RelayMessage, connectParty, defaultRelayUrl
+} from '../services/watchParty';
+
+export type PartyRole = 'host' | 'guest';
+
+export type PartyStatus = 'idle' | 'connecting' | 'connected';
+
+export type PartyError = 'unreachable' | 'unknownCode' | 'ownRoom' | 'closed';
+
+export interface PartyHandlers {
+  // Guests only: the host plays `media`. False when it isn't in the library.
+  onRemoteMedia: (media: PartyMedia) => boolean;
+  // Host only: what guests asked for that the player doesn't handle itself
+  onCommand: (command: PartyCommand) => void;
+}
+
+export interface WatchParty {
+  status: PartyStatus;
+  role: PartyRole | null;
+  code: string | null;
+  // Players in the room, this one included
+  peers: number;
+  error: PartyError | null;
+  // Name of what the host plays when this library doesn't have it
+  missing: string | null;
+  relayUrl: string;
+  host: (relayUrl: string) => void;
+  join: (relayUrl: string, code: string) => void;
+  leave: () => void;
+  send: (message: PartyMessage) => void;
+  // For the player, which syncs playback itself
+  subscribe: (listener: (message: PartyMessage) => void) => () => void;
+}
+
+// One watch-party connection for the whole app, so it carries on across
+// videos and back in the library.
+export const useWatchParty = (handlers: PartyHandlers): WatchParty => {
+  const [status, setStatus] = useState<PartyStatus>('idle');
+  const [role, setRole] = useState<PartyRole | null>(null);
+  const [code, setCode] = useState<string | null>(null);
+  const [peers, setPeers] = useState(0);
+  const [error, setError] = useState<PartyError | null>(null);
+  const [missing, setMissing] = useState<string | null>(null);
+  const [relayUrl, setRelayUrl] = useState(defaultRelayUrl);
+  const connectionRef = useRef<PartyConnection | null>(null);
+  const listenersRef = useRef(new Set<(message: PartyMessage) => void>());
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const reset = useCallback((reason: PartyError | null) => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setStatus('idle');
+    setRole(null);
+    setCode(null);
+    setPeers(0);
+    setMissing(null);
+    setError(reason);
+  }, []);
+
+  const connect = useCallback((url: string, as: PartyRole, hello: ClientMessage) => {
+    reset(null);
+    setRelayUrl(url);
+    setRole(as);
+    setStatus('connecting');
+    const connection = connectParty(url, hello, (message: RelayMessage) => {
+      if (connectionRef.current !== connection) return;
+      switch (message.type) {
+        case 'hosted':
+        case 'joined':
+          setCode(message.code);
+          setStatus('connected');
+          break;
+        case 'peers':
+          setPeers(message.count);
+          break;
+        case 'closed':
+          reset('closed');
+          break;
+        case 'error':
+          if (message.reason === 'unknownCode' || message.reason === 'ownRoom') reset(message.reason);
+          else console.warn('The relay rejected a message');
+          break;
+        case 'state':
+          if (as === 'guest') {
+            const found = handlersRef.current.onRemoteMedia(message.state.media);
+            setMissing(found ? null : message.state.media.name);
+          }
+          listenersRef.current.forEach(listener => listener(message));
+          break;
+        case 'command':
+          if (as === 'host') handlersRef.current.onCommand(message.command);
+          listenersRef.current.forEach(listener => listener(message));
+          break;
+      }
+    }, (opened) => {
+      if (connectionRef.current === connection) reset(opened ? 'closed' : 'unreachable');
+    });
+    connectionRef.current = connection;
+  }, [reset]);
+
+  const host = useCallback((url: string) => connect(url, 'host', { type: 'host' }), [connect]);
+
+  const join = useCallback((url: string, joinCode: string) =>
+    connect(url, 'guest', { type: 'join', code: joinCode.trim().toUpperCase() }), [connect]);
+
+  const leave = useCallback(() => reset(null), [reset]);
+
+  const send = useCallback((message: PartyMessage) => connectionRef.current?.send(message), []);
+
+  const subscribe = useCallback((listener: (message: PartyMessage) => void) => {
+    listenersRef.current.add(listener);
+    return () => { listenersRef.current.delete(listener); };
+  }, []);
+
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  return { status, role, code, peers, error, missing, relayUrl, host, join, leave, send, subscribe };
+};
@@ -0,0 +1,355 @@
+import { Message } from '../types';
+
+// The source catalog: every key the app uses is defined here first, and
+// the other languages must translate all of them (see locales/index.ts).
+export const bn = {
+  'common.play': 'চালান',
+  'common.save': 'সেভ',
+  'common.cancel': 'বাতিল',
+  'common.back': 'ফিরে যান',
+  'common.reset': 'রিসেট',
+  'common.off': 'বন্ধ',
+  'common.videoCount': '{count} টি ভিডিও',
+  'common.seconds': '{count} সেকেন্ড',
+
+  'app.addedVideos': '{count} টি নতুন ভিডিও',
+  'app.removedVideos': '{count} টি ভিডিও সরানো হয়েছে',
+  'app.duplicateVideos': '{count} টি ডুপ্লিকেট বাদ দেওয়া হয়েছে',
+  'app.settingsImported': 'সেটিংস ইমপোর্ট হয়েছে',
+  'app.settingsImportFailed': 'সেটিংস ফাইলটি পড়া যায়নি',
+  'app.streamFailed': 'স্ট্রিমটি খোলা যায়নি',
+  'app.importFailed': 'ফাইলগুলো ইমপোর্ট করা যায়নি',
+  'app.rescanFailed': '{name} পড়া যায়নি',
+  'app.renameRootFailed': '{name}-এর নাম বদলানো যায়নি',
+  'app.rootsFailed': 'স্টোরেজ ফোল্ডারগুলো আপডেট করা যায়নি',
+  'app.progressFailed': 'দেখার অগ্রগতি সেভ করা যায়নি',
+  'app.progressLoadFailed': 'দেখার অগ্রগতি লোড করা যায়নি',
+  'app.unlockedTryAgain': 'প্রাইভেট ফোল্ডার এখন খোলা; আবার চেষ্টা করুন',
+  'app.playlistSaveFailed': 'প্লেলিস্ট {name} সেভ করা যায়নি',
+  'app.playlistDeleteFailed': 'প্লেলিস্ট মুছে ফেলা যায়নি',
+  'app.playlistImportFailed': 'প্লেলিস্ট {name} পড়া যায়নি',
+  'app.playlistMissing': '{name}: {count} টি ফাইল লাইব্রেরিতে পাওয়া যায়নি',
+  'app.unplayable': '{count} টি ফাইল এই ব্রাউজারে চলবে না — {name}: {reason}',
+
+  'library.subtitle': 'লোকাল লাইব্রেরি',
+  'library.internalStorage': 'ইন্টারনাল স্টোরেজ',
+  'library.playAll': 'সব চালান',
+  'library.selectStorage': 'স্টোরেজ সিলেক্ট করুন',
+  'library.searchInFolder': '{folder} ফোল্ডারে খুঁজুন',
+  'library.searchPlaceholder': 'নাম, ফোল্ডার বা পাথ দিয়ে খুঁজুন',
+  'library.reconnectPrompt': '{roots} — ফোল্ডারে আবার অ্যাক্সেস দিন',
+  'library.reconnect': 'অনুমতি দিন',
+  'library.rescanRoot': 'আবার স্ক্যান করুন',
+  'library.renameRoot': 'নাম বদলান',
+  'library.removeRoot': 'লাইব্রেরি থেকে সরান',
+  'library.rootNeedsAccess': 'আবার অনুমতি দরকার',
+  'library.network': 'নেটওয়ার্ক',
+  'library.openStream': 'নেটওয়ার্ক স্ট্রিম খুলুন',
+  'library.emptyTitle': 'কোনো ভিডিও নেই',
+  'library.emptyHint': 'ফোনের ভিডিও ফোল্ডারটি সিলেক্ট করতে উপরের বাটনে ক্লিক করুন। MX Player এর মতো সব ভিডিও ফোল্ডার অনুযায়ী দেখা যাবে।',
+  'library.noResults': 'কিছু পাওয়া যায়নি',
+  'library.noHistory': 'এখনো কোনো ভিডিও দেখা হয়নি',
+  'library.tab.folders': 'ফোল্ডার',
+  'library.tab.videos': 'ভিডিও',
+  'library.tab.recent': 'রিসেন্ট',
+  'library.tab.playlists': 'প্লেলিস্ট',
+  'library.tab.stats': 'পরিসংখ্যান',
+
+  'list.sort.name': 'নাম',
+  'list.sort.date': 'তারিখ',
+  'list.sort.size': 'সাইজ',
+  'list.sort.duration': 'দৈর্ঘ্য',
+  'list.all': 'সব',
+  'list.clearFilters': 'ফিল্টার মুছুন',
+
+  'watch.unwatched': 'দেখা হয়নি',
+  'watch.inProgress': 'চলমান',
+  'watch.watched': 'দেখা হয়েছে',
+  'watch.percent': '{percent}% দেখা হয়েছে',
+
+  'playlist.importM3u': 'M3U ইমপোর্ট',
+  'playlist.empty': 'কোনো প্লেলিস্ট নেই। প্লেয়ারের কিউ থেকে সেভ করুন বা M3U ফাইল ইমপোর্ট করুন।',
+
+  'queue.title': 'প্লে কিউ',
+  'queue.playlistName': 'প্লেলিস্টের নাম',
+  'queue.autoplayNext': 'স্বয়ংক্রিয়ভাবে পরেরটি চালান',
+
+  'settings.title': 'সেটিংস',
+  'settings.scope.all': 'সব ভিডিও',
+  'settings.scope.folder': 'এই ফোল্ডার',
+  'settings.scope.video': 'এই ভিডিও',
+  'settings.playback': 'প্লেব্যাক',
+  'settings.speed': 'গতি',
+  'settings.aspectRatio': 'অ্যাসপেক্ট',
+  'settings.volume': 'ভলিউম',
+  'settings.brightness': 'উজ্জ্বলতা',
+  'settings.doubleTap': 'ডাবল ট্যাপ',
+  'settings.autoplayNext': 'পরেরটি চালান',
+  'settings.clearFolder': 'এই ফোল্ডারের সেটিংস মুছুন',
+  'settings.clearVideo': 'এই ভিডিওর সেটিংস মুছুন',
+  'settings.general': 'সাধারণ',
+  'settings.language': 'ভাষা',
+  'settings.gestures': 'জেসচার',
+  'settings.trackHistory': 'দেখার ইতিহাস রাখুন',
+  'settings.export': 'সেটিংস এক্সপোর্ট',
+  'settings.import': 'সেটিংস ইমপোর্ট',
+  'settings.restoreDefaults': 'ডিফল্টে ফেরত যান',
+
+  'subtitles.title': 'সাবটাইটেল',
+  'subtitles.loadFile': 'ফাইল থেকে লোড করুন',
+  'subtitles.sync': 'সিঙ্ক',
+  'subtitles.style': 'স্টাইল',
+  'subtitles.size': 'আকার',
+  'subtitles.color': 'রং',
+  'subtitles.background': 'ব্যাকগ্রাউন্ড',
+  'bookmarks.title': 'বুকমার্ক',
+  'bookmarks.labelPlaceholder': '{time}-এ নাম দিন',
+  'bookmarks.empty': 'এখনো কোনো বুকমার্ক নেই',
+  'bookmarks.untitled': 'নামহীন',
+  'bookmarks.transfer': 'ইমপোর্ট ও এক্সপোর্ট',
+  'bookmarks.import': 'ইমপোর্ট',
+  'bookmarks.importFailed': 'ফাইলটি থেকে বুকমার্ক পড়া যায়নি',
+  'bookmarks.chapters': 'চ্যাপ্টার',
+  'bookmarks.chapterNumber': 'চ্যাপ্টার {number}',
+
+  'audio.title': 'অডিও',
+  'audio.tracks': 'অডিও ট্র্যাক',
+  'audio.trackFallback': 'ট্র্যাক {index}',
+  'audio.boost': 'ভলিউম বুস্ট',
+  'audio.equalizer': 'ইকুয়ালাইজার',
+  'audio.preset.flat': 'ফ্ল্যাট',
+  'audio.preset.bass': 'বেস',
+  'audio.preset.treble': 'ট্রেবল',
+  'audio.preset.vocal': 'ভোকাল',
+  'audio.preset.rock': 'রক',
+  'audio.preset.pop': 'পপ',
+  'audio.preset.classical': 'ক্লাসিক্যাল',
+  'audio.preset.custom': 'কাস্টম',
+  'audio.nightMode': 'নাইট মোড',
+  'audio.nightModeHint': 'জোরালো আওয়াজ কমিয়ে সংলাপ স্পষ্ট রাখে',
+  'audio.mono': 'মনো',
+  'audio.audioOnly': 'শুধু অডিও',
+  'audio.showVideo': 'ভিডিও দেখান',
+
+  'probe.unknownFormat': 'ফাইলের ফরম্যাট চেনা যায়নি',
+  'probe.container': '{name} ফাইল এই ব্রাউজারে চলে না',
+  'probe.videoCodec': '{name} ভিডিও এই ব্রাউজারে সাপোর্ট করে না',
+  'probe.audioCodec': '{name} অডিও এই ব্রাউজারে সাপোর্ট করে না',
+  'probe.noTracks': 'ফাইলে কোনো অডিও বা ভিডিও নেই',
+
+  'stream.openTitle': 'নেটওয়ার্ক স্ট্রিম খুলুন',
+  'stream.url': 'লিংক',
+  'stream.name': 'নাম',
+  'stream.namePlaceholder': 'ঐচ্ছিক',
+  'stream.invalidUrl': 'একটি http বা https লিংক দিন',
+  'stream.hint': 'সরাসরি MP4 বা WebM লিংক, HLS (.m3u8) বা DASH (.mpd) চলবে',
+  'stream.play': 'চালান',
+  'stream.title': 'স্ট্রিম',
+  'stream.quality': 'কোয়ালিটি',
+  'stream.auto': 'অটো',
+  'stream.height': '{height}p',
+  'stream.mbps': '{rate} Mbps',
+  'stream.seconds': '{count} সেকেন্ড',
+  'stream.connection': 'সংযোগ',
+  'stream.bandwidth': 'আনুমানিক গতি',
+  'stream.buffer': 'বাফার',
+  'stream.manifest': 'স্ট্রিমের তালিকা পড়া যায়নি',
+  'stream.live': 'লাইভ স্ট্রিম এই ব্রাউজারে চালানো যায় না',
+  'stream.encrypted': 'এনক্রিপ্ট করা স্ট্রিম চালানো যায় না',
+  'stream.segments': 'এই ধরনের স্ট্রিম সেগমেন্ট এই ব্রাউজারে চলে না',
+  'stream.codecs': 'স্ট্রিমের কোনো কোয়ালিটি এই ব্রাউজারে চলে না',
+  'stream.network': 'স্ট্রিমে পৌঁছানো যায়নি',
+
+  'party.title': 'একসাথে দেখুন',
+  'party.relay': 'রিলে',
+  'party.relayHint': 'যে কম্পিউটারে রিলে চলছে তার ঠিকানা (npm run relay)',
+  'party.host': 'ওয়াচ পার্টি শুরু করুন',
+  'party.joinTitle': 'কোড দিয়ে যোগ দিন',
+  'party.codePlaceholder': 'কোড',
+  'party.join': 'যোগ দিন',
+  'party.connecting': 'সংযোগ হচ্ছে…',
+  'party.hosting': 'আপনি হোস্ট করছেন',
+  'party.following': 'হোস্টকে অনুসরণ করছেন',
+  'party.peers': '{count} জন দেখছেন',
+  'party.shareHint': 'অন্যরা এই কোড দিয়ে যোগ দিতে পারবেন। সবার লাইব্রেরিতে একই ফাইল থাকতে হবে।',
+  'party.missing': 'হোস্ট "{name}" চালাচ্ছেন, যা আপনার লাইব্রেরিতে নেই',
+  'party.leave': 'ছেড়ে দিন',
+  'party.error.unreachable': 'রিলেতে পৌঁছানো যায়নি',
+  'party.error.unknownCode': 'এই কোডের কোনো পার্টি নেই',
+  'party.error.closed': 'পার্টি শেষ হয়ে গেছে',
+  'party.error.ownRoom': 'এটি আপনার নিজের পার্টির কোড',
+  'party.invalidRelay': 'রিলের ঠিকানা ws:// বা wss:// দিয়ে শুরু হতে হবে',
+
+  'stats.totalTime': 'মোট দেখার সময়',
+  'stats.sessions': 'সেশন',
+  'stats.completions': 'শেষ করা',
+  'stats.hoursMinutes': '{hours} ঘণ্টা {minutes} মিনিট',
+  'stats.minutes': '{count} মিনিট',
+  'stats.activity': 'গত {count} দিন',
+  'stats.topFolders': 'সবচেয়ে বেশি দেখা ফোল্ডার',
+  'stats.empty': 'এখনো কিছু দেখা হয়নি',
+  'stats.unfinished': 'অসম্পূর্ণ',
+  'stats.nothingUnfinished': 'কোনো অসম্পূর্ণ ভিডিও নেই',
+  'stats.privacy': 'প্রাইভেসি',
+  'stats.keepHistory': 'দেখার ইতিহাস রাখুন',
+  'stats.keepHistoryHint': 'শুধু এই ডিভাইসেই সংরক্ষিত থাকে',
+  'stats.trackingOff': 'দেখার ইতিহাস বন্ধ, তাই নতুন কিছু রেকর্ড হচ্ছে না।',
+  'stats.turnOn': 'চালু করুন',
+  'stats.exportCsv': 'CSV হিসেবে এক্সপোর্ট',
+  'stats.exportJson': 'JSON হিসেবে এক্সপোর্ট',
+  'stats.clear': 'ইতিহাস মুছুন',
+  'stats.confirmClear': 'সব ইতিহাস মুছতে আবার ক্লিক করুন',
+
+  'action.more': 'আরও',
+  'action.properties': 'বিস্তারিত',
+  'action.rename': 'নাম বদলান',
+  'action.move': 'সরান…',
+  'action.moveTitle': '{count}টি ভিডিও সরান',
+  'action.noDestinations': 'শুধু ফোল্ডার পিকার দিয়ে যোগ করা ফোল্ডার বদলানো যায়।',
+  'action.share': 'শেয়ার',
+  'action.markWatched': 'দেখা হয়েছে চিহ্নিত করুন',
+  'action.markUnwatched': 'দেখা হয়নি চিহ্নিত করুন',
+  'action.markAllWatched': 'সব দেখা হয়েছে চিহ্নিত করুন',
+  'action.markAllUnwatched': 'সব দেখা হয়নি চিহ্নিত করুন',
+  'action.select': 'নির্বাচন',
+  'action.selectAll': 'সব নির্বাচন',
+  'action.selected': '{count}টি নির্বাচিত',
+  'action.delete': 'মুছুন',
+  'action.deleteTitle': '{count}টি ভিডিও মুছবেন?',
+  'action.deleteConfirm': '"{name}" ডিস্ক থেকে মুছে যাবে। এটি ফেরানো যাবে না।',
+  'action.deleteStreamConfirm': '"{name}" লাইব্রেরি থেকে সরানো হবে।',
+  'action.deleteManyConfirm': '{count}টি ফাইল ডিস্ক থেকে মুছে যাবে। এটি ফেরানো যাবে না।',
+  'action.deleteFolderTitle': 'ফোল্ডার মুছবেন?',
+  'action.deleteFolderConfirm': 'পুরো "{name}" ফোল্ডার এবং এর ভেতরের সবকিছু ডিস্ক থেকে মুছে যাবে: লাইব্রেরির {count}টি ভিডিও এবং অন্য সব ফাইল ও ফোল্ডার, লাইব্রেরিতে যেগুলো দেখা যায় না সেগুলোও। এটি ফেরানো যাবে না।',
+  'action.renamed': 'নতুন নাম "{name}"',
+  'action.moved': '{count}টি ভিডিও {folder}-এ সরানো হয়েছে',
+  'action.deleted': '{count}টি ভিডিও মুছে ফেলা হয়েছে',
+  'action.undo': 'আগের মতো করুন',
+  'action.failedMany': '{count}টি ফাইল বদলানো যায়নি: {reason}',
+
+  'fileAction.readOnly': 'শুধু ফোল্ডার পিকার দিয়ে যোগ করা ফোল্ডার বদলানো যায়',
+  'fileAction.permission': 'ফোল্ডার বদলানোর অনুমতি দেওয়া হয়নি',
+  'fileAction.invalidName': 'নাম খালি হতে পারে না, / বা \\ থাকতে পারে না',
+  'fileAction.exists': 'এই নামে আগে থেকেই কিছু আছে',
+  'fileAction.notFound': 'ফাইলটি আর নেই; ফোল্ডারটি আবার স্ক্যান করুন',
+  'fileAction.unsupported': 'এই ব্রাউজারে ফোল্ডারের নাম বদলানো বা সরানো যায় না',
+  'fileAction.failed': 'ফাইলটি বদলানো যায়নি',
+
+  'properties.location': 'অবস্থান',
+  'properties.size': 'সাইজ',
+  'properties.bytes': '{count} বাইট',
+  'properties.type': 'ধরন',
+  'properties.duration': 'দৈর্ঘ্য',
+  'properties.videoCodec': 'ভিডিও',
+  'properties.resolution': 'রেজোলিউশন',
+  'properties.audioCodec': 'অডিও',
+  'properties.bitrate': 'বিটরেট',
+  'properties.modified': 'পরিবর্তিত',
+  'properties.added': 'যোগ করা হয়েছে',
+  'properties.lastWatched': 'শেষ দেখা',
+  'properties.contents': 'ভেতরে',
+  'properties.subfolders': 'সাবফোল্ডার',
+
+  'privacy.title': 'প্রাইভেট ফোল্ডার',
+  'privacy.hiddenItems': 'লুকানো',
+  'privacy.nothingHidden': 'কিছু লুকানো নেই। কোনো ভিডিও বা ফোল্ডারের মেনু থেকে লুকান।',
+  'privacy.hide': 'প্রাইভেট ফোল্ডারে লুকান',
+  'privacy.unhide': 'আবার দেখান',
+  'privacy.lock': 'লক',
+  'privacy.autoLock': 'অটো-লক',
+  'privacy.afterMinutes': '{count} মিনিট নিষ্ক্রিয় থাকলে',
+  'privacy.never': 'কখনো না',
+  'privacy.lockOnStart': 'অ্যাপ খুলতে পিন লাগবে',
+  'privacy.lockOnStartHint': 'চালু থাকলে লক অবস্থায় পুরো অ্যাপই পিনের পেছনে থাকে, শুধু লুকানো ভিডিও নয়।',
+  'privacy.lockNow': 'এখনই লক করুন',
+  'privacy.changePin': 'পিন বদলান',
+  'privacy.turnOff': 'প্রাইভেট ফোল্ডার বন্ধ করুন',
+  'privacy.turnOffTitle': 'প্রাইভেট ফোল্ডার বন্ধ করবেন?',
+  'privacy.turnOffConfirm': 'লুকানো সব ভিডিও আবার লাইব্রেরিতে দেখা যাবে এবং পিন মুছে যাবে।',
+  'privacy.turnedOff': 'প্রাইভেট ফোল্ডার বন্ধ করা হয়েছে',
+  'privacy.createTitle': 'পিন সেট করুন',
+  'privacy.createHint': 'লুকানো ভিডিওর তালিকা ও তাদের দেখার ইতিহাস এই পিন দিয়ে এনক্রিপ্ট করা থাকবে।',
+  'privacy.unlockTitle': 'প্রাইভেট ফোল্ডার আনলক করুন',
+  'privacy.appLocked': 'V-Player Pro লক করা আছে',
+  'privacy.pin': 'পিন',
+  'privacy.currentPin': 'বর্তমান পিন',
+  'privacy.newPin': 'নতুন পিন',
+  'privacy.confirmPin': 'পিন আবার লিখুন',
+  'privacy.pinInvalid': 'পিন হতে হবে {min} থেকে {max} অঙ্কের',
+  'privacy.pinMismatch': 'দুটো পিন মেলেনি',
+  'privacy.wrongPin': 'ভুল পিন',
+  'privacy.failed': 'প্রাইভেট ফোল্ডারে পরিবর্তন করা যায়নি',
+  'privacy.unlock': 'আনলক',
+  'privacy.forgotHint': 'পিন ভুলে গেলে তা এড়ানোর কোনো উপায় নেই: শুধু ব্রাউজারে এই সাইটের ডেটা মুছলে প্রাইভেট ফোল্ডার মুছে যায়, সাথে পুরো লাইব্রেরিও।',
+  'privacy.hiddenNotice': '{count} টি আইটেম প্রাইভেট ফোল্ডারে লুকানো হয়েছে',
+  'privacy.shownNotice': '{count} টি আইটেম আবার দেখা যাচ্ছে',
+
+  'aspect.fit': 'ফিট',
+  'aspect.stretch': 'স্ট্রেচ',
+  'aspect.crop': 'ক্রপ',
+  'aspect.original': 'আসল আকার (১০০%)',
+  'aspect.custom': 'নিজের অনুপাত',
+  'aspect.customPlaceholder': 'যেমন ৫:৪',
+  'aspect.invalid': '৫:৪ বা ১.৮৫:১ এর মতো অনুপাত লিখুন',
+  'adjust.title': 'ছবি',
+  'adjust.contrast': 'কনট্রাস্ট',
+  'adjust.saturation': 'স্যাচুরেশন',
+  'adjust.gamma': 'গামা',
+  'adjust.hue': 'হিউ',
+  'adjust.orientation': 'দিক',
+  'adjust.mirror': 'মিরর',
+  'adjust.zoom': 'জুম',
+  'adjust.zoomHint': 'জুম করতে ভিডিওতে পিঞ্চ বা স্ক্রল করুন, তারপর টেনে সরান।',
+  'adjust.resetZoom': 'জুম রিসেট করুন',
+  'adjust.reset': 'ছবি রিসেট করুন',
+  'clip.title': 'ক্লিপ সেভ করুন',
+  'clip.start': 'শুরু',
+  'clip.end': 'শেষ',
+  'clip.useCurrent': 'বর্তমান অবস্থান',
+  'clip.useLoop': 'A-B লুপ ব্যবহার করুন',
+  'clip.length': 'দৈর্ঘ্য {time}',
+  'clip.invalid': 'শেষ সময় শুরুর পরে হতে হবে',
+  'clip.save': 'রেকর্ড করে সেভ করুন',
+  'clip.recording': 'রেকর্ড হচ্ছে… {percent}%',
+  'clip.failed': 'ক্লিপটি রেকর্ড করা যায়নি',
+  'clip.hint': 'রেকর্ডের সময় অংশটি আসল গতিতে চলে। WebM হিসেবে সেভ হয়।',
+  'clip.unsupported': 'এই ব্রাউজারে WebM ক্লিপ রেকর্ড করা যায় না',
+  'remux.start': 'কনভার্ট করে চালান',
+  'remux.fixAudio': 'অডিও ঠিক করুন',
+  'remux.hint': 'এই ডিভাইসেই কনভার্ট হয়, কিছুই আপলোড হয় না',
+  'remux.progress': 'কনভার্ট হচ্ছে… {percent}%',
+  'remux.failed': 'ফাইলটি কনভার্ট করা যায়নি',
+
+  'shortcuts.title': 'কিবোর্ড শর্টকাট',
+  'shortcuts.pressKey': 'কী চাপুন…',
+
+  'action.togglePlay': 'প্লে / পজ',
+  'action.seekBack5': '৫ সেকেন্ড পিছনে',
+  'action.seekForward5': '৫ সেকেন্ড সামনে',
+  'action.seekBack30': '৩০ সেকেন্ড পিছনে',
+  'action.seekForward30': '৩০ সেকেন্ড সামনে',
+  'action.volumeUp': 'ভলিউম বাড়ান',
+  'action.volumeDown': 'ভলিউম কমান',
+  'action.toggleMute': 'মিউট',
+  'action.speedDown': 'স্পিড কমান',
+  'action.speedUp': 'স্পিড বাড়ান',
+  'action.cycleAspectRatio': 'অ্যাসপেক্ট রেশিও',
+  'action.toggleLock': 'লক',
+  'action.toggleFullscreen': 'ফুলস্ক্রিন',
+  'action.next': 'পরের ভিডিও',
+  'action.prev': 'আগের ভিডিও',
+  'action.frameForward': 'এক ফ্রেম সামনে',
+  'action.frameBack': 'এক ফ্রেম পিছনে',
+  'action.screenshot': 'স্ক্রিনশট সেভ করুন',
+  'action.rotate': '৯০° ঘোরান',
+  'action.toggleSubtitles': 'সাবটাইটেল',
+  'action.abLoop': 'A-B রিপিট',
+  'action.addBookmark': 'বুকমার্ক যোগ করুন',
+  'action.showShortcuts': 'শর্টকাট তালিকা',
+
+  'player.fileMissing': 'ভিডিও ফাইলটি পাওয়া যাচ্ছে না। স্টোরেজ ফোল্ডারটি আবার সিলেক্ট করুন।',
+  'player.unsupported': 'এই ভিডিওটি প্লে করা যাচ্ছে না। ফরম্যাটটি ব্রাউজার সাপোর্ট করে না।',
+  'player.nextIn': '{count} সেকেন্ডে পরের ভিডিও',
+  'player.playNow': 'এখনই চালান',
+  'player.resumeFrom': '{time} থেকে চালিয়ে যান'
+} satisfies Record<string, Message>;
@@ -0,0 +1,368 @@
+import type { Catalog } from './index';
+
+export const en: Catalog = {
+  'common.play': 'Play',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.back': 'Go back',
+  'common.reset': 'Reset',
+  'common.off': 'Off',
+  'common.videoCount': { one: '{count} video', other: '{count} videos' },
+  'common.seconds': { one: '{count} second', other: '{count} seconds' },
+
+  'app.addedVideos': { one: '{count} new video', other: '{count} new videos' },
+  'app.removedVideos': { one: '{count} video removed', other: '{count} videos removed' },
+  'app.duplicateVideos': { one: '{count} duplicate skipped', other: '{count} duplicates skipped' },
+  'app.settingsImported': 'Settings imported',
+  'app.settingsImportFailed': "Couldn't read the settings file",
+  'app.streamFailed': "Couldn't open the stream",
+  'app.importFailed': "Couldn't import the files",
+  'app.rescanFailed': "Couldn't read {name}",
+  'app.renameRootFailed': "Couldn't rename {name}",
+  'app.rootsFailed': "Couldn't update the storage folders",
+  'app.progressFailed': "Couldn't save watch progress",
+  'app.progressLoadFailed': "Couldn't load watch progress",
+  'app.unlockedTryAgain': 'The private folder is open now; try that again',
+  'app.playlistSaveFailed': "Couldn't save the playlist {name}",
+  'app.playlistDeleteFailed': "Couldn't delete the playlist",
+  'app.playlistImportFailed': "Couldn't read the playlist {name}",
+  'app.unplayable': {
+    one: "{count} file can't play in this browser — {name}: {reason}",
+    other: "{count} files can't play in this browser, e.g. {name}: {reason}"
+  },
+  'app.playlistMissing': {
+    one: '{name}: {count} file was not found in the library',
+    other: '{name}: {count} files were not found in the library'
+  },
+
+  'library.subtitle': 'Local Library',
+  'library.internalStorage': 'Internal Storage',
+  'library.playAll': 'Play all',
+  'library.selectStorage': 'Select storage',
+  'library.searchInFolder': 'Search in {folder}',
+  'library.searchPlaceholder': 'Search by name, folder or path',
+  'library.reconnectPrompt': '{roots} — allow access to these folders again',
+  'library.reconnect': 'Allow access',
+  'library.rescanRoot': 'Rescan',
+  'library.renameRoot': 'Rename',
+  'library.removeRoot': 'Remove from library',
+  'library.rootNeedsAccess': 'Needs access again',
+  'library.network': 'Network',
+  'library.openStream': 'Open network stream',
+  'library.emptyTitle': 'No videos',
+  'library.emptyHint': 'Click the button above to select your video folder. Like MX Player, videos are grouped by folder.',
+  'library.noResults': 'Nothing found',
+  'library.noHistory': "You haven't watched anything yet",
+  'library.tab.folders': 'Folders',
+  'library.tab.videos': 'Videos',
+  'library.tab.recent': 'Recent',
+  'library.tab.playlists': 'Playlists',
+  'library.tab.stats': 'Stats',
+
+  'list.sort.name': 'Name',
+  'list.sort.date': 'Date',
+  'list.sort.size': 'Size',
+  'list.sort.duration': 'Length',
+  'list.all': 'All',
+  'list.clearFilters': 'Clear filters',
+
+  'watch.unwatched': 'Unwatched',
+  'watch.inProgress': 'In progress',
+  'watch.watched': 'Watched',
+  'watch.percent': '{percent}% watched',
+
+  'playlist.importM3u': 'Import M3U',
+  'playlist.empty': 'No playlists yet. Save one from the player queue or import an M3U file.',
+
+  'queue.title': 'Play queue',
+  'queue.playlistName': 'Playlist name',
+  'queue.autoplayNext': 'Play next automatically',
+
+  'settings.title': 'Settings',
+  'settings.scope.all': 'All videos',
+  'settings.scope.folder': 'This folder',
+  'settings.scope.video': 'This video',
+  'settings.playback': 'Playback',
+  'settings.speed': 'Speed',
+  'settings.aspectRatio': 'Aspect',
+  'settings.volume': 'Volume',
+  'settings.brightness': 'Brightness',
+  'settings.doubleTap': 'Double tap',
+  'settings.autoplayNext': 'Play next',
+  'settings.clearFolder': 'Clear folder settings',
+  'settings.clearVideo': 'Clear video settings',
+  'settings.general': 'General',
+  'settings.language': 'Language',
+  'settings.gestures': 'Gestures',
+  'settings.trackHistory': 'Keep watch history',
+  'settings.export': 'Export settings',
+  'settings.import': 'Import settings',
+  'settings.restoreDefaults': 'Restore defaults',
+
+  'subtitles.title': 'Subtitles',
+  'subtitles.loadFile': 'Load from file',
+  'subtitles.sync': 'Sync',
+  'subtitles.style': 'Style',
+  'subtitles.size': 'Size',
+  'subtitles.color': 'Colour',
+  'subtitles.background': 'Background',
+  'bookmarks.title': 'Bookmarks',
+  'bookmarks.labelPlaceholder': 'Label for {time}',
+  'bookmarks.empty': 'No bookmarks yet',
+  'bookmarks.untitled': 'Untitled',
+  'bookmarks.transfer': 'Import and export',
+  'bookmarks.import': 'Import',
+  'bookmarks.importFailed': "Couldn't read bookmarks from that file",
+  'bookmarks.chapters': 'Chapters',
+  'bookmarks.chapterNumber': 'Chapter {number}',
+
+  'audio.title': 'Audio',
+  'audio.tracks': 'Audio tracks',
+  'audio.trackFallback': 'Track {index}',
+  'audio.boost': 'Volume boost',
+  'audio.equalizer': 'Equalizer',
+  'audio.preset.flat': 'Flat',
+  'audio.preset.bass': 'Bass',
+  'audio.preset.treble': 'Treble',
+  'audio.preset.vocal': 'Vocal',
+  'audio.preset.rock': 'Rock',
+  'audio.preset.pop': 'Pop',
+  'audio.preset.classical': 'Classical',
+  'audio.preset.custom': 'Custom',
+  'audio.nightMode': 'Night mode',
+  'audio.nightModeHint': 'Evens out loud scenes so dialogue stays clear',
+  'audio.mono': 'Mono',
+  'audio.audioOnly': 'Audio only',
+  'audio.showVideo': 'Show video',
+
+  'probe.unknownFormat': 'Unrecognised file format',
+  'probe.container': "{name} files can't be played in this browser",
+  'probe.videoCodec': '{name} video not supported in this browser',
+  'probe.audioCodec': '{name} audio not supported in this browser',
+  'probe.noTracks': 'The file has no audio or video tracks',
+
+  'stream.openTitle': 'Open network stream',
+  'stream.url': 'URL',
+  'stream.name': 'Name',
+  'stream.namePlaceholder': 'Optional',
+  'stream.invalidUrl': 'Enter an http or https URL',
+  'stream.hint': 'Direct MP4 or WebM links, HLS (.m3u8) and DASH (.mpd) are supported',
+  'stream.play': 'Play',
+  'stream.title': 'Stream',
+  'stream.quality': 'Quality',
+  'stream.auto': 'Auto',
+  'stream.height': '{height}p',
+  'stream.mbps': '{rate} Mbps',
+  'stream.seconds': { one: '{count} second', other: '{count} seconds' },
+  'stream.connection': 'Connection',
+  'stream.bandwidth': 'Estimated bandwidth',
+  'stream.buffer': 'Buffered ahead',
+  'stream.manifest': "Couldn't read the stream's manifest",
+  'stream.live': "Live streams can't be played in this browser",
+  'stream.encrypted': "Encrypted streams can't be played",
+  'stream.segments': "This stream's segments can't be played in this browser",
+  'stream.codecs': 'None of the stream qualities play in this browser',
+  'stream.network': "Couldn't reach the stream",
+
+  'party.title': 'Watch together',
+  'party.relay': 'Relay',
+  'party.relayHint': 'Address of the machine running the relay (npm run relay)',
+  'party.host': 'Host a watch party',
+  'party.joinTitle': 'Join with a code',
+  'party.codePlaceholder': 'Code',
+  'party.join': 'Join',
+  'party.connecting': 'Connecting…',
+  'party.hosting': "You're hosting",
+  'party.following': 'Following the host',
+  'party.peers': '{count} watching',
+  'party.shareHint': 'Others join with this code. Everyone needs the same file in their library.',
+  'party.missing': 'The host is playing "{name}", which isn\'t in your library',
+  'party.leave': 'Leave',
+  'party.error.unreachable': "Couldn't reach the relay",
+  'party.error.unknownCode': 'No party has that code',
+  'party.error.closed': 'The party has ended',
+  'party.error.ownRoom': "That's the code of the party you're hosting",
+  'party.invalidRelay': 'The relay address must start with ws:// or wss://',
+
+  'stats.totalTime': 'Watch time',
+  'stats.sessions': 'Sessions',
+  'stats.completions': 'Finished',
+  'stats.hoursMinutes': '{hours} h {minutes} min',
+  'stats.minutes': '{count} min',
+  'stats.activity': { one: 'Today', other: 'Last {count} days' },
+  'stats.topFolders': 'Most watched folders',
+  'stats.empty': 'Nothing watched yet',
+  'stats.unfinished': 'Unfinished',
+  'stats.nothingUnfinished': 'No unfinished videos',
+  'stats.privacy': 'Privacy',
+  'stats.keepHistory': 'Keep watch history',
+  'stats.keepHistoryHint': 'Stored only on this device',
+  'stats.trackingOff': 'Watch history is off, so nothing new is recorded.',
+  'stats.turnOn': 'Turn on',
+  'stats.exportCsv': 'Export as CSV',
+  'stats.exportJson': 'Export as JSON',
+  'stats.clear': 'Clear history',
+  'stats.confirmClear': 'Click again to clear all history',
+
+  'action.more': 'More',
+  'action.properties': 'Properties',
+  'action.rename': 'Rename',
+  'action.move': 'Move to…',
+  'action.moveTitle': { one: 'Move {count} video to', other: 'Move {count} videos to' },
+  'action.noDestinations': 'Only folders added with the folder picker can be changed.',
+  'action.share': 'Share',
+  'action.markWatched': 'Mark watched',
+  'action.markUnwatched': 'Mark unwatched',
+  'action.markAllWatched': 'Mark all watched',
+  'action.markAllUnwatched': 'Mark all unwatched',
+  'action.select': 'Select',
+  'action.selectAll': 'Select all',
+  'action.selected': { one: '{count} selected', other: '{count} selected' },
+  'action.delete': 'Delete',
+  'action.deleteTitle': { one: 'Delete video?', other: 'Delete {count} videos?' },
+  'action.deleteConfirm': '"{name}" will be deleted from the disk. This can\'t be undone.',
+  'action.deleteStreamConfirm': '"{name}" will be removed from the library.',
+  'action.deleteManyConfirm': {
+    one: "{count} file will be deleted from the disk. This can't be undone.",
+    other: "{count} files will be deleted from the disk. This can't be undone."
+  },
+  'action.deleteFolderTitle': 'Delete folder?',
+  'action.deleteFolderConfirm': {
+    one: 'The whole folder "{name}" and everything in it will be deleted from the disk: the {count} video in the library and every other file and folder, including ones the library doesn\'t show. This can\'t be undone.',
+    other: 'The whole folder "{name}" and everything in it will be deleted from the disk: the {count} videos in the library and every other file and folder, including ones the library doesn\'t show. This can\'t be undone.'
+  },
+  'action.renamed': 'Renamed to "{name}"',
+  'action.moved': { one: 'Moved {count} video to {folder}', other: 'Moved {count} videos to {folder}' },
+  'action.deleted': { one: '{count} video deleted', other: '{count} videos deleted' },
+  'action.undo': 'Undo',
+  'action.failedMany': { one: "{count} file couldn't be changed: {reason}", other: "{count} files couldn't be changed: {reason}" },
+
+  'fileAction.readOnly': 'Only folders added with the folder picker can be changed',
+  'fileAction.permission': 'Permission to change the folder was not given',
+  'fileAction.invalidName': "Names can't be empty or contain / or \\",
+  'fileAction.exists': 'Something with that name is already there',
+  'fileAction.notFound': 'The file is no longer there; rescan the folder',
+  'fileAction.unsupported': "This browser can't rename or move folders",
+  'fileAction.failed': 'The file could not be changed',
+
+  'properties.location': 'Location',
+  'properties.size': 'Size',
+  'properties.bytes': { one: '{count} byte', other: '{count} bytes' },
+  'properties.type': 'Type',
+  'properties.duration': 'Length',
+  'properties.videoCodec': 'Video',
+  'properties.resolution': 'Resolution',
+  'properties.audioCodec': 'Audio',
+  'properties.bitrate': 'Bitrate',
+  'properties.modified': 'Modified',
+  'properties.added': 'Added',
+  'properties.lastWatched': 'Last watched',
+  'properties.contents': 'Contents',
+  'properties.subfolders': 'Subfolders',
+
+  'privacy.title': 'Private folder',
+  'privacy.hiddenItems': 'Hidden',
+  'privacy.nothingHidden': 'Nothing is hidden. Hide videos or folders from their menu.',
+  'privacy.hide': 'Hide in private folder',
+  'privacy.unhide': 'Unhide',
+  'privacy.lock': 'Lock',
+  'privacy.autoLock': 'Auto-lock',
+  'privacy.afterMinutes': { one: 'After {count} minute idle', other: 'After {count} minutes idle' },
+  'privacy.never': 'Never',
+  'privacy.lockOnStart': 'Require PIN to open the app',
+  'privacy.lockOnStartHint': 'When on, locking puts the whole app behind the PIN, not just the hidden videos.',
+  'privacy.lockNow': 'Lock now',
+  'privacy.changePin': 'Change PIN',
+  'privacy.turnOff': 'Turn off private folder',
+  'privacy.turnOffTitle': 'Turn off private folder?',
+  'privacy.turnOffConfirm': 'Everything hidden shows in the library again and the PIN is removed.',
+  'privacy.turnedOff': 'Private folder turned off',
+  'privacy.createTitle': 'Set a PIN',
+  'privacy.createHint': 'The list of hidden videos and their watch history are encrypted with this PIN.',
+  'privacy.unlockTitle': 'Unlock private folder',
+  'privacy.appLocked': 'V-Player Pro is locked',
+  'privacy.pin': 'PIN',
+  'privacy.currentPin': 'Current PIN',
+  'privacy.newPin': 'New PIN',
+  'privacy.confirmPin': 'Enter the PIN again',
+  'privacy.pinInvalid': 'The PIN must be {min} to {max} digits',
+  'privacy.pinMismatch': "The PINs don't match",
+  'privacy.wrongPin': 'Wrong PIN',
+  'privacy.failed': "The private folder couldn't be changed",
+  'privacy.unlock': 'Unlock',
+  'privacy.forgotHint': "There is no way around a forgotten PIN: only clearing this site's data in the browser removes the private folder, along with the whole library.",
+  'privacy.hiddenNotice': {
+    one: '{count} item hidden in the private folder',
+    other: '{count} items hidden in the private folder'
+  },
+  'privacy.shownNotice': { one: '{count} item shown again', other: '{count} items shown again' },
+
+  'aspect.fit': 'Fit',
+  'aspect.stretch': 'Stretch',
+  'aspect.crop': 'Crop',
+  'aspect.original': 'Original size (100%)',
+  'aspect.custom': 'Your ratios',
+  'aspect.customPlaceholder': 'e.g. 5:4',
+  'aspect.invalid': 'Enter a ratio like 5:4 or 1.85:1',
+  'adjust.title': 'Picture',
+  'adjust.contrast': 'Contrast',
+  'adjust.saturation': 'Saturation',
+  'adjust.gamma': 'Gamma',
+  'adjust.hue': 'Hue',
+  'adjust.orientation': 'Orientation',
+  'adjust.mirror': 'Mirror',
+  'adjust.zoom': 'Zoom',
+  'adjust.zoomHint': 'Pinch or scroll on the video to zoom, then drag to pan.',
+  'adjust.resetZoom': 'Reset zoom',
+  'adjust.reset': 'Reset picture',
+  'clip.title': 'Save clip',
+  'clip.start': 'Start',
+  'clip.end': 'End',
+  'clip.useCurrent': 'Current position',
+  'clip.useLoop': 'Use the A-B loop',
+  'clip.length': 'Length {time}',
+  'clip.invalid': 'The end must come after the start',
+  'clip.save': 'Record and save',
+  'clip.recording': 'Recording… {percent}%',
+  'clip.failed': "The clip couldn't be recorded",
+  'clip.hint': 'The range plays in real time while it records. Saved as WebM.',
+  'clip.unsupported': "This browser can't record WebM clips",
+  'remux.start': 'Convert and play',
+  'remux.fixAudio': 'Fix audio',
+  'remux.hint': 'Converted on this device. Nothing is uploaded.',
+  'remux.progress': 'Converting… {percent}%',
+  'remux.failed': "The file couldn't be converted",
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.pressKey': 'Press a key…',
+
+  'action.togglePlay': 'Play / pause',
+  'action.seekBack5': 'Back 5 seconds',
+  'action.seekForward5': 'Forward 5 seconds',
+  'action.seekBack30': 'Back 30 seconds',
+  'action.seekForward30': 'Forward 30 seconds',
+  'action.volumeUp': 'Volume up',
+  'action.volumeDown': 'Volume down',
+  'action.toggleMute': 'Mute',
+  'action.speedDown': 'Slower',
+  'action.speedUp': 'Faster',
+  'action.cycleAspectRatio': 'Aspect ratio',
+  'action.toggleLock': 'Lock',
+  'action.toggleFullscreen': 'Fullscreen',
+  'action.next': 'Next video',
+  'action.prev': 'Previous video',
+  'action.frameForward': 'Next frame',
+  'action.frameBack': 'Previous frame',
+  'action.screenshot': 'Save screenshot',
+  'action.rotate': 'Rotate 90°',
+  'action.toggleSubtitles': 'Subtitles',
+  'action.abLoop': 'A-B repeat',
+  'action.addBookmark': 'Add bookmark',
+  'action.showShortcuts': 'Shortcut list',
+
+  'player.fileMissing': "The video file can't be found. Select the storage folder again.",
+  'player.unsupported': "This video can't be played. The browser doesn't support its format.",
+  'player.nextIn': { one: 'Next video in {count} second', other: 'Next video in {count} seconds' },
+  'player.playNow': 'Play now',
+  'player.resumeFrom': 'Resume from {time}'
+};
@@ -0,0 +1,44 @@
+import { Language, Message } from '../types';
+import { bn } from './bn';
+import { en } from './en';
+
+export type MessageKey = keyof typeof bn;
+
+// Typing a catalog as Catalog makes tsc reject missing keys
+export type Catalog = Record<MessageKey, Message>;
+
+export const SOURCE_LANGUAGE: Language = 'bn';
+
+export const CATALOGS: Record<Language, Catalog> = { bn, en };
+
+// Native names, shown the same in every language
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  bn: 'বাংলা',
+  en: 'English'
+};
+
+const BENGALI_SCRIPT = /[ঀ-৿]/;
+
+const variants = (message: Message | undefined) =>
+  message === undefined ? [] : typeof message === 'string' ? [message] : Object.values(message);
+
+// Run at build time by the check-translations plugin in vite.config.ts.
+// Flags keys that are missing or empty, and Bengali text copied into
+// another catalog without being translated.
+export const findUntranslated = () => {
+  const source = CATALOGS[SOURCE_LANGUAGE];
+  const problems: string[] = [];
+  (Object.keys(CATALOGS) as Language[]).forEach(language => {
+    if (language === SOURCE_LANGUAGE) return;
+    const catalog: Partial<Catalog> = CATALOGS[language];
+    (Object.keys(source) as MessageKey[]).forEach(key => {
+      const texts = variants(catalog[key]);
+      if (texts.length === 0 || texts.some(text => !text.trim())) {
+        problems.push(`${language}: "${key}" is missing`);
+      } else if (texts.some(text => BENGALI_SCRIPT.test(text))) {
+        problems.push(`${language}: "${key}" is not translated`);
+      }
+    });
+  });
+  return problems;
+};
@@ -0,0 +1,38 @@
+// Media track lists that TypeScript's DOM lib does not ship. Only Safari
+// exposes them by default; Chromium has them behind a flag.
+
+interface AudioTrack {
+  readonly id: string;
+  readonly kind: string;
+  readonly label: string;
+  readonly language: string;
+  enabled: boolean;
+}
+
+interface AudioTrackList extends EventTarget {
+  readonly length: number;
+  [index: number]: AudioTrack;
+  getTrackById(id: string): AudioTrack | null;
+}
+
+interface VideoTrack {
+  readonly id: string;
+  readonly kind: string;
+  readonly label: string;
+  readonly language: string;
+  selected: boolean;
+}
+
+interface VideoTrackList extends EventTarget {
+  readonly length: number;
+  readonly selectedIndex: number;
+  [index: number]: VideoTrack;
+}
+
+interface HTMLMediaElement {
+  readonly audioTracks?: AudioTrackList;
+}
+
+interface HTMLVideoElement {
+  readonly videoTracks?: VideoTrackList;
+}
@@ -0,0 +1,10 @@
+// Screen Orientation lock, which TypeScript's DOM lib dropped because only
+// mobile browsers implement it (and only while in fullscreen).
+
+type OrientationLockType =
+  | 'any' | 'natural' | 'landscape' | 'portrait'
+  | 'portrait-primary' | 'portrait-secondary' | 'landscape-primary' | 'landscape-secondary';
+
+interface ScreenOrientation {
+  lock(orientation: OrientationLockType): Promise<void>;
+}
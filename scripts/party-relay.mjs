@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+// Relays watch-party messages between players on the local network.
+// The protocol is described in docs/watch-party.md.
+//
+//   node scripts/party-relay.mjs [--port 8787]
+//
+// Plain Node with no dependencies, so it speaks just enough of RFC 6455
+// for browsers: text frames, fragmentation, ping and close.
+
+import { createServer } from 'node:http';
+import { createHash, randomInt } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULT_PORT = 8787;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Far more than any party message needs
+const MAX_MESSAGE_BYTES = 64 * 1024;
+// No 0/O or 1/I, so codes can be read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+// Passed on to the rest of the room as they are
+const RELAYED_TYPES = new Set(['state', 'command']);
+
+const OPCODE = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+const CLOSE = { normal: 1000, protocolError: 1002, unsupported: 1003, tooBig: 1009 };
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Splits complete frames off the front of `buffer`. Returns them with
+// whatever is left over, or an error code to close with.
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    // Clients must mask what they send
+    if (!(second & 0x80)) return { error: CLOSE.protocolError };
+    let length = second & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      const long = buffer.readBigUInt64BE(cursor);
+      if (long > BigInt(MAX_MESSAGE_BYTES)) return { error: CLOSE.tooBig };
+      length = Number(long);
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) return { error: CLOSE.tooBig };
+    if (buffer.length < cursor + 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    const payload = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin: !!(first & 0x80), opcode: first & 0x0f, payload });
+    offset = cursor + 4 + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// One browser connection, handing whole text messages to `onMessage`
+const acceptSocket = (socket, onMessage, onClose) => {
+  let pending = Buffer.alloc(0);
+  // Parts of a fragmented message
+  let parts = null;
+  let closed = false;
+
+  const write = (opcode, payload) => {
+    if (!socket.destroyed) socket.write(encodeFrame(opcode, payload));
+  };
+  const close = (code = CLOSE.normal) => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    write(OPCODE.close, payload);
+    socket.end();
+    onClose();
+  };
+
+  socket.on('data', (chunk) => {
+    const { frames, rest, error } = decodeFrames(Buffer.concat([pending, chunk]));
+    if (error) return close(error);
+    pending = rest;
+    for (const { fin, opcode, payload } of frames) {
+      if (opcode === OPCODE.close) return close();
+      if (opcode === OPCODE.ping) write(OPCODE.pong, payload);
+      if (opcode === OPCODE.binary) return close(CLOSE.unsupported);
+      if (opcode === OPCODE.text || opcode === OPCODE.continuation) {
+        if (opcode === OPCODE.text) parts = [];
+        if (!parts) return close(CLOSE.protocolError);
+        parts.push(payload);
+        const size = parts.reduce((total, part) => total + part.length, 0);
+        if (size > MAX_MESSAGE_BYTES) return close(CLOSE.tooBig);
+        if (fin) {
+          const text = Buffer.concat(parts).toString('utf8');
+          parts = null;
+          onMessage(text);
+        }
+      }
+    }
+  });
+  // The HTTP server keeps sockets half open, which would leave the room
+  // waiting for a player that has gone
+  socket.on('end', () => socket.end());
+  socket.on('close', () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+  });
+  socket.on('error', () => socket.destroy());
+
+  return { send: (message) => write(OPCODE.text, Buffer.from(JSON.stringify(message))), close };
+};
+
+// Starts the relay and resolves with its HTTP server once it listens.
+// Rooms only live in memory; they end when their host leaves.
+export const startRelay = ({ port = DEFAULT_PORT, host = '0.0.0.0' } = {}) => {
+  const rooms = new Map();
+
+  const newCode = () => {
+    let code;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const members = (room) => [room.host, ...room.guests];
+
+  const announcePeers = (room) => {
+    const count = room.guests.size + 1;
+    members(room).forEach(member => member.send({ type: 'peers', count }));
+  };
+
+  const leave = (client) => {
+    const room = client.room;
+    if (!room) return;
+    client.room = null;
+    if (room.host === client) {
+      rooms.delete(room.code);
+      room.guests.forEach(guest => {
+        guest.room = null;
+        guest.send({ type: 'closed' });
+      });
+    } else {
+      room.guests.delete(client);
+      announcePeers(room);
+    }
+  };
+
+  const handle = (client, text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      message = null;
+    }
+    switch (message?.type) {
+      case 'host': {
+        leave(client);
+        const room = { code: newCode(), host: client, guests: new Set() };
+        rooms.set(room.code, room);
+        client.room = room;
+        client.send({ type: 'hosted', code: room.code });
+        announcePeers(room);
+        return;
+      }
+      case 'join': {
+        const room = typeof message.code === 'string' ? rooms.get(message.code.toUpperCase()) : undefined;
+        if (!room) return client.send({ type: 'error', reason: 'unknownCode' });
+        // Joining would leave the room and so end it
+        if (room.host === client) return client.send({ type: 'error', reason: 'ownRoom' });
+        leave(client);
+        room.guests.add(client);
+        client.room = room;
+        client.send({ type: 'joined', code: room.code });
+        announcePeers(room);
+        return;
+      }
+      default:
+        if (!RELAYED_TYPES.has(message?.type) || !client.room) return client.send({ type: 'error', reason: 'badMessage' });
+        members(client.room).forEach(member => { if (member !== client) member.send(message); });
+    }
+  };
+
+  const server = createServer((request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('This is a watch-party relay; connect with a WebSocket.\n');
+  });
+
+  server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      ''
+    ].join('\r\n'));
+    const client = { room: null };
+    const connection = acceptSocket(socket, (text) => handle(client, text), () => leave(client));
+    client.send = connection.send;
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server));
+  });
+};
+
+const isMain = process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href;
+
+if (isMain) {
+  const flag = process.argv.indexOf('--port');
+  const port = Number(flag >= 0 ? process.argv[flag + 1] : process.env.PARTY_RELAY_PORT) || DEFAULT_PORT;
+  startRelay({ port }).then(
+    () => console.log(`Watch-party relay listening on ws://0.0.0.0:${port}`),
+    (err) => {
+      console.error(`Could not start the relay: ${err.message}`);
+      process.exit(1);
+    }
+  );
+}
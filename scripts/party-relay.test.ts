@@ -0,0 +1,186 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import WebSocket from 'ws';
+import { startRelay } from './party-relay.mjs';
+import { RelayMessage } from '../services/watchParty';
+
+type Reply<K extends RelayMessage['type']> = Extract<RelayMessage, { type: K }>;
+
+interface Client {
+  socket: WebSocket;
+  send: (message: unknown) => void;
+  // The next message of `type` not taken yet
+  next: <K extends RelayMessage['type']>(type: K) => Promise<Reply<K>>;
+  closed: Promise<number>;
+}
+
+let relay: Server;
+let url: string;
+const clients: Client[] = [];
+
+const connect = async (): Promise<Client> => {
+  const socket = new WebSocket(url);
+  const inbox: RelayMessage[] = [];
+  const waiting: { type: string; resolve: (message: RelayMessage) => void }[] = [];
+  socket.on('message', (data) => {
+    const message: RelayMessage = JSON.parse(data.toString());
+    const waiter = waiting.find(w => w.type === message.type);
+    if (waiter) {
+      waiting.splice(waiting.indexOf(waiter), 1);
+      waiter.resolve(message);
+    } else {
+      inbox.push(message);
+    }
+  });
+  const closed = new Promise<number>(resolve => socket.on('close', resolve));
+  await new Promise(resolve => socket.once('open', resolve));
+  const client: Client = {
+    socket,
+    send: message => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    next: <K extends RelayMessage['type']>(type: K) => {
+      const index = inbox.findIndex(message => message.type === type);
+      if (index >= 0) return Promise.resolve(inbox.splice(index, 1)[0] as Reply<K>);
+      return new Promise<Reply<K>>(resolve => waiting.push({ type, resolve: message => resolve(message as Reply<K>) }));
+    },
+    closed
+  };
+  clients.push(client);
+  return client;
+};
+
+// A host and a guest in the same room
+const party = async () => {
+  const host = await connect();
+  host.send({ type: 'host' });
+  const { code } = await host.next('hosted');
+  const guest = await connect();
+  guest.send({ type: 'join', code: code.toLowerCase() });
+  await guest.next('joined');
+  return { host, guest, code };
+};
+
+beforeAll(async () => {
+  relay = await startRelay({ port: 0, host: '127.0.0.1' });
+  url = `ws://127.0.0.1:${(relay.address() as AddressInfo).port}`;
+});
+
+afterEach(() => {
+  clients.splice(0).forEach(client => client.socket.terminate());
+});
+
+afterAll(() => new Promise(resolve => relay.close(resolve)));
+
+describe('party relay', () => {
+  it('gives a host a readable code and counts who joins', async () => {
+    const host = await connect();
+    host.send({ type: 'host' });
+    const { code } = await host.next('hosted');
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(await host.next('peers')).toEqual({ type: 'peers', count: 1 });
+
+    const guest = await connect();
+    guest.send({ type: 'join', code: code.toLowerCase() });
+    expect(await guest.next('joined')).toEqual({ type: 'joined', code });
+    expect(await host.next('peers')).toEqual({ type: 'peers', count: 2 });
+    expect(await guest.next('peers')).toEqual({ type: 'peers', count: 2 });
+  });
+
+  it('mirrors the host state to guests as it was sent', async () => {
+    const { host, guest } = await party();
+    const state = {
+      media: { name: 'Episode 3.mkv', bytes: 734003200, duration: 1421.35 },
+      playing: true,
+      position: 312.48,
+      rate: 1.25
+    };
+    host.send({ type: 'state', state });
+    expect(await guest.next('state')).toEqual({ type: 'state', state });
+  });
+
+  it('passes play, pause, seek, rate and next on to the host', async () => {
+    const { host, guest } = await party();
+    const commands = [
+      { action: 'play' },
+      { action: 'pause' },
+      { action: 'seek', position: 600 },
+      { action: 'rate', rate: 1.5 },
+      { action: 'next' }
+    ];
+    for (const command of commands) {
+      guest.send({ type: 'command', command });
+      expect(await host.next('command')).toEqual({ type: 'command', command });
+    }
+  });
+
+  it('passes a guest command on to the other guests too', async () => {
+    const { host, guest, code } = await party();
+    const other = await connect();
+    other.send({ type: 'join', code });
+    await other.next('joined');
+    guest.send({ type: 'command', command: { action: 'pause' } });
+    expect(await host.next('command')).toEqual({ type: 'command', command: { action: 'pause' } });
+    expect(await other.next('command')).toEqual({ type: 'command', command: { action: 'pause' } });
+  });
+
+  it('rejects an unknown code', async () => {
+    const guest = await connect();
+    guest.send({ type: 'join', code: 'ZZZZZZ' });
+    expect(await guest.next('error')).toEqual({ type: 'error', reason: 'unknownCode' });
+  });
+
+  it('keeps a host that joins its own room as its host', async () => {
+    const { host, guest, code } = await party();
+    host.send({ type: 'join', code });
+    expect(await host.next('error')).toEqual({ type: 'error', reason: 'ownRoom' });
+    host.send({ type: 'state', state: { media: { name: 'a', bytes: 1, duration: 1 }, playing: false, position: 0, rate: 1 } });
+    expect((await guest.next('state')).type).toBe('state');
+  });
+
+  it('ends the room when the host leaves', async () => {
+    const { host, guest, code } = await party();
+    host.socket.close();
+    expect(await guest.next('closed')).toEqual({ type: 'closed' });
+
+    const late = await connect();
+    late.send({ type: 'join', code });
+    expect(await late.next('error')).toEqual({ type: 'error', reason: 'unknownCode' });
+  });
+
+  it('ends the room when the host drops without closing', async () => {
+    const { host, guest } = await party();
+    host.socket.terminate();
+    expect(await guest.next('closed')).toEqual({ type: 'closed' });
+  });
+
+  it('tells the host when a guest leaves', async () => {
+    const { host, guest } = await party();
+    await host.next('peers');
+    await host.next('peers');
+    guest.socket.close();
+    expect(await host.next('peers')).toEqual({ type: 'peers', count: 1 });
+  });
+
+  it('answers messages it does not relay, and ones sent outside a room', async () => {
+    const client = await connect();
+    client.send({ type: 'command', command: { action: 'play' } });
+    expect(await client.next('error')).toEqual({ type: 'error', reason: 'badMessage' });
+    client.send('not json');
+    expect(await client.next('error')).toEqual({ type: 'error', reason: 'badMessage' });
+    client.send({ type: 'shout' });
+    expect(await client.next('error')).toEqual({ type: 'error', reason: 'badMessage' });
+  });
+
+  it('closes the connection on a message over 64 KiB', async () => {
+    const { host, guest } = await party();
+    host.send({ type: 'state', padding: 'x'.repeat(64 * 1024) });
+    expect(await host.closed).toBe(1009);
+    expect(await guest.next('closed')).toEqual({ type: 'closed' });
+  });
+
+  it('closes the connection on binary frames', async () => {
+    const client = await connect();
+    client.socket.send(Buffer.from([1, 2, 3]));
+    expect(await client.closed).toBe(1003);
+  });
+});
@@ -0,0 +1,77 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Serves the files in streams/ over HTTP for the stream tests, with byte
+// ranges as media servers do. `aliases` serve a file under another path
+// and type, like a manifest behind an extensionless URL.
+
+const TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.mpd': 'application/dash+xml',
+  '.mp4': 'video/mp4'
+};
+
+const ROOT = path.join(__dirname, 'streams');
+
+export interface Alias {
+  file: string;
+  type: string;
+}
+
+export interface StaticServer {
+  url: string;
+  // Headers of every request, in order
+  requests: { path: string; headers: IncomingHttpHeaders }[];
+  close: () => Promise<void>;
+}
+
+export const serveFixtures = async (aliases: Record<string, Alias> = {}): Promise<StaticServer> => {
+  const requests: StaticServer['requests'] = [];
+  const server = createServer(async (request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    requests.push({ path: pathname, headers: request.headers });
+    const alias = aliases[pathname];
+    const file = path.join(ROOT, alias?.file ?? pathname);
+    let body: Buffer;
+    try {
+      if (!file.startsWith(ROOT)) throw new Error('Outside the fixtures');
+      body = await readFile(file);
+    } catch {
+      response.writeHead(404).end();
+      return;
+    }
+    const type = alias?.type ?? TYPES[path.extname(file)] ?? 'application/octet-stream';
+    const range = /^bytes=(\d+)-(\d*)$/.exec(request.headers.range ?? '');
+    if (!range) {
+      response.writeHead(200, { 'Content-Type': type, 'Content-Length': body.length }).end(body);
+      return;
+    }
+    const start = Number(range[1]);
+    const end = Math.min(range[2] ? Number(range[2]) : body.length - 1, body.length - 1);
+    response.writeHead(206, {
+      'Content-Type': type,
+      'Content-Length': end - start + 1,
+      'Content-Range': `bytes ${start}-${end}/${body.length}`
+    }).end(body.subarray(start, end + 1));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+};
+
+// An address nothing listens on, from a port that was free a moment ago
+export const unreachableUrl = async () => {
+  const server: Server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return `http://127.0.0.1:${port}`;
+};
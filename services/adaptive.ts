@@ -0,0 +1,314 @@
+import { StreamKind } from '../types';
+import {
+  MediaTrack, Representation, SegmentRef, StreamError, fetchRange, listedDuration, loadPresentation, mseType,
+  prepareRepresentation
+} from './manifest';
+import { isBuffered, whenUpdated } from '../utils/media';
+
+export interface StreamQuality {
+  width?: number;
+  height?: number;
+  bandwidth: number;
+}
+
+export interface StreamStats {
+  // The qualities of the picture, lowest first
+  qualities: StreamQuality[];
+  // Index into `qualities` of what is being fetched now
+  current: number;
+  // Picked by hand, or null while it follows the bandwidth
+  forced: number | null;
+  // Estimated throughput in bits per second, 0 until it has been measured
+  bandwidth: number;
+  // Seconds buffered ahead of the playhead
+  bufferAhead: number;
+}
+
+export interface AdaptiveSession {
+  // MediaSource URL to play
+  url: string;
+  // Rejects with a StreamError when the stream can't be played this way.
+  // Otherwise it keeps fetching until cancelled.
+  done: Promise<void>;
+  // null until the manifest has been read
+  stats: () => StreamStats | null;
+  setQuality: (index: number | null) => void;
+  cancel: () => void;
+}
+
+// Fetching pauses this far ahead of the playhead...
+export const BUFFER_AHEAD_SECONDS = 30;
+// ...and drops what is this far behind it
+const BUFFER_BEHIND_SECONDS = 30;
+// With less than this buffered, the next pick allows for a slower network
+const LOW_BUFFER_SECONDS = 8;
+// Share of the estimated bandwidth a quality may use
+const BANDWIDTH_SAFETY = 0.75;
+// Assumed until the first segment has been timed
+const DEFAULT_BANDWIDTH = 1_500_000;
+// Downloads this small finish too quickly to say anything about the network
+const MIN_SAMPLE_BYTES = 16 * 1024;
+const FAST_HALF_LIFE_SECONDS = 2;
+const SLOW_HALF_LIFE_SECONDS = 8;
+// Segment times in manifests are rounded
+const TIME_TOLERANCE = 0.05;
+
+interface TrackState {
+  track: MediaTrack;
+  buffer: SourceBuffer;
+  // Whose init segment the buffer was given last
+  rep: Representation | null;
+  // Where the next segment should start
+  next: number;
+  ended: boolean;
+  // Set when a quality is picked by hand, to drop what the old one fetched
+  flush: boolean;
+  download: AbortController | null;
+}
+
+// Two moving averages of the throughput, weighted by download time. The
+// lower one counts, so drops are followed quickly and recoveries slowly.
+const createBandwidthEstimator = () => {
+  const averages = [FAST_HALF_LIFE_SECONDS, SLOW_HALF_LIFE_SECONDS].map(halfLife => ({ halfLife, total: 0, weight: 0 }));
+  return {
+    sample: (bytes: number, seconds: number) => {
+      if (bytes < MIN_SAMPLE_BYTES || seconds <= 0) return;
+      const bitsPerSecond = (bytes * 8) / seconds;
+      for (const average of averages) {
+        const keep = Math.pow(0.5, seconds / average.halfLife);
+        average.total = bitsPerSecond * (1 - keep) + average.total * keep;
+        // Tracked separately so the first samples aren't pulled towards 0
+        average.weight = 1 - keep + average.weight * keep;
+      }
+    },
+    estimate: () => averages[0].weight ? Math.min(...averages.map(a => a.total / a.weight)) : 0
+  };
+};
+
+const bufferedAhead = (buffered: TimeRanges, time: number) => {
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= time + TIME_TOLERANCE && time < buffered.end(i)) return buffered.end(i) - time;
+  }
+  return 0;
+};
+
+// The segment that plays at `time`, or -1 past the end
+const segmentAt = (segments: SegmentRef[], time: number) =>
+  segments.findIndex(segment => segment.start + segment.duration > time + TIME_TOLERANCE);
+
+const isAbort = (err: unknown) => (err as DOMException)?.name === 'AbortError';
+
+// Plays an HLS or DASH stream through a MediaSource, one SourceBuffer per
+// track, picking each segment's quality from the measured bandwidth unless
+// one has been picked by hand.
+export const startAdaptiveStream = (manifestUrl: string, kind: StreamKind, media: HTMLMediaElement): AdaptiveSession => {
+  const mediaSource = new MediaSource();
+  const url = URL.createObjectURL(mediaSource);
+  const controller = new AbortController();
+  const { signal } = controller;
+  const estimator = createBandwidthEstimator();
+  const inits = new Map<Representation, ArrayBuffer>();
+  const wakers = new Set<() => void>();
+  let states: TrackState[] = [];
+  // The track whose qualities are offered, the picture if there is one
+  let primary: TrackState | null = null;
+  let forced: number | null = null;
+  let cancelled = false;
+
+  // Resolves on the next timeupdate, or earlier on a seek or quality change
+  const nextTick = () => new Promise<void>(resolve => {
+    const done = () => {
+      media.removeEventListener('timeupdate', done);
+      wakers.delete(done);
+      resolve();
+    };
+    media.addEventListener('timeupdate', done);
+    wakers.add(done);
+  });
+  const wakeAll = () => [...wakers].forEach(wake => wake());
+
+  const choose = (state: Pick<TrackState, 'track'>, ahead: number) => {
+    const reps = state.track.representations;
+    if (state === primary && forced !== null) return reps[forced];
+    const budget = (estimator.estimate() || DEFAULT_BANDWIDTH) * BANDWIDTH_SAFETY * (ahead < LOW_BUFFER_SECONDS ? 0.5 : 1);
+    return [...reps].reverse().find(rep => rep.bandwidth <= budget) ?? reps[0];
+  };
+
+  const remove = async (state: TrackState, start: number, end: number) => {
+    if (end > start) await whenUpdated(state.buffer, () => state.buffer.remove(start, end));
+  };
+
+  const append = async (state: TrackState, data: ArrayBuffer) => {
+    try {
+      await whenUpdated(state.buffer, () => state.buffer.appendBuffer(data));
+    } catch (err) {
+      if ((err as DOMException).name !== 'QuotaExceededError') throw err;
+      // Full: drop everything already played and try once more
+      await remove(state, 0, media.currentTime - 1);
+      await whenUpdated(state.buffer, () => state.buffer.appendBuffer(data));
+    }
+  };
+
+  const switchTo = async (state: TrackState, rep: Representation) => {
+    if (state.rep && mseType(rep) !== mseType(state.rep)) state.buffer.changeType(mseType(rep));
+    let init = inits.get(rep);
+    if (!init && rep.init) {
+      init = await fetchRange(rep.init.url, rep.init.range, signal);
+      inits.set(rep, init);
+    }
+    if (init) await append(state, init);
+    state.rep = rep;
+  };
+
+  const download = async (state: TrackState, segment: SegmentRef) => {
+    const own = new AbortController();
+    state.download = own;
+    const startedAt = performance.now();
+    try {
+      const data = await fetchRange(segment.url, segment.range, own.signal);
+      estimator.sample(data.byteLength, (performance.now() - startedAt) / 1000);
+      return data;
+    } finally {
+      state.download = null;
+    }
+  };
+
+  // Keeps the segment that is playing and drops the rest, so a quality
+  // picked by hand shows within a segment
+  const flushAhead = async (state: TrackState) => {
+    state.flush = false;
+    const segments = state.rep?.segments;
+    const playing = segments?.[segmentAt(segments, media.currentTime)];
+    const keep = playing ? playing.start + playing.duration : media.currentTime;
+    await remove(state, keep, mediaSource.duration);
+    state.next = Math.min(state.next, keep);
+  };
+
+  const endIfDone = () => {
+    if (mediaSource.readyState === 'open' && states.every(s => s.ended && !s.buffer.updating)) mediaSource.endOfStream();
+  };
+
+  const fill = async (state: TrackState) => {
+    while (!cancelled) {
+      try {
+        if (state.flush) await flushAhead(state);
+        const ahead = bufferedAhead(state.buffer.buffered, media.currentTime);
+        const rep = await prepareRepresentation(choose(state, ahead), signal);
+        const index = segmentAt(rep.segments!, state.next);
+        state.ended = index < 0;
+        if (state.ended) {
+          endIfDone();
+          // Stays around in case a seek back needs evicted segments again
+          await nextTick();
+          continue;
+        }
+        if (ahead >= BUFFER_AHEAD_SECONDS) {
+          await nextTick();
+          continue;
+        }
+
+        if (rep !== state.rep) await switchTo(state, rep);
+        const from = state.next;
+        const segment = rep.segments![index];
+        const data = await download(state, segment);
+        if (cancelled) break;
+        const behind = media.currentTime - BUFFER_BEHIND_SECONDS;
+        if (behind > 0 && state.buffer.buffered.length && state.buffer.buffered.start(0) < behind) {
+          await remove(state, 0, behind);
+        }
+        await append(state, data);
+        // A seek during the download has already moved `next` elsewhere
+        if (state.next === from) state.next = segment.start + segment.duration;
+      } catch (err) {
+        // A seek or a quality change dropped the download
+        if (isAbort(err) && !cancelled) continue;
+        throw err;
+      }
+    }
+  };
+
+  const onSeeking = () => {
+    for (const state of states) {
+      if (isBuffered(state.buffer.buffered, media.currentTime)) continue;
+      state.next = media.currentTime;
+      state.download?.abort();
+    }
+    wakeAll();
+  };
+
+  const run = async () => {
+    await new Promise(resolve => mediaSource.addEventListener('sourceopen', resolve, { once: true }));
+    const presentation = await loadPresentation(manifestUrl, kind, signal);
+    for (const track of presentation.tracks) {
+      // Qualities the browser can't decode are dropped up front where the
+      // manifest says what they are
+      track.representations = track.representations
+        .filter(rep => !rep.codecs || MediaSource.isTypeSupported(mseType(rep)))
+        .sort((a, b) => a.bandwidth - b.bandwidth);
+      if (!track.representations.length) throw new StreamError('codecs', `No ${track.kind} quality plays in this browser`);
+    }
+    const initial = await Promise.all(presentation.tracks.map(track => prepareRepresentation(choose({ track }, 0), signal)));
+    if (cancelled) return;
+    const unsupported = initial.find(rep => !MediaSource.isTypeSupported(mseType(rep)));
+    if (unsupported) throw new StreamError('codecs', `${mseType(unsupported)} does not play in this browser`);
+
+    const duration = presentation.duration || Math.max(...initial.map(listedDuration));
+    if (duration > 0) mediaSource.duration = duration;
+    states = presentation.tracks.map((track, i) => ({
+      track,
+      buffer: mediaSource.addSourceBuffer(mseType(initial[i])),
+      rep: null,
+      next: media.currentTime,
+      ended: false,
+      flush: false,
+      download: null
+    }));
+    primary = states.find(state => state.track.kind === 'video') ?? states[0];
+
+    media.addEventListener('seeking', onSeeking);
+    try {
+      await Promise.all(states.map(fill));
+    } finally {
+      media.removeEventListener('seeking', onSeeking);
+    }
+  };
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    controller.abort();
+    states.forEach(state => state.download?.abort());
+    wakeAll();
+    URL.revokeObjectURL(url);
+  };
+
+  const stats = (): StreamStats | null => {
+    if (!primary) return null;
+    const reps = primary.track.representations;
+    return {
+      qualities: reps.map(({ width, height, bandwidth }) => ({ width, height, bandwidth })),
+      current: primary.rep ? reps.indexOf(primary.rep) : 0,
+      forced,
+      bandwidth: estimator.estimate(),
+      bufferAhead: bufferedAhead(media.buffered, media.currentTime)
+    };
+  };
+
+  const setQuality = (index: number | null) => {
+    forced = index;
+    if (index !== null && primary) {
+      primary.flush = true;
+      primary.download?.abort();
+    }
+    wakeAll();
+  };
+
+  // One failing track stops the others too. After a cancel, whatever the
+  // teardown broke doesn't matter.
+  const done = run().catch(err => {
+    if (cancelled) return;
+    cancel();
+    throw err;
+  });
+  return { url, done, stats, setQuality, cancel };
+};
@@ -0,0 +1,106 @@
+import { Rotation, VideoAdjustments, VideoFile, VideoView } from '../types';
+import { STORES, idbDelete, idbGet, idbPut } from './db';
+import { videoIdentity } from './library';
+
+export const DEFAULT_ADJUSTMENTS: VideoAdjustments = {
+  contrast: 100,
+  saturation: 100,
+  gamma: 1,
+  hue: 0,
+  rotation: 0,
+  mirrored: false
+};
+
+type NumericAdjustment = 'contrast' | 'saturation' | 'gamma' | 'hue';
+
+export const ADJUSTMENT_RANGES: Record<NumericAdjustment, { min: number; max: number; step: number }> = {
+  contrast: { min: 50, max: 200, step: 1 },
+  saturation: { min: 0, max: 200, step: 1 },
+  gamma: { min: 0.5, max: 2, step: 0.05 },
+  hue: { min: -180, max: 180, step: 1 }
+};
+
+export const DEFAULT_VIEW: VideoView = { zoom: 1, x: 0, y: 0 };
+export const MAX_ZOOM = 4;
+
+// The SVG filter VideoPlayer renders for gamma, which CSS has no function for
+export const GAMMA_FILTER_ID = 'video-gamma';
+
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isDefault = (adjustments: VideoAdjustments) =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof VideoAdjustments)[])
+    .every(key => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+
+// Stored values are range-checked, so an old or hand-edited record can't
+// turn the picture black
+const sanitize = (value: Partial<VideoAdjustments> | undefined): VideoAdjustments => {
+  const result = { ...DEFAULT_ADJUSTMENTS };
+  if (!value) return result;
+  (Object.keys(ADJUSTMENT_RANGES) as NumericAdjustment[]).forEach(key => {
+    const { min, max } = ADJUSTMENT_RANGES[key];
+    if (typeof value[key] === 'number' && Number.isFinite(value[key])) result[key] = clamp(value[key]!, min, max);
+  });
+  if (ROTATIONS.includes(value.rotation as Rotation)) result.rotation = value.rotation!;
+  if (typeof value.mirrored === 'boolean') result.mirrored = value.mirrored;
+  return result;
+};
+
+export const loadAdjustments = async (video: VideoFile) =>
+  sanitize(await idbGet<Partial<VideoAdjustments>>(STORES.adjustments, videoIdentity(video)));
+
+// Untouched videos keep no record
+export const saveAdjustments = (video: VideoFile, adjustments: VideoAdjustments) => {
+  const key = videoIdentity(video);
+  return isDefault(adjustments) ? idbDelete(STORES.adjustments, key) : idbPut(STORES.adjustments, key, adjustments);
+};
+
+export const rotateBy = (rotation: Rotation, quarterTurns: number) =>
+  ROTATIONS[(ROTATIONS.indexOf(rotation) + quarterTurns + ROTATIONS.length * 4) % ROTATIONS.length];
+
+// CSS filter for the video element, in the order a colourist would apply
+// them: levels first, then colour. Unchanged steps are left out so the
+// common case stays on the browser's fast path.
+export const adjustmentFilter = (brightness: number, adjustments: VideoAdjustments) => {
+  const steps: string[] = [];
+  if (brightness !== 100) steps.push(`brightness(${brightness}%)`);
+  if (adjustments.contrast !== 100) steps.push(`contrast(${adjustments.contrast}%)`);
+  if (adjustments.gamma !== 1) steps.push(`url(#${GAMMA_FILTER_ID})`);
+  if (adjustments.saturation !== 100) steps.push(`saturate(${adjustments.saturation}%)`);
+  if (adjustments.hue !== 0) steps.push(`hue-rotate(${adjustments.hue}deg)`);
+  return steps.length ? steps.join(' ') : 'none';
+};
+
+export const isQuarterTurn = (rotation: Rotation) => rotation === 90 || rotation === 270;
+
+// Pan is limited so the picture's edge never comes inside the player
+export const clampView = (view: VideoView): VideoView => {
+  const zoom = clamp(view.zoom, 1, MAX_ZOOM);
+  const limit = (zoom - 1) / 2;
+  return { zoom, x: clamp(view.x, -limit, limit), y: clamp(view.y, -limit, limit) };
+};
+
+// Zooms by `factor` keeping the point at (`originX`, `originY`) still.
+// The origin is relative to the player centre, as a fraction of its size.
+export const zoomAt = (view: VideoView, factor: number, originX: number, originY: number) => {
+  const zoom = clamp(view.zoom * factor, 1, MAX_ZOOM);
+  const scale = zoom / view.zoom;
+  return clampView({
+    zoom,
+    x: originX - scale * (originX - view.x),
+    y: originY - scale * (originY - view.y)
+  });
+};
+
+// Rotation, mirror, zoom and pan in one transform. Applied right to left:
+// the picture is mirrored in its own frame before it is turned.
+export const videoTransform = (adjustments: VideoAdjustments, view: VideoView, width: number, height: number) => {
+  const parts: string[] = [];
+  if (view.x || view.y) parts.push(`translate(${view.x * width}px, ${view.y * height}px)`);
+  if (view.zoom !== 1) parts.push(`scale(${view.zoom})`);
+  if (adjustments.rotation) parts.push(`rotate(${adjustments.rotation}deg)`);
+  if (adjustments.mirrored) parts.push('scaleX(-1)');
+  return parts.length ? parts.join(' ') : 'none';
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { AspectRatio } from '../types';
+import { isAspectMode, layoutVideo, nextAspectMode, normalizeRatio, parseRatio } from './aspect';
+
+const HD = { width: 1920, height: 1080 };
+const WIDE_PLAYER = { width: 1600, height: 900 };
+const SQUARE_PLAYER = { width: 1000, height: 1000 };
+
+describe('parseRatio', () => {
+  it('reads W:H, W/H and WxH', () => {
+    expect(parseRatio('16:9')).toBeCloseTo(16 / 9);
+    expect(parseRatio('1.85/1')).toBeCloseTo(1.85);
+    expect(parseRatio(' 5 X 4 ')).toBeCloseTo(1.25);
+  });
+
+  it('is null for the named modes and for ratios that are not a shape', () => {
+    expect(parseRatio(AspectRatio.FIT)).toBeNull();
+    expect(parseRatio(AspectRatio.ORIGINAL)).toBeNull();
+    expect(parseRatio('0:1')).toBeNull();
+    expect(parseRatio('1:0')).toBeNull();
+    expect(parseRatio('-4:3')).toBeNull();
+  });
+});
+
+describe('normalizeRatio', () => {
+  it('writes custom ratios the way the built-in ones are written', () => {
+    expect(normalizeRatio('5/4')).toBe('5:4');
+    expect(normalizeRatio(' 1.85 : 1 ')).toBe('1.85:1');
+    expect(normalizeRatio('05x04')).toBe('5:4');
+    expect(normalizeRatio('2.50:1')).toBe('2.5:1');
+  });
+
+  it('rejects anything else', () => {
+    expect(normalizeRatio('wide')).toBeNull();
+    expect(normalizeRatio('4:0')).toBeNull();
+    expect(normalizeRatio('4:3:2')).toBeNull();
+  });
+});
+
+describe('isAspectMode', () => {
+  it('accepts the built-in modes and normalized ratios only', () => {
+    expect(isAspectMode(AspectRatio.CROP)).toBe(true);
+    expect(isAspectMode('5:4')).toBe(true);
+    expect(isAspectMode('5/4')).toBe(false);
+    expect(isAspectMode(4)).toBe(false);
+  });
+});
+
+describe('nextAspectMode', () => {
+  it('goes through the custom ratios after the built-in ones and wraps around', () => {
+    expect(nextAspectMode(AspectRatio.FIT, [])).toBe(AspectRatio.STRETCH);
+    expect(nextAspectMode(AspectRatio.CINEMASCOPE, ['5:4'])).toBe('5:4');
+    expect(nextAspectMode('5:4', ['5:4'])).toBe(AspectRatio.FIT);
+  });
+
+  it('skips custom ratios that repeat a built-in one', () => {
+    expect(nextAspectMode(AspectRatio.CINEMASCOPE, ['16:9'])).toBe(AspectRatio.FIT);
+  });
+});
+
+describe('layoutVideo', () => {
+  it('fits the picture inside the player, letterboxed', () => {
+    const box = layoutVideo(AspectRatio.FIT, HD, SQUARE_PLAYER, false);
+    expect(box.width).toBeCloseTo(1000);
+    expect(box.height).toBeCloseTo(562.5);
+    expect(box.objectFit).toBe('fill');
+  });
+
+  it('fits a tall picture inside the player, pillarboxed', () => {
+    const box = layoutVideo(AspectRatio.FIT, { width: 1080, height: 1920 }, WIDE_PLAYER, false);
+    expect(box.width).toBeCloseTo(506.25);
+    expect(box.height).toBeCloseTo(900);
+  });
+
+  it('fills the player exactly when the shapes already match', () => {
+    expect(layoutVideo(AspectRatio.FIT, HD, WIDE_PLAYER, false)).toEqual({ width: 1600, height: 900, objectFit: 'fill' });
+    expect(layoutVideo(AspectRatio.CROP, HD, WIDE_PLAYER, false)).toEqual({ width: 1600, height: 900, objectFit: 'fill' });
+  });
+
+  it('crops by covering the player with the picture', () => {
+    const box = layoutVideo(AspectRatio.CROP, HD, SQUARE_PLAYER, false);
+    expect(box.width).toBeCloseTo(1777.78, 1);
+    expect(box.height).toBeCloseTo(1000);
+  });
+
+  it('stretches to the player whatever the picture', () => {
+    expect(layoutVideo(AspectRatio.STRETCH, HD, SQUARE_PLAYER, false)).toEqual({ ...SQUARE_PLAYER, objectFit: 'fill' });
+  });
+
+  it('shows the original size as one video pixel per device pixel', () => {
+    expect(layoutVideo(AspectRatio.ORIGINAL, HD, SQUARE_PLAYER, false)).toEqual({ ...HD, objectFit: 'fill' });
+    expect(layoutVideo(AspectRatio.ORIGINAL, HD, SQUARE_PLAYER, false, 2)).toEqual({ width: 960, height: 540, objectFit: 'fill' });
+  });
+
+  it('keeps the original size when it is bigger than the player', () => {
+    const box = layoutVideo(AspectRatio.ORIGINAL, { width: 3840, height: 2160 }, WIDE_PLAYER, false);
+    expect(box).toEqual({ width: 3840, height: 2160, objectFit: 'fill' });
+  });
+
+  it('forces ratios into their shape, pillarboxed when narrower than the player', () => {
+    const box = layoutVideo(AspectRatio.FOUR_THREE, HD, WIDE_PLAYER, false);
+    expect(box.width).toBeCloseTo(1200);
+    expect(box.height).toBeCloseTo(900);
+  });
+
+  it('forces ratios into their shape, letterboxed when wider than the player', () => {
+    const box = layoutVideo(AspectRatio.CINEMASCOPE, HD, WIDE_PLAYER, false);
+    expect(box.width).toBeCloseTo(1600);
+    expect(box.height).toBeCloseTo(1600 / 2.35);
+  });
+
+  it('fills the player with a ratio of the same shape', () => {
+    const box = layoutVideo(AspectRatio.SIXTEEN_NINE, { width: 640, height: 480 }, WIDE_PLAYER, false);
+    expect(box.width).toBeCloseTo(1600);
+    expect(box.height).toBeCloseTo(900);
+  });
+
+  it('lays out custom ratios like the built-in ones', () => {
+    const box = layoutVideo('5:4', HD, WIDE_PLAYER, false);
+    expect(box.width).toBeCloseTo(1125);
+    expect(box.height).toBeCloseTo(900);
+    expect(layoutVideo('1:1', HD, WIDE_PLAYER, false)).toEqual({ width: 900, height: 900, objectFit: 'fill' });
+  });
+
+  it('lays out against the turned player after a quarter turn', () => {
+    const fit = layoutVideo(AspectRatio.FIT, HD, WIDE_PLAYER, true);
+    expect(fit.width).toBeCloseTo(900);
+    expect(fit.height).toBeCloseTo(506.25);
+    expect(layoutVideo(AspectRatio.STRETCH, HD, WIDE_PLAYER, true)).toEqual({ width: 900, height: 1600, objectFit: 'fill' });
+    const ratio = layoutVideo(AspectRatio.FOUR_THREE, HD, WIDE_PLAYER, true);
+    expect(ratio.width).toBeCloseTo(900);
+    expect(ratio.height).toBeCloseTo(675);
+  });
+
+  it('leaves the original size alone after a quarter turn', () => {
+    expect(layoutVideo(AspectRatio.ORIGINAL, HD, WIDE_PLAYER, true)).toEqual({ ...HD, objectFit: 'fill' });
+  });
+
+  it('fills the player and letterboxes until the video size is known', () => {
+    expect(layoutVideo(AspectRatio.CROP, { width: 0, height: 0 }, WIDE_PLAYER, false))
+      .toEqual({ ...WIDE_PLAYER, objectFit: 'contain' });
+    expect(layoutVideo(AspectRatio.FIT, { width: 0, height: 0 }, WIDE_PLAYER, true))
+      .toEqual({ width: 900, height: 1600, objectFit: 'contain' });
+  });
+
+  it('does not divide by an empty player', () => {
+    expect(layoutVideo(AspectRatio.FIT, HD, { width: 0, height: 0 }, false))
+      .toEqual({ width: 0, height: 0, objectFit: 'contain' });
+  });
+});
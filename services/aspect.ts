@@ -0,0 +1,110 @@
+import { AspectMode, AspectRatio, CustomAspectRatio } from '../types';
+import { MessageKey } from '../locales';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Size of the <video> element in CSS pixels, before any rotation. The
+// picture always fills it exactly, so the box alone decides the shape.
+export interface VideoBox extends Size {
+  objectFit: 'fill' | 'contain';
+}
+
+// The order the aspect button and key go through
+export const ASPECT_MODES: AspectRatio[] = [
+  AspectRatio.FIT,
+  AspectRatio.STRETCH,
+  AspectRatio.CROP,
+  AspectRatio.ORIGINAL,
+  AspectRatio.SIXTEEN_NINE,
+  AspectRatio.FOUR_THREE,
+  AspectRatio.TWENTY_ONE_NINE,
+  AspectRatio.SQUARE,
+  AspectRatio.CINEMASCOPE
+];
+
+const NAMED_MODES: Partial<Record<AspectMode, MessageKey>> = {
+  [AspectRatio.FIT]: 'aspect.fit',
+  [AspectRatio.STRETCH]: 'aspect.stretch',
+  [AspectRatio.CROP]: 'aspect.crop',
+  [AspectRatio.ORIGINAL]: 'aspect.original'
+};
+
+const RATIO_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)\s*$/i;
+
+// Width over height of a "W:H" mode, null for the modes that aren't a ratio
+export const parseRatio = (mode: string): number | null => {
+  const match = RATIO_PATTERN.exec(mode);
+  if (!match) return null;
+  const ratio = parseFloat(match[1]) / parseFloat(match[2]);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+};
+
+// "5/4", " 1.85 : 1 " and "5x4" all become "5:4"-style, or null if not a ratio
+export const normalizeRatio = (value: string): CustomAspectRatio | null => {
+  const match = RATIO_PATTERN.exec(value);
+  if (!match || parseRatio(value) === null) return null;
+  return `${parseFloat(match[1])}:${parseFloat(match[2])}`;
+};
+
+export const isAspectMode = (value: unknown): value is AspectMode =>
+  typeof value === 'string' && (ASPECT_MODES.includes(value as AspectRatio) || normalizeRatio(value) === value);
+
+export const aspectModes = (customRatios: CustomAspectRatio[]): AspectMode[] => [
+  ...ASPECT_MODES,
+  ...customRatios.filter(ratio => !ASPECT_MODES.includes(ratio as AspectRatio))
+];
+
+export const nextAspectMode = (current: AspectMode, customRatios: CustomAspectRatio[]) => {
+  const modes = aspectModes(customRatios);
+  return modes[(modes.indexOf(current) + 1) % modes.length];
+};
+
+// Translated name for the named modes; ratios are shown as they are
+export const aspectLabel = (mode: AspectMode, t: (key: MessageKey) => string) => {
+  const key = NAMED_MODES[mode];
+  return key ? t(key) : mode;
+};
+
+const scaleToFit = (content: Size, bounds: Size, cover: boolean): Size => {
+  const fit = cover ? Math.max : Math.min;
+  const scale = fit(bounds.width / content.width, bounds.height / content.height);
+  return { width: content.width * scale, height: content.height * scale };
+};
+
+// Where the picture goes in the player.
+//   Fit / Crop  the picture's own shape, fitted inside or covering the player
+//   Stretch     the player's shape
+//   Original    one video pixel per device pixel, however big that is
+//   Ratios      forced into that shape, fitted inside the player
+// With a quarter turn the element is laid out against the turned player,
+// since it is rotated back afterwards. Until the video's size is known it
+// fills the player and letterboxes.
+export const layoutVideo = (
+  mode: AspectMode,
+  video: Size,
+  container: Size,
+  quarterTurned: boolean,
+  devicePixelRatio = 1
+): VideoBox => {
+  const bounds = quarterTurned ? { width: container.height, height: container.width } : container;
+  if (!video.width || !video.height || !bounds.width || !bounds.height) return { ...bounds, objectFit: 'contain' };
+
+  switch (mode) {
+    case AspectRatio.FIT:
+      return { ...scaleToFit(video, bounds, false), objectFit: 'fill' };
+    case AspectRatio.CROP:
+      return { ...scaleToFit(video, bounds, true), objectFit: 'fill' };
+    case AspectRatio.STRETCH:
+      return { ...bounds, objectFit: 'fill' };
+    case AspectRatio.ORIGINAL:
+      return { width: video.width / devicePixelRatio, height: video.height / devicePixelRatio, objectFit: 'fill' };
+    default: {
+      const ratio = parseRatio(mode);
+      if (ratio === null) return { ...scaleToFit(video, bounds, false), objectFit: 'fill' };
+      return { ...scaleToFit({ width: ratio, height: 1 }, bounds, false), objectFit: 'fill' };
+    }
+  }
+};
@@ -0,0 +1,95 @@
+import { AudioSettings, EqPreset } from '../types';
+
+// Element volume tops out at 1; anything above is gain in the audio graph
+export const MAX_VOLUME = 2;
+
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_RANGE_DB = 12;
+
+export const EQ_PRESETS: Record<Exclude<EqPreset, 'custom'>, number[]> = {
+  flat: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  bass: [7, 6, 5, 3, 1, 0, 0, 0, 0, 0],
+  treble: [0, 0, 0, 0, 0, 1, 3, 5, 6, 7],
+  vocal: [-3, -2, -1, 1, 3, 4, 4, 2, 0, -1],
+  rock: [5, 4, 2, 0, -1, -1, 1, 3, 4, 5],
+  pop: [-1, 0, 2, 4, 5, 4, 2, 0, -1, -1],
+  classical: [4, 3, 2, 1, 0, 0, 0, 2, 3, 4]
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  eqGains: EQ_PRESETS.flat,
+  eqPreset: 'flat',
+  nightMode: false,
+  mono: false
+};
+
+// Whether playback needs the Web Audio graph at all. Until it does, audio
+// goes straight from the element to the speakers.
+export const needsAudioGraph = (volume: number, audio: AudioSettings) =>
+  volume > 1 || audio.nightMode || audio.mono || audio.eqGains.some(gain => gain !== 0);
+
+export interface AudioGraph {
+  setBoost: (gain: number) => void;
+  setEqGains: (gains: number[]) => void;
+  setNightMode: (on: boolean) => void;
+  setMono: (on: boolean) => void;
+  resume: () => Promise<void>;
+  close: () => void;
+}
+
+// source → mono downmix → EQ → night compressor → boost → limiter.
+// An element can only ever feed one source node, so the graph is built
+// once per element and every stage is adjusted in place rather than
+// reconnected.
+export const createAudioGraph = (el: HTMLMediaElement): AudioGraph => {
+  const ctx = new AudioContext();
+  const source = ctx.createMediaElementSource(el);
+
+  const mono = ctx.createGain();
+  const filters = EQ_BANDS.map((frequency, i) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = i === 0 ? 'lowshelf' : i === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = 1.4;
+    return filter;
+  });
+  const night = ctx.createDynamicsCompressor();
+  const boost = ctx.createGain();
+
+  // Keeps boosted audio from clipping
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.1;
+
+  const chain: AudioNode[] = [source, mono, ...filters, night, boost, limiter, ctx.destination];
+  chain.reduce((from, to) => {
+    from.connect(to);
+    return to;
+  });
+
+  const setNightMode = (on: boolean) => {
+    night.threshold.value = on ? -40 : 0;
+    night.knee.value = on ? 30 : 0;
+    night.ratio.value = on ? 12 : 1;
+    night.attack.value = 0.003;
+    night.release.value = 0.25;
+  };
+  setNightMode(false);
+
+  return {
+    setBoost: (gain) => { boost.gain.value = gain; },
+    setEqGains: (gains) => filters.forEach((filter, i) => { filter.gain.value = gains[i] ?? 0; }),
+    setNightMode,
+    // A one-channel node downmixes whatever comes in; the destination
+    // spreads it back over both speakers.
+    setMono: (on) => {
+      mono.channelCount = on ? 1 : 2;
+      mono.channelCountMode = on ? 'explicit' : 'max';
+    },
+    resume: () => ctx.state === 'suspended' ? ctx.resume() : Promise.resolve(),
+    close: () => { ctx.close().catch(() => {}); }
+  };
+};
@@ -0,0 +1,76 @@
+import { Bookmark, VideoFile } from '../types';
+import { STORES, idbDelete, idbGet, idbPut } from './db';
+import { videoIdentity } from './library';
+import { parseSubtitles } from './subtitles';
+
+export const BOOKMARK_EXPORT_VERSION = 1;
+
+// Bookmarks this close together are treated as the same one on import
+const DUPLICATE_SECONDS = 0.5;
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+const byTime = (a: Bookmark, b: Bookmark) => a.time - b.time;
+
+// Stored per video identity, so they survive rescans like progress does
+export const loadBookmarks = async (video: VideoFile) => {
+  const bookmarks = await idbGet<Bookmark[]>(STORES.bookmarks, videoIdentity(video));
+  return (bookmarks ?? []).sort(byTime);
+};
+
+export const saveBookmarks = (video: VideoFile, bookmarks: Bookmark[]) => {
+  const key = videoIdentity(video);
+  return bookmarks.length ? idbPut(STORES.bookmarks, key, bookmarks) : idbDelete(STORES.bookmarks, key);
+};
+
+export const createBookmark = (time: number, label = ''): Bookmark =>
+  ({ id: createId(), time: Math.max(0, time), label, createdAt: Date.now() });
+
+// Adds `incoming` to `existing`, skipping any that mark the same moment
+export const mergeBookmarks = (existing: Bookmark[], incoming: Bookmark[]) => {
+  const merged = [...existing];
+  incoming.forEach(bookmark => {
+    if (!merged.some(b => Math.abs(b.time - bookmark.time) < DUPLICATE_SECONDS)) merged.push(bookmark);
+  });
+  return merged.sort(byTime);
+};
+
+export const exportBookmarks = (bookmarks: Bookmark[]) => JSON.stringify({
+  version: BOOKMARK_EXPORT_VERSION,
+  bookmarks: bookmarks.map(({ time, label }) => ({ time, label }))
+}, null, 2);
+
+const vttTimestamp = (seconds: number) => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+// WebVTT chapters: each bookmark runs until the next one, the last until
+// the end of the video. Unlabelled bookmarks are named by their time.
+export const toWebVTTChapters = (bookmarks: Bookmark[], duration: number, fallbackLabel: (time: number) => string) => {
+  const sorted = [...bookmarks].sort(byTime);
+  const cues = sorted.map((bookmark, i) => {
+    const end = Math.max(sorted[i + 1]?.time ?? duration, bookmark.time);
+    return `${i + 1}\n${vttTimestamp(bookmark.time)} --> ${vttTimestamp(end)}\n${bookmark.label || fallbackLabel(bookmark.time)}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+const fromEntries = (entries: unknown): Bookmark[] => {
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter((entry): entry is { time: number; label?: unknown } =>
+      !!entry && typeof entry === 'object' && typeof entry.time === 'number' && Number.isFinite(entry.time))
+    .map(entry => createBookmark(entry.time, typeof entry.label === 'string' ? entry.label : ''));
+};
+
+// Accepts our JSON export (or a bare array of entries) and WebVTT chapter
+// files. Throws when the source is neither.
+export const importBookmarks = (source: string): Bookmark[] => {
+  if (source.trimStart().startsWith('WEBVTT')) {
+    return parseSubtitles(source, 'chapters.vtt').map(cue => createBookmark(cue.start, cue.text.replace(/\n/g, ' ')));
+  }
+  const data: unknown = JSON.parse(source);
+  return fromEntries(Array.isArray(data) ? data : (data as { bookmarks?: unknown })?.bookmarks);
+};
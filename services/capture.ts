@@ -0,0 +1,177 @@
+import { createFrameReader, disposeFrameReader, seekTo, waitForEvent } from '../utils/media';
+import { stripExtension } from '../utils/format';
+
+// Tried in order; the first one MediaRecorder supports is used
+const CLIP_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const CLIP_FRAME_RATE = 30;
+const CLIP_VIDEO_BITS_PER_SECOND = 8_000_000;
+
+export interface ClipRecording {
+  // Resolves with the WebM file once the range has played through
+  done: Promise<Blob>;
+  cancel: () => void;
+}
+
+// Draws `source` with the player's brightness baked in. Multiplying by a
+// constant is done with compositing rather than `ctx.filter`, which Safari
+// ignores: darker is black drawn over it, brighter is the frame added to
+// itself.
+export const drawFrame = (ctx: CanvasRenderingContext2D, source: HTMLVideoElement, brightness: number) => {
+  const { width, height } = ctx.canvas;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.drawImage(source, 0, 0, width, height);
+  if (brightness < 100) {
+    ctx.globalAlpha = 1 - brightness / 100;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+  } else if (brightness > 100) {
+    ctx.globalCompositeOperation = 'lighter';
+    for (let extra = brightness / 100 - 1; extra > 0; extra--) {
+      ctx.globalAlpha = Math.min(1, extra);
+      ctx.drawImage(source, 0, 0, width, height);
+    }
+  }
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+};
+
+// Filesystem-safe position for file names, e.g. 01-02-03.500
+const fileTimestamp = (seconds: number) => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}-${pad(Math.floor(ms / 60000) % 60)}-${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+export const screenshotFileName = (videoName: string, time: number) =>
+  `${stripExtension(videoName)} ${fileTimestamp(time)}.png`;
+
+export const clipFileName = (videoName: string, start: number, end: number) =>
+  `${stripExtension(videoName)} ${fileTimestamp(start)} to ${fileTimestamp(end)}.webm`;
+
+const createCanvas = (el: HTMLVideoElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = el.videoWidth;
+  canvas.height = el.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  return { canvas, ctx };
+};
+
+// The frame on screen as a PNG at the video's own resolution
+export const captureFrame = (el: HTMLVideoElement, brightness: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    if (!el.videoWidth) {
+      reject(new Error('No frame to capture'));
+      return;
+    }
+    const { canvas, ctx } = createCanvas(el);
+    drawFrame(ctx, el, brightness);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+
+export const clipMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? null : CLIP_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+// Plays `start`–`end` of `file` in a detached element and records it, so
+// the player itself keeps going undisturbed. Recording runs in real time.
+// Frames go through a canvas (for the brightness) and audio through Web
+// Audio into the recorder only, so nothing is heard while it runs.
+export const recordClip = (
+  file: Blob,
+  start: number,
+  end: number,
+  brightness: number,
+  onProgress: (fraction: number) => void
+): ClipRecording => {
+  const mimeType = clipMimeType();
+  const src = URL.createObjectURL(file);
+  const el = createFrameReader(src);
+  // A muted element would record silence
+  el.muted = false;
+  let cancelled = false;
+  let context: AudioContext | null = null;
+  let recorder: MediaRecorder | null = null;
+  let rejectDone: (err: unknown) => void = () => {};
+
+  const cleanup = () => {
+    el.pause();
+    context?.close().catch(() => {});
+    disposeFrameReader(el);
+    URL.revokeObjectURL(src);
+  };
+
+  const run = async () => {
+    if (!mimeType) throw new Error('MediaRecorder cannot write WebM here');
+    await waitForEvent(el, 'loadedmetadata');
+    if (cancelled) return null;
+    await seekTo(el, start);
+    if (cancelled) return null;
+
+    const tracks: MediaStreamTrack[] = [];
+    let draw: (() => void) | null = null;
+    if (el.videoWidth) {
+      const { canvas, ctx } = createCanvas(el);
+      draw = () => drawFrame(ctx, el, brightness);
+      draw();
+      tracks.push(...canvas.captureStream(CLIP_FRAME_RATE).getVideoTracks());
+    }
+    context = new AudioContext();
+    const destination = context.createMediaStreamDestination();
+    context.createMediaElementSource(el).connect(destination);
+    tracks.push(...destination.stream.getAudioTracks());
+
+    recorder = new MediaRecorder(new MediaStream(tracks), { mimeType, videoBitsPerSecond: CLIP_VIDEO_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder!.onstop = () => resolve(); });
+
+    // rVFC draws every decoded frame; rAF is the fallback where it's missing
+    const onFrame = () => {
+      if (cancelled || recorder?.state !== 'recording') return;
+      draw?.();
+      onProgress(Math.min(1, (el.currentTime - start) / (end - start)));
+      if (el.currentTime >= end || el.ended) {
+        recorder.stop();
+        return;
+      }
+      if (!draw) return;
+      if ('requestVideoFrameCallback' in el) el.requestVideoFrameCallback(onFrame);
+      else requestAnimationFrame(onFrame);
+    };
+    // Audio-only files have no frames to call back on
+    const onTimeUpdate = () => { if (!draw) onFrame(); };
+    el.addEventListener('timeupdate', onTimeUpdate);
+    el.addEventListener('ended', () => recorder?.state === 'recording' && recorder.stop());
+
+    await context.resume();
+    recorder.start(1000);
+    await el.play();
+    if (draw) onFrame();
+    await stopped;
+    el.removeEventListener('timeupdate', onTimeUpdate);
+    return cancelled ? null : new Blob(chunks, { type: mimeType.split(';')[0] });
+  };
+
+  const done = new Promise<Blob>((resolve, reject) => {
+    rejectDone = reject;
+    run()
+      .then(blob => blob ? resolve(blob) : reject(new DOMException('Recording cancelled', 'AbortError')))
+      .catch(reject)
+      .finally(cleanup);
+  });
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    if (recorder?.state === 'recording') {
+      recorder.stop();
+    } else {
+      // Still loading or seeking, which may never finish
+      rejectDone(new DOMException('Recording cancelled', 'AbortError'));
+      cleanup();
+    }
+  };
+
+  return { done, cancel };
+};
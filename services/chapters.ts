@@ -0,0 +1,183 @@
+import { Chapter } from '../types';
+import { HEADER_BYTES } from './probe';
+import {
+  Box, Element, EBML_HEADER, MKV_CLUSTER, MKV_SEGMENT, findBox, fourcc, readBoxes, readElements, readMoov, readString, readUint, readView
+} from '../utils/containers';
+
+// Audiobooks can have hundreds; past this they stop being useful as ticks
+const MAX_CHAPTERS = 500;
+
+const MKV_CHAPTERS = 0x1043a770;
+const MKV_EDITION_ENTRY = 0x45b9;
+const MKV_CHAPTER_ATOM = 0xb6;
+const MKV_CHAPTER_TIME_START = 0x91;
+const MKV_CHAPTER_FLAG_HIDDEN = 0x98;
+const MKV_CHAPTER_DISPLAY = 0x80;
+const MKV_CHAP_STRING = 0x85;
+
+const byStart = (a: Chapter, b: Chapter) => a.start - b.start;
+
+// --- MP4 ---
+
+// Nero-style list in moov/udta/chpl, which ffmpeg writes for MP4:
+// version, flags, (v1: 4 reserved bytes), count, then per chapter a
+// 64-bit start in 100 ns units and a length-prefixed title.
+const readChpl = (moov: DataView, root: Box): Chapter[] => {
+  const chpl = findBox(moov, root, ['udta', 'chpl']);
+  if (!chpl) return [];
+  let offset = chpl.start + 4 + (moov.getUint8(chpl.start) ? 4 : 0);
+  const count = moov.getUint8(offset++);
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < count && offset + 9 <= chpl.end; i++) {
+    const start = Number(moov.getBigUint64(offset)) / 1e7;
+    const length = moov.getUint8(offset + 8);
+    offset += 9;
+    if (offset + length > chpl.end) break;
+    chapters.push({ start, title: readString(moov, offset, offset + length) });
+    offset += length;
+  }
+  return chapters;
+};
+
+const trackId = (moov: DataView, trak: Box) => {
+  const tkhd = findBox(moov, trak, ['tkhd']);
+  if (!tkhd) return null;
+  return moov.getUint32(tkhd.start + (moov.getUint8(tkhd.start) === 1 ? 20 : 12));
+};
+
+// Entries of a full box table, after version/flags and the entry count
+const tableEntries = (moov: DataView, box: Box | undefined, entrySize: number, headerSize = 8) => {
+  if (!box) return [];
+  const count = moov.getUint32(box.start + headerSize - 4);
+  const entries: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = box.start + headerSize + i * entrySize;
+    if (offset + entrySize > box.end) break;
+    entries.push(offset);
+  }
+  return entries;
+};
+
+// QuickTime-style chapters: a text track referenced from another track's
+// tref/chap, one sample per chapter. Apple tools (and audiobooks) use this.
+const readChapterTrack = async (file: Blob, moov: DataView, root: Box): Promise<Chapter[]> => {
+  const traks = readBoxes(moov, root.start, root.end).filter(box => box.type === 'trak');
+  const chap = traks.map(trak => findBox(moov, trak, ['tref', 'chap'])).find(Boolean);
+  if (!chap || chap.start + 4 > chap.end) return [];
+  const id = moov.getUint32(chap.start);
+  const text = traks.find(trak => trackId(moov, trak) === id);
+  const mdhd = text && findBox(moov, text, ['mdia', 'mdhd']);
+  const stbl = text && findBox(moov, text, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return [];
+  const timescale = moov.getUint32(mdhd.start + (moov.getUint8(mdhd.start) === 1 ? 20 : 12));
+  if (!timescale) return [];
+
+  const box = (type: string) => findBox(moov, stbl, [type]);
+  const starts: number[] = [];
+  let time = 0;
+  for (const entry of tableEntries(moov, box('stts'), 8)) {
+    for (let i = moov.getUint32(entry); i > 0 && starts.length < MAX_CHAPTERS; i--) {
+      starts.push(time / timescale);
+      time += moov.getUint32(entry + 4);
+    }
+  }
+
+  const stsz = box('stsz');
+  const uniformSize = stsz ? moov.getUint32(stsz.start + 4) : 0;
+  const sizes = uniformSize ? starts.map(() => uniformSize) : tableEntries(moov, stsz, 4, 12).map(entry => moov.getUint32(entry));
+  const co64 = box('co64');
+  const chunkOffsets = co64
+    ? tableEntries(moov, co64, 8).map(entry => Number(moov.getBigUint64(entry)))
+    : tableEntries(moov, box('stco'), 4).map(entry => moov.getUint32(entry));
+  const stsc = tableEntries(moov, box('stsc'), 12).map(entry => ({
+    firstChunk: moov.getUint32(entry) - 1,
+    samplesPerChunk: moov.getUint32(entry + 4)
+  }));
+
+  // Walk the chunks to find where each sample lives in the file
+  const offsets: number[] = [];
+  chunkOffsets.forEach((chunkOffset, chunk) => {
+    const run = [...stsc].reverse().find(entry => entry.firstChunk <= chunk);
+    let offset = chunkOffset;
+    for (let i = 0; i < (run?.samplesPerChunk ?? 0) && offsets.length < starts.length; i++) {
+      offsets.push(offset);
+      offset += sizes[offsets.length - 1] ?? 0;
+    }
+  });
+
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < offsets.length; i++) {
+    if (!sizes[i] || sizes[i] < 2) continue;
+    // Each sample is a 16-bit length followed by the title
+    const sample = await readView(file, offsets[i], offsets[i] + sizes[i]);
+    const length = Math.min(sample.getUint16(0), sample.byteLength - 2);
+    const isUtf16 = length >= 2 && sample.getUint16(2) === 0xfeff;
+    const title = isUtf16
+      ? new TextDecoder('utf-16be').decode(new Uint8Array(sample.buffer, sample.byteOffset + 4, length - 2))
+      : readString(sample, 2, 2 + length);
+    chapters.push({ start: starts[i], title: title.trim() });
+  }
+  return chapters;
+};
+
+const readMp4Chapters = async (file: Blob) => {
+  const moov = await readMoov(file);
+  if (!moov) return [];
+  const root: Box = { type: 'moov', start: 0, end: moov.byteLength };
+  const nero = readChpl(moov, root);
+  return nero.length ? nero : readChapterTrack(file, moov, root);
+};
+
+// --- Matroska ---
+
+const readAtom = (view: DataView, atom: Element): Chapter | null => {
+  const children = readElements(view, atom.start, atom.end);
+  const child = (id: number) => children.find(element => element.id === id);
+  const start = child(MKV_CHAPTER_TIME_START);
+  const hidden = child(MKV_CHAPTER_FLAG_HIDDEN);
+  if (!start || (hidden && readUint(view, hidden))) return null;
+  const display = child(MKV_CHAPTER_DISPLAY);
+  const title = display && readElements(view, display.start, display.end).find(element => element.id === MKV_CHAP_STRING);
+  return {
+    // Nanoseconds
+    start: readUint(view, start) / 1e9,
+    title: title ? readString(view, title.start, title.end).trim() : ''
+  };
+};
+
+// Only chapters stored before the first Cluster are found, which is where
+// mkvmerge and ffmpeg put them.
+const readMatroskaChapters = (view: DataView): Chapter[] => {
+  const segment = readElements(view, 0, view.byteLength).find(element => element.id === MKV_SEGMENT);
+  if (!segment) return [];
+  for (const element of readElements(view, segment.start, segment.end)) {
+    if (element.id === MKV_CLUSTER) break;
+    if (element.id !== MKV_CHAPTERS) continue;
+    // The first edition is the default one in practice
+    const edition = readElements(view, element.start, element.end).find(child => child.id === MKV_EDITION_ENTRY);
+    if (!edition) return [];
+    return readElements(view, edition.start, edition.end)
+      .filter(child => child.id === MKV_CHAPTER_ATOM)
+      .slice(0, MAX_CHAPTERS)
+      .map(atom => readAtom(view, atom))
+      .filter((chapter): chapter is Chapter => chapter !== null);
+  }
+  return [];
+};
+
+// The file's own chapter list, sorted by start time. Empty for formats
+// without chapters or files that have none.
+export const readChapters = async (file: Blob): Promise<Chapter[]> => {
+  const header = await readView(file, 0, HEADER_BYTES);
+  let chapters: Chapter[] = [];
+  if (header.byteLength >= 8 && ['ftyp', 'moov'].includes(fourcc(header, 4))) {
+    chapters = await readMp4Chapters(file);
+  } else if (header.byteLength >= 4 && header.getUint32(0) === EBML_HEADER) {
+    chapters = readMatroskaChapters(header);
+  }
+  return chapters.sort(byStart);
+};
+
+// The chapter playing at `time`
+export const chapterAt = (chapters: Chapter[], time: number) =>
+  [...chapters].reverse().find(chapter => chapter.start <= time) ?? null;
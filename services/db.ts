@@ -0,0 +1,157 @@
+// Thin promise wrapper around the app's single IndexedDB database.
+// Every persistent feature gets its own object store; add new stores to
+// STORES and bump DB_VERSION so existing installs pick them up.
+
+const DB_NAME = 'v-player-pro';
+const DB_VERSION = 12;
+
+export const STORES = {
+  videos: 'videos',
+  roots: 'roots',
+  progress: 'progress',
+  thumbnails: 'thumbnails',
+  probes: 'probes',
+  trickplay: 'trickplay',
+  playlists: 'playlists',
+  preferences: 'preferences',
+  settings: 'settings',
+  bookmarks: 'bookmarks',
+  adjustments: 'adjustments',
+  history: 'history',
+  vault: 'vault',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+// The private folder (services/vault) keeps the records of hidden videos
+// encrypted in its own store. Reads and writes of the keys it covers go
+// through it instead of the plain store.
+export interface RecordOverlay {
+  stores: readonly StoreName[];
+  covers: (key: IDBValidKey) => Promise<boolean>;
+  get: (store: StoreName, key: IDBValidKey) => Promise<unknown>;
+  getAll: (store: StoreName) => Promise<unknown[]>;
+  put: (store: StoreName, key: IDBValidKey, value: unknown) => Promise<void>;
+  delete: (store: StoreName, key: IDBValidKey) => Promise<void>;
+  // Covers `key` as well, for a record moving there from a covered key
+  extend: (key: IDBValidKey) => Promise<void>;
+}
+
+let overlay: RecordOverlay | null = null;
+
+export const setRecordOverlay = (next: RecordOverlay | null) => {
+  overlay = next;
+};
+
+const overlaid = async (store: StoreName, key: IDBValidKey) =>
+  !!overlay && overlay.stores.includes(store) && overlay.covers(key);
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey) => {
+  if (await overlaid(store, key)) return overlay!.get(store, key) as Promise<T | undefined>;
+  return withStore<T | undefined>(store, 'readonly', s => s.get(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName) => {
+  const plain = await withStore<T[]>(store, 'readonly', s => s.getAll());
+  if (!overlay?.stores.includes(store)) return plain;
+  return [...plain, ...(await overlay.getAll(store) as T[])];
+};
+
+export const idbPut = async <T>(store: StoreName, key: IDBValidKey, value: T) => {
+  if (await overlaid(store, key)) return overlay!.put(store, key, value);
+  await withStore(store, 'readwrite', s => s.put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey) => {
+  if (await overlaid(store, key)) return overlay!.delete(store, key);
+  await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+// Re-keys a record, which stays private if it was
+export const idbMove = async <T>(store: StoreName, from: IDBValidKey, to: IDBValidKey, update: (value: T) => T) => {
+  const value = await idbGet<T>(store, from);
+  if (value === undefined) return;
+  if (await overlaid(store, from)) await overlay!.extend(to);
+  await idbPut(store, to, update(value));
+  await idbDelete(store, from);
+};
+
+// Splits `entries` into those whose key the overlay covers and the rest
+const partition = async <T>(store: StoreName, entries: T[], keyOf: (entry: T) => IDBValidKey) => {
+  const covered = await Promise.all(entries.map(entry => overlaid(store, keyOf(entry))));
+  return {
+    covered: entries.filter((_, i) => covered[i]),
+    plain: entries.filter((_, i) => !covered[i])
+  };
+};
+
+export const idbClear = (store: StoreName) =>
+  withStore(store, 'readwrite', s => s.clear());
+
+// Writes many records in one transaction, which is much faster than
+// one idbPut per record when importing large folders. Covered records
+// still go through the overlay one by one.
+export const idbPutMany = async <T>(store: StoreName, entries: [IDBValidKey, T][]) => {
+  const { covered, plain } = await partition(store, entries, ([key]) => key);
+  for (const [key, value] of covered) await overlay!.put(store, key, value);
+  if (plain.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  plain.forEach(([key, value]) => os.put(value, key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const idbDeleteMany = async (store: StoreName, keys: IDBValidKey[]) => {
+  const { covered, plain } = await partition(store, keys, key => key);
+  for (const key of covered) await overlay!.delete(store, key);
+  if (plain.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  plain.forEach(key => os.delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
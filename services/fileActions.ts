@@ -0,0 +1,367 @@
+import { FileChange, StorageRoot, VideoFile } from '../types';
+import { MessageKey } from '../locales';
+import { STORES, StoreName, idbMove } from './db';
+import { folderNameOf, forgetVideos, persistVideos, rescanRoot, verifyPermission, videoIdentity } from './library';
+import { getRegisteredFile, registerFile } from './objectUrls';
+import { renameThumbnail } from './thumbnails';
+import { formatSize } from '../utils/format';
+
+// Renames, moves and deletes files on disk through their storage root's
+// directory handle. Entries are updated in place instead of rescanning
+// the root, and whatever is stored by identity moves along with the file.
+// Network streams only exist in the library, so renaming or deleting one
+// never touches anything else.
+
+export type FileActionFailure = 'readOnly' | 'permission' | 'invalidName' | 'exists' | 'notFound' | 'unsupported' | 'failed';
+
+export class FileActionError extends Error {
+  constructor(readonly failure: FileActionFailure, message: string) {
+    super(message);
+  }
+}
+
+const FAILURE_MESSAGES: Record<FileActionFailure, MessageKey> = {
+  readOnly: 'fileAction.readOnly',
+  permission: 'fileAction.permission',
+  invalidName: 'fileAction.invalidName',
+  exists: 'fileAction.exists',
+  notFound: 'fileAction.notFound',
+  unsupported: 'fileAction.unsupported',
+  failed: 'fileAction.failed'
+};
+
+export const fileActionMessage = (failure: FileActionFailure) => FAILURE_MESSAGES[failure];
+
+// Where a file sits: its root, the folders below the root's own directory
+// and its name
+export interface FileLocation {
+  rootId: string;
+  folders: string[];
+  name: string;
+}
+
+export interface ActionResult {
+  videos: VideoFile[];
+  // Renames and moves that went through, for undo
+  change: FileChange | null;
+  // One per file the action could not be carried out on
+  failures: FileActionFailure[];
+}
+
+// Everything keyed by identity except the watch log, which keeps the
+// identity each event was recorded under
+const IDENTITY_STORES: StoreName[] = [
+  STORES.progress, STORES.thumbnails, STORES.probes, STORES.trickplay, STORES.bookmarks, STORES.adjustments
+];
+
+export const locationOf = (video: VideoFile): FileLocation => ({
+  rootId: video.rootId ?? '',
+  folders: video.url ? [] : video.relativePath.split('/').slice(1, -1),
+  name: video.name
+});
+
+// Streams can be renamed and deleted; files need a root we can write to
+export const canEdit = (video: VideoFile, roots: StorageRoot[]) =>
+  !!video.url || !!roots.find(r => r.id === video.rootId)?.handle;
+
+export const canMove = (video: VideoFile, roots: StorageRoot[]) => !video.url && canEdit(video, roots);
+
+const isValidName = (name: string) => !!name && name !== '.' && name !== '..' && !/[/\\]/.test(name);
+
+const failureOf = (err: unknown): FileActionFailure => {
+  if (err instanceof FileActionError) return err.failure;
+  switch ((err as DOMException).name) {
+    case 'NotFoundError': return 'notFound';
+    case 'NotAllowedError':
+    case 'SecurityError': return 'permission';
+    case 'InvalidModificationError': return 'exists';
+    default: return 'failed';
+  }
+};
+
+const writableRoot = async (roots: StorageRoot[], rootId: string) => {
+  const handle = roots.find(r => r.id === rootId)?.handle;
+  if (!handle) throw new FileActionError('readOnly', `Root ${rootId} has no directory handle`);
+  if (!(await verifyPermission(handle, true, 'readwrite'))) {
+    throw new FileActionError('permission', `No write access to ${handle.name}`);
+  }
+  return handle;
+};
+
+const directoryAt = async (root: FileSystemDirectoryHandle, folders: string[]) => {
+  let dir = root;
+  for (const name of folders) dir = await dir.getDirectoryHandle(name);
+  return dir;
+};
+
+// Something else already has the name. A case-only rename finds the entry
+// itself on case-insensitive file systems, which doesn't count.
+const isTaken = async (dir: FileSystemDirectoryHandle, name: string, self: FileSystemHandle) => {
+  const existing = await dir.getFileHandle(name)
+    .catch(() => dir.getDirectoryHandle(name))
+    .catch(() => null);
+  return !!existing && !(await existing.isSameEntry(self));
+};
+
+const copyFile = async (handle: FileSystemFileHandle, to: FileSystemDirectoryHandle, name: string) => {
+  const copy = await to.getFileHandle(name, { create: true });
+  await (await handle.getFile()).stream().pipeTo(await copy.createWritable());
+  return copy;
+};
+
+// Chromium moves entries in place. Elsewhere files are copied and the
+// original removed, and folders can't be moved at all. A case-only rename
+// goes through a temporary name, since on a case-insensitive file system
+// the copy would be the original itself.
+const moveEntry = async (
+  handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+  from: FileSystemDirectoryHandle,
+  to: FileSystemDirectoryHandle,
+  name: string
+) => {
+  if (handle.move) {
+    await handle.move(to, name);
+    return;
+  }
+  if (handle.kind === 'directory') throw new FileActionError('unsupported', 'Folders cannot be moved in this browser');
+  if (name !== handle.name && name.toLowerCase() === handle.name.toLowerCase() && (await from.isSameEntry(to))) {
+    const temp = await copyFile(handle, to, `.${name}.${Date.now()}.tmp`);
+    await from.removeEntry(handle.name);
+    await copyFile(temp, to, name);
+    await to.removeEntry(temp.name);
+    return;
+  }
+  await copyFile(handle, to, name);
+  await from.removeEntry(handle.name);
+};
+
+// Progress, thumbnails and the rest follow the file to its new identity
+const moveStoredData = async (before: VideoFile, after: VideoFile) => {
+  const from = videoIdentity(before);
+  const to = videoIdentity(after);
+  if (from === to) return;
+  renameThumbnail(from, to);
+  for (const store of IDENTITY_STORES) {
+    // Progress and thumbnail records carry their key as well
+    await idbMove<unknown>(store, from, to, record =>
+      record && typeof record === 'object' && 'identity' in record ? { ...record, identity: to } : record);
+  }
+};
+
+// The entry for a file that now sits at `location`, read back from disk
+const relocatedEntry = async (video: VideoFile, root: FileSystemDirectoryHandle, location: FileLocation) => {
+  const dir = await directoryAt(root, location.folders);
+  const file = await (await dir.getFileHandle(location.name)).getFile();
+  registerFile(video.id, file);
+  const relativePath = [root.name, ...location.folders, file.name].join('/');
+  return {
+    ...video,
+    name: file.name,
+    size: formatSize(file.size),
+    bytes: file.size,
+    lastModified: file.lastModified,
+    folderName: folderNameOf(relativePath),
+    relativePath,
+    rootId: location.rootId
+  };
+};
+
+// The roots the file left and went to are added to `touched` once it has
+// moved on disk
+const moveVideo = async (video: VideoFile, to: FileLocation, roots: StorageRoot[], touched: Set<string>): Promise<VideoFile> => {
+  if (!isValidName(to.name)) throw new FileActionError('invalidName', `Invalid name ${to.name}`);
+  if (video.url) return { ...video, name: to.name };
+
+  const from = locationOf(video);
+  if (to.rootId === from.rootId && to.name === from.name && to.folders.join('/') === from.folders.join('/')) return video;
+  const sourceRoot = await writableRoot(roots, from.rootId);
+  const targetRoot = to.rootId === from.rootId ? sourceRoot : await writableRoot(roots, to.rootId);
+  const sourceDir = await directoryAt(sourceRoot, from.folders);
+  const targetDir = await directoryAt(targetRoot, to.folders);
+  const handle = await sourceDir.getFileHandle(from.name);
+  if (await isTaken(targetDir, to.name, handle)) throw new FileActionError('exists', `${to.name} already exists`);
+  await moveEntry(handle, sourceDir, targetDir, to.name);
+  touched.add(from.rootId).add(to.rootId);
+  return relocatedEntry(video, targetRoot, to);
+};
+
+// Renames or moves each video in turn. Ones that fail stay where they
+// were; the rest are kept, so a partly done batch can still be undone.
+// A file that moved on disk but whose entry couldn't follow is found
+// again by rescanning, as in moveFolder.
+export const relocateVideos = async (
+  moves: { video: VideoFile; to: FileLocation }[],
+  roots: StorageRoot[],
+  all: VideoFile[]
+): Promise<ActionResult> => {
+  const before: VideoFile[] = [];
+  const after: VideoFile[] = [];
+  const failures: FileActionFailure[] = [];
+  const stale = new Set<string>();
+  for (const { video, to } of moves) {
+    const touched = new Set<string>();
+    try {
+      const moved = await moveVideo(video, to, roots, touched);
+      await moveStoredData(video, moved);
+      before.push(video);
+      after.push(moved);
+    } catch (err) {
+      console.warn(`Could not move ${video.name}:`, err);
+      failures.push(failureOf(err));
+      touched.forEach(rootId => stale.add(rootId));
+    }
+  }
+  await persistVideos(after);
+  const updated = new Map(after.map(v => [v.id, v]));
+  let videos = all.map(v => updated.get(v.id) ?? v);
+  for (const rootId of stale) {
+    try {
+      videos = (await rescanRoot(roots.find(r => r.id === rootId)!, videos)).videos;
+    } catch (err) {
+      console.warn('Could not rescan after moving files:', err);
+    }
+  }
+  return {
+    videos,
+    change: after.length ? { before, after } : null,
+    failures
+  };
+};
+
+export const renameVideo = (video: VideoFile, name: string, roots: StorageRoot[], all: VideoFile[]) =>
+  relocateVideos([{ video, to: { ...locationOf(video), name } }], roots, all);
+
+// Moves the videos into `folders` of the root, keeping their names
+export const moveVideos = (videos: VideoFile[], rootId: string, folders: string[], roots: StorageRoot[], all: VideoFile[]) =>
+  relocateVideos(videos.map(video => ({ video, to: { rootId, folders, name: video.name } })), roots, all);
+
+// Renames or moves a folder with everything in it. `from` and `to` are
+// folder paths below the root's own directory. Once the folder has moved,
+// entries that can't be read back at their new place are found again by
+// rescanning the root rather than left pointing into the old folder.
+export const moveFolder = async (
+  rootId: string,
+  from: string[],
+  to: string[],
+  roots: StorageRoot[],
+  all: VideoFile[]
+): Promise<ActionResult> => {
+  let root: FileSystemDirectoryHandle;
+  try {
+    const name = to[to.length - 1];
+    if (!isValidName(name)) throw new FileActionError('invalidName', `Invalid name ${name}`);
+    root = await writableRoot(roots, rootId);
+    const sourceParent = await directoryAt(root, from.slice(0, -1));
+    const targetParent = await directoryAt(root, to.slice(0, -1));
+    const handle = await sourceParent.getDirectoryHandle(from[from.length - 1]);
+    if (await isTaken(targetParent, name, handle)) throw new FileActionError('exists', `${name} already exists`);
+    await moveEntry(handle, sourceParent, targetParent, name);
+  } catch (err) {
+    console.warn(`Could not move folder ${from.join('/')}:`, err);
+    return { videos: all, change: null, failures: [failureOf(err)] };
+  }
+
+  const prefix = [root.name, ...from].join('/') + '/';
+  const before: VideoFile[] = [];
+  const after: VideoFile[] = [];
+  const failures: FileActionFailure[] = [];
+  for (const video of all.filter(v => v.rootId === rootId && !v.url && v.relativePath.startsWith(prefix))) {
+    try {
+      const folders = [...to, ...locationOf(video).folders.slice(from.length)];
+      const moved = await relocatedEntry(video, root, { rootId, folders, name: video.name });
+      await moveStoredData(video, moved);
+      before.push(video);
+      after.push(moved);
+    } catch (err) {
+      console.warn(`Could not follow ${video.name} to its new folder:`, err);
+      failures.push(failureOf(err));
+    }
+  }
+  await persistVideos(after);
+  const updated = new Map(after.map(v => [v.id, v]));
+  let videos = all.map(v => updated.get(v.id) ?? v);
+  if (failures.length) {
+    try {
+      videos = (await rescanRoot(roots.find(r => r.id === rootId)!, videos)).videos;
+    } catch (err) {
+      console.warn(`Could not rescan after moving ${from.join('/')}:`, err);
+    }
+  }
+  return { videos, change: { before, after, folder: { rootId, from, to } }, failures };
+};
+
+// Puts everything a change moved back where it was
+export const undoChange = (change: FileChange, roots: StorageRoot[], all: VideoFile[]) => {
+  if (change.folder) {
+    const { rootId, from, to } = change.folder;
+    return moveFolder(rootId, to, from, roots, all);
+  }
+  const byId = new Map(all.map(v => [v.id, v]));
+  return relocateVideos(
+    change.after
+      .map((moved, i) => ({ video: byId.get(moved.id), to: locationOf(change.before[i]) }))
+      .filter((move): move is { video: VideoFile; to: FileLocation } => !!move.video),
+    roots,
+    all
+  );
+};
+
+// Deletes the files from disk and drops them from the library. Data kept
+// by identity stays, like it does for files a rescan no longer finds.
+export const deleteVideos = async (videos: VideoFile[], roots: StorageRoot[], all: VideoFile[]): Promise<ActionResult> => {
+  const deleted: VideoFile[] = [];
+  const failures: FileActionFailure[] = [];
+  for (const video of videos) {
+    try {
+      if (!video.url) {
+        const { rootId, folders, name } = locationOf(video);
+        const dir = await directoryAt(await writableRoot(roots, rootId), folders);
+        await dir.removeEntry(name);
+      }
+      deleted.push(video);
+    } catch (err) {
+      console.warn(`Could not delete ${video.name}:`, err);
+      failures.push(failureOf(err));
+    }
+  }
+  await forgetVideos(deleted);
+  const gone = new Set(deleted.map(v => v.id));
+  return { videos: all.filter(v => !gone.has(v.id)), change: null, failures };
+};
+
+export const deleteFolder = async (
+  rootId: string,
+  folders: string[],
+  roots: StorageRoot[],
+  all: VideoFile[]
+): Promise<ActionResult> => {
+  try {
+    const root = await writableRoot(roots, rootId);
+    const parent = await directoryAt(root, folders.slice(0, -1));
+    await parent.removeEntry(folders[folders.length - 1], { recursive: true });
+    const prefix = [root.name, ...folders].join('/') + '/';
+    const deleted = all.filter(v => v.rootId === rootId && !v.url && v.relativePath.startsWith(prefix));
+    await forgetVideos(deleted);
+    return { videos: all.filter(v => !deleted.includes(v)), change: null, failures: [] };
+  } catch (err) {
+    console.warn(`Could not delete folder ${folders.join('/')}:`, err);
+    return { videos: all, change: null, failures: [failureOf(err)] };
+  }
+};
+
+// Shares the file itself where the browser can, or a stream's link
+export const canShare = (video: VideoFile) => {
+  if (typeof navigator.share !== 'function') return false;
+  if (video.url) return true;
+  const file = getRegisteredFile(video.id);
+  return !!file && !!navigator.canShare?.({ files: [file] });
+};
+
+export const shareVideo = async (video: VideoFile) => {
+  const file = getRegisteredFile(video.id);
+  try {
+    await navigator.share(video.url ? { title: video.name, url: video.url } : { title: video.name, files: file ? [file] : [] });
+  } catch (err) {
+    if ((err as DOMException).name !== 'AbortError') console.error('Share failed:', err);
+  }
+};
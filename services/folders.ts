@@ -0,0 +1,67 @@
+import { VideoFile, StorageRoot } from '../types';
+import { naturalCompare } from './search';
+
+export interface FolderNode {
+  // The root's id followed by the folder's path inside it, so folders with
+  // the same name under different parents stay apart
+  key: string;
+  name: string;
+  root: StorageRoot;
+  folders: FolderNode[];
+  // Only the videos directly inside; `count` also includes the subfolders
+  videos: VideoFile[];
+  count: number;
+}
+
+const createNode = (key: string, name: string, root: StorageRoot): FolderNode =>
+  ({ key, name, root, folders: [], videos: [], count: 0 });
+
+// One tree per storage root, built from each video's relativePath. Its
+// first segment is the root's own directory, so the path below that is
+// what becomes folders.
+export const buildFolderTree = (videos: VideoFile[], roots: StorageRoot[]): FolderNode[] => {
+  const nodes = new Map<string, FolderNode>();
+  const tops = roots.map(root => {
+    const node = createNode(root.id, root.name, root);
+    nodes.set(node.key, node);
+    return node;
+  });
+
+  videos.forEach(video => {
+    let node = video.rootId ? nodes.get(video.rootId) : undefined;
+    if (!node) return;
+    node.count++;
+    // Network streams have a URL for a path and sit directly in their root
+    const folders = video.url ? [] : video.relativePath.split('/').slice(1, -1);
+    for (const segment of folders) {
+      const key = `${node.key}/${segment}`;
+      let child = nodes.get(key);
+      if (!child) {
+        child = createNode(key, segment, node.root);
+        nodes.set(key, child);
+        node.folders.push(child);
+      }
+      child.count++;
+      node = child;
+    }
+    node.videos.push(video);
+  });
+
+  nodes.forEach(node => node.folders.sort((a, b) => naturalCompare(a.name, b.name)));
+  return tops;
+};
+
+// The folders from the root down to `key`, or nothing if it no longer exists
+export const folderTrail = (tree: FolderNode[], key: string | null): FolderNode[] => {
+  if (key === null) return [];
+  for (const node of tree) {
+    if (node.key === key) return [node];
+    if (!key.startsWith(`${node.key}/`)) continue;
+    const rest = folderTrail(node.folders, key);
+    if (rest.length) return [node, ...rest];
+  }
+  return [];
+};
+
+export const videosUnder = (node: FolderNode): VideoFile[] =>
+  [...node.videos, ...node.folders.flatMap(videosUnder)];
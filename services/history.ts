@@ -0,0 +1,115 @@
+import { HistoryEvent, VideoFile } from '../types';
+import { STORES, idbClear, idbGetAll, idbPut } from './db';
+import { folderOf, videoIdentity } from './library';
+import { addPrivateHistory, clearPrivateHistory, privateHistory, recordsPrivately } from './vault';
+
+// The watch log behind the stats view. It never leaves the device except
+// through an export the user asks for, and nothing is recorded while the
+// trackHistory setting is off. Events for videos in the private folder are
+// kept in its encrypted store instead, and only count while it is unlocked.
+
+export const HISTORY_EXPORT_VERSION = 1;
+
+// Days shown in the activity chart, today included
+export const ACTIVITY_DAYS = 14;
+
+export interface FolderTotal {
+  folder: string;
+  seconds: number;
+}
+
+export interface HistorySummary {
+  totalSeconds: number;
+  sessions: number;
+  completions: number;
+  // Most watched first
+  folders: FolderTotal[];
+  // One entry per day, oldest first, each starting at local midnight
+  days: { start: number; seconds: number }[];
+}
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+// Network streams have a URL for a path and top-level files have no folder
+// in it, so both count under their root's name
+const folderLabel = (video: VideoFile) => (!video.url && folderOf(video)) || video.folderName;
+
+export const recordHistory = async (
+  video: VideoFile,
+  event: Pick<HistoryEvent, 'kind' | 'position' | 'from' | 'watched'>
+) => {
+  const record: HistoryEvent = {
+    id: createId(),
+    at: Date.now(),
+    identity: videoIdentity(video),
+    name: video.name,
+    folder: folderLabel(video),
+    ...event
+  };
+  if (recordsPrivately(video)) await addPrivateHistory(record);
+  else await idbPut(STORES.history, record.id, record);
+  return record;
+};
+
+// Oldest first
+export const loadHistory = async () =>
+  [...(await idbGetAll<HistoryEvent>(STORES.history)), ...privateHistory()].sort((a, b) => a.at - b.at);
+
+export const clearHistory = async () => {
+  await idbClear(STORES.history);
+  await clearPrivateHistory();
+};
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+// Watch time is counted when playback stops, on the day it stops
+export const summarizeHistory = (events: HistoryEvent[], now = Date.now()): HistorySummary => {
+  const folders = new Map<string, number>();
+  // Stepped by date rather than by 24 hours, which DST would throw off
+  const days = Array.from({ length: ACTIVITY_DAYS }, (_, i) => {
+    const date = new Date(startOfDay(now));
+    date.setDate(date.getDate() - (ACTIVITY_DAYS - 1 - i));
+    return { start: date.getTime(), seconds: 0 };
+  });
+  let totalSeconds = 0;
+  let sessions = 0;
+  let completions = 0;
+
+  for (const event of events) {
+    if (event.kind === 'start') sessions++;
+    if (event.kind === 'complete') completions++;
+    if (event.kind !== 'stop' || !event.watched) continue;
+    totalSeconds += event.watched;
+    folders.set(event.folder, (folders.get(event.folder) ?? 0) + event.watched);
+    const day = days.find(d => d.start === startOfDay(event.at));
+    if (day) day.seconds += event.watched;
+  }
+
+  return {
+    totalSeconds,
+    sessions,
+    completions,
+    folders: [...folders].map(([folder, seconds]) => ({ folder, seconds })).sort((a, b) => b.seconds - a.seconds),
+    days
+  };
+};
+
+const CSV_COLUMNS: (keyof HistoryEvent)[] = ['at', 'kind', 'name', 'folder', 'identity', 'position', 'from', 'watched'];
+
+const csvField = (value: unknown) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (events: HistoryEvent[]) => [
+  CSV_COLUMNS.join(','),
+  ...events.map(event => CSV_COLUMNS
+    .map(column => csvField(column === 'at' ? new Date(event.at).toISOString() : event[column]))
+    .join(','))
+].join('\r\n');
+
+export const historyToJson = (events: HistoryEvent[]) =>
+  JSON.stringify({ version: HISTORY_EXPORT_VERSION, exportedAt: new Date().toISOString(), events }, null, 2);
@@ -0,0 +1,70 @@
+import { Language } from '../types';
+import { CATALOGS, MessageKey, SOURCE_LANGUAGE } from '../locales';
+
+export type MessageParams = Record<string, string | number>;
+
+export interface I18n {
+  language: Language;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number) => string;
+  formatDate: (time: number) => string;
+  formatSize: (bytes: number) => string;
+  // Clock style, e.g. 1:05 or 1:02:05, with the locale's digits
+  formatDuration: (seconds: number) => string;
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const SIZE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte'];
+
+export const createI18n = (language: Language): I18n => {
+  const catalog = CATALOGS[language];
+  const plurals = new Intl.PluralRules(language);
+  const numbers = new Intl.NumberFormat(language);
+  const dates = new Intl.DateTimeFormat(language, { dateStyle: 'medium' });
+  const sizes = SIZE_UNITS.map((unit, i) => new Intl.NumberFormat(language, {
+    style: 'unit', unit, unitDisplay: 'short', maximumFractionDigits: i >= 2 ? 1 : 0
+  }));
+  const whole = new Intl.NumberFormat(language, { useGrouping: false });
+  const twoDigits = new Intl.NumberFormat(language, { minimumIntegerDigits: 2, useGrouping: false });
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = catalog[key] ?? CATALOGS[SOURCE_LANGUAGE][key];
+    const template = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+    return template.replace(PLACEHOLDER, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+
+  const formatSize = (bytes: number) => {
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < SIZE_UNITS.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return sizes[unit].format(value);
+  };
+
+  const formatDuration = (seconds: number) => {
+    const total = Number.isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0;
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    return h
+      ? `${whole.format(h)}:${twoDigits.format(m)}:${twoDigits.format(s)}`
+      : `${whole.format(m)}:${twoDigits.format(s)}`;
+  };
+
+  return {
+    language,
+    t,
+    formatNumber: (value) => numbers.format(value),
+    formatDate: (time) => dates.format(time),
+    formatSize,
+    formatDuration
+  };
+};
@@ -0,0 +1,70 @@
+import { KeyAction, Keymap } from '../types';
+
+export const DEFAULT_KEYMAP: Keymap = {
+  togglePlay: ['Space', 'k'],
+  seekBack5: ['ArrowLeft'],
+  seekForward5: ['ArrowRight'],
+  seekBack30: ['Shift+ArrowLeft', 'j'],
+  seekForward30: ['Shift+ArrowRight', 'l'],
+  volumeUp: ['ArrowUp'],
+  volumeDown: ['ArrowDown'],
+  toggleMute: ['m'],
+  speedDown: ['['],
+  speedUp: [']'],
+  cycleAspectRatio: ['a'],
+  toggleLock: ['Shift+L'],
+  toggleFullscreen: ['f'],
+  next: ['Shift+N'],
+  prev: ['Shift+P'],
+  frameForward: ['.'],
+  frameBack: [','],
+  screenshot: ['s'],
+  rotate: ['Shift+R'],
+  toggleSubtitles: ['c'],
+  abLoop: ['r'],
+  addBookmark: ['b'],
+  showShortcuts: ['?']
+};
+
+// Actions that still work while the touch lock is on
+export const LOCKED_ACTIONS: KeyAction[] = ['toggleLock', 'showShortcuts'];
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+// Turns a keydown into the combo notation used in keymaps. Shift is only
+// spelled out for letters and named keys; for symbols like "?" it is
+// already part of the key itself.
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const isSymbol = e.key.length === 1 && e.key.toLowerCase() === e.key.toUpperCase() && e.key !== ' ';
+  let key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  if (e.key.length === 1 && e.shiftKey && !isSymbol) key = key.toUpperCase();
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.metaKey) parts.push('Meta');
+  if (e.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+export const findAction = (keymap: Keymap, combo: string): KeyAction | null => {
+  const match = (Object.keys(keymap) as KeyAction[]).find(action => keymap[action].includes(combo));
+  return match ?? null;
+};
+
+// Binds `combo` to `action` as its only key, taking it away from any other action.
+export const rebind = (keymap: Keymap, action: KeyAction, combo: string): Keymap => {
+  const next = {} as Keymap;
+  (Object.keys(keymap) as KeyAction[]).forEach(a => {
+    next[a] = a === action ? [combo] : keymap[a].filter(c => c !== combo);
+  });
+  return next;
+};
+
+// Key events aimed at text fields belong to the field, not the player.
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type);
+};
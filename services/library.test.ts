@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { StaticServer, serveFixtures, unreachableUrl } from './__fixtures__/staticServer';
+import { ROOT_FOLDER_NAME, detectStreamKind, importFileList, isStreamUrl, streamName } from './library';
+
+// The library is only written, never read back, by what is tested here
+vi.mock('./db', async importOriginal => ({
+  ...(await importOriginal<typeof import('./db')>()),
+  idbPut: vi.fn(async () => {}),
+  idbPutMany: vi.fn(async () => {}),
+  idbDeleteMany: vi.fn(async () => {})
+}));
+
+let server: StaticServer;
+
+beforeAll(async () => {
+  server = await serveFixtures({
+    '/watch/hls': { file: 'master.m3u8', type: 'application/x-mpegURL' },
+    '/watch/dash': { file: 'dash/manifest.mpd', type: 'application/dash+xml; charset=utf-8' },
+    '/download/hls': { file: 'master.m3u8', type: 'application/octet-stream' },
+    '/download/dash': { file: 'dash/manifest.mpd', type: 'text/plain' },
+    '/download/movie': { file: 'clip.mp4', type: 'application/octet-stream' }
+  });
+});
+
+afterAll(() => server.close());
+
+describe('detectStreamKind', () => {
+  it('goes by the extension without fetching anything', async () => {
+    const before = server.requests.length;
+    expect(await detectStreamKind(`${server.url}/master.m3u8`)).toBe('hls');
+    expect(await detectStreamKind(`${server.url}/dash/manifest.mpd?token=1`)).toBe('dash');
+    expect(await detectStreamKind(`${server.url}/VIDEO/MASTER.M3U8`)).toBe('hls');
+    expect(server.requests.length).toBe(before);
+  });
+
+  it('goes by the type the server sends', async () => {
+    expect(await detectStreamKind(`${server.url}/watch/hls`)).toBe('hls');
+    expect(await detectStreamKind(`${server.url}/watch/dash`)).toBe('dash');
+  });
+
+  it('goes by the first bytes when the type says nothing', async () => {
+    expect(await detectStreamKind(`${server.url}/download/hls`)).toBe('hls');
+    expect(await detectStreamKind(`${server.url}/download/dash`)).toBe('dash');
+  });
+
+  it('only asks for the first bytes', async () => {
+    await detectStreamKind(`${server.url}/download/movie`);
+    expect(server.requests.at(-1)).toMatchObject({ path: '/download/movie', headers: { range: 'bytes=0-511' } });
+  });
+
+  it('plays direct files as they are', async () => {
+    expect(await detectStreamKind(`${server.url}/clip.mp4`)).toBeUndefined();
+    expect(await detectStreamKind(`${server.url}/download/movie`)).toBeUndefined();
+  });
+
+  it('plays URLs it cannot read as direct files', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await detectStreamKind(`${server.url}/gone`)).toBeUndefined();
+    expect(await detectStreamKind(`${await unreachableUrl()}/movie.mp4`)).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('isStreamUrl', () => {
+  it('takes http and https URLs only', () => {
+    expect(isStreamUrl('https://example.com/a.m3u8')).toBe(true);
+    expect(isStreamUrl('http://192.168.1.5:8000/movie.mp4')).toBe(true);
+    expect(isStreamUrl('ftp://example.com/a.mp4')).toBe(false);
+    expect(isStreamUrl('example.com/a.mp4')).toBe(false);
+  });
+});
+
+describe('streamName', () => {
+  it('names a stream after the last part of its path', () => {
+    expect(streamName('https://example.com/shows/Episode%203.mp4?t=1')).toBe('Episode 3.mp4');
+    expect(streamName('https://example.com/live/')).toBe('live');
+  });
+
+  it('falls back to the host', () => {
+    expect(streamName('https://example.com:8443/')).toBe('example.com:8443');
+  });
+
+  it('keeps a part with a stray % as it is', () => {
+    expect(streamName('https://example.com/100%25%.mp4')).toBe('100%25%.mp4');
+  });
+});
+
+// A picked file, as <input type="file"> hands it over; files picked as a
+// folder carry their path
+const picked = (name: string, folderPath?: string) => {
+  const file = new File(['x'], name, { type: 'video/mp4', lastModified: 1 });
+  if (folderPath) Object.defineProperty(file, 'webkitRelativePath', { value: `${folderPath}/${name}` });
+  return file;
+};
+
+describe('importFileList', () => {
+  it('adds single files to what earlier picks brought in', async () => {
+    const first = await importFileList([picked('a.mp4'), picked('b.mp4')], [], []);
+    expect(first?.root.name).toBe(ROOT_FOLDER_NAME);
+    const second = await importFileList([picked('c.mp4'), picked('a.mp4')], [first!.root], first!.videos);
+    expect(second?.root.id).toBe(first?.root.id);
+    expect(second?.videos.map(v => v.name).sort()).toEqual(['a.mp4', 'b.mp4', 'c.mp4']);
+    expect(second).toMatchObject({ added: 1, removed: 0 });
+    // The same file picked again keeps its entry
+    const id = (videos: { name: string; id: string }[]) => videos.find(v => v.name === 'a.mp4')?.id;
+    expect(id(second!.videos)).toBe(id(first!.videos));
+  });
+
+  it('replaces a folder picked again with what it holds now', async () => {
+    const first = await importFileList([picked('1.mp4', 'Shows'), picked('2.mp4', 'Shows')], [], []);
+    expect(first?.root.name).toBe('Shows');
+    const second = await importFileList([picked('2.mp4', 'Shows'), picked('3.mp4', 'Shows')], [first!.root], first!.videos);
+    expect(second?.videos.map(v => v.name).sort()).toEqual(['2.mp4', '3.mp4']);
+    expect(second).toMatchObject({ added: 1, removed: 1 });
+  });
+
+  it('leaves other roots alone', async () => {
+    const folder = await importFileList([picked('1.mp4', 'Shows')], [], []);
+    const loose = await importFileList([picked('a.mp4')], [folder!.root], folder!.videos);
+    expect(loose?.videos.map(v => v.relativePath).sort()).toEqual(['Shows/1.mp4', 'a.mp4']);
+  });
+});
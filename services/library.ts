@@ -0,0 +1,404 @@
+import { VideoFile, StorageRoot, StreamKind } from '../types';
+import { STORES, idbGetAll, idbPut, idbPutMany, idbDelete, idbDeleteMany } from './db';
+import { registerFile, unregisterFile } from './objectUrls';
+import { isSubtitleFile, matchSubtitles } from './subtitles';
+import { formatSize } from '../utils/format';
+
+// folderName of files picked at the top level. It is stored with the
+// library, so it stays in English and is translated when displayed.
+export const ROOT_FOLDER_NAME = 'Internal Storage';
+
+// The root network streams are listed under, named the same way
+export const NETWORK_ROOT_ID = 'network';
+export const NETWORK_ROOT_NAME = 'Network';
+
+export interface ScannedFile {
+  file: File;
+  relativePath: string;
+}
+
+export interface ReconcileResult {
+  videos: VideoFile[];
+  added: number;
+  removed: number;
+  // Files left out because another root already has them
+  duplicates: number;
+}
+
+export interface ImportResult extends ReconcileResult {
+  root: StorageRoot;
+}
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+// Identity that survives reloads and re-imports, unlike the random `id`.
+export const videoIdentity = (video: Pick<VideoFile, 'relativePath' | 'bytes' | 'lastModified'>) =>
+  `${video.relativePath}|${video.bytes}|${video.lastModified}`;
+
+// The directory part of the path, root folder included
+export const folderOf = (video: Pick<VideoFile, 'relativePath'>) => video.relativePath.split('/').slice(0, -1).join('/');
+
+// The directory a file sits in, or ROOT_FOLDER_NAME for single files
+export const folderNameOf = (relativePath: string) => {
+  const pathParts = relativePath.split('/');
+  return pathParts.length > 1 ? pathParts[pathParts.length - 2] : ROOT_FOLDER_NAME;
+};
+
+// The same file reached through two roots, e.g. one root inside another.
+// Its path differs between them, so only the name, size and date count.
+const contentKey = (video: Pick<VideoFile, 'name' | 'bytes' | 'lastModified'>) =>
+  `${video.name}|${video.bytes}|${video.lastModified}`;
+
+// The directory a relativePath starts with; single files picked on their
+// own have none.
+const topFolder = (relativePath: string) =>
+  relativePath.includes('/') ? relativePath.split('/')[0] : ROOT_FOLDER_NAME;
+
+const createRoot = (name: string, handle?: FileSystemDirectoryHandle): StorageRoot => handle
+  ? { id: createId(), name, handle, addedAt: Date.now() }
+  : { id: createId(), name, folder: name, addedAt: Date.now() };
+
+// Browsers give these no MIME type, so without a guess they would be
+// dropped on import. services/probe checks what they really contain.
+const UNTYPED_MEDIA_TYPES: Record<string, string> = {
+  mkv: 'video/x-matroska',
+  mka: 'audio/x-matroska',
+  ts: 'video/mp2t',
+  m2ts: 'video/mp2t',
+  mts: 'video/mp2t'
+};
+
+export const mediaType = (file: Pick<File, 'name' | 'type'>) => {
+  if (file.type && file.type !== 'application/octet-stream') return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return UNTYPED_MEDIA_TYPES[extension] ?? file.type;
+};
+
+export const isVideoFile = (file: Pick<File, 'name' | 'type'>) => mediaType(file).startsWith('video/');
+
+// Music and podcasts are listed with the videos and play in audio-only mode
+export const isAudioFile = (file: Pick<File, 'name' | 'type'>) => mediaType(file).startsWith('audio/');
+
+const isPlayableFile = (file: File) => isVideoFile(file) || isAudioFile(file);
+
+export const supportsDirectoryPicker = () => typeof window.showDirectoryPicker === 'function';
+
+const toVideoFile = ({ file, relativePath }: ScannedFile, rootId: string): VideoFile => ({
+  id: createId(),
+  name: file.name,
+  size: formatSize(file.size),
+  bytes: file.size,
+  url: '',
+  type: mediaType(file),
+  lastModified: file.lastModified,
+  folderName: folderNameOf(relativePath),
+  relativePath,
+  rootId
+});
+
+// Thumbnails live in their own store keyed by identity, so they are left
+// out of the video records.
+export const persistVideos = (videos: VideoFile[]) =>
+  idbPutMany(STORES.videos, videos.map(({ thumbnail, ...v }) => [v.id, v] as [string, VideoFile]));
+
+export const forgetVideos = (videos: VideoFile[]) => {
+  videos.forEach(v => unregisterFile(v.id));
+  return idbDeleteMany(STORES.videos, videos.map(v => v.id));
+};
+
+const isMediaFile = (file: File) => isPlayableFile(file) || isSubtitleFile(file);
+
+// While the private folder is locked, hidden files aren't loaded and a
+// scan can't tell them from new ones, so files it hasn't seen before are
+// left out until the next scan after unlocking. Set by services/vault.
+let holdNewFiles = false;
+
+export const setHoldNewFiles = (hold: boolean) => {
+  holdNewFiles = hold;
+};
+
+// Matches freshly scanned files against what we already know, keeping the
+// ids of files that are still there so anything keyed by id keeps working.
+// Files whose content key is in `claimed` belong to another root already.
+const reconcile = (scanned: ScannedFile[], previous: VideoFile[], rootId: string, claimed: Set<string>) => {
+  const subtitles = scanned.filter(entry => isSubtitleFile(entry.file));
+  const byIdentity = new Map(previous.map(v => [videoIdentity(v), v]));
+  const seen = new Set<string>();
+  const videos: VideoFile[] = [];
+  let added = 0;
+  let duplicates = 0;
+
+  scanned.filter(entry => isPlayableFile(entry.file)).forEach(entry => {
+    const fresh = toVideoFile(entry, rootId);
+    const key = videoIdentity(fresh);
+    if (seen.has(key)) return;
+    if (claimed.has(contentKey(fresh))) {
+      duplicates++;
+      return;
+    }
+    const known = byIdentity.get(key);
+    if (!known && holdNewFiles) return;
+    seen.add(key);
+    const video = known ? { ...known, ...fresh, id: known.id } : fresh;
+    if (!known) added++;
+    registerFile(video.id, entry.file);
+    videos.push(video);
+  });
+
+  matchSubtitles(videos, subtitles);
+  const removed = previous.filter(v => !seen.has(videoIdentity(v)));
+  return { videos, added, removed, duplicates };
+};
+
+// Replaces the entries of `root` in `all` with what was just read from it.
+// With `merge`, entries that weren't read stay instead of being removed.
+const replaceRootVideos = async (
+  root: StorageRoot,
+  scanned: ScannedFile[],
+  all: VideoFile[],
+  merge = false
+): Promise<ReconcileResult> => {
+  const others = all.filter(v => v.rootId !== root.id);
+  const previous = all.filter(v => v.rootId === root.id);
+  const local = others.filter(v => !v.url);
+  const result = reconcile(scanned, previous, root.id, new Set(local.map(contentKey)));
+  const kept = merge ? result.removed : [];
+  if (!merge) await forgetVideos(result.removed);
+  await persistVideos(result.videos);
+  return {
+    videos: [...others, ...kept, ...result.videos],
+    added: result.added,
+    removed: merge ? 0 : result.removed.length,
+    duplicates: result.duplicates
+  };
+};
+
+// Renaming and deleting need `readwrite`, which is asked for separately
+// so browsing a root never prompts for more than reading it.
+export const verifyPermission = async (
+  handle: FileSystemDirectoryHandle,
+  request = false,
+  mode: FileSystemPermissionMode = 'read'
+) => {
+  const descriptor = { mode };
+  if ((await handle.queryPermission(descriptor)) === 'granted') return true;
+  if (!request) return false;
+  return (await handle.requestPermission(descriptor)) === 'granted';
+};
+
+const scanDirectory = async (
+  handle: FileSystemDirectoryHandle,
+  prefix = handle.name,
+  out: ScannedFile[] = []
+): Promise<ScannedFile[]> => {
+  for await (const entry of handle.values()) {
+    const path = `${prefix}/${entry.name}`;
+    if (entry.kind === 'directory') {
+      await scanDirectory(entry as FileSystemDirectoryHandle, path, out);
+    } else {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      if (isMediaFile(file)) out.push({ file, relativePath: path });
+    }
+  }
+  return out;
+};
+
+// Imports made before every file belonged to a root were kept loose. They
+// get a root per top-level folder, as if they had been imported now.
+const adoptLooseVideos = async (videos: VideoFile[], roots: StorageRoot[]) => {
+  if (videos.every(v => v.rootId)) return { videos, roots };
+  const created = new Map<string, StorageRoot>();
+  const adopted: VideoFile[] = [];
+  const result = videos.map(video => {
+    if (video.rootId) return video;
+    const folder = topFolder(video.relativePath);
+    let root = created.get(folder) ?? roots.find(r => !r.handle && r.folder === folder);
+    if (!root) {
+      root = createRoot(folder);
+      created.set(folder, root);
+    }
+    const updated = { ...video, rootId: root.id };
+    adopted.push(updated);
+    return updated;
+  });
+  await idbPutMany(STORES.roots, [...created.values()].map(r => [r.id, r] as [string, StorageRoot]));
+  await persistVideos(adopted);
+  return { videos: result, roots: [...roots, ...created.values()] };
+};
+
+export const loadLibrary = async () => {
+  const [videos, roots] = await Promise.all([
+    idbGetAll<VideoFile>(STORES.videos),
+    idbGetAll<StorageRoot>(STORES.roots)
+  ]);
+  roots.sort((a, b) => a.addedAt - b.addedAt);
+  return adoptLooseVideos(videos, roots);
+};
+
+// Re-reads a storage root from disk and replaces its entries in `all`.
+export const rescanRoot = async (root: StorageRoot, all: VideoFile[]): Promise<ReconcileResult> => {
+  if (!root.handle) return { videos: all, added: 0, removed: 0, duplicates: 0 };
+  return replaceRootVideos(root, await scanDirectory(root.handle), all);
+};
+
+// Rescans every root in `roots` we have access to, one after another so
+// each one sees what the earlier ones already claimed. `request` asks for
+// access where it was lost, which needs a user gesture.
+export const rescanRoots = async (roots: StorageRoot[], all: VideoFile[], request = false) => {
+  let result: ReconcileResult = { videos: all, added: 0, removed: 0, duplicates: 0 };
+  const pending: string[] = [];
+  for (const root of roots) {
+    if (!root.handle) continue;
+    if (!(await verifyPermission(root.handle, request))) {
+      pending.push(root.id);
+      continue;
+    }
+    const next = await rescanRoot(root, result.videos);
+    result = {
+      videos: next.videos,
+      added: result.added + next.added,
+      removed: result.removed + next.removed,
+      duplicates: result.duplicates + next.duplicates
+    };
+  }
+  return { ...result, pending };
+};
+
+export const renameStorageRoot = async (root: StorageRoot, name: string) => {
+  const renamed = { ...root, name };
+  await idbPut(STORES.roots, root.id, renamed);
+  return renamed;
+};
+
+// Forgets the root and its entries; the files themselves are untouched.
+// Copies that were left out as duplicates of its files come back with the
+// next rescan of the root that has them.
+export const removeStorageRoot = async (root: StorageRoot, all: VideoFile[]) => {
+  await forgetVideos(all.filter(v => v.rootId === root.id));
+  await idbDelete(STORES.roots, root.id);
+  return all.filter(v => v.rootId !== root.id);
+};
+
+// Picking a directory that is already a root gives back that root
+export const pickStorageRoot = async (roots: StorageRoot[]): Promise<StorageRoot | null> => {
+  if (!window.showDirectoryPicker) return null;
+  try {
+    const handle = await window.showDirectoryPicker({ id: 'v-player-storage', mode: 'read', startIn: 'videos' });
+    for (const root of roots) {
+      if (root.handle && (await root.handle.isSameEntry(handle))) return root;
+    }
+    const root = createRoot(handle.name, handle);
+    await idbPut(STORES.roots, root.id, root);
+    return root;
+  } catch (err) {
+    if ((err as DOMException).name !== 'AbortError') console.error('Directory picker failed:', err);
+    return null;
+  }
+};
+
+// Fallback for browsers without the directory picker: `<input webkitdirectory>`
+// gives us Files but no handle, so these roots can only be re-linked or
+// rescanned by importing the same folder again.
+export const importFileList = async (
+  files: File[],
+  roots: StorageRoot[],
+  all: VideoFile[]
+): Promise<ImportResult | null> => {
+  const scanned = files
+    .filter(isMediaFile)
+    .map(file => ({ file, relativePath: file.webkitRelativePath || file.name }));
+  if (!scanned.length) return null;
+  const folder = topFolder(scanned[0].relativePath);
+  let root = roots.find(r => !r.handle && r.folder === folder);
+  if (!root) {
+    root = createRoot(folder);
+    await idbPut(STORES.roots, root.id, root);
+  }
+  // Single files are picked a few at a time, so each pick adds to their
+  // root instead of replacing what earlier picks brought in
+  return { root, ...(await replaceRootVideos(root, scanned, all, folder === ROOT_FOLDER_NAME)) };
+};
+
+// --- Network streams ---
+
+const MANIFEST_EXTENSIONS: Record<string, StreamKind> = { m3u8: 'hls', mpd: 'dash' };
+const SNIFF_BYTES = 512;
+
+export const isStreamUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// HLS and DASH manifests go by their extension, or failing that by their
+// type or first bytes. Anything else, including URLs that can't be read
+// from here, is played as a plain file.
+export const detectStreamKind = async (url: string): Promise<StreamKind | undefined> => {
+  const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() ?? '';
+  if (MANIFEST_EXTENSIONS[extension]) return MANIFEST_EXTENSIONS[extension];
+  try {
+    const response = await fetch(url, { headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` } });
+    const type = response.headers.get('content-type') ?? '';
+    if (/mpegurl/i.test(type)) return 'hls';
+    if (/dash\+xml/i.test(type)) return 'dash';
+    // Servers that ignore the range would send the whole file
+    const reader = response.body?.getReader();
+    const first = await reader?.read();
+    reader?.cancel().catch(() => {});
+    const head = new TextDecoder().decode(first?.value?.slice(0, SNIFF_BYTES)).trimStart();
+    if (head.startsWith('#EXTM3U')) return 'hls';
+    if (/<MPD[\s>]/.test(head)) return 'dash';
+  } catch (err) {
+    console.warn('Could not look at the stream:', err);
+  }
+  return undefined;
+};
+
+// Last part of the path, or the host for URLs that have none. A stray
+// "%" leaves the part as it is.
+export const streamName = (url: string) => {
+  const { pathname, host } = new URL(url);
+  const last = pathname.split('/').filter(Boolean).pop();
+  if (!last) return host;
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+};
+
+// Streams keep their URL as the relativePath, so watch progress and
+// playlists find them by it. Adding a URL that is already there returns
+// the existing entry.
+export const addNetworkStream = async (
+  url: string,
+  name: string,
+  kind: StreamKind | undefined,
+  roots: StorageRoot[],
+  all: VideoFile[]
+) => {
+  const root = roots.find(r => r.id === NETWORK_ROOT_ID)
+    ?? { id: NETWORK_ROOT_ID, name: NETWORK_ROOT_NAME, addedAt: Date.now() };
+  if (!roots.includes(root)) await idbPut(STORES.roots, root.id, root);
+  const existing = all.find(v => v.rootId === NETWORK_ROOT_ID && v.url === url);
+  if (existing) return { root, video: existing, videos: all };
+
+  const video: VideoFile = {
+    id: createId(),
+    name: name || streamName(url),
+    size: '',
+    bytes: 0,
+    url,
+    type: kind === 'hls' ? 'application/vnd.apple.mpegurl' : kind === 'dash' ? 'application/dash+xml' : mediaType({ name: new URL(url).pathname, type: '' }),
+    // When it was added, which is what sorting by date goes by
+    lastModified: Date.now(),
+    folderName: NETWORK_ROOT_NAME,
+    relativePath: url,
+    rootId: NETWORK_ROOT_ID,
+    stream: kind
+  };
+  await persistVideos([video]);
+  return { root, video, videos: [...all, video] };
+};
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Window } from 'happy-dom';
+import { StaticServer, serveFixtures, unreachableUrl } from './__fixtures__/staticServer';
+import { StreamError, fetchRange, listedDuration, loadPresentation, prepareRepresentation } from './manifest';
+
+let server: StaticServer;
+
+beforeAll(async () => {
+  // MPDs are read with the browser's XML parser
+  vi.stubGlobal('DOMParser', new Window().DOMParser);
+  server = await serveFixtures();
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await server.close();
+});
+
+const failure = (promise: Promise<unknown>) =>
+  promise.then(() => null, (err: unknown) => (err instanceof StreamError ? err.failure : err));
+
+describe('fetchRange', () => {
+  it('reads the range asked for', async () => {
+    const bytes = new Uint8Array(await fetchRange(`${server.url}/clip.mp4`, { start: 4, end: 8 }));
+    expect(new TextDecoder().decode(bytes)).toBe('ftyp');
+  });
+
+  it('reads the whole file without a range', async () => {
+    expect((await fetchRange(`${server.url}/clip.mp4`, undefined)).byteLength).toBe(2048);
+  });
+
+  it('fails as a network error when the server says no or is not there', async () => {
+    expect(await failure(fetchRange(`${server.url}/missing.mp4`, undefined))).toBe('network');
+    expect(await failure(fetchRange(`${await unreachableUrl()}/clip.mp4`, undefined))).toBe('network');
+  });
+});
+
+describe('HLS', () => {
+  it('reads the variants of a master playlist, with the default audio on its own', async () => {
+    const { duration, tracks } = await loadPresentation(`${server.url}/master.m3u8`, 'hls');
+    expect(duration).toBe(0);
+    expect(tracks.map(track => track.kind)).toEqual(['video', 'audio']);
+    expect(tracks[0].representations).toEqual([
+      expect.objectContaining({
+        bandwidth: 800000, width: 640, height: 360, mimeType: 'video/mp4', codecs: 'avc1.4d401e',
+        playlistUrl: `${server.url}/video/360p.m3u8`
+      }),
+      expect.objectContaining({ bandwidth: 2400000, width: 1280, height: 720, codecs: 'avc1.4d401f' })
+    ]);
+    expect(tracks[1].representations[0]).toMatchObject({
+      mimeType: 'audio/mp4', codecs: 'mp4a.40.2', playlistUrl: `${server.url}/audio/en.m3u8`
+    });
+  });
+
+  it('lists the segments of a variant when it is first used', async () => {
+    const { tracks } = await loadPresentation(`${server.url}/master.m3u8`, 'hls');
+    const rep = await prepareRepresentation(tracks[0].representations[0]);
+    expect(rep.init).toEqual({ url: `${server.url}/video/init-360p.mp4`, range: undefined });
+    expect(rep.segments?.map(segment => [segment.url, segment.start, segment.duration])).toEqual([
+      [`${server.url}/video/360p-1.m4s`, 0, 4],
+      [`${server.url}/video/360p-2.m4s`, 4, 4],
+      [`${server.url}/video/360p-3.m4s`, 8, 2.5]
+    ]);
+    expect(listedDuration(rep)).toBe(10.5);
+  });
+
+  it('follows byte ranges within a single file', async () => {
+    const { tracks } = await loadPresentation(`${server.url}/master.m3u8`, 'hls');
+    const rep = await prepareRepresentation(tracks[0].representations[1]);
+    expect(rep.init).toEqual({ url: `${server.url}/video/720p.mp4`, range: { start: 0, end: 800 } });
+    expect(rep.segments?.map(segment => segment.range)).toEqual([
+      { start: 800, end: 50800 },
+      { start: 50800, end: 90800 }
+    ]);
+  });
+
+  it('opens a media playlist as a single quality', async () => {
+    const { tracks } = await loadPresentation(`${server.url}/video/360p.m3u8`, 'hls');
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0].representations[0].playlistUrl).toBe(`${server.url}/video/360p.m3u8`);
+  });
+
+  it('turns down live playlists and what is not a playlist', async () => {
+    const { tracks } = await loadPresentation(`${server.url}/live.m3u8`, 'hls');
+    expect(await failure(prepareRepresentation(tracks[0].representations[0]))).toBe('live');
+    expect(await failure(loadPresentation(`${server.url}/clip.mp4`, 'hls'))).toBe('manifest');
+  });
+});
+
+describe('DASH', () => {
+  it('reads the first video and audio sets and leaves subtitles out', async () => {
+    const { duration, tracks } = await loadPresentation(`${server.url}/dash/manifest.mpd`, 'dash');
+    expect(duration).toBe(10.5);
+    expect(tracks.map(track => track.kind)).toEqual(['video', 'audio']);
+    expect(tracks[0].representations.map(rep => [rep.id, rep.bandwidth, rep.width, rep.height, rep.codecs])).toEqual([
+      ['360p', 800000, 640, 360, 'avc1.4d401e'],
+      ['720p', 2400000, 1280, 720, 'avc1.4d401f']
+    ]);
+  });
+
+  it('fills in segment templates from the timeline', async () => {
+    const { tracks } = await loadPresentation(`${server.url}/dash/manifest.mpd`, 'dash');
+    const rep = tracks[0].representations[1];
+    expect(rep.init).toEqual({ url: `${server.url}/dash/720p/init.mp4` });
+    expect(rep.segments?.map(segment => [segment.url, segment.start, segment.duration])).toEqual([
+      [`${server.url}/dash/720p/001.m4s`, 0, 4],
+      [`${server.url}/dash/720p/002.m4s`, 4, 4],
+      [`${server.url}/dash/720p/003.m4s`, 8, 2.5]
+    ]);
+  });
+
+  it('fills in segment templates from a fixed duration', async () => {
+    const { tracks } = await loadPresentation(`${server.url}/dash/manifest.mpd`, 'dash');
+    const rep = await prepareRepresentation(tracks[1].representations[0]);
+    expect(rep.segments?.map(segment => [segment.url, segment.start])).toEqual([
+      [`${server.url}/dash/audio/1.m4s`, 0],
+      [`${server.url}/dash/audio/2.m4s`, 4],
+      [`${server.url}/dash/audio/3.m4s`, 8]
+    ]);
+  });
+
+  it('turns down what is not an MPD', async () => {
+    expect(await failure(loadPresentation(`${server.url}/master.m3u8`, 'dash'))).toBe('manifest');
+  });
+});
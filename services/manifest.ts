@@ -0,0 +1,433 @@
+import { StreamKind } from '../types';
+import { MessageKey } from '../locales';
+import { probeMedia } from './probe';
+import { readBoxes, readSidx } from '../utils/containers';
+
+// Why a stream can't go through the adaptive engine. Some of these still
+// play where the browser handles HLS itself.
+export type StreamFailure = 'manifest' | 'live' | 'encrypted' | 'segments' | 'codecs' | 'network';
+
+export class StreamError extends Error {
+  constructor(readonly failure: StreamFailure, message: string) {
+    super(message);
+  }
+}
+
+const FAILURE_MESSAGES: Record<StreamFailure, MessageKey> = {
+  manifest: 'stream.manifest',
+  live: 'stream.live',
+  encrypted: 'stream.encrypted',
+  segments: 'stream.segments',
+  codecs: 'stream.codecs',
+  network: 'stream.network'
+};
+
+export const streamFailureMessage = (failure: StreamFailure) => FAILURE_MESSAGES[failure];
+
+// Half-open, in bytes from the start of the resource
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface SegmentRef {
+  url: string;
+  range?: ByteRange;
+  start: number;
+  duration: number;
+}
+
+export interface Representation {
+  id: string;
+  // Bits per second as the manifest announces it; 0 when it doesn't
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  // MSE type; the codecs are read from the init segment when the manifest
+  // leaves them out
+  mimeType: string;
+  codecs?: string;
+  init?: { url: string; range?: ByteRange };
+  // Filled in when the representation is first used: HLS keeps them in
+  // a playlist of their own and on-demand DASH in the file's sidx box
+  segments: SegmentRef[] | null;
+  playlistUrl?: string;
+  index?: { url: string; range: ByteRange };
+}
+
+export interface MediaTrack {
+  // 'video' tracks may carry the audio too, as HLS variants usually do
+  kind: 'video' | 'audio';
+  representations: Representation[];
+}
+
+export interface Presentation {
+  // 0 until a playlist has been read, for HLS
+  duration: number;
+  tracks: MediaTrack[];
+}
+
+export const fetchRange = async (url: string, range: ByteRange | undefined, signal?: AbortSignal) => {
+  const headers: HeadersInit = range ? { Range: `bytes=${range.start}-${range.end - 1}` } : {};
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal });
+  } catch (err) {
+    if ((err as DOMException).name === 'AbortError') throw err;
+    throw new StreamError('network', `Could not reach ${url}`);
+  }
+  if (!response.ok) throw new StreamError('network', `${url} answered ${response.status}`);
+  return response.arrayBuffer();
+};
+
+const fetchText = async (url: string, signal?: AbortSignal) =>
+  new TextDecoder().decode(await fetchRange(url, undefined, signal));
+
+const resolve = (path: string, base: string) => new URL(path, base).href;
+
+// --- HLS ---
+
+const ATTRIBUTE = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+
+const parseAttributes = (text: string) => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of text.matchAll(ATTRIBUTE)) attributes[name] = value.replace(/^"|"$/g, '');
+  return attributes;
+};
+
+// "length@offset"; without an offset the range follows the previous one
+const parseByteRange = (value: string, previousEnd: number): ByteRange => {
+  const [length, offset] = value.split('@').map(Number);
+  const start = offset ?? previousEnd;
+  return { start, end: start + length };
+};
+
+const playlistLines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+const AUDIO_CODECS = /^(mp4a|ac-3|ec-3|opus|flac|alac|\.mp3)/i;
+
+const splitCodecs = (codecs: string | undefined) => {
+  const list = codecs ? codecs.split(',').map(codec => codec.trim()).filter(Boolean) : [];
+  return { video: list.filter(codec => !AUDIO_CODECS.test(codec)), audio: list.filter(codec => AUDIO_CODECS.test(codec)) };
+};
+
+const parseHlsMaster = (text: string, url: string): Presentation => {
+  const variants: { attributes: Record<string, string>; uri: string }[] = [];
+  const audioRenditions = new Map<string, Record<string, string>[]>();
+  let pending: Record<string, string> | null = null;
+
+  for (const line of playlistLines(text)) {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      pending = parseAttributes(line.slice(line.indexOf(':') + 1));
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const media = parseAttributes(line.slice(line.indexOf(':') + 1));
+      if (media.TYPE !== 'AUDIO' || !media.URI) continue;
+      audioRenditions.set(media['GROUP-ID'], [...(audioRenditions.get(media['GROUP-ID']) ?? []), media]);
+    } else if (!line.startsWith('#') && pending) {
+      variants.push({ attributes: pending, uri: resolve(line, url) });
+      pending = null;
+    }
+  }
+  if (!variants.length) throw new StreamError('manifest', 'The playlist lists no variants');
+
+  // Audio in its own playlist goes to a track of its own. Renditions are
+  // languages rather than qualities, so only the default one is used.
+  const group = audioRenditions.get(variants[0].attributes.AUDIO ?? '');
+  const rendition = group && (group.find(media => media.DEFAULT === 'YES') ?? group[0]);
+  const separateAudio = !!rendition;
+  const audioCodecs = splitCodecs(variants[0].attributes.CODECS).audio;
+
+  const representations = variants.map(({ attributes, uri }, i): Representation => {
+    const codecs = splitCodecs(attributes.CODECS);
+    const [width, height] = (attributes.RESOLUTION ?? '').split('x').map(Number);
+    const audioOnly = !codecs.video.length && codecs.audio.length > 0;
+    const own = separateAudio ? codecs.video : [...codecs.video, ...codecs.audio];
+    return {
+      id: String(i),
+      bandwidth: Number(attributes.BANDWIDTH) || 0,
+      width: width || undefined,
+      height: height || undefined,
+      mimeType: audioOnly ? 'audio/mp4' : 'video/mp4',
+      codecs: own.length ? own.join(',') : undefined,
+      segments: null,
+      playlistUrl: uri
+    };
+  });
+
+  const tracks: MediaTrack[] = [{ kind: representations[0].mimeType.startsWith('audio') ? 'audio' : 'video', representations }];
+  if (rendition) {
+    tracks.push({
+      kind: 'audio',
+      representations: [{
+        id: 'audio',
+        bandwidth: 0,
+        mimeType: 'audio/mp4',
+        codecs: audioCodecs.length ? audioCodecs.join(',') : undefined,
+        segments: null,
+        playlistUrl: resolve(rendition.URI, url)
+      }]
+    });
+  }
+  return { duration: 0, tracks };
+};
+
+// Segments of an HLS media playlist. Only finished playlists of fragmented
+// MP4 segments can go through MSE; MPEG-TS segments would need transmuxing.
+export const parseHlsMedia = (text: string, url: string) => {
+  const segments: SegmentRef[] = [];
+  let init: Representation['init'];
+  let time = 0;
+  let duration = 0;
+  let range: ByteRange | undefined;
+  let previousEnd = 0;
+  let ended = false;
+
+  for (const line of playlistLines(text)) {
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice(8));
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      range = parseByteRange(line.slice(17), previousEnd);
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const map = parseAttributes(line.slice(11));
+      init = { url: resolve(map.URI, url), range: map.BYTERANGE ? parseByteRange(map.BYTERANGE, 0) : undefined };
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      if (parseAttributes(line.slice(11)).METHOD !== 'NONE') throw new StreamError('encrypted', 'The stream is encrypted');
+    } else if (line === '#EXT-X-ENDLIST') {
+      ended = true;
+    } else if (!line.startsWith('#')) {
+      segments.push({ url: resolve(line, url), range, start: time, duration });
+      time += duration;
+      previousEnd = range?.end ?? 0;
+      range = undefined;
+    }
+  }
+  if (!ended) throw new StreamError('live', 'Live playlists are not supported');
+  if (!init) throw new StreamError('segments', 'The segments are not fragmented MP4');
+  return { segments, init };
+};
+
+// --- DASH ---
+
+const childrenNamed = (el: Element, name: string) => Array.from(el.children).filter(child => child.localName === name);
+const childNamed = (el: Element, name: string): Element | undefined => childrenNamed(el, name)[0];
+
+// ISO 8601 durations as MPDs write them, e.g. PT1H2M3.5S
+const parseIsoDuration = (value: string | null) => {
+  const match = value && /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/.exec(value);
+  if (!match) return 0;
+  const [, days, hours, minutes, seconds] = match.map(part => Number(part) || 0);
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+};
+
+// "start-end", both inclusive
+const parseDashRange = (value: string | null): ByteRange | undefined => {
+  const match = value && /^(\d+)-(\d+)$/.exec(value);
+  return match ? { start: Number(match[1]), end: Number(match[2]) + 1 } : undefined;
+};
+
+const withBase = (el: Element, base: string) => {
+  const baseUrl = childNamed(el, 'BaseURL')?.textContent?.trim();
+  return baseUrl ? resolve(baseUrl, base) : base;
+};
+
+const TEMPLATE_FIELD = /\$(RepresentationID|Number|Bandwidth|Time)(?:%0(\d+)d)?\$|\$\$/g;
+
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(TEMPLATE_FIELD, (whole, name: string | undefined, width: string | undefined) => {
+    if (!name) return '$';
+    const value = String(values[name]);
+    return width ? value.padStart(Number(width), '0') : value;
+  });
+
+// The nearest one of these on the Representation, its AdaptationSet or the
+// Period applies
+const inherited = (elements: Element[], name: string) =>
+  elements.map(el => childNamed(el, name)).find((el): el is Element => !!el);
+
+const numberAttribute = (el: Element, name: string, fallback: number) => {
+  const value = el.getAttribute(name);
+  return value === null ? fallback : Number(value);
+};
+
+const templateSegments = (
+  template: Element, base: string, values: Record<string, string | number>, periodDuration: number
+): Pick<Representation, 'init' | 'segments'> => {
+  const media = template.getAttribute('media');
+  if (!media) throw new StreamError('manifest', 'SegmentTemplate has no media attribute');
+  const timescale = numberAttribute(template, 'timescale', 1);
+  const startNumber = numberAttribute(template, 'startNumber', 1);
+  const offset = numberAttribute(template, 'presentationTimeOffset', 0);
+  const initialization = template.getAttribute('initialization');
+  const entries: { time: number; length: number }[] = [];
+
+  const timeline = childNamed(template, 'SegmentTimeline');
+  if (timeline) {
+    let time = 0;
+    for (const s of childrenNamed(timeline, 'S')) {
+      time = numberAttribute(s, 't', time);
+      const length = numberAttribute(s, 'd', 0);
+      let repeat = numberAttribute(s, 'r', 0);
+      // A negative repeat runs to the end of the period
+      if (repeat < 0) repeat = Math.ceil((periodDuration * timescale - time) / length) - 1;
+      for (let i = 0; i <= repeat && length > 0; i++, time += length) entries.push({ time, length });
+    }
+  } else {
+    const length = numberAttribute(template, 'duration', 0);
+    if (!length) throw new StreamError('manifest', 'SegmentTemplate has neither a timeline nor a duration');
+    const count = Math.ceil((periodDuration * timescale) / length);
+    for (let i = 0; i < count; i++) entries.push({ time: offset + i * length, length });
+  }
+
+  return {
+    init: initialization ? { url: resolve(fillTemplate(initialization, values), base) } : undefined,
+    segments: entries.map(({ time, length }, i) => ({
+      url: resolve(fillTemplate(media, { ...values, Number: startNumber + i, Time: time }), base),
+      start: (time - offset) / timescale,
+      duration: length / timescale
+    }))
+  };
+};
+
+const listSegments = (list: Element, base: string): Pick<Representation, 'init' | 'segments'> => {
+  const timescale = numberAttribute(list, 'timescale', 1);
+  const length = numberAttribute(list, 'duration', 0) / timescale;
+  const initialization = childNamed(list, 'Initialization');
+  return {
+    init: initialization && {
+      url: resolve(initialization.getAttribute('sourceURL') ?? '', base),
+      range: parseDashRange(initialization.getAttribute('range'))
+    },
+    segments: childrenNamed(list, 'SegmentURL').map((segment, i) => ({
+      url: resolve(segment.getAttribute('media') ?? '', base),
+      range: parseDashRange(segment.getAttribute('mediaRange')),
+      start: i * length,
+      duration: length
+    }))
+  };
+};
+
+const parseDash = (text: string, url: string): Presentation => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const mpd = doc.documentElement;
+  if (mpd.localName !== 'MPD') throw new StreamError('manifest', 'Not an MPD document');
+  if (mpd.getAttribute('type') === 'dynamic') throw new StreamError('live', 'Live MPDs are not supported');
+  const period = childNamed(mpd, 'Period');
+  if (!period) throw new StreamError('manifest', 'The MPD has no Period');
+  const duration = parseIsoDuration(mpd.getAttribute('mediaPresentationDuration')) || parseIsoDuration(period.getAttribute('duration'));
+  const periodBase = withBase(period, withBase(mpd, url));
+  const tracks: MediaTrack[] = [];
+
+  for (const set of childrenNamed(period, 'AdaptationSet')) {
+    const reps = childrenNamed(set, 'Representation');
+    const mimeOf = (rep: Element) => rep.getAttribute('mimeType') ?? set.getAttribute('mimeType') ?? '';
+    const kind = set.getAttribute('contentType') ?? mimeOf(reps[0] ?? set).split('/')[0];
+    // Only the first set of each kind is played, like the first audio
+    // language; subtitles and images are left out
+    if ((kind !== 'video' && kind !== 'audio') || tracks.some(track => track.kind === kind)) continue;
+    if (childNamed(set, 'ContentProtection')) throw new StreamError('encrypted', 'The stream is encrypted');
+    const setBase = withBase(set, periodBase);
+
+    const representations = reps.map((rep): Representation => {
+      const id = rep.getAttribute('id') ?? '';
+      const bandwidth = numberAttribute(rep, 'bandwidth', 0);
+      const base = withBase(rep, setBase);
+      const levels = [rep, set, period];
+      const template = inherited(levels, 'SegmentTemplate');
+      const list = inherited(levels, 'SegmentList');
+      const segmentBase = inherited(levels, 'SegmentBase');
+      let segments: Pick<Representation, 'init' | 'segments' | 'index'>;
+      if (template) {
+        segments = templateSegments(template, base, { RepresentationID: id, Bandwidth: bandwidth }, duration);
+      } else if (list) {
+        segments = listSegments(list, base);
+      } else if (segmentBase?.getAttribute('indexRange')) {
+        const initialization = childNamed(segmentBase, 'Initialization');
+        const index = parseDashRange(segmentBase.getAttribute('indexRange'))!;
+        segments = {
+          // Without its own range, the init segment is what precedes the index
+          init: { url: base, range: parseDashRange(initialization?.getAttribute('range') ?? null) ?? { start: 0, end: index.start } },
+          segments: null,
+          index: { url: base, range: index }
+        };
+      } else {
+        throw new StreamError('segments', 'The representation is not segmented');
+      }
+      return {
+        id,
+        bandwidth,
+        width: numberAttribute(rep, 'width', numberAttribute(set, 'width', 0)) || undefined,
+        height: numberAttribute(rep, 'height', numberAttribute(set, 'height', 0)) || undefined,
+        mimeType: mimeOf(rep),
+        codecs: rep.getAttribute('codecs') ?? set.getAttribute('codecs') ?? undefined,
+        ...segments
+      };
+    });
+    if (representations.length) tracks.push({ kind, representations });
+  }
+  if (!tracks.length) throw new StreamError('manifest', 'The MPD has no audio or video');
+  return { duration, tracks };
+};
+
+// --- Loading ---
+
+export const loadPresentation = async (url: string, kind: StreamKind, signal?: AbortSignal): Promise<Presentation> => {
+  const text = await fetchText(url, signal);
+  if (kind === 'dash') return parseDash(text, url);
+  if (!text.startsWith('#EXTM3U')) throw new StreamError('manifest', 'Not an M3U8 playlist');
+  if (text.includes('#EXT-X-STREAM-INF')) return parseHlsMaster(text, url);
+  // A media playlist opened directly is a stream with a single quality
+  return {
+    duration: 0,
+    tracks: [{ kind: 'video', representations: [{ id: '0', bandwidth: 0, mimeType: 'video/mp4', segments: null, playlistUrl: url }] }]
+  };
+};
+
+const loadSidx = async (index: NonNullable<Representation['index']>, signal?: AbortSignal): Promise<SegmentRef[]> => {
+  const view = new DataView(await fetchRange(index.url, index.range, signal));
+  const box = readBoxes(view, 0, view.byteLength).find(b => b.type === 'sidx');
+  if (!box) throw new StreamError('segments', 'indexRange holds no sidx box');
+  const { timescale, earliestTime, firstOffset, references } = readSidx(view, box);
+  let offset = index.range.start + box.end + firstOffset;
+  let time = earliestTime / timescale;
+  return references.map(({ size, duration }) => {
+    const segment = { url: index.url, range: { start: offset, end: offset + size }, start: time, duration: duration / timescale };
+    offset += size;
+    time += segment.duration;
+    return segment;
+  });
+};
+
+// The MSE type of a representation whose manifest left the codecs out
+const readCodecs = async (rep: Representation, signal?: AbortSignal) => {
+  if (!rep.init) throw new StreamError('codecs', 'No codecs and no init segment to read them from');
+  const probe = await probeMedia(new Blob([await fetchRange(rep.init.url, rep.init.range, signal)]));
+  const codecs = probe.tracks.map(track => track.codecString).filter((codec): codec is string => !!codec);
+  if (!codecs.length) throw new StreamError('codecs', 'The init segment names no known codec');
+  return codecs.join(',');
+};
+
+// Completes a representation the first time it is needed: its segment
+// list, its init segment and its codecs
+export const prepareRepresentation = async (rep: Representation, signal?: AbortSignal) => {
+  if (!rep.segments) {
+    if (rep.playlistUrl) {
+      const { segments, init } = parseHlsMedia(await fetchText(rep.playlistUrl, signal), rep.playlistUrl);
+      rep.segments = segments;
+      rep.init = init;
+    } else if (rep.index) {
+      rep.segments = await loadSidx(rep.index, signal);
+    } else {
+      rep.segments = [];
+    }
+  }
+  rep.codecs ??= await readCodecs(rep, signal);
+  return rep;
+};
+
+export const mseType = (rep: Representation) => `${rep.mimeType}; codecs="${rep.codecs ?? ''}"`;
+
+// Total length of what a prepared representation lists
+export const listedDuration = (rep: Representation) => {
+  const last = rep.segments?.[rep.segments.length - 1];
+  return last ? last.start + last.duration : 0;
+};
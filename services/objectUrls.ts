@@ -0,0 +1,43 @@
+import { VideoFile } from '../types';
+
+// Keeps the File behind every local VideoFile and hands out blob URLs only
+// while something is actually using them, so long sessions don't pile up
+// object URLs for every file that was ever imported.
+
+const files = new Map<string, File>();
+const urls = new Map<string, string>();
+
+const revoke = (id: string) => {
+  const url = urls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    urls.delete(id);
+  }
+};
+
+export const registerFile = (id: string, file: File) => {
+  if (files.get(id) !== file) revoke(id);
+  files.set(id, file);
+};
+
+export const unregisterFile = (id: string) => {
+  revoke(id);
+  files.delete(id);
+};
+
+export const getRegisteredFile = (id: string): File | undefined => files.get(id);
+
+export const hasSource = (video: VideoFile) => !!video.url || files.has(video.id);
+
+export const acquireObjectUrl = (video: VideoFile): string | null => {
+  if (video.url) return video.url;
+  const existing = urls.get(video.id);
+  if (existing) return existing;
+  const file = files.get(video.id);
+  if (!file) return null;
+  const url = URL.createObjectURL(file);
+  urls.set(video.id, url);
+  return url;
+};
+
+export const releaseObjectUrl = (id: string) => revoke(id);
@@ -0,0 +1,99 @@
+import { FileChange, Playlist, VideoFile } from '../types';
+import { STORES, idbDelete, idbGetAll, idbPut } from './db';
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+export const loadPlaylists = async () => {
+  const playlists = await idbGetAll<Playlist>(STORES.playlists);
+  return playlists.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createPlaylist = (name: string, items: string[]): Playlist => {
+  const now = Date.now();
+  return { id: createId(), name, items, createdAt: now, updatedAt: now };
+};
+
+export const savePlaylist = async (playlist: Playlist) => {
+  const saved = { ...playlist, updatedAt: Date.now() };
+  await idbPut(STORES.playlists, saved.id, saved);
+  return saved;
+};
+
+export const deletePlaylist = (id: string) => idbDelete(STORES.playlists, id);
+
+// Points entries at files that were renamed or moved. Only the playlists
+// that changed are returned, to be saved.
+export const retargetPlaylists = (playlists: Playlist[], change: FileChange) => {
+  const paths = new Map(change.before.map((video, i) => [video.relativePath, change.after[i].relativePath]));
+  return playlists
+    .filter(playlist => playlist.items.some(path => paths.has(path)))
+    .map(playlist => ({ ...playlist, items: playlist.items.map(path => paths.get(path) ?? path) }));
+};
+
+// Entries whose file has left the library are kept but skipped, in case
+// it comes back. Imports only keep what they found, see parseM3U.
+export const resolvePlaylist = (playlist: Playlist, videos: VideoFile[]) => {
+  const byPath = new Map<string, VideoFile>(videos.map(v => [v.relativePath, v]));
+  return playlist.items.map(path => byPath.get(path)).filter((v): v is VideoFile => !!v);
+};
+
+export const toM3U = (playlist: Playlist, videos: VideoFile[]) => {
+  const byPath = new Map<string, VideoFile>(videos.map(v => [v.relativePath, v]));
+  const lines = ['#EXTM3U', `#PLAYLIST:${playlist.name}`];
+  playlist.items.forEach(path => {
+    const video = byPath.get(path);
+    lines.push(`#EXTINF:${Math.round(video?.duration ?? -1)},${video?.name ?? path.split('/').pop()}`);
+    lines.push(path);
+  });
+  return lines.join('\n') + '\n';
+};
+
+// Some players write a bare % into file:// entries; those are taken as is
+const decodeFileUrl = (path: string) => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+};
+
+const normalizePath = (entry: string) => {
+  let path = entry.trim().replace(/\\/g, '/');
+  if (path.startsWith('file://')) path = decodeFileUrl(path.replace(/^file:\/\/\/?/, ''));
+  return path.replace(/^\.\//, '');
+};
+
+// Players write absolute paths, paths relative to the .m3u file or bare file
+// names, so entries are matched against the library from most to least
+// specific.
+const matchEntry = (entry: string, videos: VideoFile[]) => {
+  const path = normalizePath(entry);
+  const exact = videos.find(v => v.relativePath === path);
+  if (exact) return exact;
+  const suffix = videos.find(v => path.endsWith('/' + v.relativePath) || v.relativePath.endsWith('/' + path));
+  if (suffix) return suffix;
+  const name = path.split('/').pop();
+  return videos.find(v => v.name === name);
+};
+
+// Entries that match nothing in the library are only counted as missing
+export const parseM3U = (source: string, fileName: string, videos: VideoFile[]) => {
+  let name = fileName.replace(/\.m3u8?$/i, '');
+  const items: string[] = [];
+  let missing = 0;
+
+  source.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(raw => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith('#PLAYLIST:')) {
+      name = line.slice(10).trim() || name;
+      return;
+    }
+    if (line.startsWith('#')) return;
+    const video = matchEntry(line, videos);
+    if (video) items.push(video.relativePath);
+    else missing++;
+  });
+
+  return { playlist: createPlaylist(name, items), missing };
+};
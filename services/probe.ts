@@ -0,0 +1,412 @@
+import { ContainerFormat, MediaProbe, PlaybackIssue, PlaybackIssueReason, ProbedTrack, VideoFile } from '../types';
+import { MessageKey } from '../locales';
+import { MessageParams } from './i18n';
+import { STORES, idbGet, idbPut } from './db';
+import { videoIdentity } from './library';
+import { getRegisteredFile } from './objectUrls';
+import {
+  Box, Element, EBML_HEADER, MKV_CLUSTER, MKV_SEGMENT, findBox, fourcc, readBoxes, readElements, readMoov, readString, readUint, readView
+} from '../utils/containers';
+
+// Matroska track headers and the MPEG-TS program tables sit well inside
+// the first half megabyte
+export const HEADER_BYTES = 512 * 1024;
+const TS_PACKET_BYTES = 188;
+
+interface CodecInfo {
+  name: string;
+  codecString?: string;
+}
+
+const H264: CodecInfo = { name: 'H.264', codecString: 'avc1.42E01E' };
+const HEVC: CodecInfo = { name: 'HEVC', codecString: 'hvc1.1.6.L93.B0' };
+const AV1: CodecInfo = { name: 'AV1', codecString: 'av01.0.05M.08' };
+const VP8: CodecInfo = { name: 'VP8', codecString: 'vp8' };
+const VP9: CodecInfo = { name: 'VP9', codecString: 'vp09.00.10.08' };
+const MPEG4_VISUAL: CodecInfo = { name: 'MPEG-4 Part 2', codecString: 'mp4v.20.9' };
+const MPEG2_VIDEO: CodecInfo = { name: 'MPEG-2' };
+const AAC: CodecInfo = { name: 'AAC', codecString: 'mp4a.40.2' };
+const MP3: CodecInfo = { name: 'MP3', codecString: 'mp4a.6B' };
+const AC3: CodecInfo = { name: 'AC-3', codecString: 'ac-3' };
+const EAC3: CodecInfo = { name: 'E-AC-3', codecString: 'ec-3' };
+const DTS: CodecInfo = { name: 'DTS' };
+const OPUS: CodecInfo = { name: 'Opus', codecString: 'opus' };
+const VORBIS: CodecInfo = { name: 'Vorbis', codecString: 'vorbis' };
+const FLAC: CodecInfo = { name: 'FLAC', codecString: 'flac' };
+
+// Sample entry four-character codes
+const MP4_CODECS: Record<string, CodecInfo> = {
+  avc1: H264, avc3: H264,
+  hvc1: HEVC, hev1: { ...HEVC, codecString: 'hev1.1.6.L93.B0' },
+  dvh1: { name: 'Dolby Vision', codecString: 'dvh1.05.06' },
+  av01: AV1, vp08: VP8, vp09: VP9, mp4v: MPEG4_VISUAL,
+  mp4a: AAC, '.mp3': MP3, 'ac-3': AC3, 'ec-3': EAC3,
+  Opus: OPUS, fLaC: FLAC, alac: { name: 'ALAC', codecString: 'alac' },
+  dtsc: DTS, dtsh: DTS, dtsl: DTS
+};
+
+// Matroska CodecIDs, looked up whole and then by their first segment
+// (A_AAC/MPEG4/LC → A_AAC)
+const MATROSKA_CODECS: Record<string, CodecInfo> = {
+  'V_MPEG4/ISO/AVC': H264, 'V_MPEGH/ISO/HEVC': HEVC, V_AV1: AV1, V_VP8: VP8, V_VP9: VP9,
+  'V_MPEG4/ISO/ASP': MPEG4_VISUAL, V_MPEG2: MPEG2_VIDEO,
+  A_AAC: AAC, 'A_MPEG/L3': MP3, A_AC3: AC3, A_EAC3: EAC3, A_DTS: DTS,
+  A_OPUS: OPUS, A_VORBIS: VORBIS, A_FLAC: FLAC, A_TRUEHD: { name: 'TrueHD' }
+};
+
+// PMT stream_type values
+const TS_STREAM_TYPES: Record<number, [ProbedTrack['kind'], CodecInfo]> = {
+  0x01: ['video', { name: 'MPEG-1' }],
+  0x02: ['video', MPEG2_VIDEO],
+  0x10: ['video', MPEG4_VISUAL],
+  0x1b: ['video', H264],
+  0x24: ['video', HEVC],
+  0x03: ['audio', MP3],
+  0x04: ['audio', MP3],
+  0x0f: ['audio', AAC],
+  0x11: ['audio', { name: 'AAC-LATM' }],
+  0x81: ['audio', AC3],
+  0x87: ['audio', EAC3],
+  0x82: ['audio', DTS],
+  0x86: ['audio', DTS],
+  0x90: ['subtitle', { name: 'PGS' }]
+};
+
+const CONTAINER_NAMES: Record<ContainerFormat, string> = {
+  mp4: 'MP4',
+  mov: 'QuickTime',
+  webm: 'WebM',
+  matroska: 'Matroska',
+  mpegts: 'MPEG-TS'
+};
+
+const CONTAINER_TYPES: Record<ContainerFormat, string> = {
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  matroska: 'video/x-matroska',
+  mpegts: 'video/mp2t'
+};
+
+// Codecs that are checked against WebM rather than MP4 when the container
+// itself can't be asked about
+const WEBM_CODECS = new Set(['vp8', 'vp09.00.10.08', 'av01.0.05M.08', 'opus', 'vorbis']);
+
+const ISSUE_MESSAGES: Record<PlaybackIssueReason, MessageKey> = {
+  unknownFormat: 'probe.unknownFormat',
+  container: 'probe.container',
+  videoCodec: 'probe.videoCodec',
+  audioCodec: 'probe.audioCodec',
+  noTracks: 'probe.noTracks'
+};
+
+// --- MP4 / QuickTime ---
+
+const mp4Language = (view: DataView, mdhd: Box | undefined) => {
+  if (!mdhd) return undefined;
+  const offset = mdhd.start + (view.getUint8(mdhd.start) === 1 ? 32 : 20);
+  if (offset + 2 > mdhd.end) return undefined;
+  const packed = view.getUint16(offset);
+  const code = String.fromCharCode(((packed >> 10) & 31) + 0x60, ((packed >> 5) & 31) + 0x60, (packed & 31) + 0x60);
+  return code === 'und' ? undefined : code;
+};
+
+const probeMp4Track = (view: DataView, trak: Box): ProbedTrack | null => {
+  const handler = findBox(view, trak, ['mdia', 'hdlr']);
+  const stsd = findBox(view, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+  if (!handler || !stsd) return null;
+  const handlerType = fourcc(view, handler.start + 8);
+  const kind = handlerType === 'vide' ? 'video'
+    : handlerType === 'soun' ? 'audio'
+    : handlerType === 'subt' || handlerType === 'text' || handlerType === 'sbtl' ? 'subtitle'
+    : null;
+  // stsd is a full box (4 bytes) with an entry count (4 bytes) before the entries
+  const [entry] = readBoxes(view, stsd.start + 8, stsd.end);
+  if (!kind || !entry) return null;
+
+  const info = MP4_CODECS[entry.type] ?? { name: entry.type.trim() };
+  const track: ProbedTrack = {
+    kind,
+    codec: info.name,
+    codecString: info.codecString,
+    language: mp4Language(view, findBox(view, trak, ['mdia', 'mdhd']))
+  };
+  if (kind === 'video' && entry.start + 28 <= entry.end) {
+    // Visual sample entries keep width and height after 24 bytes of
+    // reserved and pre-defined fields
+    track.width = view.getUint16(entry.start + 24);
+    track.height = view.getUint16(entry.start + 26);
+    // The real profile and level make the H.264 check more accurate
+    const avcC = (entry.type === 'avc1' || entry.type === 'avc3') && entry.start + 78 < entry.end
+      ? readBoxes(view, entry.start + 78, entry.end).find(box => box.type === 'avcC')
+      : undefined;
+    if (avcC && avcC.start + 4 <= avcC.end) {
+      const hex = (offset: number) => view.getUint8(avcC.start + offset).toString(16).padStart(2, '0').toUpperCase();
+      track.codecString = `${entry.type}.${hex(1)}${hex(2)}${hex(3)}`;
+    }
+  }
+  return track;
+};
+
+const probeMp4 = async (file: Blob, header: DataView): Promise<MediaProbe> => {
+  const ftyp = readBoxes(header, 0, header.byteLength).find(box => box.type === 'ftyp');
+  const container: ContainerFormat = ftyp && fourcc(header, ftyp.start) === 'qt  ' ? 'mov' : 'mp4';
+  const moov = await readMoov(file);
+  if (!moov) return { container, tracks: [] };
+  const tracks = readBoxes(moov, 0, moov.byteLength)
+    .filter(box => box.type === 'trak')
+    .map(trak => probeMp4Track(moov, trak))
+    .filter((track): track is ProbedTrack => track !== null);
+  return { container, tracks };
+};
+
+// --- Matroska / WebM ---
+
+const EBML_DOCTYPE = 0x4282;
+const MKV_TRACKS = 0x1654ae6b;
+const MKV_TRACK_ENTRY = 0xae;
+const MKV_TRACK_TYPE = 0x83;
+const MKV_CODEC_ID = 0x86;
+const MKV_LANGUAGE = 0x22b59c;
+const MKV_VIDEO = 0xe0;
+const MKV_PIXEL_WIDTH = 0xb0;
+const MKV_PIXEL_HEIGHT = 0xba;
+
+const probeMatroskaTrack = (view: DataView, entry: Element): ProbedTrack | null => {
+  const children = readElements(view, entry.start, entry.end);
+  const child = (id: number) => children.find(element => element.id === id);
+  const type = child(MKV_TRACK_TYPE);
+  const codecId = child(MKV_CODEC_ID);
+  if (!type || !codecId) return null;
+  const kind = ({ 1: 'video', 2: 'audio', 17: 'subtitle' } as const)[readUint(view, type) as 1 | 2 | 17];
+  if (!kind) return null;
+
+  const id = readString(view, codecId.start, codecId.end);
+  const info = MATROSKA_CODECS[id] ?? MATROSKA_CODECS[id.split('/')[0]] ?? { name: id };
+  const language = child(MKV_LANGUAGE);
+  const track: ProbedTrack = {
+    kind,
+    codec: info.name,
+    codecString: info.codecString,
+    language: language ? readString(view, language.start, language.end) : undefined
+  };
+  const video = child(MKV_VIDEO);
+  if (video) {
+    const dimensions = readElements(view, video.start, video.end);
+    const width = dimensions.find(element => element.id === MKV_PIXEL_WIDTH);
+    const height = dimensions.find(element => element.id === MKV_PIXEL_HEIGHT);
+    if (width) track.width = readUint(view, width);
+    if (height) track.height = readUint(view, height);
+  }
+  return track;
+};
+
+const probeMatroska = (view: DataView): MediaProbe => {
+  const [ebml, segment] = readElements(view, 0, view.byteLength);
+  if (!ebml) return { container: 'matroska', tracks: [] };
+  const docType = readElements(view, ebml.start, ebml.end).find(element => element.id === EBML_DOCTYPE);
+  const container: ContainerFormat = docType && readString(view, docType.start, docType.end) === 'webm' ? 'webm' : 'matroska';
+  if (!segment || segment.id !== MKV_SEGMENT) return { container, tracks: [] };
+
+  // Tracks come before the first Cluster in every muxer we know of
+  const tracks: ProbedTrack[] = [];
+  for (const element of readElements(view, segment.start, segment.end)) {
+    if (element.id === MKV_CLUSTER) break;
+    if (element.id !== MKV_TRACKS) continue;
+    readElements(view, element.start, element.end)
+      .filter(entry => entry.id === MKV_TRACK_ENTRY)
+      .forEach(entry => {
+        const track = probeMatroskaTrack(view, entry);
+        if (track) tracks.push(track);
+      });
+    break;
+  }
+  return { container, tracks };
+};
+
+// --- MPEG-TS ---
+
+// Plain TS uses 188-byte packets; Blu-ray M2TS prefixes each with a
+// 4-byte timestamp.
+const tsLayout = (view: DataView) => {
+  for (const [packet, prefix] of [[TS_PACKET_BYTES, 0], [TS_PACKET_BYTES + 4, 4]]) {
+    if (view.byteLength < packet * 3) continue;
+    if ([0, 1, 2].every(i => view.getUint8(prefix + i * packet) === 0x47)) return { packet, prefix };
+  }
+  return null;
+};
+
+const probeMpegTs = (view: DataView, layout: { packet: number; prefix: number }): MediaProbe => {
+  let pmtPid: number | null = null;
+
+  for (let offset = layout.prefix; offset + TS_PACKET_BYTES <= view.byteLength; offset += layout.packet) {
+    if (view.getUint8(offset) !== 0x47) continue;
+    const payloadStart = (view.getUint8(offset + 1) & 0x40) !== 0;
+    const pid = ((view.getUint8(offset + 1) & 0x1f) << 8) | view.getUint8(offset + 2);
+    const adaptation = (view.getUint8(offset + 3) >> 4) & 3;
+    if (!payloadStart || !(adaptation & 1)) continue;
+    let payload = offset + 4;
+    if (adaptation & 2) payload += 1 + view.getUint8(payload);
+    const section = payload + 1 + view.getUint8(payload);
+    const packetEnd = offset + TS_PACKET_BYTES;
+    if (section + 3 > packetEnd) continue;
+    // Sections are assumed to fit one packet, which PAT and PMT always do in practice
+    const sectionEnd = Math.min(packetEnd, section + 3 + (((view.getUint8(section + 1) & 0x0f) << 8) | view.getUint8(section + 2)) - 4);
+
+    if (pid === 0 && pmtPid === null) {
+      for (let entry = section + 8; entry + 4 <= sectionEnd; entry += 4) {
+        if (view.getUint16(entry) === 0) continue; // Network information, not a program
+        pmtPid = view.getUint16(entry + 2) & 0x1fff;
+        break;
+      }
+    } else if (pid === pmtPid && view.getUint8(section) === 0x02) {
+      const tracks: ProbedTrack[] = [];
+      let entry = section + 12 + (view.getUint16(section + 10) & 0x0fff);
+      while (entry + 5 <= sectionEnd) {
+        const streamType = view.getUint8(entry);
+        const infoLength = view.getUint16(entry + 3) & 0x0fff;
+        const descriptors = readDescriptors(view, entry + 5, Math.min(sectionEnd, entry + 5 + infoLength));
+        const known = TS_STREAM_TYPES[streamType] ?? privateStream(descriptors);
+        if (known) {
+          const [kind, info] = known;
+          tracks.push({ kind, codec: info.name, codecString: info.codecString, language: descriptors.language });
+        }
+        entry += 5 + infoLength;
+      }
+      return { container: 'mpegts', tracks };
+    }
+  }
+  return { container: 'mpegts', tracks: [] };
+};
+
+interface TsDescriptors {
+  tags: Set<number>;
+  language?: string;
+}
+
+const readDescriptors = (view: DataView, start: number, end: number): TsDescriptors => {
+  const descriptors: TsDescriptors = { tags: new Set() };
+  for (let offset = start; offset + 2 <= end; offset += 2 + view.getUint8(offset + 1)) {
+    const tag = view.getUint8(offset);
+    descriptors.tags.add(tag);
+    // ISO 639 language descriptor
+    if (tag === 0x0a && offset + 5 <= end) descriptors.language = readString(view, offset + 2, offset + 5);
+  }
+  return descriptors;
+};
+
+// DVB carries AC-3, E-AC-3 and subtitles as private data (stream_type
+// 0x06) and says what they are in a descriptor.
+const privateStream = ({ tags }: TsDescriptors): [ProbedTrack['kind'], CodecInfo] | undefined => {
+  if (tags.has(0x6a)) return ['audio', AC3];
+  if (tags.has(0x7a)) return ['audio', EAC3];
+  if (tags.has(0x59)) return ['subtitle', { name: 'DVB subtitles' }];
+  return undefined;
+};
+
+// Reads the container headers of `file` to find out what it really holds,
+// whatever its name or MIME type claims.
+export const probeMedia = async (file: Blob): Promise<MediaProbe> => {
+  const header = await readView(file, 0, HEADER_BYTES);
+  if (header.byteLength >= 8 && ['ftyp', 'moov', 'mdat', 'free', 'wide', 'skip'].includes(fourcc(header, 4))) {
+    return probeMp4(file, header);
+  }
+  if (header.byteLength >= 4 && header.getUint32(0) === EBML_HEADER) return probeMatroska(header);
+  const layout = tsLayout(header);
+  if (layout) return probeMpegTs(header, layout);
+  return { container: null, tracks: [] };
+};
+
+let checker: HTMLVideoElement | null = null;
+
+const canPlay = (type: string) => {
+  checker ??= document.createElement('video');
+  if (checker.canPlayType(type) !== '') return true;
+  return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(type);
+};
+
+// Browsers that play Matroska do it with their WebM demuxer, and few admit
+// to it when asked about video/x-matroska.
+const canPlayContainer = (container: ContainerFormat) =>
+  canPlay(CONTAINER_TYPES[container])
+  || (container === 'matroska' && canPlay('video/webm'))
+  || (container === 'mov' && canPlay('video/mp4'));
+
+const canPlayTrack = (container: ContainerFormat, track: ProbedTrack) => {
+  if (!track.codecString) return false;
+  const host = container === 'webm' || (container === 'matroska' && WEBM_CODECS.has(track.codecString))
+    ? 'video/webm'
+    : container === 'mov' || container === 'mp4' ? CONTAINER_TYPES[container] : 'video/mp4';
+  return canPlay(`${host}; codecs="${track.codecString}"`);
+};
+
+// Everything in `probe` that stops the file from playing in this browser,
+// most serious first.
+export const diagnose = (probe: MediaProbe): PlaybackIssue[] => {
+  const { container, tracks } = probe;
+  if (!container) return [{ reason: 'unknownFormat', fatal: true }];
+  if (!canPlayContainer(container)) return [{ reason: 'container', subject: CONTAINER_NAMES[container], fatal: true }];
+  // Nothing was parsed, so there is nothing more to say
+  if (!tracks.length) return [];
+
+  const video = tracks.filter(track => track.kind === 'video');
+  const audio = tracks.filter(track => track.kind === 'audio');
+  if (!video.length && !audio.length) return [{ reason: 'noTracks', fatal: true }];
+
+  const issues: PlaybackIssue[] = [];
+  const badVideo = video.find(track => !canPlayTrack(container, track));
+  if (badVideo) issues.push({ reason: 'videoCodec', subject: badVideo.codec, fatal: true });
+  // One playable audio track is enough; it can be picked in the audio panel
+  if (audio.length && !audio.some(track => canPlayTrack(container, track))) {
+    issues.push({ reason: 'audioCodec', subject: audio[0].codec, fatal: !video.length });
+  }
+  return issues;
+};
+
+export const issueMessage = (issue: PlaybackIssue): { key: MessageKey; params: MessageParams } => ({
+  key: ISSUE_MESSAGES[issue.reason],
+  params: { name: issue.subject ?? '' }
+});
+
+// One-line technical summary for the error overlay, e.g.
+// "Matroska · HEVC 1920×1080 · E-AC-3 (eng)"
+export const describeProbe = ({ container, tracks }: MediaProbe) => [
+  container ? CONTAINER_NAMES[container] : null,
+  ...tracks
+    .filter(track => track.kind !== 'subtitle')
+    .map(track => [
+      track.codec,
+      track.width && track.height ? ` ${track.width}×${track.height}` : '',
+      track.language ? ` (${track.language})` : ''
+    ].join(''))
+].filter(Boolean).join(' · ');
+
+// Cached by identity, so each file's headers are only read once.
+export const getMediaProbe = async (video: VideoFile): Promise<MediaProbe | null> => {
+  const identity = videoIdentity(video);
+  const cached = await idbGet<MediaProbe>(STORES.probes, identity);
+  if (cached) return cached;
+  const file = getRegisteredFile(video.id);
+  if (!file) return null;
+  const probe = await probeMedia(file);
+  await idbPut(STORES.probes, identity, probe);
+  return probe;
+};
+
+// Probes the files seen for the first time and returns the ones that
+// won't play, so an import can say so straight away.
+export const findUnplayable = async (videos: VideoFile[]) => {
+  const unplayable: { video: VideoFile; issue: PlaybackIssue }[] = [];
+  for (const video of videos) {
+    if (!getRegisteredFile(video.id)) continue;
+    try {
+      if (await idbGet<MediaProbe>(STORES.probes, videoIdentity(video))) continue;
+      const probe = await getMediaProbe(video);
+      const issue = probe && diagnose(probe).find(candidate => candidate.fatal);
+      if (issue) unplayable.push({ video, issue });
+    } catch (err) {
+      console.warn(`Probe failed for ${video.name}:`, err);
+    }
+  }
+  return unplayable;
+};
@@ -0,0 +1,55 @@
+import { VideoFile, WatchProgress } from '../types';
+import { STORES, idbDelete, idbGetAll, idbPut } from './db';
+import { videoIdentity } from './library';
+
+// A video counts as watched once this much of it has been played, so
+// skipping the end credits still marks it done.
+const COMPLETED_RATIO = 0.95;
+
+// Positions this close to the start aren't worth offering to resume.
+export const MIN_RESUME_SECONDS = 10;
+
+export const loadProgress = async () => {
+  const records = await idbGetAll<WatchProgress>(STORES.progress);
+  const byIdentity: Record<string, WatchProgress> = {};
+  records.forEach(r => { byIdentity[r.identity] = r; });
+  return byIdentity;
+};
+
+export const getVideoProgress = (progress: Record<string, WatchProgress>, video: VideoFile) =>
+  progress[videoIdentity(video)];
+
+export const progressRatio = (record?: WatchProgress) =>
+  record && record.duration > 0 ? Math.min(1, record.position / record.duration) : 0;
+
+export const isCompleted = (position: number, duration: number) =>
+  duration > 0 && position >= duration * COMPLETED_RATIO;
+
+export const canResume = (record?: WatchProgress) =>
+  !!record && !record.completed && record.position >= MIN_RESUME_SECONDS;
+
+export const saveProgress = async (video: VideoFile, position: number, duration: number) => {
+  const record: WatchProgress = {
+    identity: videoIdentity(video),
+    position,
+    duration,
+    updatedAt: Date.now(),
+    completed: isCompleted(position, duration)
+  };
+  await idbPut(STORES.progress, record.identity, record);
+  return record;
+};
+
+// Marking by hand. Unwatched forgets the position too, so the video also
+// leaves the recent list; null is returned for that.
+export const setWatched = async (video: VideoFile, watched: boolean) => {
+  const identity = videoIdentity(video);
+  if (!watched) {
+    await idbDelete(STORES.progress, identity);
+    return null;
+  }
+  const duration = video.duration ?? 0;
+  const record: WatchProgress = { identity, position: duration, duration, updatedAt: Date.now(), completed: true };
+  await idbPut(STORES.progress, identity, record);
+  return record;
+};
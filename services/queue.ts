@@ -0,0 +1,95 @@
+import { PlayQueue, RepeatMode } from '../types';
+
+// Pure helpers over PlayQueue; every change returns a new queue.
+
+const shuffled = <T>(items: T[]) => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const createQueue = (items: string[], startId?: string, shuffle = false): PlayQueue => {
+  const queue: PlayQueue = {
+    items,
+    position: Math.max(0, startId ? items.indexOf(startId) : 0),
+    unshuffled: null,
+    repeat: 'off'
+  };
+  return shuffle ? toggleShuffle(queue, true) : queue;
+};
+
+export const currentId = (queue: PlayQueue): string | undefined => queue.items[queue.position];
+
+export const hasNext = (queue: PlayQueue) =>
+  queue.position < queue.items.length - 1 || (queue.repeat === 'all' && queue.items.length > 1);
+
+export const hasPrev = (queue: PlayQueue) =>
+  queue.position > 0 || (queue.repeat === 'all' && queue.items.length > 1);
+
+// Manual next/prev; wraps around only with repeat-all.
+export const step = (queue: PlayQueue, direction: 1 | -1): PlayQueue | null => {
+  const count = queue.items.length;
+  let position = queue.position + direction;
+  if (position < 0 || position >= count) {
+    if (queue.repeat !== 'all' || count === 0) return null;
+    position = (position + count) % count;
+  }
+  return { ...queue, position };
+};
+
+export const jumpTo = (queue: PlayQueue, position: number): PlayQueue => ({ ...queue, position });
+
+// Shuffling keeps the current video playing and moves it to the front.
+export const toggleShuffle = (queue: PlayQueue, force?: boolean): PlayQueue => {
+  const on = force ?? !queue.unshuffled;
+  const current = currentId(queue);
+  if (on) {
+    const rest = shuffled(queue.items.filter((_, i) => i !== queue.position));
+    const items = current ? [current, ...rest] : rest;
+    return { ...queue, items, position: 0, unshuffled: queue.unshuffled ?? queue.items };
+  }
+  if (!queue.unshuffled) return queue;
+  const items = queue.unshuffled.filter(id => queue.items.includes(id));
+  return { ...queue, items, position: Math.max(0, current ? items.indexOf(current) : 0), unshuffled: null };
+};
+
+const REPEAT_ORDER: RepeatMode[] = ['off', 'all', 'one'];
+
+export const cycleRepeat = (queue: PlayQueue): PlayQueue => ({
+  ...queue,
+  repeat: REPEAT_ORDER[(REPEAT_ORDER.indexOf(queue.repeat) + 1) % REPEAT_ORDER.length]
+});
+
+export const moveItem = (queue: PlayQueue, from: number, to: number): PlayQueue => {
+  if (to < 0 || to >= queue.items.length || from === to) return queue;
+  const items = [...queue.items];
+  const [moved] = items.splice(from, 1);
+  items.splice(to, 0, moved);
+  const current = currentId(queue);
+  return { ...queue, items, position: current ? items.indexOf(current) : 0 };
+};
+
+export const removeItem = (queue: PlayQueue, index: number): PlayQueue | null => {
+  const items = queue.items.filter((_, i) => i !== index);
+  if (items.length === 0) return null;
+  const unshuffled = queue.unshuffled?.filter(id => id !== queue.items[index]) ?? null;
+  const position = index < queue.position ? queue.position - 1 : Math.min(queue.position, items.length - 1);
+  return { ...queue, items, unshuffled, position };
+};
+
+// Drops ids that no longer exist in the library.
+export const pruneQueue = (queue: PlayQueue, knownIds: Set<string>): PlayQueue | null => {
+  const current = currentId(queue);
+  const items = queue.items.filter(id => knownIds.has(id));
+  if (!current || !knownIds.has(current)) return null;
+  if (items.length === queue.items.length) return queue;
+  return {
+    ...queue,
+    items,
+    unshuffled: queue.unshuffled?.filter(id => knownIds.has(id)) ?? null,
+    position: items.indexOf(current)
+  };
+};
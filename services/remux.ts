@@ -0,0 +1,233 @@
+import { FFmpeg, FFFSType } from '@ffmpeg/ffmpeg';
+// Bundled with the app rather than fetched from a CDN, so the fallback
+// works offline
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import { MediaProbe, ProbedTrack } from '../types';
+import { isBuffered, whenUpdated } from '../utils/media';
+
+export type RemuxMode = 'remux' | 'transcodeAudio';
+
+export interface RemuxPlan {
+  mode: RemuxMode;
+  // MSE type of the fragmented MP4 that comes out
+  mimeType: string;
+  hasVideo: boolean;
+  // Which audio stream to keep (ffmpeg's 0:a:N), null for none
+  audioIndex: number | null;
+}
+
+export interface RemuxSession {
+  // MediaSource URL to play instead of the file
+  url: string;
+  // Rejects if the conversion fails. Otherwise it keeps going until
+  // cancelled, converting ranges again when a seek lands outside the buffer.
+  done: Promise<void>;
+  cancel: () => void;
+}
+
+// Each ffmpeg run converts this much; short enough to start playing
+// quickly, long enough that the per-run startup cost doesn't dominate
+const CHUNK_SECONDS = 20;
+// Conversion pauses this far ahead of the playhead...
+const BUFFER_AHEAD_SECONDS = 90;
+// ...and drops what is this far behind it, since SourceBuffers are small
+const BUFFER_BEHIND_SECONDS = 60;
+const AAC_CODEC = 'mp4a.40.2';
+const INPUT_DIR = '/input';
+const INPUT_PATH = `${INPUT_DIR}/source`;
+const OUTPUT_PATH = 'chunk.mp4';
+
+let loading: Promise<FFmpeg> | null = null;
+let cancelActive: (() => void) | null = null;
+
+// ffmpeg.wasm runs in its own worker; the 30 MB core is only fetched the
+// first time a file needs it.
+const loadFFmpeg = () => {
+  if (!loading) {
+    const ffmpeg = new FFmpeg();
+    loading = ffmpeg.load({ coreURL, wasmURL })
+      .then(() => ffmpeg)
+      .catch(err => {
+        loading = null;
+        throw err;
+      });
+  }
+  return loading;
+};
+
+// Terminating the worker is the only way to stop a running exec
+const terminateFFmpeg = () => {
+  loading?.then(ffmpeg => ffmpeg.terminate()).catch(() => {});
+  loading = null;
+};
+
+const mseSupports = (type: string) => typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(type);
+
+const mp4Type = (kind: 'video' | 'audio', codecs: string[]) => `${kind}/mp4; codecs="${codecs.join(',')}"`;
+
+const playableInMp4 = (track: ProbedTrack) =>
+  !!track.codecString && mseSupports(mp4Type(track.kind === 'video' ? 'video' : 'audio', [track.codecString]));
+
+// What the fallback can do for a file: rewrap it when only the container
+// is the problem, and re-encode the audio when the audio is. Video is
+// never transcoded; WebAssembly is far too slow for that.
+export const planRemux = (probe: MediaProbe): RemuxPlan | null => {
+  if (!probe.container) return null;
+  const video = probe.tracks.find(track => track.kind === 'video');
+  const audio = probe.tracks.filter(track => track.kind === 'audio');
+  if (!video && !audio.length) return null;
+  if (video && !playableInMp4(video)) return null;
+
+  const playableAudio = audio.findIndex(playableInMp4);
+  const mode: RemuxMode = audio.length && playableAudio < 0 ? 'transcodeAudio' : 'remux';
+  const audioIndex = !audio.length ? null : mode === 'remux' ? playableAudio : 0;
+  const codecs = [
+    ...(video ? [video.codecString!] : []),
+    ...(audioIndex === null ? [] : [mode === 'remux' ? audio[audioIndex].codecString! : AAC_CODEC])
+  ];
+  const mimeType = mp4Type(video ? 'video' : 'audio', codecs);
+  return mseSupports(mimeType) ? { mode, mimeType, hasVideo: !!video, audioIndex } : null;
+};
+
+const chunkArgs = (plan: RemuxPlan, start: number) => [
+  '-hide_banner',
+  '-ss', String(start),
+  '-i', INPUT_PATH,
+  '-t', String(CHUNK_SECONDS),
+  ...(plan.hasVideo ? ['-map', '0:v:0', '-c:v', 'copy'] : []),
+  ...(plan.audioIndex === null ? [] : ['-map', `0:a:${plan.audioIndex}`]),
+  ...(plan.mode === 'transcodeAudio' ? ['-c:a', 'aac', '-b:a', '192k', '-ac', '2'] : ['-c:a', 'copy']),
+  '-sn',
+  // Original timestamps, so every chunk lands where it belongs in the
+  // SourceBuffer however far the keyframe seek moved its start
+  '-copyts', '-start_at_zero',
+  '-f', 'mp4',
+  '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+  OUTPUT_PATH
+];
+
+// ffmpeg prints the duration when asked about a file with no output
+const readDuration = async (ffmpeg: FFmpeg) => {
+  let duration = 0;
+  const onLog = ({ message }: { message: string }) => {
+    const match = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(message);
+    if (match) duration = Number(match[1]) * 3600 + Number(match[2]) * 60 + parseFloat(match[3]);
+  };
+  ffmpeg.on('log', onLog);
+  try {
+    await ffmpeg.exec(['-hide_banner', '-i', INPUT_PATH]);
+  } finally {
+    ffmpeg.off('log', onLog);
+  }
+  return duration;
+};
+
+// Converts `file` chunk by chunk into a MediaSource that `media` plays as
+// it fills. Only one conversion runs at a time; starting another cancels
+// the previous one.
+export const startRemux = (
+  file: Blob,
+  plan: RemuxPlan,
+  media: HTMLMediaElement,
+  onProgress: (fraction: number) => void
+): RemuxSession => {
+  cancelActive?.();
+
+  const mediaSource = new MediaSource();
+  const url = URL.createObjectURL(mediaSource);
+  let cancelled = false;
+  // Resolves the wait between chunks early when the user seeks or cancels
+  let wake: (() => void) | null = null;
+  let next = 0;
+
+  const onSeeking = () => {
+    if (isBuffered(media.buffered, media.currentTime)) return;
+    next = Math.max(0, Math.floor(media.currentTime / CHUNK_SECONDS) * CHUNK_SECONDS);
+    wake?.();
+  };
+
+  // Waits until the playhead is close enough to `next` to convert it
+  const waitForRoom = (finished: boolean) => new Promise<void>(resolve => {
+    const check = () => {
+      if (cancelled || (!finished && next - media.currentTime < BUFFER_AHEAD_SECONDS)) done();
+    };
+    const done = () => {
+      media.removeEventListener('timeupdate', check);
+      wake = null;
+      resolve();
+    };
+    wake = done;
+    media.addEventListener('timeupdate', check);
+    check();
+  });
+
+  const run = async () => {
+    await new Promise(resolve => mediaSource.addEventListener('sourceopen', resolve, { once: true }));
+    const ffmpeg = await loadFFmpeg();
+    if (cancelled) return;
+    await ffmpeg.createDir(INPUT_DIR).catch(() => {});
+    await ffmpeg.mount(FFFSType.WORKERFS, { blobs: [{ name: 'source', data: file }] }, INPUT_DIR);
+    media.addEventListener('seeking', onSeeking);
+
+    try {
+      const duration = await readDuration(ffmpeg);
+      if (cancelled) return;
+      if (!duration) throw new Error('Could not read the duration');
+      mediaSource.duration = duration;
+      const buffer = mediaSource.addSourceBuffer(plan.mimeType);
+      let chunkStart = 0;
+      const onChunkProgress = ({ progress }: { progress: number }) =>
+        onProgress(Math.min(1, (chunkStart + progress * CHUNK_SECONDS) / duration));
+      ffmpeg.on('progress', onChunkProgress);
+
+      try {
+        while (!cancelled) {
+          if (next >= duration) {
+            if (mediaSource.readyState === 'open') mediaSource.endOfStream();
+            onProgress(1);
+            // Evicted ranges are converted again if the user seeks back
+            await waitForRoom(true);
+            continue;
+          }
+          await waitForRoom(false);
+          if (cancelled) break;
+
+          chunkStart = next;
+          await ffmpeg.exec(chunkArgs(plan, chunkStart));
+          const data = await ffmpeg.readFile(OUTPUT_PATH);
+          await ffmpeg.deleteFile(OUTPUT_PATH);
+          if (cancelled || typeof data === 'string') break;
+
+          const behind = media.currentTime - BUFFER_BEHIND_SECONDS;
+          if (behind > 0 && media.buffered.length && media.buffered.start(0) < behind) {
+            await whenUpdated(buffer, () => buffer.remove(0, behind));
+          }
+          await whenUpdated(buffer, () => buffer.appendBuffer(data));
+          // A seek during the run has already moved `next` elsewhere
+          if (next === chunkStart) next = chunkStart + CHUNK_SECONDS;
+        }
+      } finally {
+        ffmpeg.off('progress', onChunkProgress);
+      }
+    } finally {
+      media.removeEventListener('seeking', onSeeking);
+      if (!cancelled) await ffmpeg.unmount(INPUT_DIR).catch(() => {});
+    }
+  };
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    wake?.();
+    terminateFFmpeg();
+    URL.revokeObjectURL(url);
+    if (cancelActive === cancel) cancelActive = null;
+  };
+  cancelActive = cancel;
+
+  const done = run().finally(() => {
+    if (cancelActive === cancel) cancelActive = null;
+  });
+  return { url, done, cancel };
+};
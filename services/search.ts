@@ -0,0 +1,115 @@
+import { ListPreferences, SizeFilter, VideoFile, WatchProgress } from '../types';
+import { STORES, idbGet, idbPut } from './db';
+import { getVideoProgress } from './progress';
+
+export const DEFAULT_LIST_PREFERENCES: ListPreferences = {
+  sortKey: 'name',
+  sortDescending: false,
+  containers: [],
+  watch: 'all',
+  size: 'all'
+};
+
+const MB = 1024 * 1024;
+
+export const SIZE_RANGES: Record<Exclude<SizeFilter, 'all'>, [number, number]> = {
+  small: [0, 100 * MB],
+  medium: [100 * MB, 1024 * MB],
+  large: [1024 * MB, Infinity]
+};
+
+export interface SearchMatch {
+  field: 'name' | 'folderName' | 'relativePath';
+  // Character positions in that field that matched the query
+  indices: number[];
+  score: number;
+}
+
+const FIELD_WEIGHTS: [SearchMatch['field'], number][] = [
+  ['name', 3],
+  ['folderName', 2],
+  ['relativePath', 1]
+];
+
+const isWordStart = (text: string, i: number) => i === 0 || /[\s\-_./()[\]]/.test(text[i - 1]);
+
+// Subsequence match: every query character must appear in order. Runs of
+// consecutive characters and matches at word starts score higher.
+const fuzzyMatch = (query: string, text: string) => {
+  const lower = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const ch of query) {
+    if (ch === ' ') continue;
+    const i = lower.indexOf(ch, from);
+    if (i === -1) return null;
+    score += 1;
+    if (indices.length && indices[indices.length - 1] === i - 1) score += 2;
+    if (isWordStart(text, i)) score += 1;
+    indices.push(i);
+    from = i + 1;
+  }
+  return { indices, score };
+};
+
+export const searchVideo = (video: VideoFile, query: string): SearchMatch | null => {
+  const q = query.trim().toLowerCase();
+  if (!q) return null;
+  let best: SearchMatch | null = null;
+  for (const [field, weight] of FIELD_WEIGHTS) {
+    const match = fuzzyMatch(q, video[field]);
+    if (match && (!best || match.score * weight > best.score)) {
+      best = { field, indices: match.indices, score: match.score * weight };
+    }
+  }
+  return best;
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Natural order, so "Ep 2" sorts before "Ep 10"
+export const naturalCompare = (a: string, b: string) => collator.compare(a, b);
+
+export const containerOf = (video: VideoFile) => {
+  const dot = video.name.lastIndexOf('.');
+  return dot === -1 ? video.type.split('/')[1] ?? '' : video.name.slice(dot + 1).toLowerCase();
+};
+
+const watchStateOf = (progress: Record<string, WatchProgress>, video: VideoFile) => {
+  const record = getVideoProgress(progress, video);
+  if (!record) return 'unwatched';
+  return record.completed ? 'watched' : 'in-progress';
+};
+
+export const applyListPreferences = (
+  videos: VideoFile[],
+  prefs: ListPreferences,
+  progress: Record<string, WatchProgress>
+) => {
+  const filtered = videos.filter(video => {
+    if (prefs.containers.length && !prefs.containers.includes(containerOf(video))) return false;
+    if (prefs.watch !== 'all' && watchStateOf(progress, video) !== prefs.watch) return false;
+    if (prefs.size !== 'all') {
+      const [min, max] = SIZE_RANGES[prefs.size];
+      if (video.bytes < min || video.bytes >= max) return false;
+    }
+    return true;
+  });
+
+  const compare = (a: VideoFile, b: VideoFile) => {
+    switch (prefs.sortKey) {
+      case 'date': return a.lastModified - b.lastModified;
+      case 'size': return a.bytes - b.bytes;
+      case 'duration': return (a.duration ?? 0) - (b.duration ?? 0);
+      default: return naturalCompare(a.name, b.name);
+    }
+  };
+  return filtered.sort((a, b) => (prefs.sortDescending ? -1 : 1) * compare(a, b));
+};
+
+export const loadListPreferences = async (view: string) =>
+  ({ ...DEFAULT_LIST_PREFERENCES, ...(await idbGet<ListPreferences>(STORES.preferences, `list:${view}`)) });
+
+export const saveListPreferences = (view: string, prefs: ListPreferences) =>
+  idbPut(STORES.preferences, `list:${view}`, prefs);
@@ -0,0 +1,190 @@
+import {
+  AppSettings, AspectRatio, FileChange, GestureSettings, Language, OverridableSetting, OverrideScope,
+  SettingsOverride, SettingsSnapshot, VideoFile
+} from '../types';
+import { STORES, idbGet, idbPut } from './db';
+import { DEFAULT_KEYMAP } from './keymap';
+import { DEFAULT_SUBTITLE_STYLE } from './subtitles';
+import { DEFAULT_AUDIO_SETTINGS, EQ_BANDS, EQ_PRESETS } from './audio';
+import { folderOf, videoIdentity } from './library';
+import { isAspectMode, normalizeRatio } from './aspect';
+
+// Bump whenever a stored setting is renamed or changes shape, and add a
+// migration from the previous version below.
+export const SETTINGS_VERSION = 1;
+
+export const LANGUAGES: Language[] = ['bn', 'en'];
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+// The speed keys and the +/- buttons move in finer steps between these
+export const MIN_PLAYBACK_SPEED = 0.25;
+export const MAX_PLAYBACK_SPEED = 4;
+const PLAYBACK_SPEED_STEP = 0.1;
+
+// Next speed on the fine grid, so 0.25 goes up to 0.3 rather than 0.35
+export const stepPlaybackSpeed = (speed: number, direction: 1 | -1) => {
+  const steps = speed / PLAYBACK_SPEED_STEP;
+  const next = (direction > 0 ? Math.floor(steps + 1e-6) + 1 : Math.ceil(steps - 1e-6) - 1) * PLAYBACK_SPEED_STEP;
+  return Math.round(Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, next)) * 100) / 100;
+};
+
+export const SKIP_INTERVALS = [5, 10, 15, 30];
+
+export const DEFAULT_GESTURE_SETTINGS: GestureSettings = {
+  enabled: true,
+  swipeThresholdPx: 16,
+  seekSecondsPerWidth: 90,
+  doubleTapMs: 300
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  playbackSpeed: 1,
+  aspectRatio: AspectRatio.FIT,
+  customAspectRatios: [],
+  volume: 1,
+  brightness: 100,
+  skipSeconds: 10,
+  autoplayNext: true,
+  subtitleStyle: DEFAULT_SUBTITLE_STYLE,
+  audio: DEFAULT_AUDIO_SETTINGS,
+  language: 'bn',
+  gestures: DEFAULT_GESTURE_SETTINGS,
+  keymap: DEFAULT_KEYMAP,
+  trackHistory: true
+};
+
+export const OVERRIDABLE_SETTINGS: OverridableSetting[] = [
+  'playbackSpeed', 'aspectRatio', 'volume', 'brightness', 'skipSeconds', 'autoplayNext'
+];
+
+export const DEFAULT_SNAPSHOT: SettingsSnapshot = {
+  version: SETTINGS_VERSION,
+  defaults: DEFAULT_SETTINGS,
+  overrides: {}
+};
+
+const SNAPSHOT_KEY = 'current';
+
+type SettingsData = Record<string, unknown>;
+
+// Each entry upgrades data of version N to N + 1. Version 1 is the first
+// one ever stored, so there is nothing to upgrade yet.
+const MIGRATIONS: Record<number, (data: SettingsData) => SettingsData> = {};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Keeps only the keys `defaults` knows about, and only when the value has
+// the same shape, so a hand-edited or partial file can't break the player.
+const sanitize = <T>(defaults: T, value: unknown): T => {
+  if (isPlainObject(defaults)) {
+    if (!isPlainObject(value)) return defaults;
+    const result: Record<string, unknown> = { ...defaults };
+    Object.keys(defaults).forEach(key => {
+      if (key in value) result[key] = sanitize(defaults[key], value[key]);
+    });
+    return result as T;
+  }
+  if (Array.isArray(defaults)) {
+    const itemType = defaults.length ? typeof defaults[0] : 'string';
+    return Array.isArray(value) && value.every(item => typeof item === itemType) ? value as T : defaults;
+  }
+  return typeof value === typeof defaults ? value as T : defaults;
+};
+
+const sanitizeDefaults = (value: unknown): AppSettings => {
+  const settings = sanitize(DEFAULT_SETTINGS, value);
+  if (!isAspectMode(settings.aspectRatio)) settings.aspectRatio = DEFAULT_SETTINGS.aspectRatio;
+  settings.customAspectRatios = [...new Set(settings.customAspectRatios.map(normalizeRatio).filter(ratio => ratio !== null))];
+  if (!(settings.playbackSpeed >= MIN_PLAYBACK_SPEED && settings.playbackSpeed <= MAX_PLAYBACK_SPEED)) {
+    settings.playbackSpeed = DEFAULT_SETTINGS.playbackSpeed;
+  }
+  if (!LANGUAGES.includes(settings.language)) settings.language = DEFAULT_SETTINGS.language;
+  if (settings.audio.eqGains.length !== EQ_BANDS.length) settings.audio = { ...settings.audio, eqGains: DEFAULT_SETTINGS.audio.eqGains };
+  if (settings.audio.eqPreset !== 'custom' && !(settings.audio.eqPreset in EQ_PRESETS)) {
+    settings.audio = { ...settings.audio, eqPreset: 'custom' };
+  }
+  return settings;
+};
+
+const sanitizeOverride = (value: unknown): SettingsOverride => {
+  if (!isPlainObject(value)) return {};
+  const known = sanitizeDefaults(value);
+  const override: SettingsOverride = {};
+  OVERRIDABLE_SETTINGS.forEach(key => {
+    if (key in value && known[key] === value[key]) (override as Record<string, unknown>)[key] = known[key];
+  });
+  return override;
+};
+
+export const migrateSettings = (raw: unknown): SettingsSnapshot => {
+  if (!isPlainObject(raw)) throw new Error('Settings must be a JSON object');
+  let data: SettingsData = raw;
+  let version = typeof data.version === 'number' ? data.version : SETTINGS_VERSION;
+  if (version > SETTINGS_VERSION) throw new Error(`Settings version ${version} is newer than this app supports`);
+  while (version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Settings version ${version} is not supported`);
+    data = migrate(data);
+    version++;
+  }
+
+  const overrides: Record<string, SettingsOverride> = {};
+  if (isPlainObject(data.overrides)) {
+    Object.entries(data.overrides).forEach(([key, value]) => {
+      const override = sanitizeOverride(value);
+      if (Object.keys(override).length) overrides[key] = override;
+    });
+  }
+  return { version: SETTINGS_VERSION, defaults: sanitizeDefaults(data.defaults), overrides };
+};
+
+export const loadSettings = async () => {
+  const stored = await idbGet<unknown>(STORES.settings, SNAPSHOT_KEY);
+  return stored ? migrateSettings(stored) : DEFAULT_SNAPSHOT;
+};
+
+export const saveSettings = (snapshot: SettingsSnapshot) =>
+  idbPut(STORES.settings, SNAPSHOT_KEY, snapshot);
+
+// Folder overrides follow the directory, video overrides follow the file
+// across rescans just like watch progress does.
+export const overrideKey = (scope: OverrideScope, video: VideoFile) =>
+  scope === 'folder' ? `folder:${folderOf(video)}` : `video:${videoIdentity(video)}`;
+
+export const resolveSettings = (snapshot: SettingsSnapshot, video?: VideoFile): AppSettings => {
+  if (!video) return snapshot.defaults;
+  return {
+    ...snapshot.defaults,
+    ...snapshot.overrides[overrideKey('folder', video)],
+    ...snapshot.overrides[overrideKey('video', video)]
+  };
+};
+
+export const withOverride = (snapshot: SettingsSnapshot, key: string, override: SettingsOverride): SettingsSnapshot => {
+  const overrides = { ...snapshot.overrides };
+  if (Object.keys(override).length) overrides[key] = override;
+  else delete overrides[key];
+  return { ...snapshot, overrides };
+};
+
+// Overrides stay with files that were renamed or moved, and folder ones
+// with a folder that was renamed
+export const moveOverrides = (snapshot: SettingsSnapshot, change: FileChange): SettingsSnapshot => {
+  const overrides = { ...snapshot.overrides };
+  const scopes: OverrideScope[] = change.folder ? ['video', 'folder'] : ['video'];
+  change.before.forEach((video, i) => scopes.forEach(scope => {
+    const from = overrideKey(scope, video);
+    const to = overrideKey(scope, change.after[i]);
+    if (from === to || !overrides[from]) return;
+    overrides[to] = overrides[from];
+    delete overrides[from];
+  }));
+  return { ...snapshot, overrides };
+};
+
+export const exportSettings = (snapshot: SettingsSnapshot) =>
+  JSON.stringify({ ...snapshot, version: SETTINGS_VERSION }, null, 2);
+
+export const importSettings = (source: string) => migrateSettings(JSON.parse(source));
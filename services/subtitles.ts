@@ -0,0 +1,117 @@
+import { SubtitleCue, SubtitleStyle, SubtitleTrack, VideoFile } from '../types';
+import type { ScannedFile } from './library';
+import { stripExtension } from '../utils/format';
+
+export const SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa'];
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontSize: 24,
+  color: '#ffffff',
+  backgroundOpacity: 0.5
+};
+
+// Subtitle files found next to each video, by video id. Like the video Files
+// themselves these only live for the session and are rebuilt on rescan.
+const subtitleFiles = new Map<string, File[]>();
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+const directoryOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+export const isSubtitleFile = (file: File) => SUBTITLE_EXTENSIONS.includes(extensionOf(file.name));
+
+export const getSubtitleFiles = (videoId: string) => subtitleFiles.get(videoId) ?? [];
+
+// Pairs subtitles with videos in the same directory that share a base name.
+// "Movie.srt" and "Movie.en.srt" both belong to "Movie.mkv".
+export const matchSubtitles = (videos: VideoFile[], subtitles: ScannedFile[]) => {
+  videos.forEach(video => {
+    const dir = directoryOf(video.relativePath);
+    const base = stripExtension(video.name).toLowerCase();
+    const matches = subtitles.filter(({ file, relativePath }) => {
+      if (directoryOf(relativePath) !== dir) return false;
+      const subBase = stripExtension(file.name).toLowerCase();
+      return subBase === base || subBase.startsWith(base + '.');
+    });
+    if (matches.length) subtitleFiles.set(video.id, matches.map(m => m.file));
+    else subtitleFiles.delete(video.id);
+  });
+};
+
+// Handles the BOMs that Windows subtitle editors like to write.
+const decode = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+};
+
+// Accepts "01:02:03,456", "02:03.456" and ASS-style "1:02:03.45".
+const parseTimestamp = (value: string) => {
+  const parts = value.trim().replace(',', '.').split(':');
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+const cleanText = (text: string) => text.replace(/<[^>]+>/g, '').trim();
+
+const parseSrtOrVtt = (source: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  source.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) return;
+    const [start, rest] = lines[timingIndex].split('-->');
+    // VTT cue settings follow the end time after a space
+    const end = rest.trim().split(/\s+/)[0];
+    const text = cleanText(lines.slice(timingIndex + 1).join('\n'));
+    if (text) cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text });
+  });
+  return cues;
+};
+
+const parseAss = (source: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let format: string[] = [];
+  let inEvents = false;
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+    if (line.startsWith('Format:')) {
+      format = line.slice(7).split(',').map(f => f.trim().toLowerCase());
+      return;
+    }
+    if (!line.startsWith('Dialogue:') || format.length === 0) return;
+
+    // Text is the last field and may itself contain commas
+    const fields = line.slice(9).split(',');
+    const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')];
+    const field = (name: string) => values[format.indexOf(name)] ?? '';
+    const text = field('text')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\N/gi, '\n')
+      .replace(/\\h/g, ' ')
+      .trim();
+    if (text) cues.push({ start: parseTimestamp(field('start')), end: parseTimestamp(field('end')), text });
+  });
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const parseSubtitles = (source: string, fileName: string): SubtitleCue[] => {
+  const ext = extensionOf(fileName);
+  return ext === 'ass' || ext === 'ssa' ? parseAss(source) : parseSrtOrVtt(source);
+};
+
+export const loadSubtitleTrack = async (file: File): Promise<SubtitleTrack> => ({
+  id: `${file.name}:${file.size}:${file.lastModified}`,
+  label: file.name,
+  cues: parseSubtitles(decode(await file.arrayBuffer()), file.name)
+});
+
+// Cues active at `time`; more than one can overlap.
+export const activeCues = (cues: SubtitleCue[], time: number) =>
+  cues.filter(cue => time >= cue.start && time <= cue.end);
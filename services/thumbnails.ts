@@ -0,0 +1,131 @@
+import { ThumbnailEntry, VideoFile } from '../types';
+import { STORES, idbGetAll, idbPut } from './db';
+import { videoIdentity } from './library';
+import { getRegisteredFile } from './objectUrls';
+import { createFrameReader, disposeFrameReader, seekTo, waitForEvent } from '../utils/media';
+
+const THUMBNAIL_WIDTH = 320;
+const JPEG_QUALITY = 0.7;
+// Files that never finish loading (or seeking) are given up on after this
+const CAPTURE_TIMEOUT_MS = 15000;
+// Pause between files so a large import doesn't starve the UI
+const IDLE_TIMEOUT_MS = 200;
+
+type ThumbnailListener = (videoId: string, entry: ThumbnailEntry) => void;
+
+const cache = new Map<string, ThumbnailEntry>();
+let cacheLoaded: Promise<void> | null = null;
+
+const queue: VideoFile[] = [];
+const queued = new Set<string>();
+let running = false;
+
+export const ensureThumbnailCache = () => {
+  if (!cacheLoaded) {
+    cacheLoaded = idbGetAll<ThumbnailEntry & { identity: string }>(STORES.thumbnails)
+      .then(records => records.forEach(({ identity, ...entry }) => cache.set(identity, entry)))
+      .catch(err => console.error('Failed to load thumbnail cache:', err));
+  }
+  return cacheLoaded;
+};
+
+// Thumbnails of hidden videos can only be read while the private folder
+// is unlocked
+export const refreshThumbnailCache = () => {
+  cacheLoaded = null;
+  return ensureThumbnailCache();
+};
+
+export const withThumbnails = (videos: VideoFile[]) => videos.map(video => {
+  const entry = cache.get(videoIdentity(video));
+  return entry ? { ...video, duration: entry.duration, thumbnail: entry.thumbnail ?? undefined } : video;
+});
+
+// Keeps the cached entry with a file that was renamed or moved; the stored
+// record is moved along with the rest of its data by services/fileActions
+export const renameThumbnail = (from: string, to: string) => {
+  const entry = cache.get(from);
+  if (!entry) return;
+  cache.delete(from);
+  cache.set(to, entry);
+};
+
+const idle = () => new Promise<void>(resolve => {
+  if ('requestIdleCallback' in window) window.requestIdleCallback(() => resolve(), { timeout: IDLE_TIMEOUT_MS });
+  else setTimeout(resolve, IDLE_TIMEOUT_MS);
+});
+
+// Seeks a detached <video> to a frame ~10% in (past most intros and black
+// leaders) and draws it onto a canvas.
+const capture = async (file: File): Promise<ThumbnailEntry> => {
+  const url = URL.createObjectURL(file);
+  const el = createFrameReader(url);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const work = (async () => {
+      await waitForEvent(el, 'loadedmetadata');
+      const duration = isFinite(el.duration) ? el.duration : 0;
+      if (!el.videoWidth) return { duration, thumbnail: null };
+
+      await seekTo(el, Math.min(duration * 0.1, Math.max(0, duration - 1)));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.round(THUMBNAIL_WIDTH * el.videoHeight / el.videoWidth);
+      canvas.getContext('2d')?.drawImage(el, 0, 0, canvas.width, canvas.height);
+      return { duration, thumbnail: canvas.toDataURL('image/jpeg', JPEG_QUALITY) };
+    })();
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Thumbnail capture timed out')), CAPTURE_TIMEOUT_MS);
+    });
+    return await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+    disposeFrameReader(el);
+    URL.revokeObjectURL(url);
+  }
+};
+
+const processQueue = async (onReady: ThumbnailListener) => {
+  if (running) return;
+  running = true;
+  await ensureThumbnailCache();
+
+  while (queue.length) {
+    const video = queue.shift()!;
+    queued.delete(video.id);
+    const identity = videoIdentity(video);
+    let entry = cache.get(identity);
+
+    if (!entry) {
+      const file = getRegisteredFile(video.id);
+      if (!file) continue;
+      try {
+        entry = await capture(file);
+      } catch (err) {
+        console.warn(`Thumbnail failed for ${video.name}:`, err);
+        // Remember the failure so the file isn't retried on every launch
+        entry = { duration: 0, thumbnail: null };
+      }
+      cache.set(identity, entry);
+      idbPut(STORES.thumbnails, identity, { identity, ...entry })
+        .catch(err => console.error('Failed to cache thumbnail:', err));
+      await idle();
+    }
+    onReady(video.id, entry);
+  }
+
+  running = false;
+};
+
+// Queues thumbnails and durations for every video that doesn't have one yet.
+export const queueThumbnails = (videos: VideoFile[], onReady: ThumbnailListener) => {
+  videos.forEach(video => {
+    if (video.thumbnail || video.duration || queued.has(video.id)) return;
+    if (!getRegisteredFile(video.id)) return;
+    queued.add(video.id);
+    queue.push(video);
+  });
+  processQueue(onReady);
+};
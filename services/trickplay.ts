@@ -0,0 +1,67 @@
+import { TrickplaySprite, VideoFile } from '../types';
+import { STORES, idbGet, idbPut } from './db';
+import { videoIdentity } from './library';
+import { getRegisteredFile } from './objectUrls';
+import { createFrameReader, disposeFrameReader, seekTo, waitForEvent } from '../utils/media';
+
+const MIN_INTERVAL_SECONDS = 10;
+// Long films get a wider interval instead of an enormous sprite
+const MAX_FRAMES = 200;
+const TILE_WIDTH = 160;
+const COLUMNS = 10;
+const JPEG_QUALITY = 0.6;
+
+export const loadTrickplay = (video: VideoFile) =>
+  idbGet<TrickplaySprite>(STORES.trickplay, videoIdentity(video));
+
+// Steps a detached <video> through the file and paints one tile per
+// interval. Runs alongside playback, so it checks `signal` between frames.
+export const generateTrickplay = async (video: VideoFile, signal: AbortSignal): Promise<TrickplaySprite | null> => {
+  const file = getRegisteredFile(video.id);
+  const ownUrl = file ? URL.createObjectURL(file) : null;
+  const src = ownUrl ?? video.url;
+  if (!src) return null;
+  const el = createFrameReader(src);
+
+  try {
+    await waitForEvent(el, 'loadedmetadata');
+    if (!el.videoWidth || !isFinite(el.duration) || el.duration <= 0) return null;
+
+    const interval = Math.max(MIN_INTERVAL_SECONDS, Math.ceil(el.duration / MAX_FRAMES));
+    const count = Math.max(1, Math.floor(el.duration / interval));
+    const tileWidth = TILE_WIDTH;
+    const tileHeight = Math.round(TILE_WIDTH * el.videoHeight / el.videoWidth);
+    const columns = Math.min(COLUMNS, count);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = columns * tileWidth;
+    canvas.height = Math.ceil(count / columns) * tileHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    for (let i = 0; i < count; i++) {
+      if (signal.aborted) return null;
+      await seekTo(el, i * interval);
+      ctx.drawImage(el, (i % columns) * tileWidth, Math.floor(i / columns) * tileHeight, tileWidth, tileHeight);
+    }
+
+    const image = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!image || signal.aborted) return null;
+
+    const sprite: TrickplaySprite = { interval, count, columns, tileWidth, tileHeight, image };
+    await idbPut(STORES.trickplay, videoIdentity(video), sprite);
+    return sprite;
+  } finally {
+    disposeFrameReader(el);
+    if (ownUrl) URL.revokeObjectURL(ownUrl);
+  }
+};
+
+// Position of the tile for `time` inside the sprite image
+export const tileFor = (sprite: TrickplaySprite, time: number) => {
+  const index = Math.min(sprite.count - 1, Math.max(0, Math.floor(time / sprite.interval)));
+  return {
+    x: (index % sprite.columns) * sprite.tileWidth,
+    y: Math.floor(index / sprite.columns) * sprite.tileHeight
+  };
+};
@@ -0,0 +1,458 @@
+import { FileChange, HistoryEvent, VideoFile } from '../types';
+import { FolderNode } from './folders';
+import {
+  STORES, StoreName, idbDelete, idbDeleteMany, idbGet, idbGetAll, idbPut, idbPutMany, setRecordOverlay
+} from './db';
+import { setHoldNewFiles, videoIdentity } from './library';
+import { locationOf } from './fileActions';
+
+// The private folder: videos and folders hidden from the library behind a
+// PIN. What is hidden, and everything kept about hidden videos (their
+// library entries, watch history, progress, bookmarks, thumbnails and the
+// rest), is stored encrypted with an AES-GCM key, under row keys made with
+// an HMAC key. Both come from the PIN by PBKDF2 and only live in memory
+// while unlocked, so the database doesn't tell which files are hidden.
+// The files stay where they are on disk, and a scan while locked can't
+// tell hidden ones from new ones, so new files wait for the next unlock.
+// Playlists and folder settings that name hidden files are not covered.
+// This is unrelated to the player's touch lock.
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 12;
+
+// Minutes without any input before locking again; 0 never locks
+export const AUTO_LOCK_CHOICES = [0, 1, 5, 15, 60];
+
+const PBKDF2_ITERATIONS = 310_000;
+const RECORD_KEY = 'vault';
+// Keys of the encrypted records kept for hidden videos
+const ROW_PREFIX = 'row:';
+
+// Stores whose records of hidden videos are kept here: the library's
+// entries by id, the rest by identity. Trickplay sprites are images and
+// are left out rather than encrypted; they are made again while playing.
+const ENCRYPTED_STORES: StoreName[] = [
+  STORES.videos, STORES.progress, STORES.thumbnails, STORES.probes, STORES.bookmarks, STORES.adjustments
+];
+const DROPPED_STORES: StoreName[] = [STORES.trickplay];
+
+export interface VaultOptions {
+  autoLockMinutes: number;
+  // Locking hides the whole app rather than just the hidden items
+  lockOnStart: boolean;
+}
+
+export const DEFAULT_VAULT_OPTIONS: VaultOptions = { autoLockMinutes: 5, lockOnStart: false };
+
+export interface HiddenEntry {
+  kind: 'video' | 'folder';
+  // videoIdentity() for videos, the folder tree key for folders
+  key: string;
+  name: string;
+}
+
+interface VaultContents {
+  hidden: HiddenEntry[];
+  history: HistoryEvent[];
+  // Ids and identities of the hidden videos, whose records are kept here
+  keys: string[];
+}
+
+interface Sealed {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface VaultRecord extends Sealed {
+  salt: Uint8Array;
+  iterations: number;
+  options: VaultOptions;
+}
+
+// One record of a hidden video; `data` holds its key and value
+interface PrivateRow extends Sealed {
+  store: StoreName;
+}
+
+let record: VaultRecord | null = null;
+let session: { key: CryptoKey; hmac: CryptoKey; contents: VaultContents } | null = null;
+// The entry ids and record keys hidden when last unlocked, kept in memory
+// only. The library still holds hidden videos for a moment after locking,
+// until it has loaded again, and they must stay out of sight and out of
+// the plain stores meanwhile.
+let lastHidden = new Set<string>();
+let lastKeys = new Set<string>();
+const rowKeys = new Map<string, string>();
+
+const encoder = new TextEncoder();
+
+export const supportsVault = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const isValidPin = (pin: string) =>
+  new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+
+// PBKDF2 runs once; the encryption and row keys are expanded from its
+// output by HKDF, so one can't be worked out from the other
+const deriveKeys = async (pin: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  const master = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey']);
+  const expand = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(info) },
+      master,
+      algorithm,
+      false,
+      usages
+    );
+  const [key, hmac] = await Promise.all([
+    expand('vault:encrypt', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+    expand('vault:rows', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign'])
+  ]);
+  return { key, hmac };
+};
+
+// Each value is encrypted under a fresh IV
+const encrypt = async (key: CryptoKey, value: unknown): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(value)));
+  return { iv, data };
+};
+
+const decrypt = async <T>(key: CryptoKey, { iv, data }: Sealed) =>
+  JSON.parse(new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data))) as T;
+
+const entryId = ({ kind, key }: Pick<HiddenEntry, 'kind' | 'key'>) => `${kind}:${key}`;
+
+const remember = (contents: VaultContents) => {
+  lastHidden = new Set(contents.hidden.map(entryId));
+  lastKeys = new Set(contents.keys);
+};
+
+const signRow = async (hmac: CryptoKey, store: StoreName, key: IDBValidKey) => {
+  const mac = await crypto.subtle.sign('HMAC', hmac, encoder.encode(`${store}:${String(key)}`));
+  return ROW_PREFIX + Array.from(new Uint8Array(mac), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Only while unlocked
+const rowKey = async (store: StoreName, key: IDBValidKey) => {
+  const id = `${store}:${String(key)}`;
+  const cached = rowKeys.get(id);
+  if (cached) return cached;
+  const signed = await signRow(session!.hmac, store, key);
+  rowKeys.set(id, signed);
+  return signed;
+};
+
+export const videoEntry = (video: VideoFile): HiddenEntry =>
+  ({ kind: 'video', key: videoIdentity(video), name: video.name });
+
+export const folderEntry = ({ key, name }: Pick<FolderNode, 'key' | 'name'>): HiddenEntry =>
+  ({ kind: 'folder', key, name });
+
+// Entry ids that would hide `video`: its own, then each folder it is in
+const coveringIds = (video: VideoFile) => {
+  const { rootId, folders } = locationOf(video);
+  return [
+    entryId(videoEntry(video)),
+    ...folders.map((_, i) => entryId({ kind: 'folder', key: [rootId, ...folders.slice(0, i + 1)].join('/') }))
+  ];
+};
+
+const seal = async () => {
+  if (!record || !session) return;
+  remember(session.contents);
+  record = { ...record, ...(await encrypt(session.key, session.contents)) };
+  await idbPut(STORES.vault, RECORD_KEY, record);
+};
+
+const open = async (pin: string, stored: VaultRecord) => {
+  try {
+    const keys = await deriveKeys(pin, stored.salt, stored.iterations);
+    return { ...keys, contents: await decrypt<VaultContents>(keys.key, stored) };
+  } catch {
+    // GCM fails to authenticate with the wrong key
+    return null;
+  }
+};
+
+const readRow = async (store: StoreName, key: IDBValidKey) => {
+  const row = await idbGet<PrivateRow>(STORES.vault, await rowKey(store, key));
+  return row && (await decrypt<{ value: unknown }>(session!.key, row)).value;
+};
+
+const writeRow = async (store: StoreName, key: IDBValidKey, value: unknown) => {
+  const row: PrivateRow = { store, ...(await encrypt(session!.key, { key, value })) };
+  await idbPut(STORES.vault, await rowKey(store, key), row);
+};
+
+const allRows = async () =>
+  (await idbGetAll<VaultRecord | PrivateRow>(STORES.vault)).filter((row): row is PrivateRow => 'store' in row);
+
+// Records of hidden videos are read and written here. While locked they
+// read as missing, and writes and deletes are dropped: hidden videos don't
+// play then, so only caches like thumbnails are lost, and entries of files
+// that are gone are deleted by the scan after the next unlock.
+setRecordOverlay({
+  stores: [...ENCRYPTED_STORES, ...DROPPED_STORES],
+  covers: async key => lastKeys.has(String(key)),
+  get: async (store, key) => session && !DROPPED_STORES.includes(store) ? readRow(store, key) : undefined,
+  getAll: async store => {
+    if (!session || DROPPED_STORES.includes(store)) return [];
+    const rows = (await allRows()).filter(row => row.store === store);
+    return Promise.all(rows.map(async row => (await decrypt<{ value: unknown }>(session!.key, row)).value));
+  },
+  put: async (store, key, value) => {
+    if (session && !DROPPED_STORES.includes(store)) await writeRow(store, key, value);
+  },
+  delete: async (store, key) => {
+    if (session) await idbDelete(STORES.vault, await rowKey(store, key));
+  },
+  extend: async key => {
+    if (!session || session.contents.keys.includes(String(key))) return;
+    session.contents.keys.push(String(key));
+    await seal();
+  }
+});
+
+// Moves the plain records under `keys` into encrypted rows. They are
+// written before the keys are covered, while the plain ones can still be
+// reached.
+const adopt = async (keys: Set<string>) => {
+  const contents = session!.contents;
+  const fresh = [...keys].filter(key => !contents.keys.includes(key));
+  if (!fresh.length) return;
+  for (const key of fresh) {
+    for (const store of ENCRYPTED_STORES) {
+      const value = await idbGet(store, key);
+      if (value === undefined) continue;
+      await writeRow(store, key, value);
+      await idbDelete(store, key);
+    }
+    for (const store of DROPPED_STORES) await idbDelete(store, key);
+  }
+  contents.keys.push(...fresh);
+  await seal();
+};
+
+// The other way round: once uncovered, the records go back in the clear
+const release = async (keys: Set<string>) => {
+  const contents = session!.contents;
+  const released = contents.keys.filter(key => keys.has(key));
+  if (!released.length) return;
+  contents.keys = contents.keys.filter(key => !keys.has(key));
+  await seal();
+  for (const key of released) {
+    for (const store of ENCRYPTED_STORES) {
+      const value = await readRow(store, key);
+      if (value === undefined) continue;
+      await idbPut(store, key, value);
+      await idbDelete(STORES.vault, await rowKey(store, key));
+    }
+  }
+};
+
+// Null when no PIN has been set
+export const loadVault = async () => {
+  record = (await idbGet<VaultRecord>(STORES.vault, RECORD_KEY)) ?? null;
+  setHoldNewFiles(!!record);
+  return record && { ...DEFAULT_VAULT_OPTIONS, ...record.options };
+};
+
+export const createVault = async (pin: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  record = { salt, iterations: PBKDF2_ITERATIONS, iv: new Uint8Array(0), data: new ArrayBuffer(0), options: DEFAULT_VAULT_OPTIONS };
+  session = { ...(await deriveKeys(pin, salt, PBKDF2_ITERATIONS)), contents: { hidden: [], history: [], keys: [] } };
+  rowKeys.clear();
+  setHoldNewFiles(false);
+  await seal();
+};
+
+export const unlockVault = async (pin: string) => {
+  if (!record) return false;
+  session = await open(pin, record);
+  if (!session) return false;
+  remember(session.contents);
+  setHoldNewFiles(false);
+  return true;
+};
+
+export const lockVault = () => {
+  session = null;
+  rowKeys.clear();
+  setHoldNewFiles(true);
+};
+
+// A new salt as well, so the row keys change with the PIN, and every row
+// is encrypted again under the new key
+export const changePin = async (current: string, next: string) => {
+  const opened = record && (await open(current, record));
+  if (!record || !opened) return false;
+  const contents = session?.contents ?? opened.contents;
+  const rows = await Promise.all((await allRows()).map(async row => {
+    const { key, value } = await decrypt<{ key: IDBValidKey; value: unknown }>(opened.key, row);
+    return { store: row.store, key, value, old: await signRow(opened.hmac, row.store, key) };
+  }));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  record = { ...record, salt, iterations: PBKDF2_ITERATIONS };
+  session = { ...(await deriveKeys(next, salt, PBKDF2_ITERATIONS)), contents };
+  rowKeys.clear();
+  await seal();
+  for (const { store, key, value, old } of rows) {
+    await writeRow(store, key, value);
+    await idbDelete(STORES.vault, old);
+  }
+  return true;
+};
+
+export const setVaultOptions = async (options: VaultOptions) => {
+  if (!record) return;
+  record = { ...record, options };
+  await idbPut(STORES.vault, RECORD_KEY, record);
+};
+
+export const hiddenEntries = () => session?.contents.hidden ?? [];
+
+export interface HiddenMatch {
+  videoIds: Set<string>;
+  // Hidden themselves rather than by a hidden folder
+  directIds: Set<string>;
+  folderKeys: Set<string>;
+}
+
+// Which of `videos` are hidden. While locked, only what was hidden when
+// last unlocked is known, which covers the videos loaded back then; the
+// library doesn't load hidden videos while locked.
+export const findHidden = (videos: VideoFile[]): HiddenMatch => {
+  const videoIds = new Set<string>();
+  const directIds = new Set<string>();
+  const folderKeys = new Set<string>();
+  if (!lastHidden.size) return { videoIds, directIds, folderKeys };
+  for (const video of videos) {
+    const [own, ...folders] = coveringIds(video);
+    if (lastHidden.has(own)) directIds.add(video.id);
+    let hidden = directIds.has(video.id);
+    for (const id of folders) {
+      if (!lastHidden.has(id)) continue;
+      hidden = true;
+      folderKeys.add(id.slice('folder:'.length));
+    }
+    if (hidden) videoIds.add(video.id);
+  }
+  return { videoIds, directIds, folderKeys };
+};
+
+const isCovered = (video: VideoFile) => coveringIds(video).some(id => lastHidden.has(id));
+
+// Moves watch history between the plain log and the encrypted one
+const takePlainHistory = async (keys: Set<string>) => {
+  const events = (await idbGetAll<HistoryEvent>(STORES.history)).filter(e => keys.has(e.identity));
+  session!.contents.history.push(...events);
+  return events;
+};
+
+// The ids and identities of the videos any of `ids` hides
+const keysCovered = (videos: VideoFile[], ids: Set<string>) => new Set(videos
+  .filter(video => coveringIds(video).some(id => ids.has(id)))
+  .flatMap(video => [video.id, videoIdentity(video)]));
+
+// Only while unlocked. Watch history and the other records of what
+// becomes hidden are moved into the encrypted store.
+export const hideEntries = async (entries: HiddenEntry[], videos: VideoFile[]) => {
+  if (!session) return;
+  const known = new Set(session.contents.hidden.map(entryId));
+  session.contents.hidden.push(...entries.filter(entry => !known.has(entryId(entry))));
+  const keys = keysCovered(videos, new Set(entries.map(entryId)));
+  const moved = await takePlainHistory(keys);
+  await seal();
+  await adopt(keys);
+  await idbDeleteMany(STORES.history, moved.map(e => e.id));
+};
+
+// Videos that turned up in a hidden folder since it was hidden
+export const adoptHidden = async (videos: VideoFile[]) => {
+  if (!session) return;
+  await adopt(keysCovered(videos, new Set(session.contents.hidden.map(entryId))));
+};
+
+// Everything goes back in the clear for videos no other entry still hides
+export const unhideEntries = async (entries: HiddenEntry[], videos: VideoFile[]) => {
+  if (!session) return;
+  const removed = new Set(entries.map(entryId));
+  const contents = session.contents;
+  contents.hidden = contents.hidden.filter(entry => !removed.has(entryId(entry)));
+  const stillHidden = keysCovered(videos, new Set(contents.hidden.map(entryId)));
+  const released = new Set([...keysCovered(videos, removed)].filter(key => !stillHidden.has(key)));
+  const back = contents.history.filter(e => released.has(e.identity));
+  contents.history = contents.history.filter(e => !back.includes(e));
+  await idbPutMany(STORES.history, back.map(e => [e.id, e] as [string, HistoryEvent]));
+  await seal();
+  await release(released);
+};
+
+// Hidden entries follow files and folders that were renamed or moved.
+// Their records have already moved to the new identities, see idbMove.
+export const followChange = async (change: FileChange) => {
+  if (!session) return;
+  const renames = new Map(change.before.map((video, i) => [
+    entryId({ kind: 'video', key: videoIdentity(video) }),
+    videoIdentity(change.after[i])
+  ]));
+  const folder = change.folder;
+  const from = folder && [folder.rootId, ...folder.from].join('/');
+  const to = folder && [folder.rootId, ...folder.to].join('/');
+  const contents = session.contents;
+  const kept = new Set(change.after.map(videoIdentity));
+  const gone = new Set(change.before.map(videoIdentity).filter(identity => !kept.has(identity)));
+  const keys = contents.keys.filter(key => !gone.has(key));
+  let changed = keys.length !== contents.keys.length;
+  contents.keys = keys;
+  contents.hidden = contents.hidden.map(entry => {
+    const identity = renames.get(entryId(entry));
+    if (identity) {
+      changed = true;
+      const name = change.after.find(v => videoIdentity(v) === identity)?.name ?? entry.name;
+      return { ...entry, key: identity, name };
+    }
+    if (from && to && entry.kind === 'folder' && (entry.key === from || entry.key.startsWith(`${from}/`))) {
+      changed = true;
+      return { ...entry, key: to + entry.key.slice(from.length), name: entry.key === from ? to.split('/').pop()! : entry.name };
+    }
+    return entry;
+  });
+  if (changed) await seal();
+};
+
+// Hidden videos only play while unlocked, so events recorded while locked
+// (a stop as the player closes) are dropped rather than stored in the clear
+export const recordsPrivately = (video: VideoFile) => isCovered(video);
+
+export const addPrivateHistory = async (event: HistoryEvent) => {
+  if (!session) return;
+  session.contents.history.push(event);
+  await seal();
+};
+
+export const privateHistory = () => session?.contents.history ?? [];
+
+export const clearPrivateHistory = async () => {
+  if (!session) return;
+  session.contents.history = [];
+  await seal();
+};
+
+// Turning the private folder off; only while unlocked. Everything shows
+// again and its records go back in the clear.
+export const removeVault = async () => {
+  if (!session) return;
+  const { history, keys } = session.contents;
+  await idbPutMany(STORES.history, history.map(e => [e.id, e] as [string, HistoryEvent]));
+  await release(new Set(keys));
+  await idbDelete(STORES.vault, RECORD_KEY);
+  record = null;
+  session = null;
+  lastHidden = new Set();
+  lastKeys = new Set();
+  rowKeys.clear();
+  setHoldNewFiles(false);
+};
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import WebSocket from 'ws';
+import { startRelay } from '../scripts/party-relay.mjs';
+import { PartyConnection, RelayMessage, connectParty, correctDrift, isRelayUrl } from './watchParty';
+
+// Like a browser's, reporting failures only through the close event
+class BrowserWebSocket extends WebSocket {
+  constructor(address: string) {
+    super(address);
+    this.on('error', () => {});
+  }
+}
+
+let relay: Server;
+let url: string;
+
+beforeAll(async () => {
+  vi.stubGlobal('WebSocket', BrowserWebSocket);
+  relay = await startRelay({ port: 0, host: '127.0.0.1' });
+  url = `ws://127.0.0.1:${(relay.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise(resolve => relay.close(resolve));
+});
+
+// A connection whose messages and close can be waited for
+const open = (hello: Parameters<typeof connectParty>[1]) => {
+  const messages: RelayMessage[] = [];
+  const listeners = new Set<() => void>();
+  let closedWith: boolean | null = null;
+  const connection = connectParty(url, hello, message => {
+    messages.push(message);
+    listeners.forEach(listener => listener());
+  }, opened => {
+    closedWith = opened;
+    listeners.forEach(listener => listener());
+  });
+  const until = <T>(check: () => T | undefined) => new Promise<T>(resolve => {
+    const listener = () => {
+      const found = check();
+      if (found === undefined) return;
+      listeners.delete(listener);
+      resolve(found);
+    };
+    listeners.add(listener);
+    listener();
+  });
+  const next = <K extends RelayMessage['type']>(type: K) =>
+    until(() => messages.find((m): m is Extract<RelayMessage, { type: K }> => m.type === type));
+  const closed = () => until(() => closedWith ?? undefined);
+  return { connection, next, closed };
+};
+
+describe('connectParty', () => {
+  const connections: PartyConnection[] = [];
+  const track = <T extends { connection: PartyConnection }>(party: T) => {
+    connections.push(party.connection);
+    return party;
+  };
+  afterAll(() => connections.forEach(connection => connection.close()));
+
+  it('hosts and joins a room, and mirrors state and commands', async () => {
+    const host = track(open({ type: 'host' }));
+    const { code } = await host.next('hosted');
+    const guest = track(open({ type: 'join', code }));
+    expect(await guest.next('joined')).toEqual({ type: 'joined', code });
+
+    const state = { media: { name: 'a.mp4', bytes: 10, duration: 60 }, playing: true, position: 12, rate: 1 };
+    host.connection.send({ type: 'state', state });
+    expect(await guest.next('state')).toEqual({ type: 'state', state });
+
+    guest.connection.send({ type: 'command', command: { action: 'seek', position: 30 } });
+    expect(await host.next('command')).toEqual({ type: 'command', command: { action: 'seek', position: 30 } });
+  });
+
+  it('tells guests when the host leaves, and reports a dropped connection as opened', async () => {
+    const host = open({ type: 'host' });
+    const { code } = await host.next('hosted');
+    const guest = track(open({ type: 'join', code }));
+    await guest.next('joined');
+    host.connection.close();
+    expect(await guest.next('closed')).toEqual({ type: 'closed' });
+
+    const late = open({ type: 'join', code });
+    expect(await late.next('error')).toEqual({ type: 'error', reason: 'unknownCode' });
+    // Too big for the relay, which closes the connection
+    const media = { name: 'x'.repeat(70_000), bytes: 1, duration: 1 };
+    late.connection.send({ type: 'state', state: { media, playing: false, position: 0, rate: 1 } });
+    expect(await late.closed()).toBe(true);
+  });
+});
+
+describe('connectParty with a bad address', () => {
+  it('reports a URL without a scheme as unreachable instead of throwing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const onClose = vi.fn();
+    const connection = connectParty('localhost:8787', { type: 'host' }, () => {}, onClose);
+    // Not before connectParty has returned, so callers can tell it apart
+    expect(onClose).not.toHaveBeenCalled();
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalledWith(false));
+    expect(() => connection.send({ type: 'host' })).not.toThrow();
+    expect(() => connection.close()).not.toThrow();
+    warn.mockRestore();
+  });
+
+  it('reports a relay that is not there as unreachable', async () => {
+    const onClose = vi.fn();
+    connectParty('ws://127.0.0.1:1', { type: 'host' }, () => {}, onClose);
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalledWith(false));
+  });
+});
+
+describe('isRelayUrl', () => {
+  it('takes ws:// and wss:// addresses only', () => {
+    expect(isRelayUrl('ws://192.168.1.20:8787')).toBe(true);
+    expect(isRelayUrl('wss://party.example')).toBe(true);
+    expect(isRelayUrl('http://192.168.1.20:8787')).toBe(false);
+    expect(isRelayUrl('192.168.1.20:8787')).toBe(false);
+    expect(isRelayUrl('')).toBe(false);
+  });
+});
+
+describe('correctDrift', () => {
+  it('seeks when far off, nudges the speed when close, and leaves it when in sync', () => {
+    expect(correctDrift(2, 1)).toEqual({ seek: true, rate: 1 });
+    expect(correctDrift(0.05, 1)).toEqual({ seek: false, rate: 1 });
+    expect(correctDrift(0.5, 1).rate).toBeCloseTo(1.05);
+    expect(correctDrift(-0.2, 1).rate).toBeCloseTo(0.98);
+  });
+});
@@ -0,0 +1,147 @@
+import { VideoFile } from '../types';
+
+// Messages exchanged through the relay in scripts/party-relay.mjs; the
+// protocol is described in docs/watch-party.md.
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+// What players match files by, since every machine has its own URLs
+export interface PartyMedia {
+  name: string;
+  bytes: number;
+  duration: number;
+}
+
+// The host's playback as of when it was sent
+export interface PartyState {
+  media: PartyMedia;
+  playing: boolean;
+  position: number;
+  rate: number;
+}
+
+export type PartyCommand =
+  | { action: 'play' }
+  | { action: 'pause' }
+  | { action: 'seek'; position: number }
+  | { action: 'rate'; rate: number }
+  | { action: 'next' }
+  | { action: 'prev' };
+
+// Passed between players as they are
+export type PartyMessage =
+  | { type: 'state'; state: PartyState }
+  | { type: 'command'; command: PartyCommand };
+
+export type ClientMessage = { type: 'host' } | { type: 'join'; code: string } | PartyMessage;
+
+export type RelayError = 'unknownCode' | 'ownRoom' | 'badMessage';
+
+export type RelayMessage =
+  | { type: 'hosted'; code: string }
+  | { type: 'joined'; code: string }
+  // Players in the room, the host included
+  | { type: 'peers'; count: number }
+  // The host left
+  | { type: 'closed' }
+  | { type: 'error'; reason: RelayError }
+  | PartyMessage;
+
+export interface PartyConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+// Durations are read from different decoders, which can disagree a little
+const DURATION_TOLERANCE_SECONDS = 1;
+// Further apart than this, a guest seeks instead of catching up
+const SEEK_DRIFT_SECONDS = 1;
+// Closer than this counts as in sync
+const SYNC_DRIFT_SECONDS = 0.08;
+// Speed change per second of drift, and the most a guest deviates by
+const NUDGE_PER_SECOND = 0.1;
+const MAX_NUDGE = 0.05;
+
+export const defaultRelayUrl = () => `ws://${location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+
+// Only ws:// and wss:// URLs can be opened as a WebSocket
+export const isRelayUrl = (value: string) => {
+  try {
+    return ['ws:', 'wss:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const partyMedia = (video: VideoFile, duration: number): PartyMedia =>
+  ({ name: video.name, bytes: video.bytes, duration });
+
+// Durations only count where both are known; the library fills them in
+// as thumbnails are made
+export const matchesMedia = (media: PartyMedia, video: Pick<VideoFile, 'name' | 'bytes' | 'duration'>) =>
+  media.name === video.name
+  && media.bytes === video.bytes
+  && (!video.duration || !media.duration || Math.abs(video.duration - media.duration) <= DURATION_TOLERANCE_SECONDS);
+
+// Where the host's playhead should be `elapsed` seconds after `state` was received
+export const expectedPosition = (state: PartyState, elapsed: number) =>
+  state.playing ? state.position + elapsed * state.rate : state.position;
+
+// How a guest `drift` seconds behind the host (negative when ahead) gets
+// back in step: by seeking when far off, otherwise by playing slightly
+// faster or slower than the host until it has caught up
+export const correctDrift = (drift: number, rate: number): { seek: boolean; rate: number } => {
+  if (Math.abs(drift) >= SEEK_DRIFT_SECONDS) return { seek: true, rate };
+  if (Math.abs(drift) < SYNC_DRIFT_SECONDS) return { seek: false, rate };
+  const nudge = Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, drift * NUDGE_PER_SECOND));
+  return { seek: false, rate: rate * (1 + nudge) };
+};
+
+// Opens a socket to the relay and sends `hello`, which hosts or joins a
+// room. `onClose` is called once, with whether the socket ever opened,
+// and never before this returns.
+export const connectParty = (
+  url: string,
+  hello: ClientMessage,
+  onMessage: (message: RelayMessage) => void,
+  onClose: (opened: boolean) => void
+): PartyConnection => {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch (err) {
+    // A malformed URL throws right away rather than failing to connect
+    console.warn('Could not open the relay:', err);
+    setTimeout(() => onClose(false));
+    return { send: () => {}, close: () => {} };
+  }
+  let opened = false;
+  let closed = false;
+
+  socket.addEventListener('open', () => {
+    opened = true;
+    socket.send(JSON.stringify(hello));
+  });
+  socket.addEventListener('message', (e: MessageEvent) => {
+    try {
+      onMessage(JSON.parse(e.data));
+    } catch (err) {
+      console.warn('Ignoring a watch-party message:', err);
+    }
+  });
+  socket.addEventListener('close', () => {
+    if (closed) return;
+    closed = true;
+    onClose(opened);
+  });
+
+  return {
+    send: (message) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      socket.close();
+    }
+  };
+};
@@ -1,25 +1,329 @@
-
 export interface VideoFile {
   id: string;
   name: string;
   size: string;
+  bytes: number;
+  // Direct URL for sources that have one. Local files leave this empty and
+  // get a blob URL from services/objectUrls while they are being played.
   url: string;
   type: string;
   lastModified: number;
   folderName: string;
   relativePath: string;
+  rootId?: string;
+  // Network streams that play through the adaptive engine rather than as
+  // a plain URL
+  stream?: StreamKind;
+  // Filled in by the thumbnail worker once it has looked at the file
+  duration?: number;
+  thumbnail?: string;
+}
+
+export type StreamKind = 'hls' | 'dash';
+
+export type ContainerFormat = 'mp4' | 'mov' | 'webm' | 'matroska' | 'mpegts';
+
+// One track as read from the container headers by services/probe
+export interface ProbedTrack {
+  kind: 'video' | 'audio' | 'subtitle';
+  // Human-readable codec name, e.g. "HEVC" or "E-AC-3"
+  codec: string;
+  // RFC 6381 codecs parameter used for support checks; absent for codecs
+  // no browser plays
+  codecString?: string;
+  language?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface MediaProbe {
+  // null when the header matched none of the known containers
+  container: ContainerFormat | null;
+  tracks: ProbedTrack[];
+}
+
+export type PlaybackIssueReason = 'unknownFormat' | 'container' | 'videoCodec' | 'audioCodec' | 'noTracks';
+
+export interface PlaybackIssue {
+  reason: PlaybackIssueReason;
+  // Container or codec name, shown untranslated
+  subject?: string;
+  // False when the file still plays, e.g. a picture with unsupported audio
+  fatal: boolean;
+}
+
+export interface ThumbnailEntry {
+  duration: number;
+  // JPEG data URL; null when the file has no picture to show
+  thumbnail: string | null;
+}
+
+// A grid of evenly spaced frames used for seek-bar previews
+export interface TrickplaySprite {
+  interval: number;
+  count: number;
+  columns: number;
+  tileWidth: number;
+  tileHeight: number;
+  image: Blob;
+}
+
+export interface StorageRoot {
+  id: string;
+  // Shown in the library; starts as the directory's name and can be renamed
+  name: string;
+  handle?: FileSystemDirectoryHandle;
+  // Roots imported without a handle: the directory their relativePaths
+  // start with, so importing it again re-links them
+  folder?: string;
+  addedAt: number;
+}
+
+// What a rename or move did to the library, kept by the app so it can be
+// undone. `before` and `after` pair up entry by entry.
+export interface FileChange {
+  before: VideoFile[];
+  after: VideoFile[];
+  // Set when a whole folder was renamed rather than files moved: its
+  // root and the folder path below the root's own directory
+  folder?: { rootId: string; from: string[]; to: string[] };
 }
 
 export enum AspectRatio {
   FIT = 'Fit',
   STRETCH = 'Stretch',
   CROP = 'Crop',
+  ORIGINAL = '100%',
   SIXTEEN_NINE = '16:9',
-  FOUR_THREE = '4:3'
+  FOUR_THREE = '4:3',
+  TWENTY_ONE_NINE = '21:9',
+  SQUARE = '1:1',
+  CINEMASCOPE = '2.35:1'
 }
 
+// Width to height, e.g. "5:4" or "1.85:1"
+export type CustomAspectRatio = `${number}:${number}`;
+
+// A built-in mode or one of the user's own ratios
+export type AspectMode = AspectRatio | CustomAspectRatio;
+
+export interface GestureSettings {
+  enabled: boolean;
+  // Distance a pointer must travel before a drag counts as a swipe
+  swipeThresholdPx: number;
+  // Seconds a horizontal swipe across the full width seeks by
+  seekSecondsPerWidth: number;
+  doubleTapMs: number;
+}
+
+export type KeyAction =
+  | 'togglePlay'
+  | 'seekBack5'
+  | 'seekForward5'
+  | 'seekBack30'
+  | 'seekForward30'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'speedDown'
+  | 'speedUp'
+  | 'cycleAspectRatio'
+  | 'toggleLock'
+  | 'toggleFullscreen'
+  | 'next'
+  | 'prev'
+  | 'frameForward'
+  | 'frameBack'
+  | 'screenshot'
+  | 'rotate'
+  | 'toggleSubtitles'
+  | 'abLoop'
+  | 'addBookmark'
+  | 'showShortcuts';
+
+// Key combos per action, e.g. "Space", "Shift+ArrowLeft", "?"
+export type Keymap = Record<KeyAction, string[]>;
+
+// Per-session player state, seeded from the resolved AppSettings
 export interface PlayerSettings {
   playbackSpeed: number;
-  aspectRatio: AspectRatio;
+  aspectRatio: AspectMode;
   isLocked: boolean;
 }
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Picture adjustments remembered per video. Brightness isn't one of them:
+// it is an overridable setting, which the brightness gesture also drives.
+export interface VideoAdjustments {
+  // Percent, 100 is unchanged
+  contrast: number;
+  saturation: number;
+  gamma: number;
+  // Degrees
+  hue: number;
+  rotation: Rotation;
+  mirrored: boolean;
+}
+
+// Zoom and pan of the picture. The pan is a fraction of the player size,
+// so it holds across resizes and rotations.
+export interface VideoView {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export type Language = 'bn' | 'en';
+
+export type EqPreset = 'flat' | 'bass' | 'treble' | 'vocal' | 'rock' | 'pop' | 'classical' | 'custom';
+
+export interface AudioSettings {
+  // Gain in dB per band of EQ_BANDS
+  eqGains: number[];
+  eqPreset: EqPreset;
+  // Compresses loud passages so quiet dialogue stays audible
+  nightMode: boolean;
+  mono: boolean;
+}
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// Picked with Intl.PluralRules from the `count` parameter
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+// Text with {name} placeholders, or one variant per plural category
+export type Message = string | PluralMessage;
+
+export interface AppSettings {
+  playbackSpeed: number;
+  aspectRatio: AspectMode;
+  // Added to the aspect cycle after the built-in modes
+  customAspectRatios: CustomAspectRatio[];
+  volume: number;
+  brightness: number;
+  // Seconds a double tap on either edge skips
+  skipSeconds: number;
+  autoplayNext: boolean;
+  subtitleStyle: SubtitleStyle;
+  audio: AudioSettings;
+  language: Language;
+  gestures: GestureSettings;
+  keymap: Keymap;
+  // Keep the local watch history behind the stats view
+  trackHistory: boolean;
+}
+
+export type OverridableSetting = 'playbackSpeed' | 'aspectRatio' | 'volume' | 'brightness' | 'skipSeconds' | 'autoplayNext';
+
+export type SettingsOverride = Partial<Pick<AppSettings, OverridableSetting>>;
+
+export type OverrideScope = 'folder' | 'video';
+
+// What is stored in IndexedDB and written to exported settings files.
+// Overrides are keyed by overrideKey() and applied folder first, then video.
+export interface SettingsSnapshot {
+  version: number;
+  defaults: AppSettings;
+  overrides: Record<string, SettingsOverride>;
+}
+
+export interface WatchProgress {
+  identity: string;
+  position: number;
+  duration: number;
+  updatedAt: number;
+  completed: boolean;
+}
+
+export type HistoryEventKind = 'start' | 'stop' | 'seek' | 'complete';
+
+// One entry of the local watch log kept by services/history
+export interface HistoryEvent {
+  id: string;
+  kind: HistoryEventKind;
+  at: number;
+  // videoIdentity(), with the name and folder as they were at the time
+  identity: string;
+  name: string;
+  folder: string;
+  // Playback position in seconds; where a seek landed
+  position: number;
+  // Seeks only: where it left from
+  from?: number;
+  // Stops only: seconds spent playing since the matching start
+  watched?: number;
+}
+
+export interface Bookmark {
+  id: string;
+  time: number;
+  // May be empty; the time is shown instead
+  label: string;
+  createdAt: number;
+}
+
+// Read from the file's own chapter list (MP4 or Matroska)
+export interface Chapter {
+  start: number;
+  title: string;
+}
+
+// Section played over and over; `b` is null while only A has been set
+export interface LoopRange {
+  a: number;
+  b: number | null;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SubtitleTrack {
+  id: string;
+  label: string;
+  cues: SubtitleCue[];
+}
+
+export interface SubtitleStyle {
+  fontSize: number;
+  color: string;
+  backgroundOpacity: number;
+}
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlayQueue {
+  // Video ids in play order
+  items: string[];
+  position: number;
+  // Order before shuffling, so turning shuffle off restores it
+  unshuffled: string[] | null;
+  repeat: RepeatMode;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  // Library relativePaths, which is also what M3U files reference
+  items: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SortKey = 'name' | 'date' | 'size' | 'duration';
+
+export type WatchFilter = 'all' | 'unwatched' | 'in-progress' | 'watched';
+
+export type SizeFilter = 'all' | 'small' | 'medium' | 'large';
+
+export interface ListPreferences {
+  sortKey: SortKey;
+  sortDescending: boolean;
+  // Lower-case extensions; empty means every container
+  containers: string[];
+  watch: WatchFilter;
+  size: SizeFilter;
+}
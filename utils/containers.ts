@@ -0,0 +1,157 @@
+// Byte-level readers for the container formats the app looks inside:
+// ISO BMFF boxes (MP4, MOV) and EBML elements (Matroska, WebM).
+
+// `moov` boxes are read whole; anything bigger is not worth looking at
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+export const readView = async (file: Blob, start: number, end: number) =>
+  new DataView(await file.slice(start, Math.min(end, file.size)).arrayBuffer());
+
+export const fourcc = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const textDecoder = new TextDecoder();
+
+export const readString = (view: DataView, start: number, end: number) =>
+  textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + start, end - start)).replace(/\0+$/, '');
+
+// --- ISO BMFF ---
+
+export interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+export const readBoxes = (view: DataView, start: number, end: number) => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type: fourcc(view, offset + 4), start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+export const findBox = (view: DataView, parent: Box | undefined, path: string[]): Box | undefined =>
+  path.reduce<Box | undefined>(
+    (box, type) => box && readBoxes(view, box.start, box.end).find(child => child.type === type),
+    parent
+  );
+
+export interface SegmentIndex {
+  timescale: number;
+  earliestTime: number;
+  // From the end of the sidx box to the first referenced byte
+  firstOffset: number;
+  references: { size: number; duration: number }[];
+}
+
+// The segment index (`sidx`) of on-demand DASH files, which says where
+// each fragment starts and how long it plays
+export const readSidx = (view: DataView, box: Box): SegmentIndex => {
+  const version = view.getUint8(box.start);
+  let offset = box.start + 8;
+  const timescale = view.getUint32(offset);
+  offset += 4;
+  const wide = version === 1;
+  const earliestTime = wide ? Number(view.getBigUint64(offset)) : view.getUint32(offset);
+  const firstOffset = wide ? Number(view.getBigUint64(offset + 8)) : view.getUint32(offset + 4);
+  offset += wide ? 16 : 8;
+  const count = view.getUint16(offset + 2);
+  offset += 4;
+  const references: SegmentIndex['references'] = [];
+  for (let i = 0; i < count && offset + 12 <= box.end; i++, offset += 12) {
+    // The top bit marks references to further sidx boxes, which nobody writes
+    references.push({ size: view.getUint32(offset) & 0x7fffffff, duration: view.getUint32(offset + 4) });
+  }
+  return { timescale, earliestTime, firstOffset, references };
+};
+
+// Walks the top-level boxes by their headers alone, since `moov` is often
+// stored after gigabytes of `mdat`.
+export const readMoov = async (file: Blob) => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const head = await readView(file, offset, offset + 16);
+    if (head.byteLength < 8) return null;
+    let size = head.getUint32(0);
+    let header = 8;
+    if (size === 1 && head.byteLength >= 16) {
+      size = Number(head.getBigUint64(8));
+      header = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < header) return null;
+    if (fourcc(head, 4) === 'moov') {
+      return size > MAX_MOOV_BYTES ? null : readView(file, offset + header, offset + size);
+    }
+    offset += size;
+  }
+  return null;
+};
+
+// --- EBML ---
+
+export const EBML_HEADER = 0x1a45dfa3;
+export const MKV_SEGMENT = 0x18538067;
+export const MKV_CLUSTER = 0x1f43b675;
+
+export interface Element {
+  id: number;
+  start: number;
+  end: number;
+}
+
+const vintLength = (first: number) => {
+  for (let length = 1; length <= 8; length++) {
+    if (first & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+};
+
+// Reads the elements between `start` and `end`. Sizes of "unknown" (all
+// ones, used by live-written Segments and Clusters) run to the end.
+export const readElements = (view: DataView, start: number, end: number) => {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const idLength = vintLength(view.getUint8(offset));
+    if (!idLength || offset + idLength >= end) break;
+    let id = 0;
+    for (let i = 0; i < idLength; i++) id = id * 256 + view.getUint8(offset + i);
+    offset += idLength;
+
+    const sizeLength = vintLength(view.getUint8(offset));
+    if (!sizeLength || offset + sizeLength > end) break;
+    let size = view.getUint8(offset) & (0xff >> sizeLength);
+    let unknown = size === (0xff >> sizeLength);
+    for (let i = 1; i < sizeLength; i++) {
+      const byte = view.getUint8(offset + i);
+      size = size * 256 + byte;
+      unknown = unknown && byte === 0xff;
+    }
+    offset += sizeLength;
+
+    const elementEnd = unknown ? end : Math.min(end, offset + size);
+    elements.push({ id, start: offset, end: elementEnd });
+    offset = elementEnd;
+  }
+  return elements;
+};
+
+export const readUint = (view: DataView, element: Element) => {
+  let value = 0;
+  for (let i = element.start; i < element.end; i++) value = value * 256 + view.getUint8(i);
+  return value;
+};
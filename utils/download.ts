@@ -0,0 +1,9 @@
+// Saves `content` as a file through a temporary download link.
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
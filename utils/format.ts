@@ -0,0 +1,4 @@
+export const formatSize = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2) + ' MB';
+
+// "Lecture 1.mp4" → "Lecture 1"
+export const stripExtension = (name: string) => name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
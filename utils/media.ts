@@ -0,0 +1,57 @@
+// Resolves on the next `event` from a media element, rejects on its error.
+export const waitForEvent = (el: HTMLMediaElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(el.error); };
+    const cleanup = () => {
+      el.removeEventListener(event, onEvent);
+      el.removeEventListener('error', onError);
+    };
+    el.addEventListener(event, onEvent);
+    el.addEventListener('error', onError);
+  });
+
+// A detached, muted <video> for reading frames off-screen.
+export const createFrameReader = (src: string) => {
+  const el = document.createElement('video');
+  el.muted = true;
+  el.preload = 'auto';
+  el.playsInline = true;
+  el.crossOrigin = 'anonymous';
+  el.src = src;
+  return el;
+};
+
+export const disposeFrameReader = (el: HTMLVideoElement) => {
+  el.removeAttribute('src');
+  el.load();
+};
+
+export const seekTo = async (el: HTMLVideoElement, time: number) => {
+  el.currentTime = time;
+  await waitForEvent(el, 'seeked');
+};
+
+// Runs one SourceBuffer operation and resolves once it has been applied.
+// appendBuffer throws straight away when the buffer is full.
+export const whenUpdated = (buffer: SourceBuffer, update: () => void) =>
+  new Promise<void>((resolve, reject) => {
+    const onEnd = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('SourceBuffer update failed')); };
+    const cleanup = () => {
+      buffer.removeEventListener('updateend', onEnd);
+      buffer.removeEventListener('error', onError);
+    };
+    buffer.addEventListener('updateend', onEnd);
+    buffer.addEventListener('error', onError);
+    try {
+      update();
+    } catch (err) {
+      cleanup();
+      reject(err);
+    }
+  });
+
+export const isBuffered = (buffered: TimeRanges, time: number) =>
+  Array.from({ length: buffered.length }, (_, i) => i)
+    .some(i => buffered.start(i) <= time && time < buffered.end(i));
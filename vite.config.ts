@@ -1,6 +1,20 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { findUntranslated } from './locales';
+
+// Fails the build when a catalog is missing keys or still holds
+// untranslated text; the dev server only warns.
+const checkTranslations = (): Plugin => ({
+  name: 'check-translations',
+  buildStart() {
+    const problems = findUntranslated();
+    if (problems.length === 0) return;
+    const message = `Untranslated messages:\n  ${problems.join('\n  ')}`;
+    if (this.meta.watchMode) this.warn(message);
+    else this.error(message);
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +23,12 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), checkTranslations()],
+      // ffmpeg.wasm starts its worker from a URL relative to its own module,
+      // which pre-bundling would break
+      optimizeDeps: {
+        exclude: ['@ffmpeg/ffmpeg']
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)